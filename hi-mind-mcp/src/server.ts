@@ -40,6 +40,18 @@ interface HiMindSearchResponse {
 // Configuration - will be used when API integration is implemented
 const API_BASE = process.env.HIMIND_API_BASE || 'http://localhost:3000/api';
 const ORG_ID = process.env.HIMIND_ORG_ID || 'default-org-id';
+// Organization API key; when set it selects the organization instead of HIMIND_ORG_ID
+const API_KEY = process.env.HIMIND_API_KEY;
+
+function buildRequestHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (API_KEY) {
+    headers['x-himind-api-key'] = API_KEY;
+  } else if (process.env.HIMIND_ORG_ID) {
+    headers['x-himind-organization'] = process.env.HIMIND_ORG_ID;
+  }
+  return headers;
+}
 
 // Simple MCP server implementation
 class HiMindMCPServer {
@@ -124,7 +136,7 @@ class HiMindMCPServer {
       
       const response = await fetch(`${API_BASE}/search`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: buildRequestHeaders(),
         body: JSON.stringify({ query })
       });
       
@@ -9,6 +9,8 @@ const nextConfig: NextConfig = {
       config.externals.push({
         '@slack/web-api': '@slack/web-api',
         '@slack/socket-mode': '@slack/socket-mode',
+        // Local embedding model runtime ships native binaries
+        '@huggingface/transformers': '@huggingface/transformers',
       });
     }
     return config;
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createAuthFlowClient } from "@/utils/supabase/server"
+import { setSessionCookies } from "@/lib/auth"
+
+// Identity providers redirect here with a one-time code after an OAuth/OIDC sign-in
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code')
+  const next = request.nextUrl.searchParams.get('next') || '/'
+  // Only ever redirect within the app
+  const destination = next.startsWith('/') && !next.startsWith('//') ? next : '/'
+
+  if (!code) {
+    return NextResponse.redirect(new URL('/login?error=missing_code', request.url))
+  }
+
+  try {
+    const supabase = await createAuthFlowClient()
+    const { data, error } = await supabase.auth.exchangeCodeForSession(code)
+
+    if (error || !data.session) {
+      console.log('🚫 [AUTH] OAuth code exchange failed:', error?.message)
+      return NextResponse.redirect(new URL('/login?error=sign_in_failed', request.url))
+    }
+
+    const response = NextResponse.redirect(new URL(destination, request.url))
+    return setSessionCookies(response, data.session)
+  } catch (error) {
+    console.error('Error completing OAuth sign-in:', error)
+    return NextResponse.redirect(new URL('/login?error=sign_in_failed', request.url))
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { createClient } from "@/utils/supabase/client"
+import { setSessionCookies } from "@/lib/auth"
+
+// Email/password sign-in through Supabase Auth
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { email, password } = body
+
+    if (!email || !password) {
+      return NextResponse.json(
+        { error: 'Email and password are required' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = createClient()
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+
+    if (error || !data.session) {
+      console.log(`🚫 [AUTH] Failed sign-in for ${email}`)
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({
+      success: true,
+      user: { id: data.user.id, email: data.user.email }
+    })
+    return setSessionCookies(response, data.session)
+  } catch (error) {
+    console.error('Error signing in:', error)
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server"
+import { clearSessionCookies } from "@/lib/auth"
+
+export async function POST() {
+  return clearSessionCookies(NextResponse.json({ success: true }))
+}
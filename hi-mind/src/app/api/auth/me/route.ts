@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth"
+
+export const GET = withAuth('read_only', async (_request, auth) => {
+  return NextResponse.json({
+    user: auth.user,
+    organization: auth.organization,
+    role: auth.role,
+    method: auth.method
+  })
+})
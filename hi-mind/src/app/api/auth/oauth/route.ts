@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { Provider } from "@supabase/supabase-js"
+import { createAuthFlowClient } from "@/utils/supabase/server"
+
+// Start an OAuth/OIDC sign-in. `provider` names a provider enabled in Supabase Auth
+// (e.g. keycloak, azure, google); `domain` starts SAML/OIDC SSO for that email domain.
+export async function GET(request: NextRequest) {
+  try {
+    const provider = request.nextUrl.searchParams.get('provider') || process.env.NEXT_PUBLIC_HIMIND_OIDC_PROVIDER
+    const domain = request.nextUrl.searchParams.get('domain')
+    const next = request.nextUrl.searchParams.get('next') || '/'
+    const redirectTo = `${request.nextUrl.origin}/api/auth/callback?next=${encodeURIComponent(next)}`
+
+    const supabase = await createAuthFlowClient()
+
+    if (domain) {
+      const { data, error } = await supabase.auth.signInWithSSO({ domain, options: { redirectTo } })
+      if (error || !data?.url) throw error || new Error('No SSO redirect URL returned')
+      return NextResponse.redirect(data.url)
+    }
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'provider or domain is required' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error } = await supabase.auth.signInWithOAuth({
+      provider: provider as Provider,
+      options: { redirectTo, skipBrowserRedirect: true }
+    })
+    if (error || !data.url) throw error || new Error('No OAuth redirect URL returned')
+
+    return NextResponse.redirect(data.url)
+  } catch (error) {
+    console.error('Error starting OAuth sign-in:', error)
+    return NextResponse.json(
+      { error: 'Failed to start sign-in', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { describeBackfillProgress, getBackfillRun } from '@/lib/backfill-runs'
+import { withAuth } from '@/lib/auth'
+
+export const GET = withAuth('admin', async (
+  request,
+  auth,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const run = await getBackfillRun(id, auth.organization.id)
+    if (!run) {
+      return NextResponse.json({ error: 'Backfill not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      backfill: { ...run, progress: await describeBackfillProgress(run) }
+    })
+  } catch (error) {
+    console.error('❌ [API] Failed to fetch backfill:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch backfill', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
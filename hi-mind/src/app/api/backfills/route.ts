@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { describeBackfillProgress, listBackfillRuns } from '@/lib/backfill-runs'
+import { withAuth } from '@/lib/auth'
+
+export const GET = withAuth('admin', async (request, auth) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Number(searchParams.get('limit')) || 10, 50)
+
+    const runs = await listBackfillRuns(auth.organization.id, limit)
+    const backfills = await Promise.all(
+      runs.map(async run => ({ ...run, progress: await describeBackfillProgress(run) }))
+    )
+
+    return NextResponse.json({
+      success: true,
+      backfills,
+      count: backfills.length
+    })
+  } catch (error) {
+    console.error('❌ [API] Failed to fetch backfills:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch backfills', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
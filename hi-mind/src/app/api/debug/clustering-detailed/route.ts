@@ -1,17 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from 'next/server'
-import { getCurrentOrganization } from '@/lib/organization'
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
 import { getSupabaseClient } from '@/lib/database'
+import { getEmbeddingProvider } from '@/core/providers/embedding-provider'
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function POST(_request: NextRequest) {
+export const POST = withAuth('admin', async (request, auth) => {
   try {
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const supabase = getSupabaseClient(true)
+    const embeddings = getEmbeddingProvider()
     
     // Get knowledge points with embeddings (limited for debugging)
     const { data: knowledgePoints } = await supabase
@@ -23,6 +21,7 @@ export async function POST(_request: NextRequest) {
         knowledge_sources!inner(organization_id, platform, source_type)
       `)
       .eq('knowledge_sources.organization_id', org.id)
+      .eq('embedding_model', embeddings.model)
       .limit(30) // More samples for better clustering
 
     if (!knowledgePoints || knowledgePoints.length < 3) {
@@ -44,7 +43,7 @@ export async function POST(_request: NextRequest) {
           continue
         }
         
-        if (Array.isArray(embedding) && embedding.length === 1536) {
+        if (Array.isArray(embedding) && embedding.length === embeddings.dimensions) {
           validEmbeddings.push(embedding)
           validKnowledgePoints.push(kp)
         }
@@ -81,7 +80,7 @@ export async function POST(_request: NextRequest) {
     console.error('❌ [DEBUG] Detailed clustering failed:', error)
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 })
   }
-}
+})
 
 // Detailed clustering with cluster info
 async function performDetailedClustering(embeddings: number[][], knowledgePoints: Record<string, unknown>[], k: number) {
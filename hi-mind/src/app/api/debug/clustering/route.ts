@@ -1,17 +1,15 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from 'next/server'
-import { getCurrentOrganization } from '@/lib/organization'
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth'
 import { getSupabaseClient } from '@/lib/database'
+import { getEmbeddingProvider } from '@/core/providers/embedding-provider'
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function POST(_request: NextRequest) {
+export const POST = withAuth('admin', async (request, auth) => {
   try {
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const supabase = getSupabaseClient(true)
+    const embeddings = getEmbeddingProvider()
     
     // Get knowledge points with embeddings (limited for debugging)
     const { data: knowledgePoints } = await supabase
@@ -23,6 +21,7 @@ export async function POST(_request: NextRequest) {
         knowledge_sources!inner(organization_id)
       `)
       .eq('knowledge_sources.organization_id', org.id)
+      .eq('embedding_model', embeddings.model)
       .limit(20) // Limit for debugging
 
     console.log(`📊 [DEBUG] Found ${knowledgePoints?.length || 0} knowledge points`)
@@ -57,7 +56,7 @@ export async function POST(_request: NextRequest) {
           continue
         }
         
-        if (Array.isArray(embedding) && embedding.length === 1536) {
+        if (Array.isArray(embedding) && embedding.length === embeddings.dimensions) {
           validEmbeddings.push(embedding)
           validKnowledgePoints.push(kp)
           debugInfo.parsedEmbeddings++
@@ -105,7 +104,7 @@ export async function POST(_request: NextRequest) {
     console.error('❌ [DEBUG] Clustering debug failed:', error)
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 })
   }
-}
+})
 
 // Simple clustering function for debugging
 async function performSimpleClustering(embeddings: number[][], k: number): Promise<number[][]> {
@@ -1,14 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextResponse } from 'next/server'
 import { getSupabaseClient } from '@/lib/database'
-import { getCurrentOrganization } from '@/lib/organization'
+import { withAuth } from '@/lib/auth'
 
-export async function GET() {
+export const GET = withAuth('admin', async (request, auth) => {
   try {
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const supabase = getSupabaseClient(true)
     
@@ -79,4 +76,4 @@ export async function GET() {
     console.error('❌ [DEBUG] Content diversity analysis failed:', error)
     return NextResponse.json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 })
   }
-}
+})
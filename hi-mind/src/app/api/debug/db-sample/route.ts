@@ -1,8 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getSupabaseClient } from '@/lib/database'
+import { withAuth } from '@/lib/auth'
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function GET(_request: NextRequest) {
+export const GET = withAuth('admin', async (_request, auth) => {
   try {
     const supabase = getSupabaseClient(true)
     
@@ -10,6 +10,7 @@ export async function GET(_request: NextRequest) {
     const { data: sources } = await supabase
       .from('knowledge_sources')
       .select('id, platform, author_external_id, content')
+      .eq('organization_id', auth.organization.id)
       .not('author_external_id', 'is', null)
       .eq('platform', 'slack')
       .limit(5)
@@ -26,4 +27,4 @@ export async function GET(_request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,15 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getSupabaseClient } from '@/lib/database'
-import { getCurrentOrganization } from '@/lib/organization'
+import { withAuth } from '@/lib/auth'
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function GET(_request: NextRequest) {
+export const GET = withAuth('admin', async (request, auth) => {
   try {
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const supabase = getSupabaseClient(true)
     
@@ -75,4 +71,4 @@ export async function GET(_request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
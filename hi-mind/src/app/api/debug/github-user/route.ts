@@ -1,7 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { Octokit } from '@octokit/rest'
+import { withAuth } from '@/lib/auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('admin', async (request) => {
   try {
     const { searchParams } = new URL(request.url)
     const username = searchParams.get('username')
@@ -56,4 +57,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
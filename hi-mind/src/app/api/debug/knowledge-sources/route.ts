@@ -1,9 +1,9 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getSupabaseClient } from '@/lib/database'
+import { withAuth } from '@/lib/auth'
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function GET(_request: NextRequest) {
+export const GET = withAuth('admin', async (_request, auth) => {
   try {
     const supabase = getSupabaseClient(true)
     
@@ -20,6 +20,7 @@ export async function GET(_request: NextRequest) {
         content,
         people (display_name)
       `)
+      .eq('organization_id', auth.organization.id)
       .order('created_at', { ascending: false })
       .limit(10)
 
@@ -27,6 +28,7 @@ export async function GET(_request: NextRequest) {
     const { data: platformCounts } = await supabase
       .from('knowledge_sources')
       .select('platform')
+      .eq('organization_id', auth.organization.id)
       .neq('platform', null)
 
     const counts = platformCounts?.reduce((acc: Record<string, number>, source: any) => {
@@ -47,4 +49,4 @@ export async function GET(_request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,8 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getSlackConfig } from '@/integrations/slack/config'
 import { WebClient } from '@slack/web-api'
+import { withAuth } from '@/lib/auth'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('admin', async (request) => {
   try {
     const { searchParams } = new URL(request.url)
     const userId = searchParams.get('userId')
@@ -54,4 +55,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
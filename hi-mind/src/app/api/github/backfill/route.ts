@@ -1,15 +1,19 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
 import {
-	startGitHubIntegration,
-	triggerGitHubBackfill,
-	getGitHubController,
-} from "@/integrations/github/integration";
+	GitHubRepositoryError,
+	addGitHubRepository,
+	listGitHubRepositories,
+	queueGitHubRepositorySync,
+} from "@/lib/github-repositories";
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function POST(_request: NextRequest) {
+// Backfill one repository ({ repository: "owner/repo" }), or every enabled tracked one
+export const POST = withAuth("admin", async (request, auth) => {
 	try {
 		console.log("🔄 [API] GitHub backfill requested via UI");
 
+		const org = auth.organization;
+
 		if (!process.env.GITHUB_TOKEN) {
 			return NextResponse.json(
 				{ error: "GITHUB_TOKEN not configured" },
@@ -17,42 +21,38 @@ export async function POST(_request: NextRequest) {
 			);
 		}
 
-		if (!process.env.GITHUB_REPOSITORY) {
-			return NextResponse.json(
-				{
-					error: 'GITHUB_REPOSITORY not configured. Set it to "owner/repo" format.',
-				},
-				{ status: 400 },
-			);
-		}
+		const body = await request.json().catch(() => ({}));
+		const repositories =
+			typeof body.repository === "string"
+				? [await addGitHubRepository(org.id, body.repository)]
+				: await listGitHubRepositories(org.id, { enabledOnly: true });
 
-		const [owner, repo] = process.env.GITHUB_REPOSITORY.split("/");
-		if (!owner || !repo) {
+		if (repositories.length === 0) {
 			return NextResponse.json(
 				{
-					error: `Invalid GITHUB_REPOSITORY format: ${process.env.GITHUB_REPOSITORY}. Expected: owner/repo`,
+					error:
+						"No GitHub repositories are tracked. Add one in Settings or set GITHUB_REPOSITORY.",
 				},
 				{ status: 400 },
 			);
 		}
 
-		// Ensure GitHub integration is initialized (without auto-backfill)
-		if (!getGitHubController()) {
-			console.log("📋 [API] GitHub integration not initialized, initializing now...");
-			await startGitHubIntegration(true); // Skip auto-backfill
+		const runs = [];
+		for (const repository of repositories) {
+			runs.push(await queueGitHubRepositorySync(org.id, repository));
 		}
-
-		// Trigger GitHub backfill directly with proper parameters
-		triggerGitHubBackfill(owner, repo).catch((error) =>
-			console.error("❌ [API] GitHub backfill failed:", error),
-		);
+		const names = repositories.map(({ owner, name }) => `${owner}/${name}`);
 
 		return NextResponse.json({
 			success: true,
-			message: `GitHub backfill started for ${process.env.GITHUB_REPOSITORY}`,
-			repository: process.env.GITHUB_REPOSITORY,
+			message: `GitHub backfill started for ${names.join(", ")}`,
+			repositories: names,
+			backfillRunIds: runs.map((run) => run.id),
 		});
 	} catch (error) {
+		if (error instanceof GitHubRepositoryError) {
+			return NextResponse.json({ error: error.message }, { status: 400 });
+		}
 		console.error("❌ [API] Failed to start GitHub backfill:", error);
 		return NextResponse.json(
 			{
@@ -63,4 +63,4 @@ export async function POST(_request: NextRequest) {
 			{ status: 500 },
 		);
 	}
-}
+});
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { enqueueJob } from "@/core/jobs";
+import {
+	GitHubRepositoryError,
+	getGitHubDiscoverySettings,
+	updateGitHubDiscoverySettings,
+} from "@/lib/github-repositories";
+
+export const GET = withAuth("admin", async (request, auth) => {
+	try {
+		const settings = await getGitHubDiscoverySettings(auth.organization.id);
+
+		return NextResponse.json({ settings });
+	} catch (error) {
+		console.error("❌ [API] Failed to fetch GitHub discovery settings:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to fetch GitHub discovery settings",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+});
+
+// Choose the account whose repositories are tracked and which of them match
+export const PUT = withAuth("admin", async (request, auth) => {
+	try {
+		const body = await request.json();
+		const {
+			enabled,
+			accountLogin,
+			includePatterns,
+			excludePatterns,
+			includeForks,
+			includeArchived,
+		} = body;
+
+		const settings = await updateGitHubDiscoverySettings(auth.organization.id, {
+			...(enabled !== undefined && { enabled }),
+			...(accountLogin !== undefined && { accountLogin }),
+			...(includePatterns !== undefined && { includePatterns }),
+			...(excludePatterns !== undefined && { excludePatterns }),
+			...(includeForks !== undefined && { includeForks }),
+			...(includeArchived !== undefined && { includeArchived }),
+		});
+
+		return NextResponse.json({ success: true, settings });
+	} catch (error) {
+		if (error instanceof GitHubRepositoryError) {
+			return NextResponse.json({ error: error.message }, { status: 400 });
+		}
+		console.error("❌ [API] Failed to update GitHub discovery settings:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to update GitHub discovery settings",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+});
+
+// Run discovery now; it also runs when the app starts
+export const POST = withAuth("admin", async (request, auth) => {
+	try {
+		const org = auth.organization;
+
+		if (!process.env.GITHUB_TOKEN) {
+			return NextResponse.json(
+				{ error: "GITHUB_TOKEN not configured" },
+				{ status: 400 },
+			);
+		}
+
+		const settings = await getGitHubDiscoverySettings(org.id);
+		if (!settings.enabled) {
+			return NextResponse.json(
+				{ error: "Repository discovery is not enabled" },
+				{ status: 400 },
+			);
+		}
+
+		const job = await enqueueJob(
+			"discover_github_repositories",
+			org.id,
+			{},
+			{ dedupeKey: `${org.id}:discover_github_repositories` },
+		);
+
+		return NextResponse.json({
+			success: true,
+			message: `Discovering repositories of ${settings.accountLogin}`,
+			jobId: job.id,
+		});
+	} catch (error) {
+		console.error("❌ [API] Failed to start GitHub discovery:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to start GitHub discovery",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+});
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { enqueueJob } from "@/core/jobs";
+import {
+	GITHUB_EVENT_TYPES,
+	type GitHubEventType,
+} from "@/integrations/github/github.repository";
+
+// Replay stored events into the knowledge engine, with the same filters as listing them
+export const POST = withAuth("admin", async (request, auth) => {
+	try {
+		const org = auth.organization;
+		const body = await request.json().catch(() => ({}));
+		const { repository, type, since } = body;
+
+		if (repository !== undefined && typeof repository !== "string") {
+			return NextResponse.json(
+				{ error: 'repository must be "owner/repo"' },
+				{ status: 400 },
+			);
+		}
+		if (type !== undefined && !GITHUB_EVENT_TYPES.includes(type)) {
+			return NextResponse.json(
+				{ error: `type must be one of ${GITHUB_EVENT_TYPES.join(", ")}` },
+				{ status: 400 },
+			);
+		}
+		if (
+			since !== undefined &&
+			(typeof since !== "string" || Number.isNaN(Date.parse(since)))
+		) {
+			return NextResponse.json(
+				{ error: "since must be an ISO 8601 timestamp" },
+				{ status: 400 },
+			);
+		}
+
+		const filters: {
+			repository?: string;
+			type?: GitHubEventType;
+			since?: string;
+		} = {
+			...(repository && { repository: repository.toLowerCase() }),
+			...(type && { type }),
+			...(since && { since }),
+		};
+
+		const job = await enqueueJob("replay_github_events", org.id, filters, {
+			dedupeKey: `${org.id}:replay_github_events:${filters.repository ?? "*"}:${filters.type ?? "*"}:${filters.since ?? "*"}`,
+		});
+
+		return NextResponse.json({
+			success: true,
+			message: "GitHub event replay started",
+			jobId: job.id,
+		});
+	} catch (error) {
+		console.error("❌ [API] Failed to start GitHub event replay:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to start GitHub event replay",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+});
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import {
+	GITHUB_EVENT_TYPES,
+	SupabaseEventRepository,
+	type GitHubEventType,
+} from "@/integrations/github/github.repository";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The raw GitHub activity stream, newest first. Page back with
+// ?before=<occurredAt>&beforeId=<recordId> of the last event, or follow `next`.
+export const GET = withAuth("admin", async (request, auth) => {
+	try {
+		const { searchParams } = new URL(request.url);
+		const repository = searchParams.get("repository") || undefined;
+		const type = searchParams.get("type") || undefined;
+		const since = searchParams.get("since") || undefined;
+		const before = searchParams.get("before") || undefined;
+		const beforeId = searchParams.get("beforeId") || undefined;
+		const limit = Math.min(Number(searchParams.get("limit")) || 50, 200);
+
+		if (type && !GITHUB_EVENT_TYPES.includes(type as GitHubEventType)) {
+			return NextResponse.json(
+				{ error: `type must be one of ${GITHUB_EVENT_TYPES.join(", ")}` },
+				{ status: 400 },
+			);
+		}
+		for (const [name, value] of [["since", since], ["before", before]]) {
+			if (value && Number.isNaN(Date.parse(value))) {
+				return NextResponse.json(
+					{ error: `${name} must be an ISO 8601 timestamp` },
+					{ status: 400 },
+				);
+			}
+		}
+
+		if (beforeId && (!before || !UUID_PATTERN.test(beforeId))) {
+			return NextResponse.json(
+				{ error: "beforeId must be a record id, given with before" },
+				{ status: 400 },
+			);
+		}
+
+		const events = await new SupabaseEventRepository().getGitHubEvents(
+			auth.organization.id,
+			{ repository, type: type as GitHubEventType | undefined, since, before, beforeId, limit },
+		);
+
+		// A full page may have more behind it
+		const last = events.length === limit ? events[events.length - 1] : undefined;
+		return NextResponse.json({
+			success: true,
+			events,
+			count: events.length,
+			next: last ? { before: last.occurredAt, beforeId: last.recordId } : null,
+		});
+	} catch (error) {
+		console.error("❌ [API] Failed to fetch GitHub events:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to fetch GitHub events",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+});
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import {
+	GitHubRepositoryError,
+	removeGitHubRepository,
+	setGitHubRepositoryEnabled,
+} from "@/lib/github-repositories";
+
+// Enable or disable syncing of a repository
+export const PUT = withAuth(
+	"admin",
+	async (request, auth, { params }: { params: Promise<{ id: string }> }) => {
+		try {
+			const { id } = await params;
+			const { enabled } = await request.json();
+
+			const repository = await setGitHubRepositoryEnabled(
+				auth.organization.id,
+				id,
+				enabled,
+			);
+			if (!repository) {
+				return NextResponse.json(
+					{ error: "Repository not found" },
+					{ status: 404 },
+				);
+			}
+
+			return NextResponse.json({ success: true, repository });
+		} catch (error) {
+			if (error instanceof GitHubRepositoryError) {
+				return NextResponse.json({ error: error.message }, { status: 400 });
+			}
+			console.error("❌ [API] Failed to update GitHub repository:", error);
+			return NextResponse.json(
+				{
+					error: "Failed to update GitHub repository",
+					details: error instanceof Error ? error.message : "Unknown error",
+				},
+				{ status: 500 },
+			);
+		}
+	},
+);
+
+export const DELETE = withAuth(
+	"admin",
+	async (request, auth, { params }: { params: Promise<{ id: string }> }) => {
+		try {
+			const { id } = await params;
+			const removed = await removeGitHubRepository(auth.organization.id, id);
+
+			if (!removed) {
+				return NextResponse.json(
+					{ error: "Repository not found" },
+					{ status: 404 },
+				);
+			}
+
+			return NextResponse.json({ success: true });
+		} catch (error) {
+			console.error("❌ [API] Failed to remove GitHub repository:", error);
+			return NextResponse.json(
+				{
+					error: "Failed to remove GitHub repository",
+					details: error instanceof Error ? error.message : "Unknown error",
+				},
+				{ status: 500 },
+			);
+		}
+	},
+);
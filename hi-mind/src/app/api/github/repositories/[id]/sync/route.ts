@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import {
+	GitHubRepositoryError,
+	getGitHubRepository,
+	queueGitHubRepositorySync,
+} from "@/lib/github-repositories";
+
+export const POST = withAuth(
+	"admin",
+	async (request, auth, { params }: { params: Promise<{ id: string }> }) => {
+		try {
+			const { id } = await params;
+			const repository = await getGitHubRepository(auth.organization.id, id);
+			if (!repository) {
+				return NextResponse.json(
+					{ error: "Repository not found" },
+					{ status: 404 },
+				);
+			}
+
+			const run = await queueGitHubRepositorySync(
+				auth.organization.id,
+				repository,
+			);
+
+			return NextResponse.json({
+				success: true,
+				message: `GitHub sync started for ${repository.owner}/${repository.name}`,
+				backfillRunId: run.id,
+				jobId: run.job_id,
+			});
+		} catch (error) {
+			if (error instanceof GitHubRepositoryError) {
+				return NextResponse.json({ error: error.message }, { status: 400 });
+			}
+			console.error("❌ [API] Failed to start GitHub repository sync:", error);
+			return NextResponse.json(
+				{
+					error: "Failed to start GitHub repository sync",
+					details: error instanceof Error ? error.message : "Unknown error",
+				},
+				{ status: 500 },
+			);
+		}
+	},
+);
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import {
+	GitHubRepositoryError,
+	addGitHubRepository,
+	getGitHubDiscoverySettings,
+	listGitHubRepositories,
+	queueGitHubRepositorySync,
+} from "@/lib/github-repositories";
+
+export const GET = withAuth("admin", async (request, auth) => {
+	try {
+		const [repositories, discovery] = await Promise.all([
+			listGitHubRepositories(auth.organization.id),
+			getGitHubDiscoverySettings(auth.organization.id),
+		]);
+
+		return NextResponse.json({ repositories, discovery });
+	} catch (error) {
+		console.error("❌ [API] Failed to list GitHub repositories:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to list GitHub repositories",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+});
+
+// Track a repository ("owner/repo") and queue its first sync
+export const POST = withAuth("admin", async (request, auth) => {
+	try {
+		const { repository: fullName } = await request.json();
+		if (typeof fullName !== "string") {
+			return NextResponse.json(
+				{ error: 'repository is required, as "owner/repo"' },
+				{ status: 400 },
+			);
+		}
+
+		const repository = await addGitHubRepository(auth.organization.id, fullName);
+		const run = repository.enabled
+			? await queueGitHubRepositorySync(auth.organization.id, repository)
+			: null;
+
+		return NextResponse.json({
+			success: true,
+			repository,
+			backfillRunId: run?.id ?? null,
+		});
+	} catch (error) {
+		if (error instanceof GitHubRepositoryError) {
+			return NextResponse.json({ error: error.message }, { status: 400 });
+		}
+		console.error("❌ [API] Failed to add GitHub repository:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to add GitHub repository",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+});
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueJob } from "@/core/jobs";
+import { getOrganizationForGitHubAccount } from "@/lib/organization";
+import { isGitHubRepositoryTracked } from "@/lib/github-repositories";
+import {
+	isGitHubWebhookEvent,
+	verifyGitHubSignature,
+	type GitHubWebhookPayload,
+} from "@/integrations/github/webhook";
+
+// Called by GitHub rather than a signed-in user, so requests are authenticated by their
+// signature. Deliveries are queued and answered right away; GitHub gives up after 10s.
+export async function POST(request: NextRequest) {
+	try {
+		const secret = process.env.GITHUB_WEBHOOK_SECRET;
+		if (!secret) {
+			return NextResponse.json(
+				{ error: "GITHUB_WEBHOOK_SECRET not configured" },
+				{ status: 500 },
+			);
+		}
+
+		const body = await request.text();
+		const signature = request.headers.get("x-hub-signature-256");
+		if (!verifyGitHubSignature(body, signature, secret)) {
+			console.log("🚫 [API] Rejected GitHub webhook with an invalid signature");
+			return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+		}
+
+		const event = request.headers.get("x-github-event") || "";
+		const deliveryId =
+			request.headers.get("x-github-delivery") || crypto.randomUUID();
+		if (!isGitHubWebhookEvent(event)) {
+			return NextResponse.json({ success: true, ignored: true, event });
+		}
+
+		const payload = JSON.parse(body) as GitHubWebhookPayload;
+		const owner = payload.repository?.owner.login;
+		const org = owner ? await getOrganizationForGitHubAccount(owner) : null;
+		if (!org) {
+			return NextResponse.json(
+				{ error: `No organization is linked to GitHub account ${owner}` },
+				{ status: 404 },
+			);
+		}
+
+		const repository = payload.repository!.full_name;
+		if (!(await isGitHubRepositoryTracked(org.id, repository))) {
+			return NextResponse.json({
+				success: true,
+				ignored: true,
+				reason: `${repository} is not tracked or is disabled`,
+			});
+		}
+
+		const job = await enqueueJob(
+			"github_webhook",
+			org.id,
+			{ event, deliveryId, payload },
+			{ dedupeKey: `${org.id}:github_webhook:${deliveryId}` },
+		);
+		console.log(
+			`🔔 [API] Queued GitHub ${event} webhook ${deliveryId} → job ${job.id}`,
+		);
+
+		return NextResponse.json({ success: true, event, deliveryId, jobId: job.id });
+	} catch (error) {
+		console.error("❌ [API] Failed to handle GitHub webhook:", error);
+		return NextResponse.json(
+			{
+				error: "Failed to handle GitHub webhook",
+				details: error instanceof Error ? error.message : "Unknown error",
+			},
+			{ status: 500 },
+		);
+	}
+}
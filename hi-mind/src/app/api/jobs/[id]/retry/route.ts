@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server'
+import { retryDeadJob } from '@/core/jobs'
+import { withAuth } from '@/lib/auth'
+
+// Requeue a dead-lettered job
+export const POST = withAuth('admin', async (
+  request,
+  auth,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    console.log(`🔁 [API] Retry requested for job ${id}`)
+
+    const job = await retryDeadJob(id, auth.organization.id)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found or not dead-lettered' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    console.error('❌ [API] Failed to retry job:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry job', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
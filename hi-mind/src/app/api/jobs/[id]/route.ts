@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { getJob } from '@/core/jobs'
+import { withAuth } from '@/lib/auth'
+
+export const GET = withAuth('read_only', async (
+  request,
+  auth,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+
+    const job = await getJob(id, auth.organization.id)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    console.error('❌ [API] Failed to fetch job:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { listJobs, type JobStatus } from '@/core/jobs'
+import { withAuth } from '@/lib/auth'
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'dead']
+
+export const GET = withAuth('admin', async (request, auth) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || undefined
+    const type = searchParams.get('type') || undefined
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200)
+
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const jobs = await listJobs(auth.organization.id, { status, type, limit })
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      count: jobs.length
+    })
+  } catch (error) {
+    console.error('❌ [API] Failed to fetch jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
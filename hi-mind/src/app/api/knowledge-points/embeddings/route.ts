@@ -1,18 +1,17 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { NextResponse } from 'next/server'
-import { getCurrentOrganization } from '@/lib/organization'
+import { withAuth } from '@/lib/auth'
 import { createServiceClient } from '@/utils/supabase/service'
+import { getEmbeddingProvider } from '@/core/providers/embedding-provider'
 
-export async function GET() {
+export const GET = withAuth('read_only', async (request, auth) => {
   try {
     console.log('🔍 [API] Fetching knowledge points with embeddings')
 
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const supabase = createServiceClient()
+    const embeddings = getEmbeddingProvider()
 
     // Fetch all knowledge points with their embeddings and source metadata
     const { data: knowledgePoints, error } = await supabase
@@ -35,6 +34,7 @@ export async function GET() {
         )
       `)
       .eq('knowledge_sources.organization_id', org.id)
+      .eq('embedding_model', embeddings.model)
       .not('embedding', 'is', null) // Only get points with embeddings
       .order('processed_at', { ascending: false })
 
@@ -59,7 +59,7 @@ export async function GET() {
         }
         
         // Validate embedding dimensions
-        if (!Array.isArray(parsedEmbedding) || parsedEmbedding.length !== 1536) {
+        if (!Array.isArray(parsedEmbedding) || parsedEmbedding.length !== embeddings.dimensions) {
           console.warn(`⚠️ [API] Invalid embedding for knowledge point ${kp.id}`)
           return null
         }
@@ -96,4 +96,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
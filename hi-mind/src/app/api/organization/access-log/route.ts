@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getSupabaseClient } from "@/lib/database"
+import { withAuth } from "@/lib/auth"
+
+// Denied requests recorded against this organization, newest first
+export const GET = withAuth("admin", async (request, auth) => {
+  try {
+    const limit = Math.min(parseInt(request.nextUrl.searchParams.get('limit') || '100', 10) || 100, 500)
+    const supabase = getSupabaseClient(true)
+
+    const { data: entries, error } = await supabase
+      .from('access_audit_log')
+      .select('*')
+      .eq('organization_id', auth.organization.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({ entries: entries || [] })
+  } catch (error) {
+    console.error('Error fetching access log:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch access log', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
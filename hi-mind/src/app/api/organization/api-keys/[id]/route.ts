@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { withAuth } from "@/lib/auth"
+import { revokeOrganizationApiKey } from "@/lib/organization"
+
+export const DELETE = withAuth("admin", async (
+  request,
+  auth,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const revoked = await revokeOrganizationApiKey(auth.organization.id, id)
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API key', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import {
+  createOrganizationApiKey,
+  listOrganizationApiKeys,
+  ORGANIZATION_ROLES,
+} from "@/lib/organization"
+import { withAuth } from "@/lib/auth"
+
+export const GET = withAuth("admin", async (request, auth) => {
+  try {
+    const apiKeys = await listOrganizationApiKeys(auth.organization.id)
+
+    return NextResponse.json({ apiKeys })
+  } catch (error) {
+    console.error('Error fetching API keys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API keys', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth("admin", async (request, auth) => {
+  try {
+    const body = await request.json()
+    const { name, role = 'member' } = body
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'API key name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!ORGANIZATION_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${ORGANIZATION_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const { apiKey, record } = await createOrganizationApiKey(auth.organization.id, name, role)
+
+    // The plaintext key is only ever returned once
+    return NextResponse.json({ success: true, apiKey, record })
+  } catch (error) {
+    console.error('Error creating API key:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API key', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
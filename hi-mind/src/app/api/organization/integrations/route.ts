@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server"
+import {
+  linkOrganizationIntegration,
+  listOrganizationIntegrations,
+} from "@/lib/organization"
+import { withAuth } from "@/lib/auth"
+
+export const GET = withAuth("admin", async (request, auth) => {
+  try {
+    const integrations = await listOrganizationIntegrations(auth.organization.id)
+
+    return NextResponse.json({ integrations })
+  } catch (error) {
+    console.error('Error fetching organization integrations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch integrations', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
+
+// Link a Slack workspace (team ID) or GitHub installation / account to the organization
+export const POST = withAuth("admin", async (request, auth) => {
+  try {
+    const body = await request.json()
+    const { platform, externalId, accountLogin, displayName } = body
+
+    if ((platform !== 'slack' && platform !== 'github') || !externalId) {
+      return NextResponse.json(
+        { error: 'platform ("slack" or "github") and externalId are required' },
+        { status: 400 }
+      )
+    }
+
+    const integration = await linkOrganizationIntegration(
+      auth.organization.id,
+      platform,
+      String(externalId),
+      { accountLogin, displayName }
+    )
+
+    return NextResponse.json({ success: true, integration })
+  } catch (error) {
+    console.error('Error linking organization integration:', error)
+    return NextResponse.json(
+      { error: 'Failed to link integration', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
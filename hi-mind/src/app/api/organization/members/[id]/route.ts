@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+import { removeOrganizationMember, updateOrganizationMemberRole, withAuth } from "@/lib/auth"
+import { ORGANIZATION_ROLES } from "@/lib/organization"
+
+export const PUT = withAuth("admin", async (
+  request,
+  auth,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const { role } = await request.json()
+
+    if (!ORGANIZATION_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${ORGANIZATION_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const member = await updateOrganizationMemberRole(auth.organization.id, id, role)
+
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, member })
+  } catch (error) {
+    console.error('Error updating organization member:', error)
+    return NextResponse.json(
+      { error: 'Failed to update member', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth("admin", async (
+  request,
+  auth,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const { id } = await params
+    const removed = await removeOrganizationMember(auth.organization.id, id)
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error removing organization member:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove member', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { addOrganizationMember, listOrganizationMembers, withAuth } from "@/lib/auth"
+import { ORGANIZATION_ROLES } from "@/lib/organization"
+
+export const GET = withAuth("admin", async (request, auth) => {
+  try {
+    const members = await listOrganizationMembers(auth.organization.id)
+
+    return NextResponse.json({ members })
+  } catch (error) {
+    console.error('Error fetching organization members:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch members', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
+
+// Invite a member by email; they are linked to their account on first sign-in
+export const POST = withAuth("admin", async (request, auth) => {
+  try {
+    const body = await request.json()
+    const { email, role = 'member' } = body
+
+    if (!email || !ORGANIZATION_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `email and a role (${ORGANIZATION_ROLES.join(', ')}) are required` },
+        { status: 400 }
+      )
+    }
+
+    const member = await addOrganizationMember(auth.organization.id, email, role)
+
+    return NextResponse.json({ success: true, member })
+  } catch (error) {
+    console.error('Error adding organization member:', error)
+    return NextResponse.json(
+      { error: 'Failed to add member', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,26 +1,10 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getSupabaseClient } from "@/lib/database"
+import { withAuth } from "@/lib/auth"
 
-export async function GET() {
+export const GET = withAuth("read_only", async (request, auth) => {
   try {
-    const supabase = getSupabaseClient(true)
-    
-    // For now, get the first organization - in production this would be based on auth context
-    const { data: organization, error } = await supabase
-      .from('organizations')
-      .select('*')
-      .limit(1)
-      .single()
-
-    if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
-      console.error('Error fetching organization:', error)
-      return NextResponse.json(
-        { error: 'Failed to fetch organization' },
-        { status: 500 }
-      )
-    }
-
-    return NextResponse.json({ organization: organization || null })
+    return NextResponse.json({ organization: auth.organization })
   } catch (error) {
     console.error('Error in organization API:', error)
     return NextResponse.json(
@@ -28,9 +12,9 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth("admin", async (request, auth) => {
   try {
     const body = await request.json()
     const { name, settings } = body
@@ -44,19 +28,7 @@ export async function PUT(request: NextRequest) {
 
     const supabase = getSupabaseClient(true)
     
-    // For now, update the first organization - in production this would be based on auth context
-    const { data: existingOrg } = await supabase
-      .from('organizations')
-      .select('id')
-      .limit(1)
-      .single()
-
-    if (!existingOrg) {
-      return NextResponse.json(
-        { error: 'Organization not found' },
-        { status: 404 }
-      )
-    }
+    const existingOrg = auth.organization
 
     const { data: organization, error } = await supabase
       .from('organizations')
@@ -85,4 +57,4 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
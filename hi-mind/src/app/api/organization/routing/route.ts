@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import {
+  ExpertRoutingSettingsError,
+  getExpertRoutingSettings,
+  updateExpertRoutingSettings,
+} from "@/lib/expert-routing"
+import { withAuth } from "@/lib/auth"
+
+export const GET = withAuth("admin", async (request, auth) => {
+  try {
+    const settings = await getExpertRoutingSettings(auth.organization.id)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error fetching expert routing settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch expert routing settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
+
+// Turn routing of unanswered Slack searches to experts on or off and tune its thresholds
+export const PUT = withAuth("admin", async (request, auth) => {
+  try {
+    const body = await request.json()
+    const { enabled, minMatchScore, minExpertiseScore, maxRoutesPerDay } = body
+
+    const settings = await updateExpertRoutingSettings(auth.organization.id, {
+      ...(enabled !== undefined && { enabled }),
+      ...(minMatchScore !== undefined && { minMatchScore }),
+      ...(minExpertiseScore !== undefined && { minExpertiseScore }),
+      ...(maxRoutesPerDay !== undefined && { maxRoutesPerDay }),
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    if (error instanceof ExpertRoutingSettingsError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error updating expert routing settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to update expert routing settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
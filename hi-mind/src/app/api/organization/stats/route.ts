@@ -1,29 +1,12 @@
 import { NextResponse } from "next/server"
 import { getSupabaseClient } from "@/lib/database"
+import { withAuth } from "@/lib/auth"
 
-export async function GET() {
+export const GET = withAuth("read_only", async (request, auth) => {
   try {
     const supabase = getSupabaseClient(true)
     
-    // Get the first organization for now
-    const { data: organization } = await supabase
-      .from('organizations')
-      .select('id')
-      .limit(1)
-      .single()
-
-    if (!organization) {
-      return NextResponse.json({
-        stats: {
-          total_people: 0,
-          active_people: 0,
-          total_topics: 0,
-          approved_topics: 0,
-          total_knowledge_sources: 0,
-          processing_health: 'unhealthy'
-        }
-      })
-    }
+    const organization = auth.organization
 
     const orgId = organization.id
 
@@ -93,4 +76,4 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,10 +1,12 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getSupabaseClient } from "@/lib/database"
+import { withAuth } from "@/lib/auth"
 
-export async function PUT(
-  request: NextRequest,
+export const PUT = withAuth("member", async (
+  request,
+  auth,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params
     const body = await request.json()
@@ -17,6 +19,8 @@ export async function PUT(
       )
     }
 
+    const organization = auth.organization
+
     const supabase = getSupabaseClient(true)
     
     const { data: person, error } = await supabase
@@ -29,6 +33,7 @@ export async function PUT(
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
+      .eq('organization_id', organization.id)
       .select()
       .single()
 
@@ -48,14 +53,17 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
-  request: NextRequest,
+export const DELETE = withAuth("admin", async (
+  request,
+  auth,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params
+    const organization = auth.organization
+
     const supabase = getSupabaseClient(true)
     
     // Delete the person (external identities will be cascade deleted)
@@ -63,6 +71,7 @@ export async function DELETE(
       .from('people')
       .delete()
       .eq('id', id)
+      .eq('organization_id', organization.id)
 
     if (error) {
       console.error('Error deleting person:', error)
@@ -80,4 +89,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getSupabaseClient } from '@/lib/database'
-import { getCurrentOrganization } from '@/lib/organization'
+import { withAuth } from '@/lib/auth'
 
 interface ConsolidationResult {
   mergedPeople: Array<{
@@ -12,15 +12,11 @@ interface ConsolidationResult {
   errors: string[]
 }
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function POST(_request: NextRequest) {
+export const POST = withAuth('admin', async (request, auth) => {
   try {
     console.log('🔄 [CONSOLIDATION] Starting people consolidation...')
 
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const supabase = getSupabaseClient(true)
     
@@ -52,7 +48,7 @@ export async function POST(_request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function consolidatePeople(supabase: Record<string, unknown>, people: Record<string, unknown>[]): Promise<ConsolidationResult> {
   const result: ConsolidationResult = {
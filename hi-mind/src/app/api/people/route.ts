@@ -1,20 +1,12 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getSupabaseClient } from "@/lib/database"
+import { withAuth } from "@/lib/auth"
 
-export async function GET() {
+export const GET = withAuth("read_only", async (request, auth) => {
   try {
     const supabase = getSupabaseClient(true)
     
-    // Get the organization
-    const { data: organization } = await supabase
-      .from('organizations')
-      .select('id')
-      .limit(1)
-      .single()
-
-    if (!organization) {
-      return NextResponse.json({ people: [] })
-    }
+    const organization = auth.organization
     
     // Get all people with their external identities for this organization
     const { data: people, error } = await supabase
@@ -47,9 +39,9 @@ export async function GET() {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth("member", async (request, auth) => {
   try {
     const body = await request.json()
     const { 
@@ -70,19 +62,7 @@ export async function POST(request: NextRequest) {
 
     const supabase = getSupabaseClient(true)
     
-    // Get the first organization - in production this would come from auth context
-    const { data: organization } = await supabase
-      .from('organizations')
-      .select('id')
-      .limit(1)
-      .single()
-
-    if (!organization) {
-      return NextResponse.json(
-        { error: 'No organization found. Please create an organization first.' },
-        { status: 400 }
-      )
-    }
+    const organization = auth.organization
 
     // Create the person (simplified schema - only basic fields)
     const { data: person, error: personError } = await supabase
@@ -143,4 +123,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,7 +1,8 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { getKnowledgeEngine } from "@/core/knowledge-engine-singleton";
-import { getCurrentOrganization } from "@/lib/organization";
+import { withAuth } from "@/lib/auth";
+import { parseSearchFilters } from "@/lib/search-filters";
+import type { SearchFilters } from "@/core/knowledge-engine";
 
 interface ExpertMatch {
   personId: string;
@@ -36,11 +37,13 @@ interface ExpertSearchResult {
 async function findExpertsByQuery(
   query: string,
   organizationId: string,
+  filters: SearchFilters,
 ): Promise<ExpertMatch[]> {
   // Use the knowledge engine to search for relevant knowledge points
   const searchResults = await getKnowledgeEngine().searchKnowledge(
     query,
     organizationId,
+    { filters },
   );
   const knowledgeMatches = searchResults.knowledgeMatches || [];
 
@@ -48,14 +51,14 @@ async function findExpertsByQuery(
   const expertMap = new Map<string, ExpertMatch>();
 
   for (const match of knowledgeMatches) {
-    if (!(match as any).author_name) continue;
+    if (!match.authorName) continue;
 
-    const authorKey = (match as any).author_name;
+    const authorKey = match.authorName;
 
     if (!expertMap.has(authorKey)) {
       expertMap.set(authorKey, {
         personId: authorKey, // Using author name as ID for simplicity
-        name: (match as any).author_name,
+        name: match.authorName,
         email: undefined,
         expertiseScore: 0,
         totalContributions: 0,
@@ -72,8 +75,8 @@ async function findExpertsByQuery(
     const contribution = {
       summary: match.summary,
       platform: match.platform,
-      sourceUrl: (match as any).source_url,
-      similarity: (match as any).similarity_score,
+      sourceUrl: match.sourceUrl ?? undefined,
+      similarity: match.similarityScore ?? 0,
     };
 
     expert.topContributions.push(contribution);
@@ -98,32 +101,34 @@ async function findExpertsByQuery(
 async function findPotentialAnswers(
   query: string,
   organizationId: string,
+  filters: SearchFilters,
 ): Promise<KnowledgeAnswer[]> {
   // Use the knowledge engine to search for highly relevant knowledge points
   const searchResults = await getKnowledgeEngine().searchKnowledge(
     query,
     organizationId,
+    { filters },
   );
   const knowledgeMatches = searchResults.knowledgeMatches || [];
 
   // Filter for high-similarity matches that might contain direct answers
   const potentialAnswers = knowledgeMatches
-    .filter((match: any) => match.similarity_score > 0.75) // High similarity threshold
+    .filter((match) => (match.similarityScore ?? 0) > 0.75) // High similarity threshold
     .slice(0, 5) // Top 5 potential answers
-    .map((match: any) => ({
+    .map((match) => ({
       summary: match.summary,
-      authorName: match.author_name || "Unknown",
+      authorName: match.authorName || "Unknown",
       platform: match.platform,
-      sourceUrl: match.source_url,
-      relevanceScore: match.similarity_score,
+      sourceUrl: match.sourceUrl ?? undefined,
+      relevanceScore: match.similarityScore ?? 0,
     }));
 
   return potentialAnswers;
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth("read_only", async (request, auth) => {
   try {
-    const { query } = await request.json();
+    const { query, filters: rawFilters } = await request.json();
 
     if (!query || typeof query !== "string") {
       return NextResponse.json(
@@ -132,20 +137,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get current organization
-    const org = await getCurrentOrganization();
-    if (!org) {
-      return NextResponse.json(
-        { error: "No organization found. Please create one first." },
-        { status: 400 },
-      );
+    const parsedFilters = parseSearchFilters(rawFilters);
+    if (parsedFilters.error !== null) {
+      return NextResponse.json({ error: parsedFilters.error }, { status: 400 });
     }
 
+    // Get current organization
+    const org = auth.organization;
+
     console.log(`🔍 [KNOWLEDGE SEARCH] Query: "${query}"`);
 
-    const potentialAnswers = await findPotentialAnswers(query, org.id);
+    const potentialAnswers = await findPotentialAnswers(query, org.id, parsedFilters.filters);
     console.log("Got potential answers!!!!!!!!!!!!!!!!!!");
-    const experts = await findExpertsByQuery(query, org.id);
+    const experts = await findExpertsByQuery(query, org.id, parsedFilters.filters);
     console.log("Got experts!!!!!!!!!!!!!!!!!!");
 
     const result: ExpertSearchResult = {
@@ -175,4 +179,4 @@ export async function POST(request: NextRequest) {
       { status: 500 },
     );
   }
-}
+});
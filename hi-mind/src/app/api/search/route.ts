@@ -1,10 +1,57 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { getKnowledgeEngine } from "@/core/knowledge-engine-singleton";
-import { getCurrentOrganization } from "@/lib/organization";
+import { withAuth } from "@/lib/auth";
+import { parseSearchFilterParams, parseSearchFilters } from "@/lib/search-filters";
+import {
+  DEFAULT_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_PAGE_SIZE,
+  SearchCursorError,
+  type RetrievalMode,
+  type SearchMode,
+} from "@/core/knowledge-engine";
 
-export async function POST(request: NextRequest) {
+const SEARCH_MODES: SearchMode[] = ["sources", "answer"];
+const RETRIEVAL_MODES: RetrievalMode[] = ["hybrid", "vector", "lexical"];
+
+function validatePaging(limit: unknown, cursor: unknown, rerank: unknown): string | null {
+  if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > MAX_SEARCH_PAGE_SIZE) {
+    return `limit must be an integer between 1 and ${MAX_SEARCH_PAGE_SIZE}`;
+  }
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    return 'cursor must be a string';
+  }
+  if (typeof rerank !== 'boolean') {
+    return 'rerank must be a boolean';
+  }
+  return null;
+}
+
+function searchErrorResponse(error: unknown) {
+  if (error instanceof SearchCursorError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  console.error('Search error:', error);
+  return NextResponse.json(
+    { 
+      error: 'Search failed', 
+      details: error instanceof Error ? error.message : 'Unknown error' 
+    },
+    { status: 500 }
+  );
+}
+
+export const POST = withAuth("read_only", async (request, auth) => {
   try {
-    const { query } = await request.json();
+    const {
+      query,
+      mode = "sources",
+      retrieval = "hybrid",
+      filters: rawFilters,
+      limit = DEFAULT_SEARCH_PAGE_SIZE,
+      cursor,
+      rerank = true,
+    } = await request.json();
 
     if (!query || typeof query !== 'string') {
       return NextResponse.json(
@@ -13,16 +60,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get current organization
-    const org = await getCurrentOrganization();
-    if (!org) {
+    if (!SEARCH_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of ${SEARCH_MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!RETRIEVAL_MODES.includes(retrieval)) {
       return NextResponse.json(
-        { error: 'No organization found. Please create one first.' },
+        { error: `retrieval must be one of ${RETRIEVAL_MODES.join(', ')}` },
         { status: 400 }
       );
     }
 
-    const results = await getKnowledgeEngine().searchKnowledge(query, org.id);
+    const parsedFilters = parseSearchFilters(rawFilters);
+    if (parsedFilters.error !== null) {
+      return NextResponse.json({ error: parsedFilters.error }, { status: 400 });
+    }
+
+    const pagingError = validatePaging(limit, cursor, rerank);
+    if (pagingError) {
+      return NextResponse.json({ error: pagingError }, { status: 400 });
+    }
+
+    // Get current organization
+    const org = auth.organization;
+
+    const results = await getKnowledgeEngine().searchKnowledge(query, org.id, {
+      mode,
+      retrieval,
+      filters: parsedFilters.filters,
+      limit,
+      cursor,
+      rerank,
+    });
 
     return NextResponse.json({
       success: true,
@@ -31,20 +103,15 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('Search error:', error);
-    return NextResponse.json(
-      { 
-        error: 'Search failed', 
-        details: error instanceof Error ? error.message : 'Unknown error' 
-      },
-      { status: 500 }
-    );
+    return searchErrorResponse(error);
   }
-}
+});
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth("read_only", async (request, auth) => {
   const { searchParams } = new URL(request.url);
   const query = searchParams.get('q');
+  const mode = (searchParams.get('mode') || 'sources') as SearchMode;
+  const retrieval = (searchParams.get('retrieval') || 'hybrid') as RetrievalMode;
 
   if (!query) {
     return NextResponse.json(
@@ -53,17 +120,46 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  if (!SEARCH_MODES.includes(mode)) {
+    return NextResponse.json(
+      { error: `mode must be one of ${SEARCH_MODES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!RETRIEVAL_MODES.includes(retrieval)) {
+    return NextResponse.json(
+      { error: `retrieval must be one of ${RETRIEVAL_MODES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const parsedFilters = parseSearchFilterParams(searchParams);
+  if (parsedFilters.error !== null) {
+    return NextResponse.json({ error: parsedFilters.error }, { status: 400 });
+  }
+
+  const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : DEFAULT_SEARCH_PAGE_SIZE;
+  const cursor = searchParams.get('cursor') ?? undefined;
+  const rerank = searchParams.get('rerank') !== 'false';
+
+  const pagingError = validatePaging(limit, cursor, rerank);
+  if (pagingError) {
+    return NextResponse.json({ error: pagingError }, { status: 400 });
+  }
+
   try {
     // Get current organization
-    const org = await getCurrentOrganization();
-    if (!org) {
-      return NextResponse.json(
-        { error: 'No organization found. Please create one first.' },
-        { status: 400 }
-      );
-    }
+    const org = auth.organization;
 
-    const results = await getKnowledgeEngine().searchKnowledge(query, org.id);
+    const results = await getKnowledgeEngine().searchKnowledge(query, org.id, {
+      mode,
+      retrieval,
+      filters: parsedFilters.filters,
+      limit,
+      cursor,
+      rerank,
+    });
 
     return NextResponse.json({
       success: true,
@@ -72,13 +168,6 @@ export async function GET(request: NextRequest) {
     });
 
   } catch (error) {
-    console.error('Search error:', error);
-    return NextResponse.json(
-      { 
-        error: 'Search failed', 
-        details: error instanceof Error ? error.message : 'Unknown error' 
-      },
-      { status: 500 }
-    );
+    return searchErrorResponse(error);
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,11 +1,28 @@
-import { NextRequest, NextResponse } from "next/server"
+import { NextResponse } from "next/server"
 import { getSupabaseClient } from "@/lib/database"
+import { addOrganizationMember, canCreateOrganization, withUser } from "@/lib/auth"
 
-export async function POST(request: NextRequest) {
+// The first organization of a deployment can be created by any signed-in user, later ones
+// only by bootstrap admins (HIMIND_ADMIN_EMAILS). The creator becomes its first admin.
+export const POST = withUser(async (request, user) => {
   try {
     const body = await request.json()
     const { name, slug } = body
 
+    if (!user.email) {
+      return NextResponse.json(
+        { error: 'Your account needs an email address to own an organization' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await canCreateOrganization(user))) {
+      return NextResponse.json(
+        { error: 'Only HiMind administrators can create another organization' },
+        { status: 403 }
+      )
+    }
+
     if (!name || !slug) {
       return NextResponse.json(
         { error: 'Name and slug are required' },
@@ -47,6 +64,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await addOrganizationMember(organization.id, user.email, 'admin', user.id)
+
     return NextResponse.json({ 
       success: true, 
       organization,
@@ -60,4 +79,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,41 +1,30 @@
 import { NextResponse } from "next/server"
 import { getSupabaseClient } from "@/lib/database"
+import { withAuth } from "@/lib/auth"
 
-export async function POST() {
+export const POST = withAuth("admin", async (request, auth) => {
   try {
     const supabase = getSupabaseClient(true)
-    
-    console.log("🗑️ Resetting database...")
 
-    // Delete data in reverse dependency order to avoid foreign key issues (simplified schema)
-    const tables = [
-      'search_queries',
-      'topic_experts',
-      'knowledge_topic_memberships',
-      'discovered_topics',
-      'knowledge_points',
-      'knowledge_sources',
-      'external_identities',
-      'people',
-      'organizations'
-    ]
+    const organization = auth.organization
+    
+    console.log(`🗑️ Resetting organization ${organization.slug}...`)
 
-    for (const table of tables) {
-      const { error } = await supabase
-        .from(table)
-        .delete()
-        .neq('id', '00000000-0000-0000-0000-000000000000') // Delete all rows
+    // Every organization-owned table cascades from organizations, so other tenants are untouched
+    const { error } = await supabase
+      .from('organizations')
+      .delete()
+      .eq('id', organization.id)
 
-      if (error && !error.message.includes('No rows found')) {
-        console.warn(`Warning deleting from ${table}:`, error.message)
-      } else {
-        console.log(`✅ Cleared ${table}`)
-      }
+    if (error) {
+      throw error
     }
 
+    console.log(`✅ Cleared organization ${organization.slug}`)
+
     return NextResponse.json({ 
       success: true,
-      message: 'Database reset successfully'
+      message: 'Organization reset successfully'
     })
 
   } catch (error) {
@@ -45,4 +34,4 @@ export async function POST() {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,26 +1,37 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { SlackBackfill } from '@/integrations/slack/backfill'
 import { getSlackConfig } from '@/integrations/slack/config'
+import { withAuth } from '@/lib/auth'
+import { queueSlackBackfill } from '@/lib/backfill-runs'
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function POST(_request: NextRequest) {
+export const POST = withAuth('admin', async (request, auth) => {
   try {
     console.log('🔄 [API] Slack backfill requested via UI')
 
+    const org = auth.organization
+
     // Get Slack config
     const config = getSlackConfig()
     
     // Create and run backfill
     const backfill = new SlackBackfill(config.botToken)
+
+    // The bot token belongs to one workspace; only its organization may backfill it
+    const workspaceOrg = await backfill.resolveOrganization()
+    if (workspaceOrg?.id !== org.id) {
+      return NextResponse.json(
+        { error: 'The configured Slack workspace is not linked to this organization' },
+        { status: 403 }
+      )
+    }
     
-    // Run backfill in background
-    backfill.runBackfill().catch(error => 
-      console.error("❌ [API] Backfill failed:", error)
-    )
+    const run = await queueSlackBackfill(org.id, backfill.workspaceName ?? 'Slack workspace')
 
     return NextResponse.json({ 
       success: true, 
-      message: 'Slack backfill started in background' 
+      message: 'Slack backfill started in background',
+      backfillRunId: run.id,
+      jobId: run.job_id
     })
   } catch (error) {
     console.error('❌ [API] Failed to start Slack backfill:', error)
@@ -29,4 +40,4 @@ export async function POST(_request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import {
+  SlackChannelSettingsError,
+  getSlackChannelSettings,
+  updateSlackChannelSettings,
+} from "@/lib/slack-channel-settings"
+import { withAuth } from "@/lib/auth"
+
+export const GET = withAuth("admin", async (
+  request,
+  auth,
+  { params }: { params: Promise<{ channelId: string }> }
+) => {
+  try {
+    const { channelId } = await params
+    const settings = await getSlackChannelSettings(auth.organization.id, channelId)
+
+    return NextResponse.json({ settings })
+  } catch (error) {
+    console.error('Error fetching Slack channel settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch channel settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
+
+// Turn proactive answer suggestions on or off for a channel and tune how often they post
+export const PUT = withAuth("admin", async (
+  request,
+  auth,
+  { params }: { params: Promise<{ channelId: string }> }
+) => {
+  try {
+    const { channelId } = await params
+    const { suggestionsEnabled, minConfidence, cooldownMinutes } = await request.json()
+
+    const settings = await updateSlackChannelSettings(auth.organization.id, channelId, {
+      ...(suggestionsEnabled !== undefined && { suggestionsEnabled }),
+      ...(minConfidence !== undefined && { minConfidence }),
+      ...(cooldownMinutes !== undefined && { cooldownMinutes }),
+    })
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    if (error instanceof SlackChannelSettingsError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error updating Slack channel settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to update channel settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server"
+import { listSlackChannelSettings } from "@/lib/slack-channel-settings"
+import { withAuth } from "@/lib/auth"
+
+// Channels with stored settings; the others use the defaults (suggestions off)
+export const GET = withAuth("admin", async (request, auth) => {
+  try {
+    const channels = await listSlackChannelSettings(auth.organization.id)
+
+    return NextResponse.json({ channels })
+  } catch (error) {
+    console.error('Error fetching Slack channel settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch channel settings', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,10 +1,11 @@
 // Simple database connection test
 
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import { getEmbeddingProvider } from '@/core/providers/embedding-provider'
+import { withAuth } from '@/lib/auth'
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function GET(_request: NextRequest) {
+export const GET = withAuth('admin', async (_request, auth) => {
   try {
     console.log('Testing direct Supabase connection...')
     
@@ -31,6 +32,7 @@ export async function GET(_request: NextRequest) {
     const { data: sampleSource } = await supabase
       .from('knowledge_sources')
       .select('id, platform, source_type, title, content')
+      .eq('organization_id', auth.organization.id)
       .limit(1)
       .single()
 
@@ -49,11 +51,13 @@ export async function GET(_request: NextRequest) {
       .single()
 
     // Test the search function directly
-    const testEmbedding = new Array(1536).fill(0.1); // Simple test vector
+    const embeddings = getEmbeddingProvider()
+    const testEmbedding = new Array(embeddings.dimensions).fill(0.1); // Simple test vector
     const { data: searchResult, error: searchError } = await supabase
       .rpc('find_similar_knowledge', {
         query_embedding: `[${testEmbedding.join(',')}]`,
-        org_id: '9c353c02-5f78-44d0-a701-481cccc4f4dd', 
+        model_name: embeddings.model,
+        org_id: auth.organization.id, 
         similarity_threshold: 0.1,
         result_limit: 3
       });
@@ -86,4 +90,4 @@ export async function GET(_request: NextRequest) {
       stack: error instanceof Error ? error.stack : undefined
     }, { status: 500 })
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,20 +1,18 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
 import { getKnowledgeEngine } from '@/core/knowledge-engine-singleton'
-import { getCurrentOrganization } from '@/lib/organization'
+import { withAuth } from '@/lib/auth'
 
-export async function GET(
-  request: NextRequest,
+export const GET = withAuth('read_only', async (
+  request,
+  auth,
   { params }: { params: Promise<{ id: string }> }
-) {
+) => {
   try {
     const { id } = await params
     console.log(`🔍 [API] Fetching knowledge points for topic: ${id}`)
     
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const engine = getKnowledgeEngine()
     
@@ -38,6 +36,7 @@ export async function GET(
         )
       `)
       .eq('topic_id', id)
+      .eq('knowledge_points.knowledge_sources.organization_id', org.id)
 
     if (error) {
       console.error('❌ [API] Database error:', error)
@@ -77,4 +76,4 @@ export async function GET(
       error: error instanceof Error ? error.message : 'Unknown error'
     }, { status: 500 })
   }
-}
+})
@@ -1,15 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getKnowledgeEngine } from '@/core/knowledge-engine-singleton'
-import { getCurrentOrganization } from '@/lib/organization'
+import { NextResponse } from 'next/server'
+import { enqueueJob } from '@/core/jobs'
+import { withAuth } from '@/lib/auth'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('admin', async (request, auth) => {
   try {
     console.log('🎯 [API] Topic discovery requested via UI')
 
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     // Parse options from request body
     const body = await request.json().catch(() => ({}))
@@ -19,23 +16,19 @@ export async function POST(request: NextRequest) {
       similarityThreshold: body.similarityThreshold || 0.7
     }
 
-    console.log(`🎯 [API] Starting topic discovery with options:`, options)
+    console.log(`🎯 [API] Queueing topic discovery with options:`, options)
 
-    // Run topic discovery
-    const result = await getKnowledgeEngine().discoverTopicClusters(org.id, options)
+    // Discovery clusters every knowledge point, so it runs on the job queue
+    const job = await enqueueJob('discover_topics', org.id, options, {
+      dedupeKey: org.id
+    })
 
     return NextResponse.json({
       success: true,
-      message: `Topic discovery completed! Found ${result.stats.clustersFound} clusters, created ${result.stats.newTopics} new topics, updated ${result.stats.updatedTopics} existing topics.`,
-      stats: result.stats,
-      topics: result.topics.map(topic => ({
-        id: topic.id,
-        name: topic.name,
-        knowledgePointCount: topic.knowledge_point_count,
-        confidenceScore: topic.confidence_score,
-        isNew: topic.isNew
-      }))
-    })
+      message: 'Topic discovery started',
+      jobId: job.id,
+      status: job.status
+    }, { status: 202 })
   } catch (error) {
     console.error('❌ [API] Failed to discover topics:', error)
     return NextResponse.json(
@@ -43,15 +36,11 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-export async function GET(request: NextRequest) {
+export const GET = withAuth('read_only', async (request, auth) => {
   try {
-    const org = await getCurrentOrganization()
-    if (!org) {
-      return NextResponse.json({ error: 'No organization found' }, { status: 400 })
-    }
+    const org = auth.organization
 
     const { getSupabaseClient } = await import('@/lib/database')
     const supabase = getSupabaseClient(true)
@@ -81,4 +70,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
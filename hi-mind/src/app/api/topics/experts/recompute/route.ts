@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { enqueueJob } from '@/core/jobs'
+import { withAuth } from '@/lib/auth'
+
+export const POST = withAuth('admin', async (request, auth) => {
+  try {
+    console.log('🎓 [API] Expertise recompute requested')
+
+    const job = await enqueueJob('recompute_expertise', auth.organization.id, {}, {
+      dedupeKey: `${auth.organization.id}:all`
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Expertise recompute started',
+      jobId: job.id,
+      status: job.status
+    }, { status: 202 })
+  } catch (error) {
+    console.error('❌ [API] Failed to recompute expertise:', error)
+    return NextResponse.json(
+      { error: 'Failed to recompute expertise', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,12 @@
+import { Suspense } from "react"
+import { LoginForm } from "@/components/auth/login-form"
+
+export default function LoginPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4">
+      <Suspense fallback={<div>Loading sign-in...</div>}>
+        <LoginForm />
+      </Suspense>
+    </div>
+  )
+}
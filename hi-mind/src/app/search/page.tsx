@@ -6,6 +6,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  EMPTY_SEARCH_FILTERS,
+  SearchFilterBar,
+  toSearchFilters,
+  type SearchFilterState,
+} from "@/components/search/search-filters";
 import { ExternalLink, User, Github, Brain, Slack } from "lucide-react";
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -59,6 +65,8 @@ interface ExpertSearchResults {
 
 export default function SearchPage() {
   const [query, setQuery] = useState("");
+  const [filters, setFilters] =
+    useState<SearchFilterState>(EMPTY_SEARCH_FILTERS);
   const [expertResults, setExpertResults] =
     useState<ExpertSearchResults | null>(null);
   const [loading, setLoading] = useState(false);
@@ -97,7 +105,10 @@ export default function SearchPage() {
       const response = await fetch("/api/search/experts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query: query.trim() }),
+        body: JSON.stringify({
+          query: query.trim(),
+          filters: toSearchFilters(filters),
+        }),
       });
 
       const data = await response.json();
@@ -148,6 +159,7 @@ export default function SearchPage() {
                   {loading ? "Searching..." : "Search"}
                 </Button>
               </div>
+              <SearchFilterBar value={filters} onChange={setFilters} />
             </form>
           </CardContent>
         </Card>
@@ -12,6 +12,7 @@ import { PageHeader } from "@/components/dashboard/page-header"
 import { TopicGraph } from "@/components/topics/topic-graph"
 import { KnowledgeSpaceGraph } from "@/components/topics/knowledge-space-graph-css"
 import { cn } from "@/lib/utils"
+import { waitForJob } from "@/lib/job-status"
 
 interface Topic {
   id: string
@@ -103,9 +104,15 @@ export default function TopicsPage() {
       const data = await response.json()
       
       if (data.success) {
-        // Use the discovery response which includes isNew flags and stats
-        setTopics(data.topics || [])
-        setStats(data.stats)
+        // Discovery runs as a background job; its result includes isNew flags and stats
+        const job = await waitForJob(data.jobId)
+        if (job.status === 'succeeded') {
+          const result = job.result as { topics: Topic[]; stats: TopicsStats }
+          setTopics(result.topics || [])
+          setStats(result.stats)
+        } else {
+          console.error('Topic discovery failed:', job.last_error)
+        }
       }
     } catch (error) {
       console.error('Failed to trigger discovery:', error)
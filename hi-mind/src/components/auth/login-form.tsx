@@ -0,0 +1,115 @@
+"use client"
+
+import * as React from "react"
+import { useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { AlertCircle, KeyRound, LogIn } from "lucide-react"
+
+const OIDC_PROVIDER = process.env.NEXT_PUBLIC_HIMIND_OIDC_PROVIDER
+
+const ERROR_MESSAGES: Record<string, string> = {
+  missing_code: 'The identity provider did not return a sign-in code.',
+  sign_in_failed: 'Single sign-on failed. Please try again.',
+}
+
+export function LoginForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const next = searchParams.get('next') || '/'
+  const callbackError = searchParams.get('error')
+
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [signingIn, setSigningIn] = useState(false)
+  const [error, setError] = useState<string | null>(
+    callbackError ? ERROR_MESSAGES[callbackError] || 'Sign-in failed.' : null
+  )
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault()
+
+    try {
+      setSigningIn(true)
+      setError(null)
+
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        router.replace(next.startsWith('/') && !next.startsWith('//') ? next : '/')
+      } else {
+        setError(data.error || 'Failed to sign in')
+      }
+    } catch (error) {
+      console.error('Failed to sign in:', error)
+      setError('Failed to sign in')
+    } finally {
+      setSigningIn(false)
+    }
+  }
+
+  const signInWithSSO = () => {
+    window.location.href = `/api/auth/oauth?next=${encodeURIComponent(next)}`
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>Sign in to HiMind</CardTitle>
+        <CardDescription>Use your work account to access your organization</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-200">
+            <AlertCircle className="h-4 w-4 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={signIn} className="space-y-3">
+          <Input
+            type="email"
+            placeholder="you@company.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            autoComplete="email"
+            required
+          />
+          <Input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+          <Button type="submit" className="w-full" disabled={signingIn}>
+            <LogIn className="mr-2 h-4 w-4" />
+            {signingIn ? 'Signing in...' : 'Sign in'}
+          </Button>
+        </form>
+
+        {OIDC_PROVIDER && (
+          <Button variant="outline" className="w-full" onClick={signInWithSSO}>
+            <KeyRound className="mr-2 h-4 w-4" />
+            Continue with single sign-on
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import * as React from "react";
-import { Menu, Search } from "lucide-react";
+import { LogOut, Menu, Search } from "lucide-react";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Lightswitch } from "@/components/ui/lightswitch";
@@ -13,6 +14,13 @@ interface AppHeaderProps {
 }
 
 export function AppHeader({ onMenuClick, className }: AppHeaderProps) {
+	const router = useRouter();
+
+	const signOut = async () => {
+		await fetch("/api/auth/logout", { method: "POST" });
+		router.replace("/login");
+	};
+
 	return (
 		<header
 			className={cn(
@@ -48,6 +56,11 @@ export function AppHeader({ onMenuClick, className }: AppHeaderProps) {
 					</Button>
 
 					<Lightswitch />
+
+					<Button variant="ghost" size="icon" onClick={signOut}>
+						<LogOut className="h-5 w-5" />
+						<span className="sr-only">Sign out</span>
+					</Button>
 				</div>
 			</div>
 		</header>
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X } from "lucide-react";
+
+// Radix Select items cannot have an empty value
+const ANY = "any";
+
+const SOURCE_TYPES = [
+  { value: "slack_message", label: "Slack message", platform: "slack" },
+  { value: "slack_thread", label: "Slack thread", platform: "slack" },
+  { value: "github_pr", label: "Pull request", platform: "github" },
+  { value: "github_issue", label: "Issue", platform: "github" },
+  { value: "github_comment", label: "GitHub comment", platform: "github" },
+  { value: "github_commit", label: "Commit", platform: "github" },
+];
+
+const DATE_RANGES = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+  { value: "365", label: "Last year" },
+];
+
+export interface SearchFilterState {
+  platform: string;
+  sourceType: string;
+  authorPersonId: string;
+  channelId: string;
+  repository: string;
+  /** Days back from now, or ANY */
+  dateRange: string;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilterState = {
+  platform: ANY,
+  sourceType: ANY,
+  authorPersonId: ANY,
+  channelId: "",
+  repository: "",
+  dateRange: ANY,
+};
+
+interface Person {
+  id: string;
+  display_name: string;
+}
+
+/**
+ * Convert the filter controls into the `filters` payload of /api/search
+ */
+export function toSearchFilters(state: SearchFilterState) {
+  const filters: Record<string, string | string[]> = {};
+
+  if (state.platform !== ANY) filters.platform = state.platform;
+  if (state.sourceType !== ANY) filters.sourceTypes = [state.sourceType];
+  if (state.authorPersonId !== ANY) filters.authorPersonIds = [state.authorPersonId];
+  if (state.channelId.trim()) filters.channelIds = [state.channelId.trim()];
+  if (state.repository.trim()) filters.repositories = [state.repository.trim()];
+  if (state.dateRange !== ANY) {
+    const days = Number(state.dateRange);
+    filters.createdAfter = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  return filters;
+}
+
+interface SearchFilterBarProps {
+  value: SearchFilterState;
+  onChange: (value: SearchFilterState) => void;
+}
+
+export function SearchFilterBar({ value, onChange }: SearchFilterBarProps) {
+  const [people, setPeople] = useState<Person[]>([]);
+
+  useEffect(() => {
+    fetch("/api/people")
+      .then((response) => response.json())
+      .then((data) => setPeople(data.people || []))
+      .catch((error) => console.error("Failed to load authors:", error));
+  }, []);
+
+  const update = (changes: Partial<SearchFilterState>) =>
+    onChange({ ...value, ...changes });
+
+  const sourceTypes = SOURCE_TYPES.filter(
+    (type) => value.platform === ANY || type.platform === value.platform,
+  );
+
+  const hasFilters =
+    JSON.stringify(value) !== JSON.stringify(EMPTY_SEARCH_FILTERS);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={value.platform}
+        onValueChange={(platform) =>
+          update({
+            platform,
+            // Drop selections that no longer apply to the chosen platform
+            sourceType: SOURCE_TYPES.some(
+              (type) =>
+                type.value === value.sourceType && type.platform === platform,
+            )
+              ? value.sourceType
+              : ANY,
+            channelId: platform === "github" ? "" : value.channelId,
+            repository: platform === "slack" ? "" : value.repository,
+          })
+        }
+      >
+        <SelectTrigger size="sm" aria-label="Platform">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All platforms</SelectItem>
+          <SelectItem value="slack">Slack</SelectItem>
+          <SelectItem value="github">GitHub</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={value.sourceType}
+        onValueChange={(sourceType) => update({ sourceType })}
+      >
+        <SelectTrigger size="sm" aria-label="Source type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>All source types</SelectItem>
+          {sourceTypes.map((type) => (
+            <SelectItem key={type.value} value={type.value}>
+              {type.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={value.authorPersonId}
+        onValueChange={(authorPersonId) => update({ authorPersonId })}
+      >
+        <SelectTrigger size="sm" aria-label="Author">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any author</SelectItem>
+          {people.map((person) => (
+            <SelectItem key={person.id} value={person.id}>
+              {person.display_name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={value.dateRange}
+        onValueChange={(dateRange) => update({ dateRange })}
+      >
+        <SelectTrigger size="sm" aria-label="Date range">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>Any time</SelectItem>
+          {DATE_RANGES.map((range) => (
+            <SelectItem key={range.value} value={range.value}>
+              {range.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value.platform !== "github" && (
+        <Input
+          value={value.channelId}
+          onChange={(e) => update({ channelId: e.target.value })}
+          placeholder="Slack channel ID"
+          aria-label="Slack channel ID"
+          className="h-8 w-40"
+        />
+      )}
+
+      {value.platform !== "slack" && (
+        <Input
+          value={value.repository}
+          onChange={(e) => update({ repository: e.target.value })}
+          placeholder="owner/repo"
+          aria-label="GitHub repository"
+          className="h-8 w-40"
+        />
+      )}
+
+      {hasFilters && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(EMPTY_SEARCH_FILTERS)}
+        >
+          <X className="h-4 w-4" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  );
+}
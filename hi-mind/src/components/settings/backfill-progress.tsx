@@ -0,0 +1,188 @@
+"use client"
+
+import * as React from "react"
+import { useState, useEffect, useCallback } from "react"
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Slack, Github, RefreshCw, AlertCircle } from "lucide-react"
+import type { BackfillProgress, BackfillRun } from "@/lib/backfill-runs"
+
+type Backfill = BackfillRun & { progress: BackfillProgress }
+
+const POLL_INTERVAL_MS = 3000
+
+function formatEta(seconds: number | null) {
+  if (seconds === null) return "estimating…"
+  if (seconds < 60) return "less than a minute"
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `about ${minutes} min`
+  return `about ${Math.floor(minutes / 60)} h ${minutes % 60} min`
+}
+
+function isActive(backfill: Backfill) {
+  return !backfill.progress.finished && backfill.status !== 'failed'
+}
+
+function StatusBadge({ backfill }: { backfill: Backfill }) {
+  if (backfill.status === 'failed') {
+    return <Badge className="bg-red-100 text-red-800 border-red-200">Failed</Badge>
+  }
+  if (backfill.progress.finished) {
+    return <Badge className="bg-green-100 text-green-800 border-green-200">Finished</Badge>
+  }
+  if (backfill.status === 'completed') {
+    // Everything is queued, ingestion jobs are still running
+    return <Badge className="bg-blue-100 text-blue-800 border-blue-200">Processing</Badge>
+  }
+  return (
+    <Badge variant="secondary">
+      {backfill.status === 'queued' ? 'Queued' : 'Importing'}
+    </Badge>
+  )
+}
+
+/**
+ * Recent Slack and GitHub backfills with live progress while any of them is active
+ */
+export function BackfillProgressPanel() {
+  const [backfills, setBackfills] = useState<Backfill[] | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+
+  const fetchBackfills = useCallback(async () => {
+    try {
+      const response = await fetch('/api/backfills?limit=5')
+      if (response.status === 403) {
+        setForbidden(true)
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setBackfills(data.backfills || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch backfills:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBackfills()
+  }, [fetchBackfills])
+
+  const active = backfills?.some(isActive) ?? false
+
+  useEffect(() => {
+    if (!active) return
+    const timer = setInterval(fetchBackfills, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [active, fetchBackfills])
+
+  // Backfills are admin-only
+  if (forbidden) return null
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Backfills</CardTitle>
+          <CardDescription>
+            Progress of historical Slack and GitHub imports
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={fetchBackfills}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {backfills === null ? (
+          <p className="text-sm text-muted-foreground">Loading backfills...</p>
+        ) : backfills.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No backfills yet. Start one from the setup page or with /himind sync.
+          </p>
+        ) : (
+          backfills.map(backfill => {
+            const { progress } = backfill
+            const units = Object.entries(backfill.cursors || {})
+            const lastError = backfill.errors?.[backfill.errors.length - 1]
+
+            return (
+              <div key={backfill.id} className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    {backfill.platform === 'slack' ? (
+                      <Slack className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Github className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0">
+                      <h4 className="text-sm font-medium truncate">{backfill.target}</h4>
+                      <p className="text-xs text-muted-foreground">
+                        Started {new Date(backfill.started_at || backfill.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  <StatusBadge backfill={backfill} />
+                </div>
+
+                <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${progress.percent}%` }}
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                  <span>{progress.percent}%</span>
+                  <span>
+                    {progress.unitsDone}/{progress.unitsTotal} {backfill.platform === 'slack' ? 'channels' : 'resource types'}
+                  </span>
+                  <span>{backfill.processed_count} processed</span>
+                  <span>{backfill.skipped_count} skipped</span>
+                  <span>{backfill.failed_count} failed</span>
+                  {backfill.status === 'running' && (
+                    <span>ETA {formatEta(progress.etaSeconds)}</span>
+                  )}
+                  {progress.pendingIngestion > 0 && (
+                    <span>{progress.pendingIngestion} waiting for ingestion</span>
+                  )}
+                  {progress.failedIngestion > 0 && (
+                    <span>{progress.failedIngestion} failed ingestion</span>
+                  )}
+                </div>
+
+                {isActive(backfill) && units.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {units.map(([key, unit]) => (
+                      <Badge key={key} variant={unit.done ? "default" : "outline"} className="font-normal">
+                        {unit.label}
+                        {!unit.done && unit.itemsFound > 0 &&
+                          ` ${unit.processed + unit.skipped + unit.failed}/${unit.itemsFound}`}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {lastError && (
+                  <div className="flex items-start space-x-2 text-xs text-red-700">
+                    <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                    <span>
+                      {lastError.message}
+                      {backfill.errors.length > 1 && ` (+${backfill.errors.length - 1} more)`}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+    </Card>
+  )
+}
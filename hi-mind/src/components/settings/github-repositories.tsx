@@ -0,0 +1,317 @@
+"use client"
+
+import * as React from "react"
+import { useState, useEffect, useCallback } from "react"
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Github, RefreshCw, Plus, Trash2, Search, AlertCircle } from "lucide-react"
+import type {
+  GitHubDiscoverySettings,
+  GitHubRepository,
+} from "@/lib/github-repositories"
+
+const STATUS_LABELS: Record<GitHubRepository['syncStatus'], string> = {
+  never_synced: 'Never synced',
+  queued: 'Queued',
+  syncing: 'Syncing',
+  synced: 'Synced',
+  failed: 'Failed',
+}
+
+function SyncStatusBadge({ repository }: { repository: GitHubRepository }) {
+  if (!repository.enabled) {
+    return <Badge variant="outline">Disabled</Badge>
+  }
+  if (repository.syncStatus === 'failed') {
+    return <Badge className="bg-red-100 text-red-800 border-red-200">Failed</Badge>
+  }
+  if (repository.syncStatus === 'synced') {
+    return <Badge className="bg-green-100 text-green-800 border-green-200">Synced</Badge>
+  }
+  return <Badge variant="secondary">{STATUS_LABELS[repository.syncStatus]}</Badge>
+}
+
+function toPatternList(value: string) {
+  return value.split(',').map(pattern => pattern.trim()).filter(Boolean)
+}
+
+/**
+ * Tracked GitHub repositories with their sync state, and discovery of an account's
+ * repositories
+ */
+export function GitHubRepositoriesPanel() {
+  const [repositories, setRepositories] = useState<GitHubRepository[] | null>(null)
+  const [discovery, setDiscovery] = useState<GitHubDiscoverySettings | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+  const [newRepository, setNewRepository] = useState('')
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  const [discoveryForm, setDiscoveryForm] = useState({
+    accountLogin: '',
+    includePatterns: '',
+    excludePatterns: '',
+  })
+
+  const fetchRepositories = useCallback(async () => {
+    try {
+      const response = await fetch('/api/github/repositories')
+      if (response.status === 403) {
+        setForbidden(true)
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setRepositories(data.repositories || [])
+        setDiscovery(data.discovery)
+        setDiscoveryForm({
+          accountLogin: data.discovery.accountLogin || '',
+          includePatterns: data.discovery.includePatterns.join(', '),
+          excludePatterns: data.discovery.excludePatterns.join(', '),
+        })
+      }
+    } catch (error) {
+      console.error('Failed to fetch GitHub repositories:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchRepositories()
+  }, [fetchRepositories])
+
+  // Send a request and show its outcome, then reload the list
+  const run = async (url: string, init: RequestInit, success: string) => {
+    try {
+      setBusy(true)
+      setMessage(null)
+
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setMessage({ type: 'success', text: data.message || success })
+        await fetchRepositories()
+        return true
+      }
+      setMessage({ type: 'error', text: data.error || 'Request failed' })
+      return false
+    } catch (error) {
+      console.error('GitHub repositories request failed:', error)
+      setMessage({ type: 'error', text: 'Request failed' })
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const addRepository = async () => {
+    const added = await run('/api/github/repositories', {
+      method: 'POST',
+      body: JSON.stringify({ repository: newRepository.trim() }),
+    }, `Tracking ${newRepository.trim()}`)
+    if (added) setNewRepository('')
+  }
+
+  const saveDiscovery = (enabled: boolean) => run('/api/github/discovery', {
+    method: 'PUT',
+    body: JSON.stringify({
+      enabled,
+      accountLogin: discoveryForm.accountLogin,
+      includePatterns: toPatternList(discoveryForm.includePatterns),
+      excludePatterns: toPatternList(discoveryForm.excludePatterns),
+    }),
+  }, 'Discovery settings saved')
+
+  // Tracked repositories are admin-only
+  if (forbidden) return null
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>GitHub Repositories</CardTitle>
+          <CardDescription>
+            Repositories HiMind syncs and receives webhooks for
+          </CardDescription>
+        </div>
+        <Button variant="ghost" size="sm" onClick={fetchRepositories}>
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {message && (
+          <div className={`rounded-md p-3 text-sm ${
+            message.type === 'success' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        {repositories === null ? (
+          <p className="text-sm text-muted-foreground">Loading repositories...</p>
+        ) : repositories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No repositories tracked yet. Add one below or turn on discovery.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {repositories.map(repository => (
+              <div key={repository.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <Github className="h-5 w-5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <h4 className="text-sm font-medium truncate">
+                        {repository.owner}/{repository.name}
+                      </h4>
+                      <p className="text-xs text-muted-foreground">
+                        {repository.lastSyncedAt
+                          ? `Last synced ${new Date(repository.lastSyncedAt).toLocaleString()}`
+                          : 'Not synced yet'}
+                        {repository.discovered && ' · discovered'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <SyncStatusBadge repository={repository} />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => run(`/api/github/repositories/${repository.id}`, {
+                        method: 'PUT',
+                        body: JSON.stringify({ enabled: !repository.enabled }),
+                      }, repository.enabled ? 'Repository disabled' : 'Repository enabled')}
+                    >
+                      {repository.enabled ? "Disable" : "Enable"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busy || !repository.enabled}
+                      onClick={() => run(`/api/github/repositories/${repository.id}/sync`, {
+                        method: 'POST',
+                      }, 'Sync started')}
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => run(`/api/github/repositories/${repository.id}`, {
+                        method: 'DELETE',
+                      }, 'Repository removed')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {repository.enabled && repository.lastError && repository.syncStatus !== 'synced' && (
+                  <div className="flex items-start space-x-2 text-xs text-red-700">
+                    <AlertCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                    <span>{repository.lastError}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Input
+            value={newRepository}
+            onChange={(e) => setNewRepository(e.target.value)}
+            placeholder="owner/repo"
+          />
+          <Button
+            variant="outline"
+            onClick={addRepository}
+            disabled={busy || !newRepository.trim()}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+
+        {discovery && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex items-center justify-between space-x-4">
+              <div className="flex items-center space-x-3">
+                <Search className="h-5 w-5 text-muted-foreground" />
+                <div>
+                  <h4 className="text-sm font-medium">Discovery</h4>
+                  <p className="text-xs text-muted-foreground">
+                    {discovery.lastDiscoveredAt
+                      ? `Last run ${new Date(discovery.lastDiscoveredAt).toLocaleString()}`
+                      : 'Track every repository of a GitHub organization that matches'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Badge variant={discovery.enabled ? "default" : "secondary"}>
+                  {discovery.enabled ? "Enabled" : "Disabled"}
+                </Badge>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busy}
+                  onClick={() => saveDiscovery(!discovery.enabled)}
+                >
+                  {discovery.enabled ? "Disable" : "Enable"}
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid gap-2 sm:grid-cols-3">
+              <Input
+                value={discoveryForm.accountLogin}
+                onChange={(e) => setDiscoveryForm({ ...discoveryForm, accountLogin: e.target.value })}
+                placeholder="GitHub organization"
+              />
+              <Input
+                value={discoveryForm.includePatterns}
+                onChange={(e) => setDiscoveryForm({ ...discoveryForm, includePatterns: e.target.value })}
+                placeholder="Include, e.g. api-*, web"
+              />
+              <Input
+                value={discoveryForm.excludePatterns}
+                onChange={(e) => setDiscoveryForm({ ...discoveryForm, excludePatterns: e.target.value })}
+                placeholder="Exclude, e.g. *-archive"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy}
+                onClick={() => saveDiscovery(discovery.enabled)}
+              >
+                Save
+              </Button>
+              <Button
+                size="sm"
+                disabled={busy || !discovery.enabled}
+                onClick={() => run('/api/github/discovery', { method: 'POST' }, 'Discovery started')}
+              >
+                Discover now
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
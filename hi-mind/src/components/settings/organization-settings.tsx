@@ -23,6 +23,8 @@ import {
   Zap,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { BackfillProgressPanel } from "@/components/settings/backfill-progress"
+import { GitHubRepositoriesPanel } from "@/components/settings/github-repositories"
 
 interface Organization {
   id: string
@@ -371,6 +373,12 @@ export function OrganizationSettings() {
           {saving ? "Saving..." : "Save Settings"}
         </Button>
       </div>
+
+      {/* GitHub Repositories */}
+      <GitHubRepositoriesPanel />
+
+      {/* Backfill Progress */}
+      <BackfillProgressPanel />
     </div>
   )
 }
\ No newline at end of file
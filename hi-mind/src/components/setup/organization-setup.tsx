@@ -28,6 +28,7 @@ import {
   Target,
 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { waitForJob } from "@/lib/job-status"
 
 interface Organization {
   id: string
@@ -149,7 +150,7 @@ export function OrganizationSetup() {
       const data = await response.json()
 
       if (response.ok) {
-        setMessage({ type: 'success', text: 'Slack backfill started! Check the console for progress.' })
+        setMessage({ type: 'success', text: 'Slack backfill started! Track its progress in Settings.' })
       } else {
         setMessage({ type: 'error', text: data.error || 'Failed to start Slack backfill' })
       }
@@ -173,7 +174,7 @@ export function OrganizationSetup() {
       const data = await response.json()
 
       if (response.ok) {
-        setMessage({ type: 'success', text: `GitHub backfill started for ${data.repository}! Check the console for progress.` })
+        setMessage({ type: 'success', text: `GitHub backfill started for ${data.repositories.join(', ')}! Track its progress in Settings.` })
       } else {
         setMessage({ type: 'error', text: data.error || 'Failed to start GitHub backfill' })
       }
@@ -227,7 +228,14 @@ export function OrganizationSetup() {
       const data = await response.json()
 
       if (response.ok) {
-        setMessage({ type: 'success', text: data.message || 'Topic discovery completed successfully!' })
+        // Discovery runs as a background job
+        const job = await waitForJob(data.jobId)
+        const result = job.result as { message?: string } | null
+        if (job.status === 'succeeded') {
+          setMessage({ type: 'success', text: result?.message || 'Topic discovery completed successfully!' })
+        } else {
+          setMessage({ type: 'error', text: job.last_error || 'Failed to discover topics' })
+        }
       } else {
         setMessage({ type: 'error', text: data.error || 'Failed to discover topics' })
       }
@@ -435,7 +443,7 @@ export function OrganizationSetup() {
                 <span>GitHub Sync</span>
               </CardTitle>
               <CardDescription>
-                Sync commits, PRs, and issues from GitHub repository
+                Sync commits, PRs, and issues from your tracked GitHub repositories
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -449,7 +457,7 @@ export function OrganizationSetup() {
                 {githubBackfilling ? "Syncing..." : "Sync GitHub Data"}
               </Button>
               <p className="text-xs text-muted-foreground mt-2">
-                📦 Requires GITHUB_TOKEN and GITHUB_REPOSITORY env vars
+                📦 Requires GITHUB_TOKEN and a repository tracked in Settings or GITHUB_REPOSITORY
               </p>
             </CardContent>
           </Card>
@@ -0,0 +1,80 @@
+/**
+ * Expertise Scoring
+ * Recomputes topic_experts from every contribution a person made to a topic. The math
+ * runs in the recompute_topic_experts database function; the model parameters live here.
+ *
+ * Per contribution:
+ *   topic similarity * type weight * 0.5 ^ (age in days / half-life)
+ *   * (1 + reaction weight * ln(1 + reactions)) * (accepted answer bonus, if accepted)
+ * Per person and topic:
+ *   expertise = 1 - exp(-sum of contributions / saturation)
+ *
+ * A person stays active in a topic while their latest contribution to it falls within
+ * the active window.
+ */
+
+import type { KnowledgeSource } from "@/core/knowledge-engine";
+import { createServiceClient } from "@/utils/supabase/service";
+
+export const EXPERTISE_MODEL = {
+  /** Authoring a PR shows the most ownership, chat messages the least */
+  typeWeights: {
+    github_pr: 1.0,
+    slack_thread: 0.8, // Answering inside a thread
+    github_commit: 0.7,
+    github_issue: 0.6,
+    github_comment: 0.6,
+    slack_message: 0.5,
+  } satisfies Record<KnowledgeSource["sourceType"], number>,
+  /** A contribution counts half as much after this many days */
+  halfLifeDays: 180,
+  activeWindowDays: 180,
+  /** Ten reactions raise a contribution's weight by about 60% */
+  reactionWeight: 0.25,
+  acceptedAnswerBonus: 2.0,
+  /** Weighted contributions needed to reach ~63% expertise */
+  saturation: 3.0,
+};
+
+export interface ExpertiseRecomputeResult {
+  /** Person/topic pairs that were scored */
+  scored: number;
+  /** Person/topic pairs that lost all contributions and were deactivated */
+  deactivated: number;
+}
+
+/**
+ * Recompute expertise for an organization, or only for the given people
+ */
+export async function recomputeTopicExperts(
+  organizationId: string,
+  options: { personIds?: string[] } = {},
+): Promise<ExpertiseRecomputeResult> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("recompute_topic_experts", {
+    org_id: organizationId,
+    type_weights: EXPERTISE_MODEL.typeWeights,
+    half_life_days: EXPERTISE_MODEL.halfLifeDays,
+    active_window_days: EXPERTISE_MODEL.activeWindowDays,
+    reaction_weight: EXPERTISE_MODEL.reactionWeight,
+    accepted_answer_bonus: EXPERTISE_MODEL.acceptedAnswerBonus,
+    saturation: EXPERTISE_MODEL.saturation,
+    person_ids: options.personIds?.length ? options.personIds : null,
+  });
+
+  if (error) {
+    console.error("❌ [EXPERTISE] Failed to recompute topic experts:", error);
+    throw error;
+  }
+
+  const result: ExpertiseRecomputeResult = {
+    scored: data?.[0]?.scored ?? 0,
+    deactivated: data?.[0]?.deactivated ?? 0,
+  };
+
+  console.log(
+    `🎓 [EXPERTISE] Recomputed ${options.personIds?.length ? `${options.personIds.length} people` : "organization"} ${organizationId}: ${result.scored} scored, ${result.deactivated} deactivated`,
+  );
+  return result;
+}
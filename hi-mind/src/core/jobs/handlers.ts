@@ -0,0 +1,225 @@
+/**
+ * Job Handlers
+ * What each job type does. Handlers throw to have the job retried; their return value is
+ * stored as the job result.
+ */
+
+import { getKnowledgeEngine } from "@/core/knowledge-engine-singleton";
+import { recomputeTopicExperts } from "@/core/expertise-scoring";
+import { SlackBackfill } from "@/integrations/slack/backfill";
+import { SlackAnswerSuggester } from "@/integrations/slack/answer-suggestions";
+import { getSlackConfig } from "@/integrations/slack/config";
+import { buildNoticeMessage } from "@/integrations/slack/blocks";
+import { BackfillTracker } from "@/lib/backfill-runs";
+import {
+  discoverGitHubRepositories,
+  recordGitHubRepositorySync,
+} from "@/lib/github-repositories";
+import { GitHubAPIClient } from "@/integrations/github/github-api-client";
+import {
+  getGitHubController,
+  startGitHubIntegration,
+} from "@/integrations/github/integration";
+import type { GitHubController } from "@/integrations/github/github.controller";
+import type { Job, JobHandler, JobType } from "./types";
+
+type JobHandlers = { [T in JobType]: JobHandler<T> };
+
+export const JOB_HANDLERS: JobHandlers = {
+  ingest_source: async ({ source }, job) => {
+    const knowledgePointId = await getKnowledgeEngine().ingestKnowledgeSource(
+      source,
+      organizationOf(job),
+    );
+    return { knowledgePointId };
+  },
+
+  ingest_slack_message: async ({ source }, job) => {
+    const knowledgePointId =
+      await getKnowledgeEngine().ingestSlackMessageWithContext(
+        source,
+        organizationOf(job),
+      );
+    return { knowledgePointId };
+  },
+
+  ingest_github_comment: async ({ source }, job) => {
+    const knowledgePointId =
+      await getKnowledgeEngine().ingestGitHubCommentWithContext(
+        source,
+        organizationOf(job),
+      );
+    return { knowledgePointId };
+  },
+
+  assign_topics: async ({ knowledgePointId, authorPersonId }, job) => {
+    const organizationId = organizationOf(job);
+    const topicsJoined =
+      await getKnowledgeEngine().assignKnowledgePointToTopics(
+        organizationId,
+        knowledgePointId,
+      );
+
+    // Rescore the author once the new knowledge point has joined its topics
+    const expertise = authorPersonId
+      ? await recomputeTopicExperts(organizationId, {
+          personIds: [authorPersonId],
+        })
+      : null;
+
+    return { topicsJoined, expertise };
+  },
+
+  recompute_expertise: async ({ personIds }, job) =>
+    recomputeTopicExperts(organizationOf(job), { personIds }),
+
+  discover_topics: async (options, job) => {
+    const result = await getKnowledgeEngine().discoverTopicClusters(
+      organizationOf(job),
+      options,
+    );
+
+    return {
+      message: `Topic discovery completed! Found ${result.stats.clustersFound} clusters, created ${result.stats.newTopics} new topics, updated ${result.stats.updatedTopics} existing topics.`,
+      stats: result.stats,
+      topics: result.topics.map((topic) => ({
+        id: topic.id,
+        name: topic.name,
+        knowledgePointCount: topic.knowledge_point_count,
+        confidenceScore: topic.confidence_score,
+        isNew: topic.isNew,
+      })),
+    };
+  },
+
+  slack_backfill: async ({ backfillRunId, responseUrl }, job) => {
+    const organizationId = organizationOf(job);
+    const tracker = await BackfillTracker.start(backfillRunId, organizationId);
+
+    try {
+      const backfill = new SlackBackfill(getSlackConfig().botToken);
+
+      // The bot token belongs to one workspace; only its organization may backfill it
+      const workspaceOrg = await backfill.resolveOrganization();
+      if (workspaceOrg?.id !== organizationId) {
+        throw new Error(
+          "The configured Slack workspace is not linked to this organization",
+        );
+      }
+
+      const result = await backfill.runBackfill(tracker);
+      await tracker.complete();
+
+      if (responseUrl) {
+        await fetch(responseUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            buildNoticeMessage(
+              `✅ Slack backfill completed: ${result.messagesQueued} messages from ${result.channels} channels queued for processing.`,
+            ),
+          ),
+        }).catch((error) =>
+          console.error("⚠️ [JOBS] Failed to report Slack backfill:", error),
+        );
+      }
+
+      return { backfillRunId, ...result };
+    } catch (error) {
+      await tracker.fail(errorMessage(error), willRetry(job));
+      throw error;
+    }
+  },
+
+  github_backfill: async ({ owner, repo, backfillRunId }, job) => {
+    const organizationId = organizationOf(job);
+    const tracker = await BackfillTracker.start(backfillRunId, organizationId);
+    const startedAt = new Date().toISOString();
+    await recordGitHubRepositorySync(organizationId, owner, repo, {
+      status: "syncing",
+    });
+
+    try {
+      const controller = await githubController();
+      const result = await controller.triggerBackfill({
+        owner,
+        repo,
+        organizationId,
+        tracker,
+      });
+      if (!result.success) {
+        throw new Error(result.errors.join("; "));
+      }
+
+      await tracker.complete();
+      await recordGitHubRepositorySync(organizationId, owner, repo, {
+        status: "synced",
+        cursor: startedAt,
+      });
+      return { backfillRunId, ...result };
+    } catch (error) {
+      await tracker.fail(errorMessage(error), willRetry(job));
+      await recordGitHubRepositorySync(organizationId, owner, repo, {
+        status: willRetry(job) ? "queued" : "failed",
+        error: errorMessage(error),
+      });
+      throw error;
+    }
+  },
+
+  github_webhook: async ({ event, deliveryId, payload }, job) => {
+    const controller = await githubController();
+    const processed = await controller.processWebhookEvent(
+      event,
+      payload,
+      organizationOf(job),
+    );
+    return { event, deliveryId, processed };
+  },
+
+  replay_github_events: async (filters, job) => {
+    const controller = await githubController();
+    const replayed = await controller.replayEvents(
+      organizationOf(job),
+      filters,
+    );
+    return { ...filters, replayed };
+  },
+
+  discover_github_repositories: async (_payload, job) =>
+    discoverGitHubRepositories(organizationOf(job), new GitHubAPIClient()),
+
+  suggest_slack_answer: async (message, job) =>
+    new SlackAnswerSuggester(getSlackConfig().botToken).suggest(
+      organizationOf(job),
+      message,
+    ),
+};
+
+function organizationOf(job: Job): string {
+  if (!job.organization_id) {
+    throw new Error(`Job ${job.id} (${job.type}) has no organization`);
+  }
+  return job.organization_id;
+}
+
+/** The GitHub controller, starting the integration without a backfill if needed */
+async function githubController(): Promise<GitHubController> {
+  if (!getGitHubController()) {
+    await startGitHubIntegration(true);
+  }
+  const controller = getGitHubController();
+  if (!controller) {
+    throw new Error("GitHub integration not initialized");
+  }
+  return controller;
+}
+
+/** Whether the worker will retry the job if this attempt fails */
+function willRetry(job: Job): boolean {
+  return job.attempts < job.max_attempts;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
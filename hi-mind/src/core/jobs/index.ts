@@ -0,0 +1,12 @@
+/**
+ * Background job queue. The worker lives in ./worker and is started from instrumentation.
+ */
+
+export * from "./types";
+export {
+  enqueueJob,
+  findDedupeKeys,
+  getJob,
+  listJobs,
+  retryDeadJob,
+} from "./queue";
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServiceClient } from "@/utils/supabase/service";
+import { failJob } from "./queue";
+import type { Job } from "./types";
+
+vi.mock("@/utils/supabase/service", () => ({ createServiceClient: vi.fn() }));
+
+const NOW = new Date("2025-06-01T12:00:00.000Z");
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: "job-1",
+    organization_id: "org-1",
+    type: "slack_backfill",
+    payload: { teamId: "T1", backfillRunId: "run-1" },
+    status: "running",
+    attempts: 1,
+    max_attempts: 5,
+    run_at: "2025-06-01T11:00:00.000Z",
+    locked_at: "2025-06-01T11:59:00.000Z",
+    locked_by: "worker-1",
+    last_error: null,
+    result: null,
+    dedupe_key: null,
+    created_at: "2025-06-01T11:00:00.000Z",
+    updated_at: "2025-06-01T11:59:00.000Z",
+    completed_at: null,
+    ...overrides,
+  };
+}
+
+/** Run failJob and return the row update it wrote */
+async function failAndCapture(job: Job, failure: unknown = new Error("boom")) {
+  const update = vi.fn<(row: Record<string, unknown>) => unknown>(() => ({
+    eq: vi.fn().mockResolvedValue({ error: null }),
+  }));
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: () => ({ update }),
+  } as unknown as ReturnType<typeof createServiceClient>);
+
+  await failJob(job, failure);
+  return update.mock.calls[0][0];
+}
+
+const delayOf = (row: Record<string, unknown>) =>
+  Date.parse(row.run_at as string) - NOW.getTime();
+
+describe("failJob", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // No jitter: the delay is exactly the backoff step
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("requeues the job and releases its lock", async () => {
+    const row = await failAndCapture(makeJob());
+
+    expect(row).toMatchObject({
+      status: "queued",
+      last_error: "boom",
+      locked_at: null,
+      locked_by: null,
+      completed_at: null,
+    });
+  });
+
+  it.each([
+    [1, 30_000],
+    [2, 60_000],
+    [3, 120_000],
+    [4, 240_000],
+  ])("waits exponentially longer after attempt %i", async (attempts, delay) => {
+    const row = await failAndCapture(makeJob({ attempts, max_attempts: 10 }));
+    expect(delayOf(row)).toBe(delay);
+  });
+
+  it("caps the delay at an hour", async () => {
+    const row = await failAndCapture(
+      makeJob({ attempts: 9, max_attempts: 10 }),
+    );
+    expect(delayOf(row)).toBe(60 * 60 * 1000);
+  });
+
+  it("spreads retries by up to 20% either way", async () => {
+    vi.mocked(Math.random).mockReturnValue(0);
+    expect(delayOf(await failAndCapture(makeJob()))).toBe(24_000);
+
+    vi.mocked(Math.random).mockReturnValue(0.999999);
+    expect(delayOf(await failAndCapture(makeJob()))).toBeCloseTo(36_000, -1);
+  });
+
+  it("dead-letters the job once its attempts are used up", async () => {
+    const job = makeJob({ attempts: 5, max_attempts: 5 });
+    const row = await failAndCapture(job, "rate limited");
+
+    expect(row).toMatchObject({
+      status: "dead",
+      last_error: "rate limited",
+      run_at: job.run_at,
+      completed_at: NOW.toISOString(),
+    });
+  });
+});
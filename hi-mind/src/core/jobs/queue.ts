@@ -0,0 +1,269 @@
+/**
+ * Job Queue
+ * Postgres-backed queue in the jobs table. Producers enqueue typed jobs; workers claim
+ * them with claim_jobs, keep their locks alive with heartbeat_jobs and report back with
+ * completeJob or failJob.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service";
+import type {
+  EnqueueOptions,
+  Job,
+  JobClaim,
+  JobPayloads,
+  JobStatus,
+  JobType,
+} from "./types";
+
+// Retry delays grow 30s, 1m, 2m, 4m... up to an hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// Postgres unique_violation, raised by the dedupe index
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Add a job to the queue. With a dedupe key, an already queued or running job with the
+ * same type and key is returned instead of creating a second one.
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  organizationId: string | null,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {},
+): Promise<Job<T>> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .insert({
+      organization_id: organizationId,
+      type,
+      payload,
+      max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      run_at: (options.runAt ?? new Date()).toISOString(),
+      dedupe_key: options.dedupeKey ?? null,
+    })
+    .select()
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION && options.dedupeKey) {
+    const { data: existing, error: existingError } = await supabase
+      .from("jobs")
+      .select()
+      .eq("type", type)
+      .eq("dedupe_key", options.dedupeKey)
+      .in("status", ["queued", "running"])
+      .maybeSingle();
+
+    if (existing) {
+      console.log(
+        `⏭️ [JOBS] ${type} already pending for ${options.dedupeKey}: ${existing.id}`,
+      );
+      return existing as Job<T>;
+    }
+    if (existingError) throw existingError;
+  }
+
+  if (error) {
+    console.error(`❌ [JOBS] Failed to enqueue ${type}:`, error);
+    throw error;
+  }
+
+  console.log(`📥 [JOBS] Enqueued ${type}: ${data.id}`);
+  return data as Job<T>;
+}
+
+/**
+ * Which of the given dedupe keys already have a job of this type in one of the statuses
+ */
+export async function findDedupeKeys(
+  type: JobType,
+  dedupeKeys: string[],
+  statuses: JobStatus[],
+): Promise<Set<string>> {
+  if (dedupeKeys.length === 0) return new Set();
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("dedupe_key")
+    .eq("type", type)
+    .in("dedupe_key", dedupeKeys)
+    .in("status", statuses);
+
+  if (error) throw error;
+  return new Set((data || []).map((job) => job.dedupe_key as string));
+}
+
+export async function getJob(
+  jobId: string,
+  organizationId: string,
+): Promise<Job | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .select()
+    .eq("id", jobId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Job | null;
+}
+
+export async function listJobs(
+  organizationId: string,
+  options: { status?: string; type?: string; limit?: number } = {},
+): Promise<Job[]> {
+  const supabase = createServiceClient();
+
+  let query = supabase
+    .from("jobs")
+    .select()
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.status) query = query.eq("status", options.status);
+  if (options.type) query = query.eq("type", options.type);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as Job[];
+}
+
+/**
+ * Claim due jobs of several types in one call, respecting each type's concurrency limit
+ * across workers
+ */
+export async function claimJobs(
+  workerId: string,
+  claims: JobClaim[],
+): Promise<Job[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("claim_jobs", {
+    worker_id: workerId,
+    job_types: claims.map((claim) => claim.type),
+    max_running: claims.map((claim) => claim.maxRunning),
+    batch_sizes: claims.map((claim) => claim.batchSize),
+    lock_timeout_seconds: claims.map((claim) => claim.lockTimeoutSeconds),
+  });
+
+  if (error) throw error;
+  return (data || []) as Job[];
+}
+
+/**
+ * Extend the locks a worker holds on its running jobs. Returns the IDs it still holds.
+ */
+export async function heartbeatJobs(
+  workerId: string,
+  jobIds: string[],
+): Promise<Set<string>> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("heartbeat_jobs", {
+    worker_id: workerId,
+    job_ids: jobIds,
+  });
+
+  if (error) throw error;
+  return new Set((data || []) as string[]);
+}
+
+export async function completeJob(job: Job, result: unknown): Promise<void> {
+  const supabase = createServiceClient();
+
+  const { error } = await supabase
+    .from("jobs")
+    .update({
+      status: "succeeded",
+      result: result ?? null,
+      last_error: null,
+      locked_at: null,
+      locked_by: null,
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (error) throw error;
+}
+
+/**
+ * Record a failed attempt: requeue with exponential backoff, or dead-letter the job once
+ * it has used all of its attempts
+ */
+export async function failJob(job: Job, failure: unknown): Promise<void> {
+  const supabase = createServiceClient();
+  const message =
+    failure instanceof Error
+      ? failure.message
+      : String(failure ?? "Unknown error");
+  const dead = job.attempts >= job.max_attempts;
+
+  const delay = Math.min(
+    RETRY_BASE_DELAY_MS * 2 ** Math.max(job.attempts - 1, 0),
+    RETRY_MAX_DELAY_MS,
+  );
+  // Jitter keeps jobs that failed together from retrying together
+  const runAt = new Date(Date.now() + delay * (0.8 + Math.random() * 0.4));
+
+  const { error } = await supabase
+    .from("jobs")
+    .update({
+      status: dead ? "dead" : "queued",
+      last_error: message,
+      run_at: dead ? job.run_at : runAt.toISOString(),
+      locked_at: null,
+      locked_by: null,
+      completed_at: dead ? new Date().toISOString() : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (error) throw error;
+
+  if (dead) {
+    console.error(
+      `💀 [JOBS] ${job.type} ${job.id} dead-lettered after ${job.attempts} attempts: ${message}`,
+    );
+  } else {
+    console.warn(
+      `🔁 [JOBS] ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying at ${runAt.toISOString()}: ${message}`,
+    );
+  }
+}
+
+/**
+ * Put a dead-lettered job back in the queue with a fresh set of attempts
+ */
+export async function retryDeadJob(
+  jobId: string,
+  organizationId: string,
+): Promise<Job | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("jobs")
+    .update({
+      status: "queued",
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      completed_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("organization_id", organizationId)
+    .eq("status", "dead")
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as Job | null;
+}
@@ -0,0 +1,113 @@
+import type {
+  GitHubCommentContext,
+  KnowledgeSource,
+} from "@/core/knowledge-engine";
+import type {
+  GitHubWebhookEvent,
+  GitHubWebhookPayload,
+} from "@/integrations/github/webhook";
+import type { GitHubEventType } from "@/integrations/github/github.repository";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "dead";
+
+/**
+ * Payload of every job type. Adding a type here requires a handler in handlers.ts.
+ */
+export interface JobPayloads {
+  /** Process a raw source into a knowledge point */
+  ingest_source: { source: KnowledgeSource; backfillRunId?: string };
+  /** Process a Slack message with its thread and channel context */
+  ingest_slack_message: {
+    source: KnowledgeSource & { channelId?: string; threadTs?: string };
+    backfillRunId?: string;
+  };
+  /** Process a GitHub comment or review with its issue or pull request as context */
+  ingest_github_comment: {
+    source: KnowledgeSource & GitHubCommentContext;
+    backfillRunId?: string;
+  };
+  /** Attach a new knowledge point to existing topics, then rescore its author */
+  assign_topics: { knowledgePointId: string; authorPersonId: string | null };
+  /** Recompute topic_experts for the organization, or only some people */
+  recompute_expertise: { personIds?: string[] };
+  discover_topics: {
+    minClusterSize?: number;
+    maxClusters?: number;
+    similarityThreshold?: number;
+  };
+  /** Backfill the workspace of the configured bot token */
+  slack_backfill: {
+    /** Progress is reported into this backfill_runs row */
+    backfillRunId: string;
+    /** Set when started from /himind sync, to post progress back to the channel */
+    teamId?: string;
+    responseUrl?: string;
+  };
+  github_backfill: { owner: string; repo: string; backfillRunId: string };
+  /** Process a verified GitHub webhook delivery */
+  github_webhook: {
+    event: GitHubWebhookEvent;
+    deliveryId: string;
+    payload: GitHubWebhookPayload;
+  };
+  /** Feed stored GitHub events back into the knowledge engine */
+  replay_github_events: {
+    repository?: string;
+    type?: GitHubEventType;
+    since?: string;
+  };
+  /** Track the repositories discovery matches and queue their first sync */
+  discover_github_repositories: Record<string, never>;
+  /** Reply in the thread of a new channel message if it asks something HiMind knows */
+  suggest_slack_answer: {
+    channelId: string;
+    messageTs: string;
+    text: string;
+    authorExternalId: string;
+  };
+}
+
+export type JobType = keyof JobPayloads;
+
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  organization_id: string | null;
+  type: T;
+  payload: JobPayloads[T];
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  last_error: string | null;
+  result: unknown;
+  dedupe_key: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface EnqueueOptions {
+  /** Delay before the first attempt */
+  runAt?: Date;
+  maxAttempts?: number;
+  /** Skip enqueueing while a job with the same type and key is queued or running */
+  dedupeKey?: string;
+}
+
+/** What a worker asks claim_jobs for, per job type */
+export interface JobClaim {
+  type: JobType;
+  /** Jobs of this type running at once, across all workers */
+  maxRunning: number;
+  /** Jobs this worker takes */
+  batchSize: number;
+  lockTimeoutSeconds: number;
+}
+
+/** A handler's return value is stored as the job result */
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloads[T],
+  job: Job<T>,
+) => Promise<unknown>;
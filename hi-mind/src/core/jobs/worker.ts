@@ -0,0 +1,166 @@
+/**
+ * Job Worker
+ * Polls the jobs table, runs claimed jobs through their handlers and reports the outcome.
+ * Each job type has a concurrency limit shared by every worker process. While a handler
+ * runs, the worker keeps extending its lock so the job is not handed to another worker.
+ */
+
+import { JOB_HANDLERS } from "./handlers";
+import { claimJobs, completeJob, failJob, heartbeatJobs } from "./queue";
+import type { Job, JobClaim, JobHandler, JobType } from "./types";
+
+interface JobTypeConfig {
+  /** Jobs of this type running at once, across all workers */
+  concurrency: number;
+  /** A running job is released for another worker after this long without a heartbeat */
+  lockTimeoutSeconds: number;
+}
+
+export const JOB_TYPE_CONFIG: Record<JobType, JobTypeConfig> = {
+  // Ingestion calls the LLM and embedding providers, so keep it modest
+  ingest_source: { concurrency: 3, lockTimeoutSeconds: 300 },
+  ingest_slack_message: { concurrency: 3, lockTimeoutSeconds: 300 },
+  ingest_github_comment: { concurrency: 3, lockTimeoutSeconds: 300 },
+  assign_topics: { concurrency: 5, lockTimeoutSeconds: 300 },
+  recompute_expertise: { concurrency: 1, lockTimeoutSeconds: 600 },
+  discover_topics: { concurrency: 1, lockTimeoutSeconds: 1800 },
+  slack_backfill: { concurrency: 1, lockTimeoutSeconds: 3600 },
+  github_backfill: { concurrency: 1, lockTimeoutSeconds: 3600 },
+  // A push can carry many commits, each analysed by the LLM
+  github_webhook: { concurrency: 2, lockTimeoutSeconds: 1800 },
+  replay_github_events: { concurrency: 1, lockTimeoutSeconds: 3600 },
+  discover_github_repositories: { concurrency: 1, lockTimeoutSeconds: 600 },
+  suggest_slack_answer: { concurrency: 2, lockTimeoutSeconds: 120 },
+};
+
+const POLL_INTERVAL_MS = 1000;
+// Well inside the shortest lock timeout, so a slow heartbeat does not lose the lock
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export class JobWorker {
+  readonly id = `worker-${process.pid}-${crypto.randomUUID().slice(0, 8)}`;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private inFlight = new Map<JobType, number>();
+  private runningJobs = new Set<string>();
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    console.log(`👷 [JOBS] Worker ${this.id} started`);
+    this.schedulePoll(0);
+    this.heartbeat = setInterval(
+      () => void this.extendLocks(),
+      HEARTBEAT_INTERVAL_MS,
+    );
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+    console.log(`🛑 [JOBS] Worker ${this.id} stopped`);
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.poll().finally(() => this.schedulePoll(POLL_INTERVAL_MS));
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    const claims: JobClaim[] = [];
+    for (const type of Object.keys(JOB_TYPE_CONFIG) as JobType[]) {
+      const { concurrency, lockTimeoutSeconds } = JOB_TYPE_CONFIG[type];
+      const free = concurrency - (this.inFlight.get(type) ?? 0);
+      if (free <= 0) continue;
+
+      claims.push({
+        type,
+        maxRunning: concurrency,
+        batchSize: free,
+        lockTimeoutSeconds,
+      });
+    }
+    if (claims.length === 0) return;
+
+    try {
+      const jobs = await claimJobs(this.id, claims);
+      for (const job of jobs) {
+        void this.run(job);
+      }
+    } catch (error) {
+      console.error(`❌ [JOBS] Failed to claim jobs:`, error);
+    }
+  }
+
+  private async extendLocks(): Promise<void> {
+    if (this.runningJobs.size === 0) return;
+
+    const jobIds = [...this.runningJobs];
+    try {
+      const held = await heartbeatJobs(this.id, jobIds);
+      for (const jobId of jobIds) {
+        // A job that finished since the heartbeat started has already let go of its lock
+        if (!held.has(jobId) && this.runningJobs.has(jobId)) {
+          console.warn(
+            `⚠️ [JOBS] Lost the lock on ${jobId}; it may be running on another worker`,
+          );
+        }
+      }
+    } catch (error) {
+      console.error(`❌ [JOBS] Failed to extend job locks:`, error);
+    }
+  }
+
+  private async run(job: Job): Promise<void> {
+    this.inFlight.set(job.type, (this.inFlight.get(job.type) ?? 0) + 1);
+    this.runningJobs.add(job.id);
+    console.log(
+      `▶️ [JOBS] Running ${job.type} ${job.id} (attempt ${job.attempts}/${job.max_attempts})`,
+    );
+
+    try {
+      const handler = JOB_HANDLERS[job.type] as JobHandler<JobType> | undefined;
+      if (!handler) {
+        throw new Error(`No handler for job type ${job.type}`);
+      }
+
+      const result = await handler(job.payload, job);
+      await completeJob(job, result);
+      console.log(`✅ [JOBS] Completed ${job.type} ${job.id}`);
+    } catch (error) {
+      await failJob(job, error).catch((failError) =>
+        console.error(
+          `❌ [JOBS] Failed to record failure of ${job.id}:`,
+          failError,
+        ),
+      );
+    } finally {
+      this.runningJobs.delete(job.id);
+      this.inFlight.set(job.type, (this.inFlight.get(job.type) ?? 1) - 1);
+    }
+  }
+}
+
+let workerInstance: JobWorker | null = null;
+
+/**
+ * Start the job worker for this process, once
+ */
+export function startJobWorker(): JobWorker {
+  if (!workerInstance) {
+    workerInstance = new JobWorker();
+    workerInstance.start();
+  }
+  return workerInstance;
+}
+
+export function stopJobWorker(): void {
+  workerInstance?.stop();
+  workerInstance = null;
+}
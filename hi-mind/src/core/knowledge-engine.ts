@@ -6,15 +6,27 @@
  * 2. Discovering topic clusters from embedding similarities
  * 3. Routing questions to relevant sources or experts
  *
- * Key Principle: Never generate answers, always route to SOURCES or EXPERTS
+ * Key Principle: Route to SOURCES or EXPERTS. Answers are only written on request
+ * (search mode "answer"), only from retrieved sources, and every claim cites one.
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
 import { getSupabaseClient } from "@/lib/database";
+import { enqueueJob } from "@/core/jobs";
 import { createServiceClient } from "@/utils/supabase/service";
-import OpenAI from "openai";
+import {
+  type EmbeddingProvider,
+  getEmbeddingProvider,
+} from "@/core/providers/embedding-provider";
+import {
+  type ChatCallSpec,
+  type ChatModelProvider,
+  completeJson,
+  completeText,
+  getChatModelProvider,
+} from "@/core/providers/chat-model-provider";
 
 export interface KnowledgeSource {
   platform: "slack" | "github";
@@ -23,13 +35,37 @@ export interface KnowledgeSource {
     | "slack_thread"
     | "github_pr"
     | "github_issue"
-    | "github_comment";
+    | "github_comment"
+    | "github_commit";
   externalId: string;
   externalUrl?: string;
   title?: string;
   content: string;
   authorExternalId: string;
   platformCreatedAt: string;
+  /** Last edit on the platform; older versions of the source are not ingested over it */
+  platformUpdatedAt?: string;
+}
+
+/**
+ * Where a GitHub comment sits. Its issue or pull request is read from its URL; review
+ * comments are also anchored to lines of a file.
+ */
+export interface GitHubCommentContext {
+  commentKind: "issue_comment" | "review" | "review_comment";
+  /** Title of the issue or pull request, when the comment's payload carried it */
+  parentTitle?: string;
+  filePath?: string;
+  lineStart?: number;
+  lineEnd?: number;
+  /** The diff a review comment was written on */
+  diffHunk?: string;
+}
+
+export interface QuestionDetection {
+  isQuestion: boolean;
+  /** The question rephrased as a standalone search query */
+  searchQuery: string;
 }
 
 export interface ProcessedKnowledge {
@@ -43,9 +79,15 @@ export interface ProcessedKnowledge {
 
 export interface KnowledgeMatch {
   knowledgePointId: string;
+  sourceId: string;
   summary: string;
-  similarityScore: number;
-  sourceUrl: string;
+  /** Vector similarity; null for keyword-only matches */
+  similarityScore: number | null;
+  /** Lexical relevance; null for vector-only matches */
+  lexicalScore: number | null;
+  /** The fused rank score results are ordered by */
+  fusedScore: number;
+  sourceUrl: string | null;
   sourceTitle?: string;
   authorName?: string;
   platform: string;
@@ -54,23 +96,306 @@ export interface KnowledgeMatch {
 export interface ExpertMatch {
   personId: string;
   displayName: string;
+  /** Topic expertise weighted by each topic's similarity to the query, summed over topics */
   expertiseScore: number;
   contributionCount: number;
   lastContributionAt: string;
+  /** Why this person was suggested */
+  explanation: ExpertExplanation;
+}
+
+export interface ExpertExplanation {
+  /** One sentence naming the topics and contributions behind the suggestion */
+  summary: string;
+  topics: ExpertTopicEvidence[];
+  contributions: ExpertContribution[];
+}
+
+export interface ExpertTopicEvidence {
+  topicId: string;
+  topicName: string;
+  /** How similar the topic is to the query; the weight applied to the expertise */
+  topicSimilarity: number;
+  expertiseScore: number;
+  contributionCount: number;
+}
+
+export interface ExpertContribution {
+  knowledgePointId: string;
+  summary: string;
+  sourceUrl: string | null;
+  platform: string;
+  topicName: string;
 }
 
 export interface QueryResult {
   query: string;
+  /** Stored search the pagination cursor points into; null if it could not be saved */
+  searchId: string | null;
   knowledgeMatches: KnowledgeMatch[];
+  /** Experts, topics and answers are only computed for the first page */
   suggestedExperts: ExpertMatch[];
   topicMatches: string[];
+  /** Only present when the search ran in "answer" mode */
+  answer?: SynthesizedAnswer;
+  pagination: SearchPagination;
+}
+
+export interface SearchPagination {
+  limit: number;
+  /** Pass back as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  /** Candidates retrieval returned before reranking */
+  totalCandidates: number;
+  /** Length of the ranked list the pages walk through */
+  totalResults: number;
+}
+
+export type SearchMode = "sources" | "answer";
+
+/**
+ * vector: embedding similarity only; lexical: full-text, trigram and keyword matches only;
+ * hybrid: both rankings fused with reciprocal rank fusion
+ */
+export type RetrievalMode = "hybrid" | "vector" | "lexical";
+
+export interface SearchOptions {
+  /** "sources" (default) returns matches only; "answer" also writes a cited answer */
+  mode?: SearchMode;
+  /** Candidate retrieval strategy, "hybrid" by default */
+  retrieval?: RetrievalMode;
+  /** Restricts both rankings to sources matching every given filter */
+  filters?: SearchFilters;
+  /** Results per page, DEFAULT_SEARCH_PAGE_SIZE by default */
+  limit?: number;
+  /** nextCursor of the previous page; later pages are read from the stored ranking */
+  cursor?: string;
+  /** Let the LLM reorder and prune candidates (default); false keeps retrieval order */
+  rerank?: boolean;
+}
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 3;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+
+/** Thrown for cursors that are malformed, expired or belong to another search */
+export class SearchCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchCursorError";
+  }
+}
+
+export interface SearchFilters {
+  platform?: KnowledgeSource["platform"];
+  sourceTypes?: KnowledgeSource["sourceType"][];
+  authorPersonIds?: string[];
+  /** Slack channel IDs */
+  channelIds?: string[];
+  /** GitHub repositories as "owner/repo" */
+  repositories?: string[];
+  /** ISO timestamps bounding platform_created_at; the upper bound is exclusive */
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface AnswerCitation {
+  /** 1-based marker used inline in the answer text, e.g. [1] */
+  index: number;
+  knowledgePointId: string;
+  sourceUrl: string;
+  sourceTitle?: string;
+  platform: string;
+}
+
+export interface AnswerClaim {
+  text: string;
+  /** Indexes into SynthesizedAnswer.citations */
+  citations: number[];
+}
+
+export interface SynthesizedAnswer {
+  /** "declined" when the retrieved sources do not cover the question */
+  status: "answered" | "declined";
+  /** Markdown with inline citation links after each claim */
+  text: string;
+  claims: AnswerClaim[];
+  citations: AnswerCitation[];
+}
+
+// =========================
+// LLM Call Sites
+// =========================
+
+const RANK_RESULTS_CALL: ChatCallSpec = {
+  name: "rank_results",
+  model: "gpt-3.5-turbo",
+  timeoutMs: 5000, // Search latency matters more than ranking quality
+  maxTokens: 150, // Room to order every candidate
+  temperature: 0.1, // Low temperature for consistent ranking
+};
+
+const ENHANCE_MESSAGE_CALL: ChatCallSpec = {
+  name: "enhance_message",
+  model: "gpt-3.5-turbo",
+  timeoutMs: 15000,
+  maxTokens: 200,
+  temperature: 0.1, // Low temperature for consistent extraction
+  jsonSchema: {
+    type: "object",
+    properties: {
+      skip: { type: "boolean" },
+      knowledge: { type: "string" },
+      relatedQuestions: { type: "array", items: { type: "string" } },
+    },
+    required: ["skip"],
+  },
+};
+
+const ENHANCE_GITHUB_COMMENT_CALL: ChatCallSpec = {
+  ...ENHANCE_MESSAGE_CALL,
+  name: "enhance_github_comment",
+  maxTokens: 300, // Review reasoning runs longer than chat messages
+};
+
+const DETECT_QUESTION_CALL: ChatCallSpec = {
+  name: "detect_question",
+  model: "gpt-3.5-turbo",
+  timeoutMs: 10000,
+  maxTokens: 100,
+  temperature: 0,
+  jsonSchema: {
+    type: "object",
+    properties: {
+      isQuestion: { type: "boolean" },
+      searchQuery: { type: "string" },
+    },
+    required: ["isQuestion"],
+  },
+};
+
+const CLUSTER_THEMES_CALL: ChatCallSpec = {
+  name: "cluster_themes",
+  model: "gpt-3.5-turbo",
+  timeoutMs: 20000,
+  maxTokens: 80,
+  temperature: 0.2,
+};
+
+const TOPIC_NAME_CALL: ChatCallSpec = {
+  name: "topic_name",
+  model: "gpt-3.5-turbo",
+  timeoutMs: 10000,
+  maxTokens: 15,
+  temperature: 0.1, // Very low for consistency
+};
+
+const SYNTHESIZE_ANSWER_CALL: ChatCallSpec = {
+  name: "synthesize_answer",
+  model: "gpt-4o-mini",
+  timeoutMs: 20000,
+  maxTokens: 500,
+  temperature: 0, // Stick to the sources
+  jsonSchema: {
+    type: "object",
+    properties: {
+      answerable: { type: "boolean" },
+      claims: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            text: { type: "string" },
+            sources: { type: "array", items: { type: "integer" } },
+          },
+          required: ["text", "sources"],
+        },
+      },
+    },
+    required: ["answerable", "claims"],
+  },
+};
+
+// Characters of each source passed to the answer prompt
+const ANSWER_SOURCE_CHARS = 2000;
+
+// Earlier comments on the same issue or pull request given as context
+const GITHUB_CONTEXT_COMMENTS = 8;
+
+// Longest parent description or diff hunk quoted in a comment's context
+const GITHUB_CONTEXT_CHARS = 1500;
+
+// Quality of an accepted answer's knowledge point, unless it already scored higher
+const ACCEPTED_ANSWER_QUALITY = 0.95;
+
+type AnswerSource = AnswerCitation & { content: string };
+
+// Candidates fetched per search. Reranking sends every candidate to the LLM, so it
+// works on a smaller pool than plain retrieval order.
+const RERANK_CANDIDATE_LIMIT = 25;
+const RETRIEVAL_CANDIDATE_LIMIT = 100;
+
+// Stored rankings are only paged through for a day
+const SEARCH_CURSOR_TTL_MS = 24 * 60 * 60 * 1000;
+
+// What contextual ingestion adds to a source and its knowledge point
+interface SourceIngestFields {
+  /** knowledge_sources columns specific to the platform, e.g. the Slack thread */
+  sourceColumns?: Record<string, unknown>;
+  contextualContent?: string;
+  relatedQuestions?: string[];
+  /** Sources the contextual content was drawn from */
+  contextSources?: string[];
+  /** Store the source without a knowledge point, e.g. a question the LLM let through */
+  storeOnly?: boolean;
+}
+
+// The knowledge_sources columns ingestion reads back after storing a source
+type StoredSourceRow = {
+  id: string;
+  platform_updated_at: string | null;
+  is_accepted_answer: boolean;
+};
+
+// A row as find_similar_knowledge returns it
+type SimilarKnowledgeRow = {
+  knowledge_point_id: string;
+  source_id: string;
+  summary: string;
+  similarity_score: number | null;
+  lexical_score: number | null;
+  fused_score: number;
+  source_url: string | null;
+  source_title: string | null;
+  author_name: string | null;
+  platform: string;
+};
+
+function toKnowledgeMatch(row: SimilarKnowledgeRow): KnowledgeMatch {
+  return {
+    knowledgePointId: row.knowledge_point_id,
+    sourceId: row.source_id,
+    summary: row.summary,
+    similarityScore: row.similarity_score,
+    lexicalScore: row.lexical_score,
+    fusedScore: row.fused_score,
+    sourceUrl: row.source_url,
+    sourceTitle: row.source_title ?? undefined,
+    authorName: row.author_name ?? undefined,
+    platform: row.platform,
+  };
 }
 
 export class KnowledgeEngine {
   private supabase: any;
-  private openai: OpenAI;
+  private chat: ChatModelProvider;
+  private embeddings: EmbeddingProvider;
 
-  constructor() {
+  constructor(
+    providers: {
+      chat?: ChatModelProvider;
+      embeddings?: EmbeddingProvider;
+    } = {},
+  ) {
     // Always use service client to avoid cookies dependency
     try {
       this.supabase = createServiceClient();
@@ -82,15 +407,9 @@ export class KnowledgeEngine {
       );
     }
 
-    // Initialize OpenAI client
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error(
-        "OpenAI API key required for Knowledge Engine. Please set OPENAI_API_KEY environment variable.",
-      );
-    }
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    // Model providers come from configuration unless injected (e.g. scripted fakes)
+    this.chat = providers.chat ?? getChatModelProvider();
+    this.embeddings = providers.embeddings ?? getEmbeddingProvider();
   }
 
   /**
@@ -99,94 +418,17 @@ export class KnowledgeEngine {
   async ingestKnowledgeSource(
     source: KnowledgeSource,
     organizationId: string,
-  ): Promise<string> {
+  ): Promise<string | null> {
     console.log(
       `🧠 [KNOWLEDGE ENGINE] Ingesting ${source.platform}:${source.sourceType} - ${source.externalId}`,
     );
 
-    // 1. Try to resolve author first to get person_id
-    let authorPersonId: string | null = null;
-    if (source.authorExternalId && source.platform) {
-      authorPersonId = await this.getOrCreateAuthorPerson(
-        source,
-        organizationId,
-      );
-    }
-
-    // 2. Store the raw knowledge source
-    const { data: knowledgeSource, error: sourceError } = await this.supabase
-      .from("knowledge_sources")
-      .upsert(
-        {
-          organization_id: organizationId,
-          platform: source.platform,
-          source_type: source.sourceType,
-          external_id: source.externalId,
-          external_url: source.externalUrl,
-          title: source.title,
-          content: source.content,
-          author_external_id: source.authorExternalId,
-          author_person_id: authorPersonId,
-          platform_created_at: source.platformCreatedAt,
-        },
-        {
-          onConflict: "organization_id,platform,external_id",
-        },
-      )
-      .select()
-      .single();
-
-    if (sourceError) {
-      console.error("Failed to store knowledge source:", sourceError);
-      throw sourceError;
-    }
-
-    // 2. Process content with AI to extract knowledge
-    const processed = await this.processContentWithAI(
-      source.content,
-      source.title,
-    );
-
-    // 3. Store the processed knowledge point
-    const { data: knowledgePoint, error: pointError } = await this.supabase
-      .from("knowledge_points")
-      .upsert(
-        {
-          source_id: knowledgeSource.id,
-          summary: processed.summary,
-          keywords: processed.keywords,
-          embedding: processed.embedding,
-          quality_score: processed.qualityScore,
-          relevance_score: processed.relevanceScore,
-        },
-        {
-          onConflict: "source_id",
-        },
-      )
-      .select()
-      .single();
-
-    if (pointError) {
-      console.error("Failed to store knowledge point:", pointError);
-      throw pointError;
+    const stored = await this.findStoredSource(organizationId, source);
+    if (this.isSuperseded(stored, source)) {
+      return null;
     }
 
-    // 4. Update topic clusters and expert scores asynchronously
-    this.updateTopicClustersAsync(
-      organizationId,
-      knowledgePoint.id,
-      processed.embedding,
-    );
-    this.updateExpertiseScoresAsync(
-      organizationId,
-      source.authorExternalId,
-      knowledgePoint.id,
-    );
-
-    console.log(
-      `✅ [KNOWLEDGE ENGINE] Processed knowledge point: ${knowledgePoint.id}`,
-    );
-    return knowledgePoint.id;
+    return this.storeAndProcessSource(source, organizationId);
   }
 
   /**
@@ -203,6 +445,12 @@ export class KnowledgeEngine {
       `🧠 [CONTEXTUAL INGEST] Processing Slack message: ${source.externalId}`,
     );
 
+    // Deleted messages and older versions of edited ones are not enriched again
+    const stored = await this.findStoredSource(organizationId, source);
+    if (this.isSuperseded(stored, source)) {
+      return null;
+    }
+
     // 1. Process message with contextual enhancement
     const contextualResult = await this.processSlackMessageWithContext({
       ...source,
@@ -213,53 +461,19 @@ export class KnowledgeEngine {
       console.log(
         `⏭️ [CONTEXTUAL INGEST] Skipping non-substantial message: ${source.externalId}`,
       );
-      return null;
-    }
-
-    // 2. Try to resolve author first to get person_id
-    let authorPersonId: string | null = null;
-    if (source.authorExternalId && source.platform) {
-      authorPersonId = await this.getOrCreateAuthorPerson(
-        source,
-        organizationId,
-      );
-    }
 
-    // 3. Store the raw knowledge source with contextual content
-    const { data: knowledgeSource, error: sourceError } = await this.supabase
-      .from("knowledge_sources")
-      .upsert(
-        {
-          organization_id: organizationId,
-          platform: source.platform,
-          source_type: source.sourceType,
-          external_id: source.externalId,
-          external_url: source.externalUrl,
-          title: source.title,
-          content: source.content,
-          contextual_content: contextualResult.contextualContent,
-          channel_id: source.channelId,
-          thread_ts: source.threadTs,
-          author_external_id: source.authorExternalId,
-          author_person_id: authorPersonId,
-          platform_created_at: source.platformCreatedAt,
-        },
-        {
-          onConflict: "organization_id,platform,external_id",
-        },
-      )
-      .select()
-      .single();
-
-    if (sourceError) {
-      console.error(
-        "❌ [CONTEXTUAL INGEST] Failed to store knowledge source:",
-        sourceError,
-      );
-      throw sourceError;
+      // An edit turned an indexed message into one that is not worth indexing
+      if (stored && (await this.replaceStoredContent(organizationId, source))) {
+        await this.retractKnowledgePoint(
+          organizationId,
+          stored.id,
+          stored.author_person_id,
+        );
+      }
+      return null;
     }
 
-    // 4. Additional safety check: Skip obvious questions that slipped through LLM filtering
+    // 2. Additional safety check: Skip obvious questions that slipped through LLM filtering
     // Be less aggressive with thread replies to capture more conversational content
     const isThread = source.sourceType === "slack_thread";
     const shouldFilter =
@@ -275,72 +489,264 @@ export class KnowledgeEngine {
       console.log(
         `🔍 [CONTEXTUAL INGEST] Enhanced: "${contextualResult.contextualContent}"`,
       );
+    } else if (isThread) {
+      console.log(
+        `🧵 [CONTEXTUAL INGEST] Processing thread reply with relaxed filtering: "${source.content}"`,
+      );
+    }
+
+    // 3. Store the message with its thread and, unless filtered, its knowledge point
+    const knowledgePointId = await this.storeAndProcessSource(
+      source,
+      organizationId,
+      {
+        sourceColumns: {
+          channel_id: source.channelId,
+          thread_ts: source.threadTs,
+        },
+        contextualContent: contextualResult.contextualContent,
+        relatedQuestions: contextualResult.relatedQuestions,
+        contextSources: contextualResult.contextSources,
+        storeOnly: shouldFilter,
+      },
+    );
+    if (!knowledgePointId) return null;
+
+    console.log(
+      `🎯 [CONTEXTUAL INGEST] Enhanced: "${source.content}" → "${contextualResult.contextualContent}"`,
+    );
+    return knowledgePointId;
+  }
+
+  /**
+   * Ingestion for GitHub comments and reviews, enriched with the issue or pull request
+   * they belong to and the discussion before them
+   */
+  async ingestGitHubCommentWithContext(
+    source: KnowledgeSource & GitHubCommentContext,
+    organizationId: string,
+  ): Promise<string | null> {
+    console.log(
+      `🧠 [CONTEXTUAL INGEST] Processing GitHub ${source.commentKind}: ${source.externalId}`,
+    );
+
+    const stored = await this.findStoredSource(organizationId, source);
+    if (this.isSuperseded(stored, source)) {
       return null;
     }
 
-    if (isThread) {
+    // 1. Enhance the comment with its discussion
+    const context = await this.gatherGitHubDiscussionContext(
+      organizationId,
+      source,
+    );
+    const enhancement = await this.enhanceGitHubCommentWithContext(
+      source,
+      context,
+    );
+
+    if (!enhancement.shouldIndex) {
       console.log(
-        `🧵 [CONTEXTUAL INGEST] Processing thread reply with relaxed filtering: "${source.content}"`,
+        `⏭️ [CONTEXTUAL INGEST] Skipping non-substantial comment: ${source.externalId}`,
       );
+
+      // An edit turned an indexed comment into one that is not worth indexing
+      if (stored && (await this.replaceStoredContent(organizationId, source))) {
+        await this.retractKnowledgePoint(
+          organizationId,
+          stored.id,
+          stored.author_person_id,
+        );
+      }
+      return null;
     }
 
-    // 5. Process content with AI using contextual enhancement and related questions
+    // 2. Store the comment with its anchor and its knowledge point
+    return this.storeAndProcessSource(source, organizationId, {
+      sourceColumns: {
+        file_path: source.filePath,
+        line_start: source.lineStart,
+        line_end: source.lineEnd,
+      },
+      contextualContent: enhancement.contextualContent,
+      relatedQuestions: enhancement.relatedQuestions,
+      contextSources: context.sourceIds,
+    });
+  }
+
+  /**
+   * Store a source and its knowledge point, then queue topic assignment and the author's
+   * expertise update. Contextual ingestion passes the enhanced content and the columns
+   * specific to its platform. Returns the knowledge point ID, or null if only the source
+   * was stored.
+   */
+  private async storeAndProcessSource(
+    source: KnowledgeSource,
+    organizationId: string,
+    fields: SourceIngestFields = {},
+  ): Promise<string | null> {
+    // 1. Try to resolve author first to get person_id
+    let authorPersonId: string | null = null;
+    if (source.authorExternalId && source.platform) {
+      authorPersonId = await this.getOrCreateAuthorPerson(
+        source,
+        organizationId,
+      );
+    }
+
+    // 2. Store the raw knowledge source, unless it was deleted or edited meanwhile
+    const knowledgeSource = await this.writeKnowledgeSource(
+      organizationId,
+      source,
+      {
+        ...fields.sourceColumns,
+        organization_id: organizationId,
+        platform: source.platform,
+        source_type: source.sourceType,
+        external_id: source.externalId,
+        external_url: source.externalUrl,
+        title: source.title,
+        content: source.content,
+        contextual_content: fields.contextualContent,
+        author_external_id: source.authorExternalId,
+        author_person_id: authorPersonId,
+        platform_created_at: source.platformCreatedAt,
+        platform_updated_at: source.platformUpdatedAt,
+      },
+    );
+    if (!knowledgeSource) return null;
+
+    if (fields.storeOnly) {
+      // Drop the point of an earlier version of the source, if any
+      await this.retractKnowledgePoint(
+        organizationId,
+        knowledgeSource.id,
+        authorPersonId,
+      );
+      return null;
+    }
+
+    // 3. Process content with AI, using the contextual enhancement when there is one
     const processed = await this.processContentWithAI(
       source.content,
       source.title,
-      contextualResult.contextualContent,
-      contextualResult.relatedQuestions,
+      fields.contextualContent,
+      fields.relatedQuestions,
     );
 
-    // 6. Store the processed knowledge point with contextual data
-    const { data: knowledgePoint, error: pointError } = await this.supabase
-      .from("knowledge_points")
-      .upsert(
-        {
+    // 4. Store the processed knowledge point, unless the source was deleted or edited
+    // while the content was processed
+    const { data: knowledgePointId, error: pointError } =
+      await this.supabase.rpc("store_knowledge_point", {
+        point: {
           source_id: knowledgeSource.id,
           summary: processed.summary,
           contextual_summary: processed.contextualSummary,
-          context_sources: contextualResult.contextSources,
+          context_sources: fields.contextSources,
           keywords: processed.keywords,
           embedding: processed.embedding,
-          quality_score: processed.qualityScore,
+          embedding_model: this.embeddings.model,
+          base_quality_score: processed.qualityScore,
+          quality_score: this.storedQualityScore(processed, knowledgeSource),
           relevance_score: processed.relevanceScore,
         },
-        {
-          onConflict: "source_id",
-        },
-      )
-      .select()
-      .single();
+        source_version: knowledgeSource.platform_updated_at,
+      });
 
     if (pointError) {
       console.error(
-        "❌ [CONTEXTUAL INGEST] Failed to store knowledge point:",
+        "❌ [KNOWLEDGE ENGINE] Failed to store knowledge point:",
         pointError,
       );
       throw pointError;
     }
+    if (!knowledgePointId) {
+      console.log(
+        `⏭️ [KNOWLEDGE ENGINE] ${source.externalId} was deleted or edited while it was processed`,
+      );
+      return null;
+    }
 
-    // 7. Update topic clusters and expert scores asynchronously
-    this.updateTopicClustersAsync(
-      organizationId,
-      knowledgePoint.id,
-      processed.embedding,
-    );
-    this.updateExpertiseScoresAsync(
-      organizationId,
-      source.authorExternalId,
-      knowledgePoint.id,
-    );
+    // 5. Queue topic assignment and the author's expertise update
+    await enqueueJob("assign_topics", organizationId, {
+      knowledgePointId,
+      authorPersonId,
+    });
 
     console.log(
-      `✅ [CONTEXTUAL INGEST] Processed contextual knowledge point: ${knowledgePoint.id}`,
-    );
-    console.log(
-      `🎯 [CONTEXTUAL INGEST] Enhanced: "${source.content}" → "${contextualResult.contextualContent}"`,
+      `✅ [KNOWLEDGE ENGINE] Processed ${source.platform}:${source.sourceType} knowledge point: ${knowledgePointId}`,
     );
+    return knowledgePointId;
+  }
+
+  /**
+   * Store a source, returning the stored row, or null if it was deleted or edited after
+   * this version of it. The version check is part of the update, so a deletion or newer
+   * edit stored while this version was being enriched is not overwritten.
+   */
+  private async writeKnowledgeSource(
+    organizationId: string,
+    source: KnowledgeSource,
+    row: Record<string, unknown>,
+  ): Promise<StoredSourceRow | null> {
+    const { data: inserted, error: insertError } = await this.supabase
+      .from("knowledge_sources")
+      .upsert(row, {
+        onConflict: "organization_id,platform,external_id",
+        ignoreDuplicates: true,
+      })
+      .select()
+      .maybeSingle();
 
-    return knowledgePoint.id;
+    if (insertError) {
+      console.error(
+        "❌ [KNOWLEDGE ENGINE] Failed to store knowledge source:",
+        insertError,
+      );
+      throw insertError;
+    }
+    if (inserted) return inserted;
+
+    const updated = await this.updateCurrentSource(organizationId, source, row);
+    if (!updated) {
+      console.log(
+        `⏭️ [KNOWLEDGE ENGINE] ${source.externalId} was deleted or edited while it was processed`,
+      );
+    }
+    return updated;
+  }
+
+  /**
+   * Update a stored source if it is not deleted and not newer than this version of it,
+   * returning the updated row or null
+   */
+  private async updateCurrentSource(
+    organizationId: string,
+    source: KnowledgeSource,
+    values: Record<string, unknown>,
+  ): Promise<StoredSourceRow | null> {
+    let query = this.supabase
+      .from("knowledge_sources")
+      .update(values)
+      .eq("organization_id", organizationId)
+      .eq("platform", source.platform)
+      .eq("external_id", source.externalId)
+      .is("deleted_at", null);
+    query = source.platformUpdatedAt
+      ? query.or(
+          `platform_updated_at.is.null,platform_updated_at.lte."${source.platformUpdatedAt}"`,
+        )
+      : query.is("platform_updated_at", null);
+
+    const { data, error } = await query.select().maybeSingle();
+    if (error) {
+      console.error(
+        `❌ [KNOWLEDGE ENGINE] Failed to update knowledge source ${source.externalId}:`,
+        error,
+      );
+      throw error;
+    }
+    return data;
   }
 
   /**
@@ -363,6 +769,7 @@ export class KnowledgeEngine {
       const { data: existingIdentity } = await this.supabase
         .from("external_identities")
         .select("person_id, people(*)")
+        .eq("organization_id", organizationId)
         .eq("platform", source.platform)
         .eq("external_id", source.authorExternalId)
         .single();
@@ -699,74 +1106,559 @@ export class KnowledgeEngine {
     return matrix[str2.length][str1.length];
   }
 
+  /**
+   * Tombstone a source deleted on its platform: its content is cleared, its knowledge
+   * point removed and the row kept with deleted_at set, so ingestion jobs queued before
+   * the deletion skip it. Returns whether a knowledge point was removed.
+   */
+  async removeKnowledgeSource(
+    organizationId: string,
+    source: Pick<KnowledgeSource, "platform" | "sourceType" | "externalId"> & {
+      channelId?: string;
+      threadTs?: string;
+    },
+  ): Promise<boolean> {
+    const { data: tombstone, error } = await this.supabase
+      .from("knowledge_sources")
+      .upsert(
+        {
+          organization_id: organizationId,
+          platform: source.platform,
+          source_type: source.sourceType,
+          external_id: source.externalId,
+          title: null,
+          content: "",
+          contextual_content: null,
+          channel_id: source.channelId,
+          thread_ts: source.threadTs,
+          deleted_at: new Date().toISOString(),
+        },
+        {
+          onConflict: "organization_id,platform,external_id",
+        },
+      )
+      .select("id, author_person_id")
+      .single();
+
+    if (error) {
+      console.error(
+        `❌ [KNOWLEDGE ENGINE] Failed to remove ${source.externalId}:`,
+        error,
+      );
+      throw error;
+    }
+
+    const removed = await this.retractKnowledgePoint(
+      organizationId,
+      tombstone.id,
+      tombstone.author_person_id,
+    );
+    console.log(
+      `🗑️ [KNOWLEDGE ENGINE] Removed ${source.platform} source ${source.externalId}${removed ? " and its knowledge point" : ""}`,
+    );
+    return removed;
+  }
+
+  private async findStoredSource(
+    organizationId: string,
+    source: Pick<KnowledgeSource, "platform" | "externalId">,
+  ): Promise<{
+    id: string;
+    author_person_id: string | null;
+    platform_updated_at: string | null;
+    deleted_at: string | null;
+  } | null> {
+    const { data, error } = await this.supabase
+      .from("knowledge_sources")
+      .select("id, author_person_id, platform_updated_at, deleted_at")
+      .eq("organization_id", organizationId)
+      .eq("platform", source.platform)
+      .eq("external_id", source.externalId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Whether the stored source was deleted or edited after this version of it
+   */
+  private isSuperseded(
+    stored: {
+      platform_updated_at: string | null;
+      deleted_at: string | null;
+    } | null,
+    source: KnowledgeSource,
+  ): boolean {
+    if (stored?.deleted_at) {
+      console.log(
+        `⏭️ [KNOWLEDGE ENGINE] Skipping deleted source: ${source.externalId}`,
+      );
+      return true;
+    }
+
+    if (
+      stored?.platform_updated_at &&
+      (!source.platformUpdatedAt ||
+        Date.parse(source.platformUpdatedAt) <
+          Date.parse(stored.platform_updated_at))
+    ) {
+      console.log(
+        `⏭️ [KNOWLEDGE ENGINE] Skipping outdated version of ${source.externalId}`,
+      );
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Store the content of an edit, returning whether it was stored; a deletion or a newer
+   * edit stored meanwhile is kept
+   */
+  private async replaceStoredContent(
+    organizationId: string,
+    source: KnowledgeSource,
+  ): Promise<boolean> {
+    const updated = await this.updateCurrentSource(organizationId, source, {
+      title: source.title,
+      content: source.content,
+      contextual_content: null,
+      platform_updated_at: source.platformUpdatedAt,
+    });
+    return updated !== null;
+  }
+
+  /**
+   * Quality to store for a source's point; accepted answers keep their raised quality
+   * when they are processed again
+   */
+  private storedQualityScore(
+    processed: ProcessedKnowledge,
+    source: { is_accepted_answer?: boolean },
+  ): number {
+    return source.is_accepted_answer
+      ? Math.max(processed.qualityScore, ACCEPTED_ANSWER_QUALITY)
+      : processed.qualityScore;
+  }
+
+  /**
+   * Delete the knowledge point of a source and rescore its author. Topic memberships go
+   * with the point.
+   */
+  private async retractKnowledgePoint(
+    organizationId: string,
+    sourceId: string,
+    authorPersonId: string | null,
+  ): Promise<boolean> {
+    const { data: deleted, error } = await this.supabase
+      .from("knowledge_points")
+      .delete()
+      .eq("source_id", sourceId)
+      .select("id");
+
+    if (error) throw error;
+    if (!deleted || deleted.length === 0) return false;
+
+    if (authorPersonId) {
+      await enqueueJob("recompute_expertise", organizationId, {
+        personIds: [authorPersonId],
+      });
+    }
+    return true;
+  }
+
+  /**
+   * Record a reaction being added to or removed from a source, counting towards its
+   * author's expertise. Reactions from the author are ignored, and each person and emoji
+   * counts once however often the event is delivered. Scores pick it up on the next
+   * expertise recompute.
+   */
+  async recordReaction(
+    organizationId: string,
+    platform: KnowledgeSource["platform"],
+    externalId: string,
+    reaction: {
+      reactorExternalId: string;
+      name: string;
+      added: boolean;
+      reactedAt: string;
+    },
+  ): Promise<void> {
+    const { data: updated, error } = await this.supabase.rpc(
+      "record_source_reaction",
+      {
+        org_id: organizationId,
+        source_platform: platform,
+        source_external_id: externalId,
+        reactor: reaction.reactorExternalId,
+        reaction_name: reaction.name,
+        reaction_added: reaction.added,
+        reacted_at: reaction.reactedAt,
+      },
+    );
+
+    if (error) {
+      throw error;
+    }
+    if (updated > 0) {
+      console.log(
+        `👍 [KNOWLEDGE ENGINE] Reaction ${reaction.added ? "added to" : "removed from"} ${externalId}`,
+      );
+    }
+  }
+
+  /**
+   * Accept a Slack thread reply as the answer to the thread's question, or take the
+   * acceptance back. Only the person who started the thread can accept, and only they
+   * can take it back. The thread's question is usually not stored, so its author comes
+   * from Slack; the reply is linked to it when it is. Returns whether anything changed;
+   * the author is rescored if so.
+   */
+  async setAcceptedAnswer(
+    organizationId: string,
+    externalId: string,
+    threadStarterExternalId: string,
+    reactorExternalId: string,
+    accepted: boolean,
+  ): Promise<boolean> {
+    if (threadStarterExternalId !== reactorExternalId) {
+      return false;
+    }
+
+    const { data: answer, error } = await this.supabase
+      .from("knowledge_sources")
+      .select("id, channel_id, thread_ts, author_person_id")
+      .eq("organization_id", organizationId)
+      .eq("platform", "slack")
+      .eq("external_id", externalId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    const questionExternalId =
+      answer?.channel_id && answer.thread_ts
+        ? `${answer.channel_id}_${answer.thread_ts}`
+        : null;
+    if (!answer || !questionExternalId || questionExternalId === externalId) {
+      // Not stored, or not a thread reply
+      return false;
+    }
+
+    const { data: question, error: questionError } = await this.supabase
+      .from("knowledge_sources")
+      .select("id")
+      .eq("organization_id", organizationId)
+      .eq("platform", "slack")
+      .eq("external_id", questionExternalId)
+      .maybeSingle();
+
+    if (questionError) throw questionError;
+
+    const { data: changed, error: acceptError } = await this.supabase.rpc(
+      "set_accepted_answer",
+      {
+        org_id: organizationId,
+        answer_source_id: answer.id,
+        question_source_id: question?.id ?? null,
+        reactor_external_id: reactorExternalId,
+        accepted,
+        accepted_quality: ACCEPTED_ANSWER_QUALITY,
+      },
+    );
+
+    if (acceptError) throw acceptError;
+    if (!changed) return false;
+
+    if (answer.author_person_id) {
+      await enqueueJob("recompute_expertise", organizationId, {
+        personIds: [answer.author_person_id],
+      });
+    }
+    console.log(
+      `✅ [KNOWLEDGE ENGINE] ${externalId} ${accepted ? "accepted as" : "no longer"} the answer to ${questionExternalId}`,
+    );
+    return true;
+  }
+
+  /**
+   * Whether a chat message asks a question the knowledge base could answer. The pattern
+   * check used at ingestion screens out most messages; the LLM confirms the rest, so
+   * greetings and requests aimed at one person are not treated as questions.
+   */
+  async detectQuestion(content: string): Promise<QuestionDetection> {
+    const text = content.trim();
+    const notQuestion = { isQuestion: false, searchQuery: text };
+    if (
+      text.length < 15 ||
+      (!text.includes("?") && !this.isObviousQuestion(text))
+    ) {
+      return notQuestion;
+    }
+
+    const prompt = `Decide whether this Slack message asks a question that the team's existing knowledge (past discussions, docs, pull requests) could answer.
+
+Message: "${text}"
+
+Answer false for greetings, thanks, rhetorical questions, requests for a specific person to do something, and questions about opinions or plans.
+
+RESPONSE FORMAT (JSON only):
+{"isQuestion": true, "searchQuery": "the question as a short standalone search query"}
+or
+{"isQuestion": false}`;
+
+    try {
+      const result = await completeJson<{
+        isQuestion: boolean;
+        searchQuery?: string;
+      }>(this.chat, DETECT_QUESTION_CALL, prompt);
+
+      return {
+        isQuestion: result.isQuestion,
+        searchQuery: result.searchQuery?.trim() || text,
+      };
+    } catch (error) {
+      // Staying quiet is better than answering something that was not asked
+      console.error("❌ [KNOWLEDGE ENGINE] Question detection failed:", error);
+      return notQuestion;
+    }
+  }
+
   /**
    * Search for knowledge points and experts based on a query
    */
   async searchKnowledge(
     query: string,
     organizationId: string,
+    options: SearchOptions = {},
   ): Promise<QueryResult> {
-    console.log(`🔍 [KNOWLEDGE ENGINE] Searching: "${query}"`);
+    const {
+      mode = "sources",
+      retrieval = "hybrid",
+      filters = {},
+      limit = DEFAULT_SEARCH_PAGE_SIZE,
+      cursor,
+      rerank = true,
+    } = options;
+
+    // Later pages come from the ranking stored with the first page, so they stay
+    // stable even though LLM reranking is not deterministic
+    if (cursor) {
+      return this.loadSearchPage(query, organizationId, cursor, limit);
+    }
+
+    console.log(
+      `🔍 [KNOWLEDGE ENGINE] Searching (${mode}, ${retrieval} retrieval${rerank ? "" : ", no rerank"}): "${query}"`,
+    );
 
     // 1. Generate embedding for the query
     console.log("Generating embedding, is this shit gonna hang?");
     const queryEmbedding = await this.generateEmbedding(query);
 
-    // 2. Log the search query
-    await this.logSearchQuery(query, queryEmbedding, organizationId);
-
-    // 3. Find similar knowledge points (get more candidates for LLM ranking)
+    // 2. Find similar knowledge points (get more candidates for LLM ranking)
     console.log("Calling supabase function, is this shit gonna hang?");
     const { data: rawKnowledgeMatches } = await this.supabase.rpc(
       "find_similar_knowledge",
       {
         query_embedding: `[${queryEmbedding.join(",")}]`,
         org_id: organizationId,
+        model_name: this.embeddings.model,
         similarity_threshold: 0.1,
-        result_limit: 25, // Get many candidates for LLM to choose from
+        result_limit: rerank
+          ? RERANK_CANDIDATE_LIMIT
+          : RETRIEVAL_CANDIDATE_LIMIT,
+        query_text: query,
+        retrieval_mode: retrieval,
+        filter_platform: filters.platform ?? null,
+        filter_source_types: filters.sourceTypes?.length
+          ? filters.sourceTypes
+          : null,
+        filter_author_person_ids: filters.authorPersonIds?.length
+          ? filters.authorPersonIds
+          : null,
+        filter_channel_ids: filters.channelIds?.length
+          ? filters.channelIds
+          : null,
+        filter_repositories: filters.repositories?.length
+          ? filters.repositories
+          : null,
+        created_after: filters.createdAfter ?? null,
+        created_before: filters.createdBefore ?? null,
       },
     );
 
-    // 4. Use LLM to intelligently rank and select top 3 most relevant results
-    console.log("Ranking results, is this shit gonna hang?");
-    const rankedKnowledgeMatches = await this.rankResultsWithLLM(
+    // 3. Use LLM to intelligently rank and prune the candidates
+    const candidates: KnowledgeMatch[] = (rawKnowledgeMatches || []).map(
+      toKnowledgeMatch,
+    );
+    let rankedKnowledgeMatches = candidates;
+    if (rerank) {
+      console.log("Ranking results, is this shit gonna hang?");
+      rankedKnowledgeMatches = await this.rankResultsWithLLM(query, candidates);
+    }
+
+    // 4. Log the search query together with the ranking later pages are read from
+    const searchId = await this.logSearchQuery(
       query,
-      rawKnowledgeMatches || [],
+      queryEmbedding,
+      organizationId,
+      rankedKnowledgeMatches,
+      candidates.length,
     );
+    const pageMatches = rankedKnowledgeMatches.slice(0, limit);
 
     // 5. Find relevant topics and their experts
     const topicMatches = await this.findRelevantTopics(
       queryEmbedding,
       organizationId,
     );
-    const suggestedExperts = await this.findTopicExperts(topicMatches, 5);
+    const suggestedExperts = await this.findTopicExperts(topicMatches, 5);
+    if (searchId) {
+      await this.recordExpertRoutes(organizationId, searchId, suggestedExperts);
+    }
+
+    const result: QueryResult = {
+      query,
+      searchId,
+      knowledgeMatches: pageMatches,
+      suggestedExperts,
+      topicMatches: topicMatches.map((t) => t.name),
+      pagination: this.buildPagination(
+        searchId,
+        0,
+        limit,
+        rankedKnowledgeMatches.length,
+        candidates.length,
+      ),
+    };
+
+    // 6. Optionally write an answer grounded in the selected sources
+    if (mode === "answer") {
+      result.answer = await this.synthesizeAnswer(
+        query,
+        pageMatches,
+        suggestedExperts,
+        organizationId,
+      );
+    }
+
+    console.log(
+      `📊 [KNOWLEDGE ENGINE] Found ${candidates.length} initial matches, ${rankedKnowledgeMatches.length} ranked results (returning ${pageMatches.length}), ${result.suggestedExperts.length} expert suggestions`,
+    );
+    return result;
+  }
+
+  /**
+   * Serve a later page of a search from the ranking stored with its first page
+   */
+  private async loadSearchPage(
+    query: string,
+    organizationId: string,
+    cursor: string,
+    limit: number,
+  ): Promise<QueryResult> {
+    const { searchId, offset } = this.decodeSearchCursor(cursor);
+
+    const { data: search, error } = await this.supabase
+      .from("search_queries")
+      .select("query_text, ranked_results, candidate_count, created_at")
+      .eq("id", searchId)
+      .eq("organization_id", organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    if (!search || !search.ranked_results) {
+      throw new SearchCursorError("Cursor does not match a stored search");
+    }
+    if (search.query_text !== query) {
+      throw new SearchCursorError("Cursor belongs to a different query");
+    }
+    if (
+      Date.now() - new Date(search.created_at).getTime() >
+      SEARCH_CURSOR_TTL_MS
+    ) {
+      throw new SearchCursorError("Cursor has expired, run the search again");
+    }
+
+    const ranked: KnowledgeMatch[] = search.ranked_results;
+    console.log(
+      `📄 [KNOWLEDGE ENGINE] Serving results ${offset + 1}-${Math.min(offset + limit, ranked.length)} of ${ranked.length} for search ${searchId}`,
+    );
 
-    const result: QueryResult = {
+    return {
       query,
-      knowledgeMatches: rankedKnowledgeMatches,
-      suggestedExperts,
-      topicMatches: topicMatches.map((t) => t.name),
+      searchId,
+      knowledgeMatches: ranked.slice(offset, offset + limit),
+      suggestedExperts: [],
+      topicMatches: [],
+      pagination: this.buildPagination(
+        searchId,
+        offset,
+        limit,
+        ranked.length,
+        search.candidate_count ?? ranked.length,
+      ),
     };
+  }
 
-    console.log(
-      `📊 [KNOWLEDGE ENGINE] Found ${rawKnowledgeMatches?.length || 0} initial matches, LLM selected ${rankedKnowledgeMatches.length} top results, ${result.suggestedExperts.length} expert suggestions`,
-    );
-    return result;
+  private buildPagination(
+    searchId: string | null,
+    offset: number,
+    limit: number,
+    totalResults: number,
+    totalCandidates: number,
+  ): SearchPagination {
+    const nextOffset = offset + limit;
+    return {
+      limit,
+      nextCursor:
+        searchId && nextOffset < totalResults
+          ? Buffer.from(
+              JSON.stringify({ searchId, offset: nextOffset }),
+            ).toString("base64url")
+          : null,
+      totalCandidates,
+      totalResults,
+    };
+  }
+
+  private decodeSearchCursor(cursor: string): {
+    searchId: string;
+    offset: number;
+  } {
+    try {
+      const { searchId, offset } = JSON.parse(
+        Buffer.from(cursor, "base64url").toString("utf8"),
+      );
+      if (
+        typeof searchId === "string" &&
+        /^[0-9a-f-]{36}$/i.test(searchId) &&
+        Number.isInteger(offset) &&
+        offset >= 0
+      ) {
+        return { searchId, offset };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new SearchCursorError("Cursor is malformed");
   }
 
   /**
-   * Use LLM to intelligently rank and select the most relevant results
+   * Use LLM to intelligently rank the candidates and drop the irrelevant ones
    */
   private async rankResultsWithLLM(
     query: string,
-    candidates: any[],
+    candidates: KnowledgeMatch[],
   ): Promise<KnowledgeMatch[]> {
     if (!candidates || candidates.length === 0) {
       return [];
     }
 
-    // If we have 3 or fewer candidates, return them all
-    if (candidates.length <= 3) {
+    // A single candidate needs no ranking
+    if (candidates.length === 1) {
       return candidates;
     }
 
@@ -779,11 +1671,15 @@ export class KnowledgeEngine {
       const candidatesText = candidates
         .map(
           (match, index) =>
-            `${index + 1}. "${match.summary}" (Platform: ${match.platform}, Similarity: ${Math.round(match.similarity_score * 100)}%)`,
+            `${index + 1}. "${match.summary}" (Platform: ${match.platform}, ${
+              match.similarityScore != null
+                ? `Similarity: ${Math.round(match.similarityScore * 100)}%`
+                : "Keyword match"
+            })`,
         )
         .join("\n");
 
-      const prompt = `You are an intelligent search result ranker. Given a user's question and a list of potentially relevant results, select and rank the TOP 3 most relevant results that best answer the question.
+      const prompt = `You are an intelligent search result ranker. Given a user's question and a list of potentially relevant results, select every result that helps answer the question and rank them.
 
 User Question: "${query}"
 
@@ -793,47 +1689,39 @@ ${candidatesText}
 Instructions:
 1. Analyze each result's relevance to the user's specific question
 2. Consider context, specificity, and usefulness
-3. Select ONLY the 3 most relevant results
-4. Rank them from most relevant (1) to least relevant (3)
+3. Leave out results that do not help answer the question
+4. Rank the remaining results from most relevant to least relevant
 5. Respond with ONLY the numbers (1-${candidates.length}) of your selected results, separated by commas
 6. Example response format: "3,7,1" (meaning results 3, 7, and 1 in that order)
 
 Your selection (numbers only):`;
 
-      const openAiResponse = this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 50,
-        temperature: 0.1, // Low temperature for consistent ranking
-      });
-      const defaultResponse = new Promise((res) =>
-        setTimeout(
-          () => res({ choices: [{ message: { content: "1,2,3" } }] }),
-          5000,
-        ),
+      // Timeouts surface as errors and fall back to similarity order below
+      const selection = await completeText(
+        this.chat,
+        RANK_RESULTS_CALL,
+        prompt,
       );
-
-      let response = await Promise.race([openAiResponse, defaultResponse]);
-
-      const selection = response.choices[0]?.message?.content?.trim();
       if (!selection) {
         console.log(
           `⚠️ [KNOWLEDGE ENGINE] LLM ranking failed, falling back to similarity order`,
         );
-        return candidates.slice(0, 3);
+        return candidates;
       }
 
-      // Parse the LLM's selection
-      const selectedIndices = selection
-        .split(",")
-        .map((num) => parseInt(num.trim()) - 1) // Convert to 0-based indices
-        .filter((index) => index >= 0 && index < candidates.length);
+      // Parse the LLM's selection, ignoring repeats
+      const selectedIndices = [
+        ...new Set(
+          selection
+            .split(",")
+            .map((num) => parseInt(num.trim()) - 1) // Convert to 0-based indices
+            .filter((index) => index >= 0 && index < candidates.length),
+        ),
+      ];
 
       // If we got valid selections, use them; otherwise fallback
       if (selectedIndices.length >= 1) {
-        const rankedResults = selectedIndices
-          .slice(0, 3) // Take max 3
-          .map((index) => candidates[index]);
+        const rankedResults = selectedIndices.map((index) => candidates[index]);
 
         console.log(
           `✅ [KNOWLEDGE ENGINE] LLM selected ${rankedResults.length} results: [${selectedIndices.map((i) => i + 1).join(", ")}]`,
@@ -843,15 +1731,159 @@ Your selection (numbers only):`;
         console.log(
           `⚠️ [KNOWLEDGE ENGINE] Invalid LLM selection "${selection}", falling back to similarity order`,
         );
-        return candidates.slice(0, 3);
+        return candidates;
       }
     } catch (error) {
       console.error(`❌ [KNOWLEDGE ENGINE] LLM ranking error:`, error);
       // Fallback to simple similarity-based ranking
-      return candidates.slice(0, 3);
+      return candidates;
+    }
+  }
+
+  /**
+   * Write a short answer using only the given matches' original sources. Each claim must
+   * cite at least one source; uncited claims are dropped. When nothing citable remains,
+   * the answer declines and points to the suggested experts instead.
+   */
+  private async synthesizeAnswer(
+    query: string,
+    matches: KnowledgeMatch[],
+    experts: ExpertMatch[],
+    organizationId: string,
+  ): Promise<SynthesizedAnswer> {
+    const sources = await this.loadAnswerSources(matches, organizationId);
+    if (sources.length === 0) {
+      return this.declineAnswer(experts);
+    }
+
+    const citations: AnswerCitation[] = sources.map((source, i) => ({
+      index: i + 1,
+      knowledgePointId: source.knowledgePointId,
+      sourceUrl: source.sourceUrl,
+      sourceTitle: source.sourceTitle,
+      platform: source.platform,
+    }));
+
+    const sourcesText = sources
+      .map(
+        (source, i) =>
+          `[${i + 1}] ${source.sourceTitle || source.platform} (${source.sourceUrl})\n${source.content}`,
+      )
+      .join("\n\n");
+
+    const prompt = `Answer the question using ONLY the numbered sources below. They are messages and documents from the user's own team.
+
+Question: "${query}"
+
+Sources:
+${sourcesText}
+
+Rules:
+1. Write at most 4 short claims that together answer the question
+2. Every claim must list the numbers of the sources that state it
+3. Do not use outside knowledge, and do not guess
+4. If the sources do not answer the question, set "answerable" to false and return no claims
+
+Respond with JSON: {"answerable": true, "claims": [{"text": "...", "sources": [1]}]}`;
+
+    try {
+      const response = await completeJson<{
+        answerable: boolean;
+        claims: { text: string; sources: number[] }[];
+      }>(this.chat, SYNTHESIZE_ANSWER_CALL, prompt);
+
+      const claims: AnswerClaim[] = response.answerable
+        ? response.claims
+            .map((claim) => ({
+              text: claim.text.trim(),
+              citations: [...new Set(claim.sources)].filter(
+                (index) => index >= 1 && index <= citations.length,
+              ),
+            }))
+            .filter((claim) => claim.text && claim.citations.length > 0)
+        : [];
+
+      if (claims.length === 0) {
+        console.log(
+          `⚠️ [KNOWLEDGE ENGINE] Sources do not cover "${query}", declining to answer`,
+        );
+        return this.declineAnswer(experts);
+      }
+
+      const text = claims
+        .map((claim) => {
+          const links = claim.citations
+            .map((index) => `[[${index}]](${citations[index - 1].sourceUrl})`)
+            .join("");
+          return `${claim.text} ${links}`;
+        })
+        .join(" ");
+
+      // Only return the sources the answer actually cites
+      const cited = new Set(claims.flatMap((claim) => claim.citations));
+      console.log(
+        `✅ [KNOWLEDGE ENGINE] Answered with ${claims.length} claims citing ${cited.size} sources`,
+      );
+
+      return {
+        status: "answered",
+        text,
+        claims,
+        citations: citations.filter((citation) => cited.has(citation.index)),
+      };
+    } catch (error) {
+      console.error(`❌ [KNOWLEDGE ENGINE] Answer synthesis failed:`, error);
+      return this.declineAnswer(experts);
     }
   }
 
+  private async loadAnswerSources(
+    matches: KnowledgeMatch[],
+    organizationId: string,
+  ): Promise<AnswerSource[]> {
+    const sourceIds = matches.map((match) => match.sourceId).filter(Boolean);
+    if (sourceIds.length === 0) return [];
+
+    const { data: sources } = await this.supabase
+      .from("knowledge_sources")
+      .select("id, platform, title, content, external_url")
+      .eq("organization_id", organizationId)
+      .in("id", sourceIds);
+
+    const sourcesById = new Map<string, any>(
+      (sources || []).map((source: any) => [source.id, source]),
+    );
+
+    return matches
+      .map((match, i) => {
+        const source = sourcesById.get(match.sourceId);
+        if (!source?.content || !source.external_url) return null;
+        return {
+          index: i + 1,
+          knowledgePointId: match.knowledgePointId,
+          sourceUrl: source.external_url,
+          sourceTitle: source.title || undefined,
+          platform: source.platform,
+          content: source.content.substring(0, ANSWER_SOURCE_CHARS),
+        };
+      })
+      .filter(Boolean) as AnswerSource[];
+  }
+
+  private declineAnswer(experts: ExpertMatch[]): SynthesizedAnswer {
+    const names = experts
+      .map((expert) => expert.displayName)
+      .filter(Boolean)
+      .slice(0, 3);
+
+    const text =
+      names.length > 0
+        ? `I couldn't find enough in your team's knowledge to answer this. ${names.join(", ")} ${names.length === 1 ? "is" : "are"} most likely to know.`
+        : "I couldn't find enough in your team's knowledge to answer this, and no experts have been identified for this topic yet.";
+
+    return { status: "declined", text, claims: [], citations: [] };
+  }
+
   /**
    * Discover new topics from knowledge point clusters using "centers of mass" approach
    */
@@ -901,7 +1933,8 @@ Your selection (numbers only):`;
         )
       `,
       )
-      .eq("knowledge_sources.organization_id", organizationId);
+      .eq("knowledge_sources.organization_id", organizationId)
+      .eq("embedding_model", this.embeddings.model);
 
     if (!knowledgePoints || knowledgePoints.length < minClusterSize) {
       console.log(
@@ -977,6 +2010,14 @@ Your selection (numbers only):`;
       `✨ [KNOWLEDGE ENGINE] Topic discovery complete: ${results.newTopics} new, ${results.updatedTopics} updated`,
     );
 
+    // Topic memberships changed, so every expertise score may have too
+    await enqueueJob(
+      "recompute_expertise",
+      organizationId,
+      {},
+      { dedupeKey: `${organizationId}:all` },
+    );
+
     return {
       topics: results.topics,
       stats: {
@@ -1027,7 +2068,10 @@ Your selection (numbers only):`;
             return [];
           }
 
-          if (Array.isArray(embedding) && embedding.length === 1536) {
+          if (
+            Array.isArray(embedding) &&
+            embedding.length === this.embeddings.dimensions
+          ) {
             return embedding;
           } else {
             console.log(
@@ -1364,7 +2408,8 @@ Your selection (numbers only):`;
     const { data: existingTopics } = await this.supabase
       .from("discovered_topics")
       .select("*")
-      .eq("organization_id", organizationId);
+      .eq("organization_id", organizationId)
+      .eq("embedding_model", this.embeddings.model);
 
     const topics = existingTopics || [];
     console.log(
@@ -1492,6 +2537,7 @@ Your selection (numbers only):`;
           .from("discovered_topics")
           .update({
             cluster_centroid: `[${cluster.centroid.join(",")}]`,
+            embedding_model: this.embeddings.model,
             knowledge_point_count: cluster.size,
             last_updated: new Date().toISOString(),
           })
@@ -1511,6 +2557,7 @@ Your selection (numbers only):`;
             organization_id: organizationId,
             name: topicName,
             cluster_centroid: `[${cluster.centroid.join(",")}]`,
+            embedding_model: this.embeddings.model,
             knowledge_point_count: cluster.size,
             confidence_score: this.calculateTopicConfidence(cluster),
             discovered_at: new Date().toISOString(),
@@ -1611,14 +2658,7 @@ Task: Identify the 2-3 most significant themes that unite these knowledge points
 
 Respond with just the key themes (not a topic name), separated by semicolons:`;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 80,
-        temperature: 0.2,
-      });
-
-      return response.choices[0]?.message?.content?.trim() || "";
+      return await completeText(this.chat, CLUSTER_THEMES_CALL, prompt);
     } catch (error) {
       console.error("❌ [KNOWLEDGE ENGINE] Theme extraction failed:", error);
       return "";
@@ -1655,14 +2695,8 @@ Examples of good topic names:
 
 Topic Name:`;
 
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 15,
-        temperature: 0.1, // Very low for consistency
-      });
-
-      return response.choices[0]?.message?.content?.trim() || null;
+      const topicName = await completeText(this.chat, TOPIC_NAME_CALL, prompt);
+      return topicName || null;
     } catch (error) {
       console.error(
         "❌ [KNOWLEDGE ENGINE] Topic name generation failed:",
@@ -2029,57 +3063,56 @@ ALWAYS SKIP these message types:
 - Simple acknowledgments
 - Messages asking someone to do something ("@user say something")
 
-CRITICAL: If the message is asking a question or requesting help, respond with "SKIP" - do NOT try to extract facts from it.
+CRITICAL: If the message is asking a question or requesting help, respond with {"skip": true} - do NOT try to extract facts from it.
 
-RESPONSE FORMAT:
-If substantial knowledge exists, respond in JSON format:
+RESPONSE FORMAT (JSON only):
+If substantial knowledge exists:
 {
+  "skip": false,
   "knowledge": "The enhanced factual knowledge",
   "relatedQuestions": ["question1", "question2"]
 }
 
-If no substantial knowledge, respond: "SKIP"
+If no substantial knowledge:
+{"skip": true}
 
 Examples:
 
 GOOD - Extract these:
 Input: "You can find it at https://docs.example.com"
-Output: {"knowledge": "The project documentation is available at https://docs.example.com", "relatedQuestions": []}
+Output: {"skip": false, "knowledge": "The project documentation is available at https://docs.example.com", "relatedQuestions": []}
 
 Input: "The fix is to restart the Redis service"
-Output: {"knowledge": "To fix cache timeout issues, restart the Redis service", "relatedQuestions": []}
+Output: {"skip": false, "knowledge": "To fix cache timeout issues, restart the Redis service", "relatedQuestions": []}
 
 Input: "I can set us up with Next.js"
-Output: {"knowledge": "Next.js setup is available for the project", "relatedQuestions": []}
+Output: {"skip": false, "knowledge": "Next.js setup is available for the project", "relatedQuestions": []}
 
 BAD - Skip these:
 Input: "@user what do I need to do to test the slack bot locally"
-Output: "SKIP"
+Output: {"skip": true}
 
 Input: "@user say something"
-Output: "SKIP"
+Output: {"skip": true}
 
 Input: "hello"
-Output: "SKIP"
+Output: {"skip": true}
 
 Input: "where can I find the documentation?"
-Output: "SKIP"
+Output: {"skip": true}
 
 Input: "how do I run this?"
-Output: "SKIP"
+Output: {"skip": true}
 
-Respond with either the JSON or "SKIP":`;
-
-      const response = await this.openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 200,
-        temperature: 0.1, // Low temperature for consistent extraction
-      });
+Respond with the JSON object only:`;
 
-      const result = response.choices[0]?.message?.content?.trim();
+      const result = await completeJson<{
+        skip: boolean;
+        knowledge?: string;
+        relatedQuestions?: string[];
+      }>(this.chat, ENHANCE_MESSAGE_CALL, prompt);
 
-      if (!result || result === "SKIP") {
+      if (result.skip) {
         return {
           contextualContent: currentMessage,
           shouldIndex: false,
@@ -2088,30 +3121,12 @@ Respond with either the JSON or "SKIP":`;
         };
       }
 
-      // Try to parse JSON response
-      try {
-        const parsed = JSON.parse(result);
-        if (parsed.knowledge) {
-          return {
-            contextualContent: parsed.knowledge,
-            shouldIndex: true,
-            referencedTopics: [], // Could be enhanced later
-            relatedQuestions: parsed.relatedQuestions || [],
-          };
-        }
-      } catch (parseError) {
-        console.warn(
-          "❌ [CONTEXTUAL] Failed to parse JSON response, using as-is:",
-          parseError,
-        );
-      }
-
-      // Fallback to treating result as plain text (backward compatibility)
       return {
-        contextualContent: result,
+        // Without extracted knowledge, index the message as written
+        contextualContent: result.knowledge?.trim() || currentMessage,
         shouldIndex: true,
-        referencedTopics: [],
-        relatedQuestions: [],
+        referencedTopics: [], // Could be enhanced later
+        relatedQuestions: result.relatedQuestions || [],
       };
     } catch (error) {
       console.error("❌ [CONTEXTUAL] LLM enhancement failed:", error);
@@ -2124,6 +3139,203 @@ Respond with either the JSON or "SKIP":`;
     }
   }
 
+  /**
+   * Gather the issue or pull request a GitHub comment belongs to and the comments before it
+   */
+  private async gatherGitHubDiscussionContext(
+    organizationId: string,
+    source: KnowledgeSource,
+  ): Promise<{
+    parent: { title: string | null; content: string; author: string } | null;
+    comments: Array<{
+      author: string;
+      content: string;
+      filePath: string | null;
+    }>;
+    sourceIds: string[];
+  }> {
+    const context = {
+      parent: null as {
+        title: string | null;
+        content: string;
+        author: string;
+      } | null,
+      comments: [] as Array<{
+        author: string;
+        content: string;
+        filePath: string | null;
+      }>,
+      sourceIds: [] as string[],
+    };
+
+    const thread = githubThreadOf(source.externalUrl);
+    if (!thread) return context;
+
+    try {
+      const discussion = () =>
+        this.supabase
+          .from("knowledge_sources")
+          .select(
+            "external_id, title, content, author_external_id, file_path, platform_created_at",
+          )
+          .eq("organization_id", organizationId)
+          .eq("platform", "github")
+          .eq("repository", thread.repository)
+          .eq("github_number", thread.number)
+          .is("deleted_at", null);
+
+      const [{ data: parent }, { data: comments }] = await Promise.all([
+        discussion()
+          .in("source_type", ["github_issue", "github_pr"])
+          .limit(1)
+          .maybeSingle(),
+        discussion()
+          .eq("source_type", "github_comment")
+          .neq("external_id", source.externalId)
+          .lte("platform_created_at", source.platformCreatedAt)
+          .order("platform_created_at", { ascending: false })
+          .limit(GITHUB_CONTEXT_COMMENTS),
+      ]);
+
+      if (parent) {
+        context.parent = {
+          title: parent.title,
+          content: parent.content,
+          author: parent.author_external_id || "unknown",
+        };
+        context.sourceIds.push(parent.external_id);
+      }
+
+      // Oldest first, like the discussion reads
+      for (const comment of (comments || []).reverse()) {
+        context.comments.push({
+          author: comment.author_external_id || "unknown",
+          content: comment.content,
+          filePath: comment.file_path,
+        });
+        context.sourceIds.push(comment.external_id);
+      }
+    } catch (error) {
+      console.error(
+        "❌ [CONTEXTUAL] Failed to gather GitHub discussion context:",
+        error,
+      );
+    }
+
+    return context;
+  }
+
+  /**
+   * Use LLM to turn a GitHub comment into standalone knowledge, or skip it
+   */
+  private async enhanceGitHubCommentWithContext(
+    source: KnowledgeSource & GitHubCommentContext,
+    context: Awaited<
+      ReturnType<KnowledgeEngine["gatherGitHubDiscussionContext"]>
+    >,
+  ): Promise<{
+    contextualContent: string;
+    shouldIndex: boolean;
+    relatedQuestions: string[];
+  }> {
+    const kind = {
+      issue_comment: "comment",
+      review: "pull request review",
+      review_comment: "code review comment",
+    }[source.commentKind];
+
+    try {
+      const parentTitle = context.parent?.title || source.parentTitle;
+      const parentContext = context.parent
+        ? `Issue/PR "${parentTitle}" by ${context.parent.author}:\n${context.parent.content.slice(0, GITHUB_CONTEXT_CHARS)}\n\n`
+        : parentTitle
+          ? `Issue/PR: "${parentTitle}"\n\n`
+          : "";
+      const lines =
+        source.lineStart && source.lineStart !== source.lineEnd
+          ? `lines ${source.lineStart}-${source.lineEnd}`
+          : `line ${source.lineEnd}`;
+      const codeContext = source.filePath
+        ? `The comment is on ${source.filePath}${source.lineEnd ? ` ${lines}` : ""}${source.diffHunk ? `:\n${source.diffHunk.slice(-GITHUB_CONTEXT_CHARS)}` : ""}\n\n`
+        : "";
+      const discussionContext =
+        context.comments.length > 0
+          ? `Earlier Discussion:\n${context.comments
+              .map(
+                (comment) =>
+                  `${comment.author}${comment.filePath ? ` (on ${comment.filePath})` : ""}: ${comment.content}`,
+              )
+              .join("\n")}\n\n`
+          : "";
+
+      const prompt = `You are analyzing a GitHub ${kind} to extract meaningful knowledge for a workplace knowledge discovery system.
+
+${parentContext}${codeContext}${discussionContext}Current ${kind} by ${source.authorExternalId}: "${source.content}"
+
+Your task is to determine if this ${kind} contains VALUABLE KNOWLEDGE worth indexing.
+
+ONLY EXTRACT knowledge that:
+- Explains a design decision and the reasoning behind it
+- Describes how code works or why it is written a certain way
+- Weighs trade-offs or alternatives
+- States a convention, constraint or known pitfall
+- Answers a question raised earlier in the discussion
+
+ALWAYS SKIP:
+- Approvals and acknowledgements ("LGTM", "thanks", "done", "fixed")
+- Nits about formatting, typos or naming
+- Questions that give no information themselves
+- Requests to change something that give no reason
+- Bot and CI output
+
+Rewrite extracted knowledge so it stands on its own: name the feature, file or component it is about instead of saying "this" or "here".
+
+RESPONSE FORMAT (JSON only):
+If substantial knowledge exists:
+{
+  "skip": false,
+  "knowledge": "The standalone knowledge",
+  "relatedQuestions": ["question1", "question2"]
+}
+
+If no substantial knowledge:
+{"skip": true}
+
+Respond with the JSON object only:`;
+
+      const result = await completeJson<{
+        skip: boolean;
+        knowledge?: string;
+        relatedQuestions?: string[];
+      }>(this.chat, ENHANCE_GITHUB_COMMENT_CALL, prompt);
+
+      if (result.skip) {
+        return {
+          contextualContent: source.content,
+          shouldIndex: false,
+          relatedQuestions: [],
+        };
+      }
+
+      return {
+        contextualContent: result.knowledge?.trim() || source.content,
+        shouldIndex: true,
+        relatedQuestions: result.relatedQuestions || [],
+      };
+    } catch (error) {
+      console.error(
+        `❌ [CONTEXTUAL] GitHub ${kind} enhancement failed for ${source.externalId}:`,
+        error,
+      );
+      // Fall back to the comment as written
+      return {
+        contextualContent: source.content,
+        shouldIndex: true,
+        relatedQuestions: [],
+      };
+    }
+  }
+
   /**
    * Safety check to catch obvious questions that slipped through LLM filtering
    */
@@ -2199,19 +3411,8 @@ Respond with either the JSON or "SKIP":`;
   }
 
   private async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const response = await this.openai.embeddings.create({
-        model: "text-embedding-3-small",
-        input: text.substring(0, 8000), // Limit input size
-        encoding_format: "float",
-      });
-
-      return response.data[0].embedding;
-    } catch (error) {
-      console.error("Failed to generate embedding:", error);
-      // Return a zero vector as fallback
-      return new Array(1536).fill(0);
-    }
+    // Failures propagate: a placeholder vector would silently poison search and clustering
+    return this.embeddings.embed(text);
   }
 
   private async generateSummary(text: string): Promise<string> {
@@ -2293,96 +3494,117 @@ Respond with either the JSON or "SKIP":`;
     return Math.min(1.0, score);
   }
 
-  private async updateTopicClustersAsync(
+  /**
+   * Add a knowledge point to every existing topic whose centroid it is close to.
+   * Returns the number of topics it joined.
+   */
+  async assignKnowledgePointToTopics(
     organizationId: string,
     knowledgePointId: string,
-    embedding: number[],
-  ): Promise<void> {
-    // Run in background - find which existing topics this knowledge point belongs to
-    setTimeout(async () => {
-      try {
-        const { data: topics } = await this.supabase
-          .from("discovered_topics")
-          .select("id, cluster_centroid")
-          .eq("organization_id", organizationId);
-
-        for (const topic of topics || []) {
-          if (topic.cluster_centroid) {
-            const similarity = this.cosineSimilarity(
-              embedding,
-              topic.cluster_centroid,
-            );
-            if (similarity > 0.7) {
-              // Add this knowledge point to the topic
-              await this.supabase.from("knowledge_topic_memberships").upsert({
-                knowledge_point_id: knowledgePointId,
-                topic_id: topic.id,
-                similarity_score: similarity,
-              });
-            }
-          }
-        }
-      } catch (error) {
-        console.error("Failed to update topic clusters:", error);
-      }
-    }, 100);
-  }
+  ): Promise<number> {
+    const { data: knowledgePoint, error: pointError } = await this.supabase
+      .from("knowledge_points")
+      .select("embedding")
+      .eq("id", knowledgePointId)
+      .single();
 
-  private async updateExpertiseScoresAsync(
-    organizationId: string,
-    authorExternalId: string,
-    knowledgePointId: string,
-  ): Promise<void> {
-    // Run in background - update expertise scores based on contribution
-    setTimeout(async () => {
-      try {
-        // Find person by external ID
-        const { data: identity } = await this.supabase
-          .from("external_identities")
-          .select("person_id")
-          .eq("external_id", authorExternalId)
-          .single();
+    if (pointError) throw pointError;
+    if (!knowledgePoint?.embedding) return 0;
+
+    const { data: topics, error: topicsError } = await this.supabase
+      .from("discovered_topics")
+      .select("id, cluster_centroid")
+      .eq("organization_id", organizationId)
+      .eq("embedding_model", this.embeddings.model);
 
-        if (!identity) return;
+    if (topicsError) throw topicsError;
 
-        // Find topics this knowledge point belongs to
-        const { data: topicMemberships } = await this.supabase
+    // pgvector columns come back from PostgREST as strings
+    const toVector = (value: unknown): number[] =>
+      typeof value === "string" ? JSON.parse(value) : (value as number[]);
+    const embedding = toVector(knowledgePoint.embedding);
+
+    let joined = 0;
+    for (const topic of topics || []) {
+      if (!topic.cluster_centroid) continue;
+
+      const similarity = this.cosineSimilarity(
+        embedding,
+        toVector(topic.cluster_centroid),
+      );
+      if (similarity > 0.7) {
+        const { error } = await this.supabase
           .from("knowledge_topic_memberships")
-          .select("topic_id, similarity_score")
-          .eq("knowledge_point_id", knowledgePointId);
-
-        // Update expertise scores for each topic
-        for (const membership of topicMemberships || []) {
-          await this.supabase.from("topic_experts").upsert(
-            {
-              person_id: identity.person_id,
-              topic_id: membership.topic_id,
-              expertise_score: membership.similarity_score,
-              contribution_count: 1,
-              last_contribution_at: new Date().toISOString(),
-              is_active: true,
-            },
-            {
-              onConflict: "person_id,topic_id",
-            },
-          );
-        }
-      } catch (error) {
-        console.error("Failed to update expertise scores:", error);
+          .upsert({
+            knowledge_point_id: knowledgePointId,
+            topic_id: topic.id,
+            similarity_score: similarity,
+          });
+        if (error) throw error;
+        joined++;
       }
-    }, 200);
+    }
+
+    return joined;
   }
 
   private async logSearchQuery(
     query: string,
     embedding: number[],
     organizationId: string,
+    rankedResults: KnowledgeMatch[],
+    candidateCount: number,
+  ): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from("search_queries")
+      .insert({
+        organization_id: organizationId,
+        query_text: query,
+        query_embedding: `[${embedding.join(",")}]`,
+        embedding_model: this.embeddings.model,
+        matched_knowledge_points: rankedResults.map(
+          (match) => match.knowledgePointId,
+        ),
+        ranked_results: rankedResults,
+        candidate_count: candidateCount,
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      // The search still succeeds, it just cannot be paged
+      console.error("❌ [KNOWLEDGE ENGINE] Failed to log search query:", error);
+      return null;
+    }
+    return data.id;
+  }
+
+  /**
+   * Remember which experts a search was routed to, for the Slack App Home
+   */
+  private async recordExpertRoutes(
+    organizationId: string,
+    searchId: string,
+    experts: ExpertMatch[],
   ): Promise<void> {
-    await this.supabase.from("search_queries").insert({
-      organization_id: organizationId,
-      query_text: query,
-      query_embedding: `[${embedding.join(",")}]`,
-    });
+    if (experts.length === 0) return;
+
+    const { error } = await this.supabase.from("expert_routes").insert(
+      experts.map((expert) => ({
+        organization_id: organizationId,
+        search_query_id: searchId,
+        person_id: expert.personId,
+        expertise_score: expert.expertiseScore,
+      })),
+    );
+
+    if (error) {
+      // Routing history is informational; the search itself succeeded
+      console.error(
+        "❌ [KNOWLEDGE ENGINE] Failed to record expert routes:",
+        error,
+      );
+    }
   }
 
   private async findRelevantTopics(
@@ -2392,7 +3614,8 @@ Respond with either the JSON or "SKIP":`;
     const { data: topics } = await this.supabase
       .from("discovered_topics")
       .select("id, name, cluster_centroid")
-      .eq("organization_id", organizationId);
+      .eq("organization_id", organizationId)
+      .eq("embedding_model", this.embeddings.model);
 
     if (!topics) return [];
 
@@ -2408,19 +3631,89 @@ Respond with either the JSON or "SKIP":`;
       .slice(0, 3);
   }
 
+  /**
+   * Suggest experts across every matched topic, weighting each topic by its similarity
+   * to the query and merging people who are experts in several of them
+   */
   private async findTopicExperts(
     topics: any[],
     limit: number,
   ): Promise<ExpertMatch[]> {
     if (topics.length === 0) return [];
 
-    const topicIds = topics.map((t) => t.id);
-    const { data: experts } = await this.supabase.rpc("find_topic_experts", {
-      topic_id_param: topicIds[0], // For MVP, just use first topic
-      limit_count: limit,
+    const { data: experts, error } = await this.supabase.rpc(
+      "find_experts_for_topics",
+      {
+        topic_ids: topics.map((t) => t.id),
+        topic_weights: topics.map((t) => t.similarity),
+        limit_count: limit,
+      },
+    );
+
+    if (error) {
+      console.error(
+        "❌ [KNOWLEDGE ENGINE] Failed to find topic experts:",
+        error,
+      );
+      return [];
+    }
+
+    return (experts || []).map((expert: any) => {
+      const topicEvidence: ExpertTopicEvidence[] = expert.topics.map(
+        (topic: any) => ({
+          topicId: topic.topic_id,
+          topicName: topic.topic_name,
+          topicSimilarity: topic.topic_similarity,
+          expertiseScore: topic.expertise_score,
+          contributionCount: topic.contribution_count ?? 0,
+        }),
+      );
+      const contributions: ExpertContribution[] = expert.contributions.map(
+        (contribution: any) => ({
+          knowledgePointId: contribution.knowledge_point_id,
+          summary: contribution.summary,
+          sourceUrl: contribution.source_url,
+          platform: contribution.platform,
+          topicName: contribution.topic_name,
+        }),
+      );
+
+      return {
+        personId: expert.person_id,
+        displayName: expert.display_name,
+        expertiseScore: expert.weighted_score,
+        contributionCount: expert.contribution_count,
+        lastContributionAt: expert.last_contribution_at,
+        explanation: {
+          summary: this.explainExpert(
+            expert.display_name,
+            topicEvidence,
+            contributions,
+          ),
+          topics: topicEvidence,
+          contributions,
+        },
+      };
     });
+  }
 
-    return experts || [];
+  private explainExpert(
+    name: string,
+    topics: ExpertTopicEvidence[],
+    contributions: ExpertContribution[],
+  ): string {
+    const topicList = topics
+      .map(
+        (topic) =>
+          `${topic.topicName} (${topic.contributionCount} contribution${topic.contributionCount === 1 ? "" : "s"}, ${Math.round(topic.topicSimilarity * 100)}% match to your question)`,
+      )
+      .join(", ");
+
+    let summary = `${name} is an active contributor to ${topicList}.`;
+    if (contributions.length > 0) {
+      summary += ` Most relevant: "${contributions[0].summary}"`;
+    }
+    return summary;
   }
 
   private async createOrUpdateTopic(
@@ -2433,6 +3726,7 @@ Respond with either the JSON or "SKIP":`;
         name: cluster.name,
         description: cluster.description,
         cluster_centroid: cluster.centroid,
+        embedding_model: this.embeddings.model,
         knowledge_point_count: cluster.members.length,
         confidence_score: Math.min(1.0, cluster.members.length / 10),
       },
@@ -2502,6 +3796,7 @@ Respond with either the JSON or "SKIP":`;
         .from("discovered_topics")
         .update({
           cluster_centroid: `[${newCluster.centroid.join(",")}]`,
+          embedding_model: this.embeddings.model,
           knowledge_point_count: newCluster.size,
           confidence_score: this.calculateTopicConfidence(newCluster),
           last_updated: new Date().toISOString(),
@@ -2551,6 +3846,7 @@ Respond with either the JSON or "SKIP":`;
           organization_id: organizationId,
           name: topicName,
           cluster_centroid: `[${cluster.centroid.join(",")}]`,
+          embedding_model: this.embeddings.model,
           knowledge_point_count: cluster.size,
           confidence_score: this.calculateTopicConfidence(cluster),
           discovered_at: new Date().toISOString(),
@@ -2645,3 +3941,18 @@ Respond with either the JSON or "SKIP":`;
     }
   }
 }
+
+/**
+ * The repository ("owner/repo", lowercase like knowledge_sources.repository) and issue or
+ * pull request number of a GitHub URL
+ */
+function githubThreadOf(
+  url?: string,
+): { repository: string; number: number } | null {
+  const match = url?.match(
+    /github\.com\/([^/]+\/[^/?#]+)\/(?:issues|pull)\/(\d+)/,
+  );
+  return match
+    ? { repository: match[1].toLowerCase(), number: Number(match[2]) }
+    : null;
+}
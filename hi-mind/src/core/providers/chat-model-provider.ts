@@ -0,0 +1,365 @@
+/**
+ * Chat Model Providers
+ *
+ * All LLM calls (result ranking, message enhancement, topic naming, commit analysis)
+ * go through a ChatModelProvider selected through configuration:
+ *
+ *   LLM_PROVIDER=openai (default)   - OpenAI API, uses OPENAI_API_KEY
+ *   LLM_PROVIDER=openai-compatible  - any OpenAI-compatible server (Ollama, vLLM, llama.cpp) at LLM_BASE_URL
+ *   LLM_PROVIDER=fake               - scripted, deterministic responses with no network access
+ *
+ * Call sites describe themselves with a ChatCallSpec: the model they were tuned for,
+ * how long they may take and, for structured output, the JSON schema they expect.
+ * The model can be overridden per call site (LLM_MODEL_<CALL_NAME>) or globally (LLM_MODEL).
+ */
+
+import OpenAI from "openai";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/**
+ * The subset of JSON Schema used to describe structured LLM output
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  description?: string;
+}
+
+export interface ChatCallSpec {
+  /** Stable call-site name, used in logs, model overrides and fake scripts */
+  name: string;
+  /** Model the prompt was written for */
+  model: string;
+  /** Hard deadline for the whole request */
+  timeoutMs: number;
+  maxTokens: number;
+  temperature: number;
+  /** When set, the response must be a JSON object matching this schema */
+  jsonSchema?: JsonSchema;
+}
+
+export interface ChatCompletionRequest {
+  call: ChatCallSpec;
+  messages: ChatMessage[];
+}
+
+export interface ChatModelProvider {
+  readonly name: string;
+  /** Returns the raw text content of the model response */
+  complete(request: ChatCompletionRequest): Promise<string>;
+}
+
+export class ChatModelError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly callName: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "ChatModelError";
+  }
+}
+
+/**
+ * Resolve the model for a call site, honouring environment overrides
+ */
+export function resolveChatModel(call: ChatCallSpec): string {
+  const overrideKey = `LLM_MODEL_${call.name.toUpperCase()}`;
+  return process.env[overrideKey] || process.env.LLM_MODEL || call.model;
+}
+
+// =========================
+// OpenAI Providers
+// =========================
+
+export interface OpenAIChatModelProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+}
+
+export class OpenAIChatModelProvider implements ChatModelProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+
+  constructor(options: OpenAIChatModelProviderOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new Error(
+        "OPENAI_API_KEY environment variable is required for the openai LLM provider",
+      );
+    }
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    const { call, messages } = request;
+
+    try {
+      const response = await this.client.chat.completions.create(
+        {
+          model: resolveChatModel(call),
+          messages,
+          max_tokens: call.maxTokens,
+          temperature: call.temperature,
+          ...(call.jsonSchema
+            ? { response_format: { type: "json_object" as const } }
+            : {}),
+        },
+        { signal: AbortSignal.timeout(call.timeoutMs) },
+      );
+
+      return response.choices[0]?.message?.content?.trim() || "";
+    } catch (error) {
+      throw new ChatModelError(
+        `${this.name} completion failed for ${call.name}`,
+        this.name,
+        call.name,
+        error,
+      );
+    }
+  }
+}
+
+export interface OpenAICompatibleChatModelProviderOptions {
+  baseURL: string;
+  /** Most local servers ignore the key, but the SDK requires one */
+  apiKey?: string;
+}
+
+export class OpenAICompatibleChatModelProvider extends OpenAIChatModelProvider {
+  readonly name: string = "openai-compatible";
+
+  constructor(options: OpenAICompatibleChatModelProviderOptions) {
+    super({ apiKey: options.apiKey || "not-needed", baseURL: options.baseURL });
+  }
+}
+
+// =========================
+// Scripted Fake Provider
+// =========================
+
+export interface ChatScriptRule {
+  /** Call-site name, a pattern tested against the last message, or a predicate */
+  match: string | RegExp | ((request: ChatCompletionRequest) => boolean);
+  respond: string | ((request: ChatCompletionRequest) => string);
+}
+
+/**
+ * Deterministic provider for tests and offline runs. Rules are tried in order; when
+ * none match, JSON calls get the minimal object satisfying their schema and text
+ * calls get an empty string, which every call site treats as "use the fallback".
+ */
+export class ScriptedChatModelProvider implements ChatModelProvider {
+  readonly name = "fake";
+  readonly calls: ChatCompletionRequest[] = [];
+
+  constructor(private rules: ChatScriptRule[] = []) {}
+
+  async complete(request: ChatCompletionRequest): Promise<string> {
+    this.calls.push(request);
+
+    const rule = this.rules.find((candidate) =>
+      this.matches(candidate, request),
+    );
+    if (rule) {
+      return typeof rule.respond === "function"
+        ? rule.respond(request)
+        : rule.respond;
+    }
+
+    return request.call.jsonSchema
+      ? JSON.stringify(defaultForSchema(request.call.jsonSchema))
+      : "";
+  }
+
+  private matches(rule: ChatScriptRule, request: ChatCompletionRequest) {
+    if (typeof rule.match === "function") return rule.match(request);
+    if (typeof rule.match === "string") return rule.match === request.call.name;
+
+    const lastMessage = request.messages[request.messages.length - 1];
+    return rule.match.test(lastMessage?.content || "");
+  }
+}
+
+function defaultForSchema(schema: JsonSchema): unknown {
+  switch (schema.type) {
+    case "object": {
+      const value: Record<string, unknown> = {};
+      for (const key of schema.required || []) {
+        const property = schema.properties?.[key];
+        if (property) value[key] = defaultForSchema(property);
+      }
+      return value;
+    }
+    case "array":
+      return [];
+    case "string":
+      return "";
+    case "number":
+    case "integer":
+      return 0;
+    case "boolean":
+      return false;
+  }
+}
+
+// =========================
+// Structured Output Helpers
+// =========================
+
+/**
+ * Run a text call and return the trimmed response
+ */
+export async function completeText(
+  provider: ChatModelProvider,
+  call: ChatCallSpec,
+  prompt: string,
+): Promise<string> {
+  return provider.complete({
+    call,
+    messages: [{ role: "user", content: prompt }],
+  });
+}
+
+/**
+ * Run a JSON call and return the parsed response, validated against call.jsonSchema
+ */
+export async function completeJson<T>(
+  provider: ChatModelProvider,
+  call: ChatCallSpec,
+  prompt: string,
+): Promise<T> {
+  if (!call.jsonSchema) {
+    throw new ChatModelError(
+      `Call ${call.name} has no JSON schema`,
+      provider.name,
+      call.name,
+    );
+  }
+
+  const raw = await provider.complete({
+    call,
+    messages: [{ role: "user", content: prompt }],
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new ChatModelError(
+      `${call.name} returned invalid JSON`,
+      provider.name,
+      call.name,
+      error,
+    );
+  }
+
+  const problems = validateJsonSchema(parsed, call.jsonSchema);
+  if (problems.length > 0) {
+    throw new ChatModelError(
+      `${call.name} response does not match schema: ${problems.join("; ")}`,
+      provider.name,
+      call.name,
+    );
+  }
+
+  return parsed as T;
+}
+
+/**
+ * Minimal structural validation: types, required properties and array items
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$",
+): string[] {
+  switch (schema.type) {
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${path} should be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const problems: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) problems.push(`${path}.${key} is required`);
+      }
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          problems.push(...validateJsonSchema(record[key], property, `${path}.${key}`));
+        }
+      }
+      return problems;
+    }
+    case "array":
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return schema.items
+        ? value.flatMap((item, index) =>
+            validateJsonSchema(item, schema.items!, `${path}[${index}]`),
+          )
+        : [];
+    case "integer":
+      return Number.isInteger(value) ? [] : [`${path} should be an integer`];
+    default:
+      return typeof value === schema.type
+        ? []
+        : [`${path} should be a ${schema.type}`];
+  }
+}
+
+// =========================
+// Configuration
+// =========================
+
+/**
+ * Build the provider described by the LLM_* environment variables.
+ */
+export function createChatModelProvider(): ChatModelProvider {
+  const providerName = (process.env.LLM_PROVIDER || "openai").toLowerCase();
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAIChatModelProvider();
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error(
+          "LLM_BASE_URL environment variable is required for the openai-compatible LLM provider",
+        );
+      }
+      return new OpenAICompatibleChatModelProvider({
+        baseURL,
+        apiKey: process.env.LLM_API_KEY,
+      });
+    }
+    case "fake":
+      return new ScriptedChatModelProvider();
+    default:
+      throw new Error(
+        `Unknown LLM_PROVIDER "${providerName}" (expected "openai", "openai-compatible" or "fake")`,
+      );
+  }
+}
+
+let chatModelProviderInstance: ChatModelProvider | null = null;
+
+export function getChatModelProvider(): ChatModelProvider {
+  if (!chatModelProviderInstance) {
+    chatModelProviderInstance = createChatModelProvider();
+    console.log(
+      `🤖 [LLM] Using ${chatModelProviderInstance.name} chat model provider`,
+    );
+  }
+  return chatModelProviderInstance;
+}
+
+export function resetChatModelProvider(): void {
+  chatModelProviderInstance = null;
+}
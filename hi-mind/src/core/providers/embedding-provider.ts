@@ -0,0 +1,226 @@
+/**
+ * Embedding Providers
+ *
+ * Every vector stored in knowledge_points, discovered_topics and search_queries
+ * comes from exactly one provider, selected through configuration:
+ *
+ *   EMBEDDING_PROVIDER=openai  (default) - OpenAI embeddings API
+ *   EMBEDDING_PROVIDER=local             - transformers.js sentence model, runs in-process
+ *
+ * The model name and dimension travel with each stored vector so that vectors
+ * from different models are never compared against each other.
+ */
+
+import OpenAI from "openai";
+
+export interface EmbeddingProvider {
+  /** Provider identifier, e.g. "openai" or "local" */
+  readonly name: string;
+  /** Model name recorded next to every stored vector */
+  readonly model: string;
+  /** Length of the vectors produced by this provider */
+  readonly dimensions: number;
+  /** Embed a single text. Throws instead of returning a placeholder vector. */
+  embed(text: string): Promise<number[]>;
+}
+
+export class EmbeddingProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = "EmbeddingProviderError";
+  }
+}
+
+// Keeps requests inside the model context window for both providers
+const MAX_INPUT_CHARS = 8000;
+
+export interface OpenAIEmbeddingProviderOptions {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  dimensions?: number;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "openai";
+  readonly model: string;
+  readonly dimensions: number;
+  private client: OpenAI;
+
+  constructor(options: OpenAIEmbeddingProviderOptions = {}) {
+    const apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+      throw new EmbeddingProviderError(
+        "OPENAI_API_KEY environment variable is required for the openai embedding provider",
+        this.name,
+      );
+    }
+
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL });
+    this.model = options.model ?? "text-embedding-3-small";
+    this.dimensions = options.dimensions ?? 1536;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    try {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: text.substring(0, MAX_INPUT_CHARS),
+        encoding_format: "float",
+        dimensions: this.dimensions,
+      });
+
+      return assertDimensions(response.data[0].embedding, this);
+    } catch (error) {
+      if (error instanceof EmbeddingProviderError) throw error;
+      throw new EmbeddingProviderError(
+        `OpenAI embedding request failed for model ${this.model}`,
+        this.name,
+        error,
+      );
+    }
+  }
+}
+
+export interface LocalEmbeddingProviderOptions {
+  model?: string;
+  dimensions?: number;
+  /** Directory containing pre-downloaded models. When set, remote downloads are disabled. */
+  modelPath?: string;
+}
+
+type FeatureExtractor = (
+  text: string,
+  options: { pooling: "mean"; normalize: boolean },
+) => Promise<{ data: ArrayLike<number> }>;
+
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly model: string;
+  readonly dimensions: number;
+  private readonly modelPath?: string;
+  private extractor: Promise<FeatureExtractor> | null = null;
+
+  constructor(options: LocalEmbeddingProviderOptions = {}) {
+    this.model = options.model ?? "Xenova/all-MiniLM-L6-v2";
+    this.dimensions = options.dimensions ?? 384;
+    this.modelPath = options.modelPath;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    try {
+      const extractor = await this.getExtractor();
+      const output = await extractor(text.substring(0, MAX_INPUT_CHARS), {
+        pooling: "mean",
+        normalize: true,
+      });
+
+      return assertDimensions(Array.from(output.data), this);
+    } catch (error) {
+      if (error instanceof EmbeddingProviderError) throw error;
+      throw new EmbeddingProviderError(
+        `Local embedding failed for model ${this.model}`,
+        this.name,
+        error,
+      );
+    }
+  }
+
+  private getExtractor(): Promise<FeatureExtractor> {
+    if (!this.extractor) {
+      this.extractor = this.loadExtractor().catch((error) => {
+        // Allow a later call to retry loading the model
+        this.extractor = null;
+        throw error;
+      });
+    }
+    return this.extractor;
+  }
+
+  private async loadExtractor(): Promise<FeatureExtractor> {
+    // Loaded lazily so OpenAI-only deployments never pull in the ONNX runtime
+    const { pipeline, env } = await import("@huggingface/transformers");
+
+    if (this.modelPath) {
+      env.localModelPath = this.modelPath;
+      env.allowRemoteModels = false;
+    }
+
+    console.log(`🧠 [EMBEDDINGS] Loading local model ${this.model}`);
+    const extractor = await pipeline("feature-extraction", this.model);
+    return extractor as unknown as FeatureExtractor;
+  }
+}
+
+function assertDimensions(
+  embedding: number[],
+  provider: EmbeddingProvider,
+): number[] {
+  if (embedding.length !== provider.dimensions) {
+    throw new EmbeddingProviderError(
+      `Model ${provider.model} returned ${embedding.length} dimensions, expected ${provider.dimensions}`,
+      provider.name,
+    );
+  }
+  return embedding;
+}
+
+function parseDimensions(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const dimensions = parseInt(value, 10);
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new EmbeddingProviderError(
+      `EMBEDDING_DIMENSIONS must be a positive integer, got "${value}"`,
+      "config",
+    );
+  }
+  return dimensions;
+}
+
+/**
+ * Build the provider described by the EMBEDDING_* environment variables.
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const providerName = (process.env.EMBEDDING_PROVIDER || "openai").toLowerCase();
+  const model = process.env.EMBEDDING_MODEL || undefined;
+  const dimensions = parseDimensions(process.env.EMBEDDING_DIMENSIONS);
+
+  switch (providerName) {
+    case "openai":
+      return new OpenAIEmbeddingProvider({ model, dimensions });
+    case "local":
+      return new LocalEmbeddingProvider({
+        model,
+        dimensions,
+        modelPath: process.env.EMBEDDING_LOCAL_MODEL_PATH || undefined,
+      });
+    default:
+      throw new EmbeddingProviderError(
+        `Unknown EMBEDDING_PROVIDER "${providerName}" (expected "openai" or "local")`,
+        providerName,
+      );
+  }
+}
+
+let embeddingProviderInstance: EmbeddingProvider | null = null;
+
+/**
+ * Shared provider instance, so the local model is only loaded once per process.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProviderInstance) {
+    embeddingProviderInstance = createEmbeddingProvider();
+    console.log(
+      `🧠 [EMBEDDINGS] Using ${embeddingProviderInstance.name} provider (${embeddingProviderInstance.model}, ${embeddingProviderInstance.dimensions} dims)`,
+    );
+  }
+  return embeddingProviderInstance;
+}
+
+export function resetEmbeddingProvider(): void {
+  embeddingProviderInstance = null;
+}
@@ -6,6 +6,7 @@
 
 import { initializeSlack } from "@/lib/init-slack";
 import { startGitHubIntegration } from "@/integrations/github";
+import { startJobWorker } from "@/core/jobs/worker";
 
 export async function register() {
   // This only runs on server startup
@@ -17,6 +18,11 @@ export async function register() {
     
     // Initialize GitHub integration (skip backfill on startup)
     await startGitHubIntegration(true);
+
+    // Process queued ingestion, topic and backfill jobs
+    if (process.env.JOB_WORKER_DISABLED !== "true") {
+      startJobWorker();
+    }
     
     console.log("✅ [INSTRUMENTATION] All services initialized successfully");
   } catch (error) {
@@ -6,20 +6,73 @@ import type { RestEndpointMethodTypes } from "@octokit/rest";
 type IssuesListForRepoResponse = RestEndpointMethodTypes["issues"]["listForRepo"]["response"]["data"];
 type ReposListCommitsResponse = RestEndpointMethodTypes["repos"]["listCommits"]["response"]["data"];
 type ReposListReleasesResponse = RestEndpointMethodTypes["repos"]["listReleases"]["response"]["data"];
+type IssuesListCommentsForRepoResponse = RestEndpointMethodTypes["issues"]["listCommentsForRepo"]["response"]["data"];
+type PullsListReviewCommentsForRepoResponse = RestEndpointMethodTypes["pulls"]["listReviewCommentsForRepo"]["response"]["data"];
+type PullsListReviewsResponse = RestEndpointMethodTypes["pulls"]["listReviews"]["response"]["data"];
 
 export interface GitHubResource {
-  type: "issue" | "pull_request" | "commit" | "release";
+  type: "issue" | "pull_request" | "commit" | "release" | "issue_comment" | "review" | "review_comment";
   id: string;
   repository: string;
-  data: IssuesListForRepoResponse[0] | ReposListCommitsResponse[0] | ReposListReleasesResponse[0];
+  data:
+    | IssuesListForRepoResponse[0]
+    | ReposListCommitsResponse[0]
+    | ReposListReleasesResponse[0]
+    | IssuesListCommentsForRepoResponse[0]
+    | PullsListReviewCommentsForRepoResponse[0]
+    | PullsListReviewsResponse[0];
   timestamp: string;
 }
 
+export interface GitHubAccountRepository {
+  owner: string;
+  name: string;
+  fork: boolean;
+  archived: boolean;
+}
+
+/** Where the previous sync of a listing left off */
+export interface GitHubListCursor {
+  /** Only list what changed at or after this time; null lists everything */
+  since: string | null;
+  /** ETag of the first page the last time it was listed with this `since` */
+  etag: string | null;
+  /** Commits only: the default branch HEAD when commits were last listed */
+  headSha?: string | null;
+}
+
+export interface GitHubListResult {
+  resources: GitHubResource[];
+  /** ETag of the first page, to send with the same `since` next time */
+  etag: string | null;
+  /** GitHub answered 304: nothing changed since the ETag was taken */
+  notModified: boolean;
+  /** Commits only: the default branch HEAD the listing reached */
+  headSha?: string | null;
+}
+
+interface GitHubPages<T> {
+  items: T[];
+  etag: string | null;
+  notModified: boolean;
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+const PER_PAGE = 100;
+
+// Requests left before the client waits for the rate limit window to reset, leaving
+// headroom for requests already in flight
+const RATE_LIMIT_RESERVE = 5;
+
+// Every client in the process spends the same token's quota
+const rateLimit = {
+  remaining: Number.POSITIVE_INFINITY,
+  resetAt: 0,
+};
+
 export class GitHubAPIClient {
   private octokit: Octokit;
-  private config = {
-    rateLimitDelay: parseInt(process.env.GITHUB_RATE_LIMIT_DELAY || "1000"),
-  };
 
   constructor(token?: string) {
     const authToken = token ?? process.env.GITHUB_TOKEN;
@@ -30,52 +83,60 @@ export class GitHubAPIClient {
     this.octokit = new Octokit({
       auth: authToken,
     });
+
+    // Pace every request by the X-RateLimit-* headers of the previous ones
+    this.octokit.hook.wrap("request", async (request, options) => {
+      await this.waitForRateLimit();
+      try {
+        const response = await request(options);
+        this.recordRateLimit(response.headers);
+        return response;
+      } catch (error) {
+        const response = (error as { response?: { headers: ResponseHeaders } }).response;
+        if (response) this.recordRateLimit(response.headers);
+        if (!isRateLimited(error)) throw error;
+
+        // Primary or secondary rate limit hit anyway: wait it out and try once more
+        await this.waitForRateLimit(retryAfterMs(error));
+        const retried = await request(options);
+        this.recordRateLimit(retried.headers);
+        return retried;
+      }
+    });
   }
 
   /**
-   * Fetch issues and pull requests for a repository
+   * Fetch issues and pull requests for a repository, only those updated since the
+   * cursor when there is one
    */
-  async fetchIssues(owner: string, repo: string): Promise<GitHubResource[]> {
+  async fetchIssues(owner: string, repo: string, cursor?: GitHubListCursor): Promise<GitHubListResult> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
-      console.log(`🔍 [GITHUB API] Fetching issues/PRs for ${owner}/${repo}...`);
-      
-      const resources: GitHubResource[] = [];
-      let page = 1;
-      const perPage = 100;
-
-      while (true) {
-        const response = await this.octokit.rest.issues.listForRepo({
-          owner,
-          repo,
-          state: "all",
-          per_page: perPage,
-          page,
-        });
-
-        const issues = response.data;
-        if (issues.length === 0) break;
-
-        for (const issue of issues) {
-          const resourceType = issue.pull_request ? "pull_request" : "issue";
-          const resource: GitHubResource = {
-            type: resourceType,
-            id: issue.id.toString(),
-            repository: `${owner}/${repo}`,
-            data: issue,
-            timestamp: issue.created_at,
-          };
-
-          resources.push(resource);
-        }
-
-        page++;
-        
-        // Rate limiting
-        await this.sleep(this.config.rateLimitDelay);
-      }
-
-      console.log(`✅ [GITHUB API] Fetched ${resources.length} issues/PRs for ${owner}/${repo}`);
-      return resources;
+      console.log(`🔍 [GITHUB API] Fetching issues/PRs for ${owner}/${repo}${describeSince(cursor)}...`);
+
+      const pages = await this.fetchAllPages(
+        (page, headers) =>
+          this.octokit.rest.issues.listForRepo({
+            owner,
+            repo,
+            state: "all",
+            ...(cursor?.since && { since: cursor.since }),
+            per_page: PER_PAGE,
+            page,
+            headers,
+          }),
+        { etag: cursor?.etag }
+      );
+
+      const resources = pages.items.map((issue): GitHubResource => ({
+        type: issue.pull_request ? "pull_request" : "issue",
+        id: issue.id.toString(),
+        repository: `${owner}/${repo}`,
+        data: issue,
+        timestamp: issue.created_at,
+      }));
+
+      console.log(`✅ [GITHUB API] Fetched ${resources.length} issues/PRs for ${owner}/${repo}${describeNotModified(pages)}`);
+      return { ...pages, resources };
     }, "github_api_fetch_issues");
 
     if (error) {
@@ -87,47 +148,71 @@ export class GitHubAPIClient {
   }
 
   /**
-   * Fetch commits for a repository
+   * Fetch one issue or pull request by number. Pull requests are fetched as issues so they
+   * keep the id the issue listing gives them.
    */
-  async fetchCommits(owner: string, repo: string): Promise<GitHubResource[]> {
+  async fetchIssue(owner: string, repo: string, issueNumber: number): Promise<GitHubResource> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
-      console.log(`🔍 [GITHUB API] Fetching commits for ${owner}/${repo}...`);
-      
-      const resources: GitHubResource[] = [];
-      let page = 1;
-      const perPage = 100;
+      console.log(`🔍 [GITHUB API] Fetching issue #${issueNumber} for ${owner}/${repo}...`);
 
-      while (true) {
-        const response = await this.octokit.rest.repos.listCommits({
-          owner,
-          repo,
-          per_page: perPage,
-          page,
-        });
+      const response = await this.octokit.rest.issues.get({
+        owner,
+        repo,
+        issue_number: issueNumber,
+      });
 
-        const commits = response.data;
-        if (commits.length === 0) break;
+      const issue = response.data as IssuesListForRepoResponse[0];
+      const resource: GitHubResource = {
+        type: issue.pull_request ? "pull_request" : "issue",
+        id: issue.id.toString(),
+        repository: `${owner}/${repo}`,
+        data: issue,
+        timestamp: issue.created_at,
+      };
+      return resource;
+    }, "github_api_fetch_issue");
 
-        for (const commit of commits) {
-          const resource: GitHubResource = {
-            type: "commit",
-            id: commit.sha,
-            repository: `${owner}/${repo}`,
-            data: commit,
-            timestamp: commit.commit.author?.date || commit.commit.committer?.date || "",
-          };
+    if (error) {
+      console.error("❌ [GITHUB API] Failed to fetch issue:", error);
+      throw error;
+    }
 
-          resources.push(resource);
-        }
+    return result;
+  }
 
-        page++;
-        
-        // Rate limiting
-        await this.sleep(this.config.rateLimitDelay);
+  /**
+   * Fetch commits for a repository. Once a sync has recorded the default branch HEAD, the
+   * commits reachable from the current HEAD but not from that one are compared; `since`
+   * alone filters on commit dates, so it would miss the commits of a branch merged after
+   * the last sync that were committed before it.
+   */
+  async fetchCommits(owner: string, repo: string, cursor?: GitHubListCursor): Promise<GitHubListResult> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      if (cursor?.headSha) {
+        const compared = await this.fetchCommitsSinceHead(owner, repo, cursor.headSha);
+        if (compared) return compared;
       }
 
-      console.log(`✅ [GITHUB API] Fetched ${resources.length} commits for ${owner}/${repo}`);
-      return resources;
+      console.log(`🔍 [GITHUB API] Fetching commits for ${owner}/${repo}${describeSince(cursor)}...`);
+
+      const pages = await this.fetchAllPages(
+        (page, headers) =>
+          this.octokit.rest.repos.listCommits({
+            owner,
+            repo,
+            ...(cursor?.since && { since: cursor.since }),
+            per_page: PER_PAGE,
+            page,
+            headers,
+          }),
+        { etag: cursor?.etag }
+      );
+
+      const resources = pages.items.map(commit => this.toCommitResource(owner, repo, commit));
+
+      console.log(`✅ [GITHUB API] Fetched ${resources.length} commits for ${owner}/${repo}${describeNotModified(pages)}`);
+      // The listing starts at the default branch HEAD
+      return { ...pages, resources, headSha: pages.items[0]?.sha ?? cursor?.headSha ?? null };
     }, "github_api_fetch_commits");
 
     if (error) {
@@ -144,7 +229,7 @@ export class GitHubAPIClient {
   async fetchCommitDetails(owner: string, repo: string, sha: string): Promise<RestEndpointMethodTypes["repos"]["getCommit"]["response"]["data"]> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
       console.log(`🔍 [GITHUB API] Fetching commit details for ${sha.substring(0, 8)}...`);
-      
+
       const response = await this.octokit.rest.repos.getCommit({
         owner,
         repo,
@@ -163,59 +248,355 @@ export class GitHubAPIClient {
   }
 
   /**
-   * Fetch releases for a repository
+   * Fetch releases for a repository. GitHub has no `since` filter for releases, so they
+   * are all listed unless the ETag still matches, and filtered here.
+   */
+  async fetchReleases(owner: string, repo: string, cursor?: GitHubListCursor): Promise<GitHubListResult> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      console.log(`🔍 [GITHUB API] Fetching releases for ${owner}/${repo}${describeSince(cursor)}...`);
+
+      const pages = await this.fetchAllPages(
+        (page, headers) =>
+          this.octokit.rest.repos.listReleases({ owner, repo, per_page: PER_PAGE, page, headers }),
+        { etag: cursor?.etag }
+      );
+
+      const resources = pages.items
+        .filter(release => isSince(release.published_at || release.created_at, cursor))
+        .map((release): GitHubResource => ({
+          type: "release",
+          id: release.id.toString(),
+          repository: `${owner}/${repo}`,
+          data: release,
+          timestamp: release.created_at,
+        }));
+
+      console.log(`✅ [GITHUB API] Fetched ${resources.length} releases for ${owner}/${repo}${describeNotModified(pages)}`);
+      return { ...pages, resources };
+    }, "github_api_fetch_releases");
+
+    if (error) {
+      console.error("❌ [GITHUB API] Failed to fetch releases:", error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch the conversation comments on every issue and pull request of a repository
+   */
+  async fetchIssueComments(owner: string, repo: string, cursor?: GitHubListCursor): Promise<GitHubListResult> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      console.log(`🔍 [GITHUB API] Fetching issue comments for ${owner}/${repo}${describeSince(cursor)}...`);
+
+      const pages = await this.fetchAllPages(
+        (page, headers) =>
+          this.octokit.rest.issues.listCommentsForRepo({
+            owner,
+            repo,
+            ...(cursor?.since && { since: cursor.since }),
+            per_page: PER_PAGE,
+            page,
+            headers,
+          }),
+        { etag: cursor?.etag }
+      );
+      const resources = pages.items.map((comment): GitHubResource => ({
+        type: "issue_comment",
+        id: comment.id.toString(),
+        repository: `${owner}/${repo}`,
+        data: comment,
+        timestamp: comment.created_at,
+      }));
+
+      console.log(`✅ [GITHUB API] Fetched ${resources.length} issue comments for ${owner}/${repo}${describeNotModified(pages)}`);
+      return { ...pages, resources };
+    }, "github_api_fetch_issue_comments");
+
+    if (error) {
+      console.error("❌ [GITHUB API] Failed to fetch issue comments:", error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch the inline review comments on every pull request of a repository
    */
-  async fetchReleases(owner: string, repo: string): Promise<GitHubResource[]> {
+  async fetchReviewComments(owner: string, repo: string, cursor?: GitHubListCursor): Promise<GitHubListResult> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
-      console.log(`🔍 [GITHUB API] Fetching releases for ${owner}/${repo}...`);
-      
+      console.log(`🔍 [GITHUB API] Fetching review comments for ${owner}/${repo}${describeSince(cursor)}...`);
+
+      const pages = await this.fetchAllPages(
+        (page, headers) =>
+          this.octokit.rest.pulls.listReviewCommentsForRepo({
+            owner,
+            repo,
+            ...(cursor?.since && { since: cursor.since }),
+            per_page: PER_PAGE,
+            page,
+            headers,
+          }),
+        { etag: cursor?.etag }
+      );
+      const resources = pages.items.map((comment): GitHubResource => ({
+        type: "review_comment",
+        id: comment.id.toString(),
+        repository: `${owner}/${repo}`,
+        data: comment,
+        timestamp: comment.created_at,
+      }));
+
+      console.log(`✅ [GITHUB API] Fetched ${resources.length} review comments for ${owner}/${repo}${describeNotModified(pages)}`);
+      return { ...pages, resources };
+    }, "github_api_fetch_review_comments");
+
+    if (error) {
+      console.error("❌ [GITHUB API] Failed to fetch review comments:", error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fetch the pull request reviews of a repository that have a written body. Reviews are
+   * listed per pull request, so this lists the pull requests first, most recently updated
+   * first, and stops at the first one not updated since the cursor.
+   */
+  async fetchReviews(owner: string, repo: string, cursor?: GitHubListCursor): Promise<GitHubListResult> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      console.log(`🔍 [GITHUB API] Fetching pull request reviews for ${owner}/${repo}${describeSince(cursor)}...`);
+
+      const pulls = await this.fetchAllPages(
+        (page, headers) =>
+          this.octokit.rest.pulls.list({
+            owner,
+            repo,
+            state: "all",
+            sort: "updated",
+            direction: "desc",
+            per_page: PER_PAGE,
+            page,
+            headers,
+          }),
+        { etag: cursor?.etag, until: pull => !isSince(pull.updated_at, cursor) }
+      );
+
       const resources: GitHubResource[] = [];
-      let page = 1;
-      const perPage = 100;
+      for (const pull of pulls.items) {
+        const { items: reviews } = await this.fetchAllPages(page =>
+          this.octokit.rest.pulls.listReviews({ owner, repo, pull_number: pull.number, per_page: PER_PAGE, page })
+        );
+
+        for (const review of reviews) {
+          // Approvals without a comment carry no knowledge
+          if (!review.body?.trim()) continue;
+          if (!isSince(review.submitted_at || pull.created_at, cursor)) continue;
+
+          resources.push({
+            type: "review",
+            id: review.id.toString(),
+            repository: `${owner}/${repo}`,
+            data: review,
+            timestamp: review.submitted_at || pull.created_at,
+          });
+        }
+      }
+
+      console.log(`✅ [GITHUB API] Fetched ${resources.length} reviews on ${pulls.items.length} pull requests for ${owner}/${repo}${describeNotModified(pulls)}`);
+      return { ...pulls, resources };
+    }, "github_api_fetch_reviews");
+
+    if (error) {
+      console.error("❌ [GITHUB API] Failed to fetch reviews:", error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * List the repositories of a GitHub organization, or of a user when no organization
+   * has that login
+   */
+  async fetchAccountRepositories(account: string): Promise<GitHubAccountRepository[]> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      console.log(`🔍 [GITHUB API] Fetching repositories of ${account}...`);
+
+      let repositories;
+      try {
+        ({ items: repositories } = await this.fetchAllPages(page =>
+          this.octokit.rest.repos.listForOrg({ org: account, type: "all", per_page: PER_PAGE, page })
+        ));
+      } catch (orgError) {
+        if ((orgError as { status?: number }).status !== 404) throw orgError;
+        ({ items: repositories } = await this.fetchAllPages(page =>
+          this.octokit.rest.repos.listForUser({ username: account, type: "owner", per_page: PER_PAGE, page })
+        ));
+      }
+
+      console.log(`✅ [GITHUB API] Fetched ${repositories.length} repositories of ${account}`);
+      return repositories.map(repository => ({
+        owner: repository.owner.login,
+        name: repository.name,
+        fork: repository.fork,
+        archived: repository.archived ?? false,
+      }));
+    }, "github_api_fetch_account_repositories");
+
+    if (error) {
+      console.error("❌ [GITHUB API] Failed to fetch account repositories:", error);
+      throw error;
+    }
+
+    return result;
+  }
 
-      while (true) {
-        const response = await this.octokit.rest.repos.listReleases({
+  /**
+   * Compare the default branch HEAD with the one of the last sync. Returns null when that
+   * HEAD no longer exists, e.g. after a force push, so the caller lists by `since` instead.
+   */
+  private async fetchCommitsSinceHead(owner: string, repo: string, baseSha: string): Promise<GitHubListResult | null> {
+    console.log(`🔍 [GITHUB API] Fetching commits for ${owner}/${repo} since ${baseSha.substring(0, 8)}...`);
+
+    const { data: [head] } = await this.octokit.rest.repos.listCommits({ owner, repo, per_page: 1 });
+    const headSha = head?.sha ?? baseSha;
+
+    const commits: RestEndpointMethodTypes["repos"]["compareCommitsWithBasehead"]["response"]["data"]["commits"] = [];
+    for (let page = 1; headSha !== baseSha; page++) {
+      let response;
+      try {
+        response = await this.octokit.rest.repos.compareCommitsWithBasehead({
           owner,
           repo,
-          per_page: perPage,
+          basehead: `${baseSha}...${headSha}`,
+          per_page: PER_PAGE,
           page,
         });
+      } catch (error) {
+        if ((error as { status?: number }).status !== 404) throw error;
+        console.warn(`⚠️ [GITHUB API] Commit ${baseSha.substring(0, 8)} is gone from ${owner}/${repo}, listing commits by date`);
+        return null;
+      }
 
-        const releases = response.data;
-        if (releases.length === 0) break;
+      commits.push(...response.data.commits);
+      if (response.data.commits.length < PER_PAGE) break;
+    }
 
-        for (const release of releases) {
-          const resource: GitHubResource = {
-            type: "release",
-            id: release.id.toString(),
-            repository: `${owner}/${repo}`,
-            data: release,
-            timestamp: release.created_at,
-          };
+    const resources = commits.map(commit => this.toCommitResource(owner, repo, commit));
+    console.log(`✅ [GITHUB API] Fetched ${resources.length} commits for ${owner}/${repo}`);
+    return { resources, etag: null, notModified: false, headSha };
+  }
 
-          resources.push(resource);
-        }
+  private toCommitResource(
+    owner: string,
+    repo: string,
+    commit: RestEndpointMethodTypes["repos"]["listCommits"]["response"]["data"][number]
+  ): GitHubResource {
+    return {
+      type: "commit",
+      id: commit.sha,
+      repository: `${owner}/${repo}`,
+      data: commit,
+      timestamp: commit.commit.author?.date || commit.commit.committer?.date || "",
+    };
+  }
 
-        page++;
-        
-        // Rate limiting
-        await this.sleep(this.config.rateLimitDelay);
+  /**
+   * Request pages until a short one comes back. With an ETag, the first page is requested
+   * conditionally and a 304 ends the listing; `until` ends it at the first item that matches.
+   */
+  private async fetchAllPages<T>(
+    fetchPage: (page: number, headers: Record<string, string>) => Promise<{ data: T[]; headers: { etag?: string } }>,
+    options: { etag?: string | null; until?: (item: T) => boolean } = {}
+  ): Promise<GitHubPages<T>> {
+    const items: T[] = [];
+    let etag: string | null = null;
+
+    for (let page = 1; ; page++) {
+      let response;
+      try {
+        response = await fetchPage(page, page === 1 && options.etag ? { "if-none-match": options.etag } : {});
+      } catch (error) {
+        if ((error as { status?: number }).status === 304) {
+          return { items: [], etag: options.etag ?? null, notModified: true };
+        }
+        throw error;
       }
 
-      console.log(`✅ [GITHUB API] Fetched ${resources.length} releases for ${owner}/${repo}`);
-      return resources;
-    }, "github_api_fetch_releases");
+      if (page === 1) etag = response.headers.etag ?? null;
 
-    if (error) {
-      console.error("❌ [GITHUB API] Failed to fetch releases:", error);
-      throw error;
+      const stopAt = options.until ? response.data.findIndex(options.until) : -1;
+      if (stopAt >= 0) {
+        items.push(...response.data.slice(0, stopAt));
+        break;
+      }
+
+      items.push(...response.data);
+      if (response.data.length < PER_PAGE) break;
     }
 
-    return result;
+    return { items, etag, notModified: false };
   }
 
+  /**
+   * Wait for the rate limit window to reset once (nearly) all of it is spent, or for as
+   * long as GitHub asked with Retry-After
+   */
+  private async waitForRateLimit(retryAfter: number = 0): Promise<void> {
+    const untilReset =
+      rateLimit.remaining <= RATE_LIMIT_RESERVE ? rateLimit.resetAt - Date.now() : 0;
+    const delayMs = Math.max(untilReset, retryAfter);
+    if (delayMs <= 0) return;
+
+    console.log(`⏳ [GITHUB API] Rate limit reached (${rateLimit.remaining} requests left), waiting ${Math.ceil(delayMs / 1000)}s`);
+    await this.sleep(delayMs);
+    rateLimit.remaining = Number.POSITIVE_INFINITY;
+  }
+
+  private recordRateLimit(headers: ResponseHeaders): void {
+    const remaining = Number(headers["x-ratelimit-remaining"]);
+    const reset = Number(headers["x-ratelimit-reset"]);
+    if (Number.isNaN(remaining) || Number.isNaN(reset)) return;
+
+    rateLimit.remaining = remaining;
+    // Reset is in epoch seconds; wait a second past it for clock skew
+    rateLimit.resetAt = reset * 1000 + 1000;
+  }
 
   private async sleep(delayMs: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, delayMs));
   }
 }
+
+/** A 403 or 429 caused by the primary or a secondary rate limit */
+function isRateLimited(error: unknown): boolean {
+  const { status, response } = error as { status?: number; response?: { headers: ResponseHeaders } };
+  if (status !== 403 && status !== 429) return false;
+  return (
+    response?.headers["retry-after"] !== undefined ||
+    response?.headers["x-ratelimit-remaining"] === "0"
+  );
+}
+
+function retryAfterMs(error: unknown): number {
+  const retryAfter = (error as { response?: { headers: ResponseHeaders } }).response?.headers["retry-after"];
+  return retryAfter === undefined ? 0 : Number(retryAfter) * 1000;
+}
+
+/** Whether a timestamp falls in the part of the listing the cursor asks for */
+function isSince(timestamp: string | null | undefined, cursor?: GitHubListCursor): boolean {
+  if (!cursor?.since || !timestamp) return true;
+  return new Date(timestamp).getTime() >= new Date(cursor.since).getTime();
+}
+
+function describeSince(cursor?: GitHubListCursor): string {
+  return cursor?.since ? ` since ${cursor.since}` : "";
+}
+
+function describeNotModified(pages: { notModified: boolean }): string {
+  return pages.notModified ? " (not modified)" : "";
+}
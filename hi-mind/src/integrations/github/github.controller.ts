@@ -1,11 +1,17 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
 import { tryCatchWithLoggingAsync } from "@/utils/try-catch";
 import { GitHubService, type GitHubResource } from "./github.service";
-import { GitHubAPIClient } from "./github-api-client";
+import { GitHubAPIClient, type GitHubListCursor, type GitHubListResult } from "./github-api-client";
+import type { GitHubWebhookEvent, GitHubWebhookPayload } from "./webhook";
+import type { GitHubEventFilters } from "./github.repository";
+import type { BackfillTracker } from "@/lib/backfill-runs";
+import { createServiceClient } from "@/utils/supabase/service";
 
 export interface GitHubBackfillOptions {
   owner: string;
   repo: string;
+  organizationId: string;
+  /** Reports progress into a backfill run */
+  tracker?: BackfillTracker;
 }
 
 export interface GitHubBackfillResult {
@@ -14,6 +20,9 @@ export interface GitHubBackfillResult {
   errors: string[];
 }
 
+/** The listings a backfill syncs, each with its own cursor in github_sync_state */
+type GitHubSyncList = "issues" | "commits" | "releases" | "issue_comments" | "review_comments" | "reviews";
+
 export class GitHubController {
   private apiClient: GitHubAPIClient;
 
@@ -22,70 +31,51 @@ export class GitHubController {
   }
 
   /**
-   * Entry point for triggering a GitHub backfill
+   * Entry point for triggering a GitHub backfill. With a tracker, progress is reported per
+   * resource type and types it already finished (on a retry) are skipped. Each listing
+   * resumes from where the previous sync of the repository left off.
    */
   async triggerBackfill(options: GitHubBackfillOptions): Promise<GitHubBackfillResult> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
       console.log(`🚀 [GITHUB CONTROLLER] Starting backfill for ${options.owner}/${options.repo}`);
       
-      const { owner, repo } = options;
+      const { owner, repo, organizationId, tracker } = options;
       const repository = `${owner}/${repo}`;
       const errors: string[] = [];
       let totalProcessed = 0;
 
-      // Always fetch everything - no configuration needed
-      const [issues, issuesError] = await tryCatchWithLoggingAsync(
-        async () => {
-          console.log(`📥 [GITHUB CONTROLLER] Fetching all issues and PRs...`);
-          const issues = await this.fetchIssues(owner, repo);
-          const processedIssues = await this.githubService.processResources(issues);
-          totalProcessed += processedIssues.length;
-          console.log(`✅ [GITHUB CONTROLLER] Processed ${processedIssues.length} issues/PRs`);
-          return processedIssues;
-        },
-        "github_controller_fetch_issues"
-      );
-
-      if (issuesError) {
-        const errorMsg = `Failed to process issues: ${issuesError}`;
-        errors.push(errorMsg);
-        console.error(`❌ [GITHUB CONTROLLER] ${errorMsg}`);
-      }
+      const startedAt = new Date().toISOString();
+      const cursors = await this.loadSyncCursors(organizationId, repository);
 
-      const [commits, commitsError] = await tryCatchWithLoggingAsync(
-        async () => {
-          console.log(`📥 [GITHUB CONTROLLER] Fetching all commits...`);
-          const commits = await this.fetchCommits(owner, repo);
-          const processedCommits = await this.githubService.processResources(commits);
-          totalProcessed += processedCommits.length;
-          console.log(`✅ [GITHUB CONTROLLER] Processed ${processedCommits.length} commits`);
-          return processedCommits;
-        },
-        "github_controller_fetch_commits"
-      );
-
-      if (commitsError) {
-        const errorMsg = `Failed to process commits: ${commitsError}`;
-        errors.push(errorMsg);
-        console.error(`❌ [GITHUB CONTROLLER] ${errorMsg}`);
-      }
+      const resourceTypes: Array<{ key: string; label: string; lists: GitHubSyncList[] }> = [
+        { key: "issues", label: "issues/PRs", lists: ["issues"] },
+        { key: "commits", label: "commits", lists: ["commits"] },
+        { key: "releases", label: "releases", lists: ["releases"] },
+        // After issues/PRs, so comments find their parent for context
+        { key: "comments", label: "comments", lists: ["issue_comments", "review_comments"] },
+        { key: "reviews", label: "reviews", lists: ["reviews"] },
+      ];
+      tracker?.planUnits(resourceTypes.map(({ key, label }) => ({ key, label })));
 
-      const [releases, releasesError] = await tryCatchWithLoggingAsync(
-        async () => {
-          console.log(`📥 [GITHUB CONTROLLER] Fetching all releases...`);
-          const releases = await this.fetchReleases(owner, repo);
-          const processedReleases = await this.githubService.processResources(releases);
-          totalProcessed += processedReleases.length;
-          console.log(`✅ [GITHUB CONTROLLER] Processed ${processedReleases.length} releases`);
-          return processedReleases;
-        },
-        "github_controller_fetch_releases"
-      );
-
-      if (releasesError) {
-        const errorMsg = `Failed to process releases: ${releasesError}`;
-        errors.push(errorMsg);
-        console.error(`❌ [GITHUB CONTROLLER] ${errorMsg}`);
+      for (const resourceType of resourceTypes) {
+        if (tracker?.isUnitDone(resourceType.key)) {
+          console.log(`⏭️ [GITHUB CONTROLLER] ${resourceType.label} already backfilled in this run`);
+          continue;
+        }
+
+        const [processed, processError] = await tryCatchWithLoggingAsync(
+          () => this.backfillResources(resourceType.key, resourceType.label, resourceType.lists, options, { startedAt, cursors }),
+          `github_controller_fetch_${resourceType.key}`
+        );
+
+        if (processError) {
+          const errorMsg = `Failed to process ${resourceType.label}: ${processError}`;
+          errors.push(errorMsg);
+          console.error(`❌ [GITHUB CONTROLLER] ${errorMsg}`);
+          await tracker?.recordError(resourceType.key, errorMsg);
+        } else {
+          totalProcessed += processed;
+        }
       }
 
       const result: GitHubBackfillResult = {
@@ -113,11 +103,11 @@ export class GitHubController {
   /**
    * Entry point for processing a single GitHub resource
    */
-  async processSingleResource(resource: GitHubResource): Promise<boolean> {
+  async processSingleResource(resource: GitHubResource, organizationId: string): Promise<boolean> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
       console.log(`🔄 [GITHUB CONTROLLER] Processing single resource: ${resource.type} ${resource.id}`);
       
-      const processedEvents = await this.githubService.processResources([resource]);
+      const processedEvents = await this.githubService.processResources([resource], organizationId);
       const success = processedEvents.length === 1;
       
       if (success) {
@@ -137,6 +127,44 @@ export class GitHubController {
     return result;
   }
 
+  /**
+   * Entry point for a webhook delivery, returning how many resources were processed.
+   * Throws so the job that runs it is retried.
+   */
+  async processWebhookEvent(event: GitHubWebhookEvent, payload: GitHubWebhookPayload, organizationId: string): Promise<number> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      console.log(`🔔 [GITHUB CONTROLLER] Processing ${event} webhook for ${payload.repository?.full_name}`);
+
+      const processedEvents = await this.githubService.processWebhookEvent(event, payload, organizationId);
+      return processedEvents.length;
+    }, "github_controller_process_webhook_event");
+
+    if (error) {
+      console.error(`❌ [GITHUB CONTROLLER] Failed to process ${event} webhook:`, error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Entry point for replaying stored events into the knowledge engine, returning how many
+   * resources were processed. Throws so the job that runs it is retried.
+   */
+  async replayEvents(organizationId: string, filters: Omit<GitHubEventFilters, "before" | "beforeId" | "limit"> = {}): Promise<number> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      console.log(`🔁 [GITHUB CONTROLLER] Replaying GitHub events (repo: ${filters.repository}, type: ${filters.type}, since: ${filters.since})`);
+      return await this.githubService.replayEvents(organizationId, filters);
+    }, "github_controller_replay_events");
+
+    if (error) {
+      console.error("❌ [GITHUB CONTROLLER] Failed to replay GitHub events:", error);
+      throw error;
+    }
+
+    return result;
+  }
+
   /**
    * Entry point for health check
    */
@@ -159,16 +187,101 @@ export class GitHubController {
     return result;
   }
 
-  // Private methods for fetching data using the real GitHub API client
-  private async fetchIssues(owner: string, repo: string): Promise<GitHubResource[]> {
-    return await this.apiClient.fetchIssues(owner, repo);
+  /**
+   * Fetch and process what changed in one resource type, returning how many resources
+   * were processed, then move the cursors of its listings forward
+   */
+  private async backfillResources(
+    key: string,
+    label: string,
+    lists: GitHubSyncList[],
+    options: GitHubBackfillOptions,
+    sync: { startedAt: string; cursors: Map<GitHubSyncList, GitHubListCursor> },
+  ): Promise<number> {
+    const { owner, repo, organizationId, tracker } = options;
+    const repository = `${owner}/${repo}`.toLowerCase();
+
+    console.log(`📥 [GITHUB CONTROLLER] Fetching changed ${label}...`);
+    const listed: Array<{ list: GitHubSyncList; result: GitHubListResult }> = [];
+    for (const list of lists) {
+      listed.push({ list, result: await this.fetchList(list, owner, repo, sync.cursors.get(list)) });
+    }
+    const resources = listed.flatMap(({ result }) => result.resources);
+    tracker?.startUnit(key, resources.length, sync.cursors.get(lists[0])?.since ?? null);
+
+    const processed = await this.githubService.processResources(resources, organizationId, {
+      backfillRunId: tracker?.id,
+    });
+    const failed = resources.length - processed.length;
+    await tracker?.record(key, "processed", processed.length);
+    await tracker?.record(key, "failed", failed);
+
+    // Failed resources are listed again next time, so their cursors stay put
+    if (failed === 0) {
+      for (const { list, result } of listed) {
+        if (result.notModified) continue;
+        await this.saveSyncCursor(organizationId, repository, list, result.resources.length === 0
+          // Nothing new: keep the since the ETag was taken with, so the next sync can get a 304
+          ? { since: sync.cursors.get(list)?.since ?? null, etag: result.etag, headSha: result.headSha }
+          : { since: sync.startedAt, etag: null, headSha: result.headSha });
+      }
+    }
+    await tracker?.completeUnit(key);
+
+    console.log(`✅ [GITHUB CONTROLLER] Processed ${processed.length} ${label}`);
+    return processed.length;
+  }
+
+  // Fetch one listing using the real GitHub API client
+  private async fetchList(list: GitHubSyncList, owner: string, repo: string, cursor?: GitHubListCursor): Promise<GitHubListResult> {
+    switch (list) {
+      case "issues":
+        return await this.apiClient.fetchIssues(owner, repo, cursor);
+      case "commits":
+        return await this.apiClient.fetchCommits(owner, repo, cursor);
+      case "releases":
+        return await this.apiClient.fetchReleases(owner, repo, cursor);
+      case "issue_comments":
+        return await this.apiClient.fetchIssueComments(owner, repo, cursor);
+      case "review_comments":
+        return await this.apiClient.fetchReviewComments(owner, repo, cursor);
+      case "reviews":
+        return await this.apiClient.fetchReviews(owner, repo, cursor);
+    }
   }
 
-  private async fetchCommits(owner: string, repo: string): Promise<GitHubResource[]> {
-    return await this.apiClient.fetchCommits(owner, repo);
+  private async loadSyncCursors(organizationId: string, repository: string): Promise<Map<GitHubSyncList, GitHubListCursor>> {
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from("github_sync_state")
+      .select("resource, since, etag, head_sha")
+      .eq("organization_id", organizationId)
+      .eq("repository", repository.toLowerCase());
+
+    if (error) throw error;
+    return new Map(
+      (data || []).map((row: { resource: string; since: string | null; etag: string | null; head_sha: string | null }) =>
+        [row.resource as GitHubSyncList, { since: row.since, etag: row.etag, headSha: row.head_sha }]
+      )
+    );
   }
 
-  private async fetchReleases(owner: string, repo: string): Promise<GitHubResource[]> {
-    return await this.apiClient.fetchReleases(owner, repo);
+  private async saveSyncCursor(organizationId: string, repository: string, list: GitHubSyncList, cursor: GitHubListCursor): Promise<void> {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase
+      .from("github_sync_state")
+      .upsert({
+        organization_id: organizationId,
+        repository,
+        resource: list,
+        since: cursor.since,
+        etag: cursor.etag,
+        head_sha: cursor.headSha ?? null,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: "organization_id,repository,resource" });
+
+    if (error) throw error;
   }
 }
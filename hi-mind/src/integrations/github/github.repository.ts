@@ -1,47 +1,148 @@
 import { tryCatchWithLoggingAsync } from "@/utils/try-catch";
+import { createServiceClient } from "@/utils/supabase/service";
+
+export type GitHubEventType = "issue" | "pull_request" | "commit" | "release" | "issue_comment" | "review" | "review_comment";
+
+export const GITHUB_EVENT_TYPES: GitHubEventType[] = [
+  "issue",
+  "pull_request",
+  "commit",
+  "release",
+  "issue_comment",
+  "review",
+  "review_comment",
+];
 
 export interface GitHubEvent {
   id: string;
   source: "github";
-  type: "issue" | "pull_request" | "commit" | "release";
+  type: GitHubEventType;
   repository: string;
   timestamp: string;
+  /** When GitHub last changed the resource; each change is stored as its own event */
+  occurredAt?: string;
   title?: string;
   author?: string;
   status?: string;
+  /** Status of the resource's previous event, set when the event is stored */
+  previousStatus?: string | null;
+  labels?: string[];
+  assignees?: string[];
+  milestone?: string | null;
+  closedAt?: string | null;
+  mergedAt?: string | null;
+  url?: string;
   metadata: Record<string, unknown>;
+  /** The GitHub API object the event was made from, for replay */
+  payload?: unknown;
+  /** When HiMind stored the event */
+  recordedAt?: string;
+  /** Id of the stored row, which breaks ties between events that occurred at once */
+  recordId?: string;
+}
+
+export interface GitHubEventFilters {
+  /** "owner/repo" */
+  repository?: string;
+  type?: GitHubEventType;
+  /** Only events that occurred at or after this time */
+  since?: string;
+  /** Only events that occurred before this time, to page back through the stream */
+  before?: string;
+  /**
+   * With `before`, also the events that occurred at that time and were stored with a
+   * lower id: the `recordId` of the last event of the previous page, so a page boundary
+   * between events that occurred at once does not skip any
+   */
+  beforeId?: string;
+  limit?: number;
 }
 
 export interface EventRepository {
-  saveGitHubEvent(event: GitHubEvent): Promise<void>;
-  getGitHubEvents(repository?: string, type?: string, limit?: number): Promise<GitHubEvent[]>;
+  saveGitHubEvent(organizationId: string, event: GitHubEvent): Promise<void>;
+  getGitHubEvents(organizationId: string, filters?: GitHubEventFilters): Promise<GitHubEvent[]>;
 }
 
-export class LoggingEventRepository implements EventRepository {
-  constructor() {} // No dependencies needed for logging
+type GitHubEventRow = {
+  id: string;
+  external_id: string;
+  repository: string;
+  event_type: GitHubEventType;
+  title: string | null;
+  author: string | null;
+  status: string | null;
+  previous_status: string | null;
+  labels: string[];
+  assignees: string[];
+  milestone: string | null;
+  closed_at: string | null;
+  merged_at: string | null;
+  url: string | null;
+  metadata: Record<string, unknown>;
+  payload: unknown;
+  platform_created_at: string;
+  occurred_at: string;
+  created_at: string;
+};
+
+const EVENT_COLUMNS =
+  "id, external_id, repository, event_type, title, author, status, previous_status, labels, assignees, milestone, closed_at, merged_at, url, metadata, payload, platform_created_at, occurred_at, created_at";
 
-  async saveGitHubEvent(event: GitHubEvent): Promise<void> {
+/**
+ * Stores GitHub events in the github_events table, one row per version of a resource
+ */
+export class SupabaseEventRepository implements EventRepository {
+  private supabase = createServiceClient();
+
+  async saveGitHubEvent(organizationId: string, event: GitHubEvent): Promise<void> {
     const [, error] = await tryCatchWithLoggingAsync(async () => {
-      // Log each event in the same style as the original GitHub integration
-      console.log(
-        JSON.stringify(
-          {
-            source: "github",
-            kind: event.type,
-            repository: event.repository,
-            id: event.id,
-            title: event.title,
-            author: event.author,
-            status: event.status,
-            timestamp: event.timestamp,
-            metadata: event.metadata,
-          },
-          null,
-          2,
-        ),
-      );
-      
-      console.log(`✅ [EVENT REPOSITORY] Processed GitHub ${event.type}: ${event.id}`);
+      const occurredAt = event.occurredAt || event.timestamp;
+
+      // The version before this one, to record the state transition
+      const { data: previous, error: previousError } = await this.supabase
+        .from("github_events")
+        .select("status")
+        .eq("organization_id", organizationId)
+        .eq("event_type", event.type)
+        .eq("external_id", event.id)
+        .lt("occurred_at", occurredAt)
+        .order("occurred_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (previousError) throw previousError;
+
+      const { error: saveError } = await this.supabase
+        .from("github_events")
+        .upsert({
+          organization_id: organizationId,
+          repository: event.repository.toLowerCase(),
+          event_type: event.type,
+          external_id: event.id,
+          title: event.title ?? null,
+          author: event.author ?? null,
+          status: event.status ?? null,
+          previous_status: previous?.status ?? null,
+          labels: event.labels ?? [],
+          assignees: event.assignees ?? [],
+          milestone: event.milestone ?? null,
+          closed_at: event.closedAt ?? null,
+          merged_at: event.mergedAt ?? null,
+          url: event.url ?? null,
+          metadata: event.metadata,
+          payload: event.payload ?? null,
+          platform_created_at: event.timestamp,
+          occurred_at: occurredAt,
+        }, {
+          // Syncing a resource that has not changed adds nothing
+          onConflict: "organization_id,event_type,external_id,occurred_at",
+          ignoreDuplicates: true,
+        });
+
+      if (saveError) throw saveError;
+
+      const transition = previous && previous.status !== event.status ? ` (${previous.status} → ${event.status})` : "";
+      console.log(`✅ [EVENT REPOSITORY] Saved GitHub ${event.type}: ${event.id}${transition}`);
     }, "event_repository_save_github_event");
 
     if (error) {
@@ -50,14 +151,32 @@ export class LoggingEventRepository implements EventRepository {
     }
   }
 
-  async getGitHubEvents(repository?: string, type?: string, limit: number = 100): Promise<GitHubEvent[]> {
+  async getGitHubEvents(organizationId: string, filters: GitHubEventFilters = {}): Promise<GitHubEvent[]> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      const { repository, type, since, before, beforeId, limit = 100 } = filters;
       console.log(`🔍 [EVENT REPOSITORY] Fetching GitHub events (repo: ${repository}, type: ${type}, limit: ${limit})`);
-      
-      // For now, return empty array
-      // TODO: Implement actual Supabase query
-      const events: GitHubEvent[] = [];
-      
+
+      let query = this.supabase
+        .from("github_events")
+        .select(EVENT_COLUMNS)
+        .eq("organization_id", organizationId);
+      if (repository) query = query.eq("repository", repository.toLowerCase());
+      if (type) query = query.eq("event_type", type);
+      if (since) query = query.gte("occurred_at", since);
+      if (before && beforeId) {
+        query = query.or(`occurred_at.lt."${before}",and(occurred_at.eq."${before}",id.lt.${beforeId})`);
+      } else if (before) {
+        query = query.lt("occurred_at", before);
+      }
+
+      const { data, error: queryError } = await query
+        .order("occurred_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(limit);
+
+      if (queryError) throw queryError;
+      const events = (data || []).map(toGitHubEvent);
+
       console.log(`✅ [EVENT REPOSITORY] Retrieved ${events.length} GitHub events`);
       return events;
     }, "event_repository_get_github_events");
@@ -70,3 +189,28 @@ export class LoggingEventRepository implements EventRepository {
     return result;
   }
 }
+
+function toGitHubEvent(row: GitHubEventRow): GitHubEvent {
+  return {
+    id: row.external_id,
+    source: "github",
+    type: row.event_type,
+    repository: row.repository,
+    timestamp: row.platform_created_at,
+    occurredAt: row.occurred_at,
+    title: row.title ?? undefined,
+    author: row.author ?? undefined,
+    status: row.status ?? undefined,
+    previousStatus: row.previous_status,
+    labels: row.labels,
+    assignees: row.assignees,
+    milestone: row.milestone,
+    closedAt: row.closed_at,
+    mergedAt: row.merged_at,
+    url: row.url ?? undefined,
+    metadata: row.metadata,
+    payload: row.payload,
+    recordedAt: row.created_at,
+    recordId: row.id,
+  };
+}
@@ -1,12 +1,19 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { tryCatchWithLoggingAsync } from "@/utils/try-catch";
-import { EventRepository, type GitHubEvent } from "@/integrations/github/github.repository";
-import { type KnowledgeSource } from "@/core/knowledge-engine";
+import { EventRepository, type GitHubEvent, type GitHubEventFilters } from "@/integrations/github/github.repository";
+import { type GitHubCommentContext, type KnowledgeSource } from "@/core/knowledge-engine";
 import { getKnowledgeEngine } from "@/core/knowledge-engine-singleton";
-import { getCurrentOrganization } from "@/lib/organization";
+import { enqueueJob } from "@/core/jobs";
 import { GitHubAPIClient } from "./github-api-client";
+import type { GitHubPushCommit, GitHubWebhookEvent, GitHubWebhookPayload } from "./webhook";
 import { createServiceClient } from "@/utils/supabase/service";
-import OpenAI from 'openai';
+import { type EmbeddingProvider, getEmbeddingProvider } from "@/core/providers/embedding-provider";
+import {
+  type ChatCallSpec,
+  type ChatModelProvider,
+  completeJson,
+  getChatModelProvider,
+} from "@/core/providers/chat-model-provider";
 
 // GitHub API types - using the actual Octokit response types
 import type { RestEndpointMethodTypes } from "@octokit/rest";
@@ -21,29 +28,77 @@ type GitHubCommit = ReposListCommitsResponse[0];
 type ReposListReleasesResponse = RestEndpointMethodTypes["repos"]["listReleases"]["response"]["data"];
 type GitHubRelease = ReposListReleasesResponse[0];
 
+type GitHubIssueComment = RestEndpointMethodTypes["issues"]["listCommentsForRepo"]["response"]["data"][0];
+type GitHubReviewComment = RestEndpointMethodTypes["pulls"]["listReviewCommentsForRepo"]["response"]["data"][0];
+type GitHubReview = RestEndpointMethodTypes["pulls"]["listReviews"]["response"]["data"][0];
+
 export interface GitHubResource {
-  type: "issue" | "pull_request" | "commit" | "release";
+  type: "issue" | "pull_request" | "commit" | "release" | GitHubCommentContext["commentKind"];
   id: string;
   repository: string;
   data: unknown;
   timestamp: string;
+  /** Title of the issue or pull request a comment belongs to, when known */
+  parentTitle?: string;
 }
 
 export type ProcessedGitHubEvent = GitHubEvent;
 
+export interface ProcessResourceOptions {
+  /** Backfill run that queued the resulting ingestion jobs */
+  backfillRunId?: string;
+}
+
+// Events read per page when replaying the event stream
+const REPLAY_PAGE_SIZE = 200;
+
+// Webhook actions that change what HiMind knows; pushes have no action
+const WEBHOOK_ACTIONS: Record<Exclude<GitHubWebhookEvent, "push">, string[]> = {
+  issues: ["opened", "edited", "reopened", "closed"],
+  pull_request: ["opened", "edited", "reopened", "closed", "ready_for_review"],
+  issue_comment: ["created", "edited"],
+  pull_request_review: ["submitted", "edited"],
+  pull_request_review_comment: ["created", "edited"],
+  release: ["published", "edited"],
+};
+
+const COMMIT_KNOWLEDGE_CALL: ChatCallSpec = {
+  name: 'commit_knowledge',
+  model: 'gpt-3.5-turbo',
+  timeoutMs: 60000, // Large diffs take a while
+  maxTokens: 1000,
+  temperature: 0.2,
+  jsonSchema: {
+    type: 'object',
+    properties: {
+      knowledgePoints: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            title: { type: 'string' },
+            recap: { type: 'string' }
+          },
+          required: ['title', 'recap']
+        }
+      }
+    },
+    required: ['knowledgePoints']
+  }
+};
+
 export class GitHubService {
-  private openai: OpenAI;
+  private chat: ChatModelProvider;
+  private embeddings: EmbeddingProvider;
   private githubClient: GitHubAPIClient;
   private supabase: ReturnType<typeof createServiceClient>;
 
   constructor(private eventRepository: EventRepository) {
-    // Initialize OpenAI client for commit analysis
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key required for GitHub commit analysis. Please set OPENAI_API_KEY environment variable.');
-    }
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    // LLM for commit analysis
+    this.chat = getChatModelProvider();
+
+    // Same provider as the knowledge engine so commit vectors are comparable
+    this.embeddings = getEmbeddingProvider();
 
     // Initialize GitHub API client for detailed commit fetching
     this.githubClient = new GitHubAPIClient();
@@ -55,7 +110,7 @@ export class GitHubService {
   /**
    * Process a GitHub issue and convert it to a common event format
    */
-  async processIssue(issue: GitHubIssue, repository: string): Promise<ProcessedGitHubEvent> {
+  async processIssue(issue: GitHubIssue, repository: string, organizationId: string, options: ProcessResourceOptions = {}): Promise<ProcessedGitHubEvent> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
       const event: ProcessedGitHubEvent = {
         id: issue.id.toString(),
@@ -64,21 +119,27 @@ export class GitHubService {
         repository,
         timestamp: issue.created_at,
         title: issue.title,
+        occurredAt: issue.updated_at,
         author: issue.user?.login,
-        status: issue.state,
+        status: issue.pull_request?.merged_at ? "merged" : issue.state,
+        labels: issue.labels?.map((l) => typeof l === 'string' ? l : l.name).filter((name): name is string => !!name) || [],
+        assignees: issue.assignees?.map((a) => a.login) || [],
+        milestone: issue.milestone?.title ?? null,
+        closedAt: issue.closed_at,
+        mergedAt: issue.pull_request?.merged_at ?? null,
+        url: issue.html_url,
         metadata: {
           number: issue.number,
-          labels: issue.labels?.map((l) => typeof l === 'string' ? l : l.name).filter(Boolean) || [],
-          assignees: issue.assignees?.map((a) => a.login) || [],
-          milestone: issue.milestone?.title,
           comments: issue.comments,
           isPullRequest: !!issue.pull_request,
+          stateReason: issue.state_reason,
           // Note: base, head, mergeable fields are only available on pull requests, not issues
         },
+        payload: issue,
       };
 
       // Save to repository
-      await this.eventRepository.saveGitHubEvent(event);
+      await this.eventRepository.saveGitHubEvent(organizationId, event);
       
       // Process content through knowledge engine
       await this.processGitHubContent({
@@ -89,8 +150,9 @@ export class GitHubService {
         title: issue.title,
         content: issue.body || '',
         authorExternalId: issue.user?.login || 'unknown',
-        platformCreatedAt: issue.created_at
-      });
+        platformCreatedAt: issue.created_at,
+        platformUpdatedAt: issue.updated_at
+      }, organizationId, options);
       
       console.log(`📝 [GITHUB SERVICE] Processed ${event.type}: #${issue.number} - ${issue.title}`);
       
@@ -108,7 +170,7 @@ export class GitHubService {
   /**
    * Process a GitHub commit and convert it to a common event format
    */
-  async processCommit(commit: GitHubCommit, repository: string): Promise<ProcessedGitHubEvent> {
+  async processCommit(commit: GitHubCommit, repository: string, organizationId: string): Promise<ProcessedGitHubEvent> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
       const event: ProcessedGitHubEvent = {
         id: commit.sha,
@@ -126,15 +188,16 @@ export class GitHubService {
           authorEmail: commit.commit.author?.email,
           committerEmail: commit.commit.committer?.email,
           stats: commit.stats,
-          url: commit.html_url,
         },
+        url: commit.html_url,
+        payload: commit,
       };
 
       // Save to repository
-      await this.eventRepository.saveGitHubEvent(event);
+      await this.eventRepository.saveGitHubEvent(organizationId, event);
       
       // Enhanced commit processing with LLM analysis
-      await this.processCommitWithLLM(commit, repository, event);
+      await this.processCommitWithLLM(commit, repository, organizationId, event);
       
       console.log(`📝 [GITHUB SERVICE] Processed commit: ${(commit.sha as string).substring(0, 8)} - ${event.title}`);
       
@@ -152,7 +215,7 @@ export class GitHubService {
   /**
    * Process a GitHub release and convert it to a common event format
    */
-  async processRelease(release: GitHubRelease, repository: string): Promise<ProcessedGitHubEvent> {
+  async processRelease(release: GitHubRelease, repository: string, organizationId: string): Promise<ProcessedGitHubEvent> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
       const event: ProcessedGitHubEvent = {
         id: release.id.toString(),
@@ -160,6 +223,7 @@ export class GitHubService {
         type: "release",
         repository,
         timestamp: release.created_at,
+        occurredAt: release.published_at || release.created_at,
         title: release.name || release.tag_name,
         author: release.author?.login,
         status: release.draft ? "draft" : "published",
@@ -170,12 +234,13 @@ export class GitHubService {
           draft: release.draft,
           prerelease: release.prerelease,
           assets: release.assets?.length || 0,
-          url: release.html_url,
         },
+        url: release.html_url,
+        payload: release,
       };
 
       // Save to repository
-      await this.eventRepository.saveGitHubEvent(event);
+      await this.eventRepository.saveGitHubEvent(organizationId, event);
       
       console.log(`📝 [GITHUB SERVICE] Processed release: ${release.tag_name} - ${event.title}`);
       
@@ -191,9 +256,59 @@ export class GitHubService {
   }
 
   /**
-   * Process a collection of GitHub resources
+   * Process an issue comment, pull request review or inline review comment. Comments are
+   * queued with their issue or pull request as context, like Slack thread replies.
+   */
+  async processComment(resource: GitHubResource, organizationId: string, options: ProcessResourceOptions = {}): Promise<ProcessedGitHubEvent> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      const { source, isBot, state } = toCommentSource(resource);
+      const event: ProcessedGitHubEvent = {
+        id: resource.id,
+        source: "github",
+        type: source.commentKind,
+        repository: resource.repository,
+        timestamp: resource.timestamp,
+        occurredAt: source.platformUpdatedAt || resource.timestamp,
+        title: source.title,
+        author: source.authorExternalId,
+        status: state,
+        url: source.externalUrl,
+        metadata: {
+          parentNumber: githubNumberOf(source.externalUrl),
+          parentTitle: resource.parentTitle,
+          filePath: source.filePath,
+          lineStart: source.lineStart,
+          lineEnd: source.lineEnd,
+        },
+        payload: resource.data,
+      };
+
+      // Save to repository
+      await this.eventRepository.saveGitHubEvent(organizationId, event);
+
+      if (isBot) {
+        console.log(`⏭️ [GITHUB SERVICE] Skipping bot ${source.commentKind}: ${source.externalId}`);
+      } else {
+        await this.processGitHubContent(source, organizationId, options);
+      }
+
+      console.log(`📝 [GITHUB SERVICE] Processed ${source.commentKind}: ${source.title}`);
+
+      return event;
+    }, "github_service_process_comment");
+
+    if (error) {
+      console.error("❌ [GITHUB SERVICE] Failed to process comment:", error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Process a collection of GitHub resources into the given organization
    */
-  async processResources(resources: GitHubResource[]): Promise<ProcessedGitHubEvent[]> {
+  async processResources(resources: GitHubResource[], organizationId: string, options: ProcessResourceOptions = {}): Promise<ProcessedGitHubEvent[]> {
     const [result, error] = await tryCatchWithLoggingAsync(async () => {
       const processedEvents: ProcessedGitHubEvent[] = [];
       
@@ -204,13 +319,18 @@ export class GitHubService {
           switch (resource.type) {
             case "issue":
             case "pull_request":
-              event = await this.processIssue(resource.data as GitHubIssue, resource.repository);
+              event = await this.processIssue(resource.data as GitHubIssue, resource.repository, organizationId, options);
               break;
             case "commit":
-              event = await this.processCommit(resource.data as GitHubCommit, resource.repository);
+              event = await this.processCommit(resource.data as GitHubCommit, resource.repository, organizationId);
               break;
             case "release":
-              event = await this.processRelease(resource.data as GitHubRelease, resource.repository);
+              event = await this.processRelease(resource.data as GitHubRelease, resource.repository, organizationId);
+              break;
+            case "issue_comment":
+            case "review":
+            case "review_comment":
+              event = await this.processComment(resource, organizationId, options);
               break;
             default:
               throw new Error(`Unknown resource type: ${resource.type}`);
@@ -239,7 +359,183 @@ export class GitHubService {
     return result;
   }
 
-  private async processGitHubContent(source: KnowledgeSource): Promise<void> {
+  /**
+   * Process a webhook delivery. The issue, pull request, commits or release it is about go
+   * through the same processing as a backfill. Throws if any of them failed.
+   */
+  async processWebhookEvent(event: GitHubWebhookEvent, payload: GitHubWebhookPayload, organizationId: string): Promise<ProcessedGitHubEvent[]> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      if (!payload.repository) {
+        console.warn(`⚠️ [GITHUB SERVICE] Ignoring ${event} webhook without a repository`);
+        return [];
+      }
+
+      const deleted = deletedSource(event, payload);
+      if (deleted) {
+        await getKnowledgeEngine().removeKnowledgeSource(organizationId, { platform: 'github', ...deleted });
+        return [];
+      }
+
+      const resources = await this.webhookResources(event, payload);
+      if (resources.length === 0) {
+        console.log(`⏭️ [GITHUB SERVICE] Nothing to process for ${event}${payload.action ? `.${payload.action}` : ''} on ${payload.repository.full_name}`);
+        return [];
+      }
+
+      // A resource that failed would be lost with the delivery, so fail the job to retry it
+      const processed = await this.processResources(resources, organizationId);
+      if (processed.length < resources.length) {
+        throw new Error(`Processed ${processed.length}/${resources.length} resources of the ${event} webhook`);
+      }
+      return processed;
+    }, "github_service_process_webhook_event");
+
+    if (error) {
+      console.error(`❌ [GITHUB SERVICE] Failed to process ${event} webhook:`, error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Feed stored events back through processing, newest version of each resource only,
+   * returning how many resources were processed. Events are read newest first a page at
+   * a time; storing them again adds nothing. Throws if any resource failed.
+   */
+  async replayEvents(organizationId: string, filters: Omit<GitHubEventFilters, "before" | "beforeId" | "limit"> = {}): Promise<number> {
+    const [result, error] = await tryCatchWithLoggingAsync(async () => {
+      const replayed = new Set<string>();
+      let processed = 0;
+      let before: string | undefined;
+      let beforeId: string | undefined;
+
+      while (true) {
+        const events = await this.eventRepository.getGitHubEvents(organizationId, {
+          ...filters,
+          before,
+          beforeId,
+          limit: REPLAY_PAGE_SIZE,
+        });
+
+        const resources: GitHubResource[] = [];
+        for (const event of events) {
+          const key = `${event.type}:${event.id}`;
+          if (replayed.has(key) || !event.payload) continue;
+          replayed.add(key);
+          resources.push({
+            type: event.type,
+            id: event.id,
+            repository: event.repository,
+            data: event.payload,
+            timestamp: event.timestamp,
+            parentTitle: event.metadata.parentTitle as string | undefined,
+          });
+        }
+        processed += (await this.processResources(resources, organizationId)).length;
+
+        if (events.length < REPLAY_PAGE_SIZE) break;
+        ({ occurredAt: before, recordId: beforeId } = events[events.length - 1]);
+      }
+
+      console.log(`🔁 [GITHUB SERVICE] Replayed ${processed}/${replayed.size} GitHub resources`);
+      // Fail the job so it is retried; resources replayed already are deduplicated
+      if (processed < replayed.size) {
+        throw new Error(`Failed to replay ${replayed.size - processed}/${replayed.size} GitHub resources`);
+      }
+      return processed;
+    }, "github_service_replay_events");
+
+    if (error) {
+      console.error("❌ [GITHUB SERVICE] Failed to replay GitHub events:", error);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * The resources a webhook delivery is about, shaped like the backfill fetches them
+   */
+  private async webhookResources(event: GitHubWebhookEvent, payload: GitHubWebhookPayload): Promise<GitHubResource[]> {
+    const repository = payload.repository!;
+    const fullName = repository.full_name;
+
+    if (event === "push") {
+      // The backfill only reads the default branch, so do the same here
+      if (payload.deleted || payload.ref !== `refs/heads/${repository.default_branch}`) {
+        return [];
+      }
+
+      return (payload.commits || [])
+        .filter(commit => commit.distinct)
+        .map(commit => ({
+          type: "commit",
+          id: commit.id,
+          repository: fullName,
+          data: toRestCommit(commit),
+          timestamp: commit.timestamp,
+        }));
+    }
+
+    if (!payload.action || !WEBHOOK_ACTIONS[event].includes(payload.action)) {
+      return [];
+    }
+
+    switch (event) {
+      case "issues":
+        return payload.issue
+          ? [{
+              type: payload.issue.pull_request ? "pull_request" : "issue",
+              id: payload.issue.id.toString(),
+              repository: fullName,
+              data: payload.issue,
+              timestamp: payload.issue.created_at,
+            }]
+          : [];
+      case "pull_request":
+        // Pull requests are stored under their issue id, which this payload lacks
+        return payload.pull_request
+          ? [await this.githubClient.fetchIssue(repository.owner.login, repository.name, payload.pull_request.number)]
+          : [];
+      case "issue_comment":
+      case "pull_request_review_comment":
+        return payload.comment
+          ? [{
+              type: event === "issue_comment" ? "issue_comment" : "review_comment",
+              id: payload.comment.id.toString(),
+              repository: fullName,
+              data: payload.comment,
+              timestamp: payload.comment.created_at,
+              parentTitle: payload.issue?.title ?? payload.pull_request?.title,
+            }]
+          : [];
+      case "pull_request_review":
+        // Approvals without a comment carry no knowledge
+        return payload.review?.body?.trim()
+          ? [{
+              type: "review",
+              id: payload.review.id.toString(),
+              repository: fullName,
+              data: payload.review,
+              timestamp: payload.review.submitted_at || new Date().toISOString(),
+              parentTitle: payload.pull_request?.title,
+            }]
+          : [];
+      case "release":
+        return payload.release
+          ? [{
+              type: "release",
+              id: payload.release.id.toString(),
+              repository: fullName,
+              data: payload.release,
+              timestamp: payload.release.created_at,
+            }]
+          : [];
+    }
+  }
+
+  private async processGitHubContent(source: KnowledgeSource | (KnowledgeSource & GitHubCommentContext), organizationId: string, options: ProcessResourceOptions = {}): Promise<void> {
     try {
       // Skip processing very short content or automated commits
       if (source.content.length < 15 || 
@@ -251,19 +547,19 @@ export class GitHubService {
         return;
       }
 
-      // Get current organization
-      const org = await getCurrentOrganization();
-      if (!org) {
-        console.error('❌ [GITHUB SERVICE] No organization found. Please create one first.');
-        return;
-      }
-
-      await getKnowledgeEngine().ingestKnowledgeSource(source, org.id);
-      console.log(`📋 [GITHUB SERVICE] Processed ${source.sourceType} content: ${source.externalId}`);
+      // Comments are enriched with their discussion, everything else is ingested as is.
+      // Each edit gets its own job; one still waiting for the previous version must not absorb it
+      const baseKey = `${organizationId}:github:${source.externalId}`;
+      const dedupeKey = source.platformUpdatedAt ? `${baseKey}:${source.platformUpdatedAt}` : baseKey;
+      const job = "commentKind" in source
+        ? await enqueueJob("ingest_github_comment", organizationId, { source, backfillRunId: options.backfillRunId }, { dedupeKey })
+        : await enqueueJob("ingest_source", organizationId, { source, backfillRunId: options.backfillRunId }, { dedupeKey });
+      console.log(`📥 [GITHUB SERVICE] Queued ${source.sourceType} content: ${source.externalId} → job ${job.id}`);
       
     } catch (error) {
-      console.error(`❌ [GITHUB SERVICE] Failed to process content ${source.externalId}:`, error);
-      // Don't throw - we want GitHub events to continue processing even if processing fails
+      console.error(`❌ [GITHUB SERVICE] Failed to queue content ${source.externalId}:`, error);
+      // Fails the resource, so a backfill lists it again and a webhook job is retried
+      throw error;
     }
   }
 
@@ -271,7 +567,7 @@ export class GitHubService {
    * Process commit with enhanced LLM analysis to extract meaningful knowledge points
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  private async processCommitWithLLM(commit: GitHubCommit, repository: string, _event: ProcessedGitHubEvent): Promise<void> {
+  private async processCommitWithLLM(commit: GitHubCommit, repository: string, organizationId: string, _event: ProcessedGitHubEvent): Promise<void> {
     try {
       // Skip trivial commits
       if (this.shouldSkipCommit(commit)) {
@@ -279,6 +575,12 @@ export class GitHubService {
         return;
       }
 
+      // Commits never change, so one analysed by an earlier sync or push is done
+      if (await this.isCommitAnalysed(commit.sha, organizationId)) {
+        console.log(`⏭️ [GITHUB SERVICE] Commit already analysed: ${commit.sha.substring(0, 8)}`);
+        return;
+      }
+
       // Fetch detailed commit with file diffs
       const [owner, repo] = repository.split('/');
       const commitDetails = await this.githubClient.fetchCommitDetails(owner, repo, commit.sha);
@@ -304,12 +606,6 @@ export class GitHubService {
       );
 
       // Process each knowledge point
-      const org = await getCurrentOrganization();
-      if (!org) {
-        console.error('❌ [GITHUB SERVICE] No organization found');
-        return;
-      }
-
       for (const [index, kp] of knowledgePoints.entries()) {
         // Process GitHub commit knowledge points with custom handling
         // Use title for display (summary) and recap for embeddings
@@ -324,17 +620,34 @@ export class GitHubService {
             recap: kp.recap
           },
           index,
-          org.id
+          organizationId
         );
         console.log(`📋 [GITHUB SERVICE] Processed knowledge point ${index + 1}/${knowledgePoints.length}: ${kp.title}`);
       }
 
     } catch (error) {
       console.error(`❌ [GITHUB SERVICE] Failed to process commit with LLM: ${commit.sha.substring(0, 8)}`, error);
-      // Don't throw - continue processing other commits
+      // Fails the resource; processResources carries on with the other commits
+      throw error;
     }
   }
 
+  /**
+   * Check if a commit already has knowledge points, stored as "<sha>-kp-<index>"
+   */
+  private async isCommitAnalysed(sha: string, organizationId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('knowledge_sources')
+      .select('id')
+      .eq('organization_id', organizationId)
+      .eq('platform', 'github')
+      .like('external_id', `${sha}-kp-%`)
+      .limit(1);
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  }
+
   /**
    * Check if commit should be skipped
    */
@@ -425,7 +738,7 @@ export class GitHubService {
         .upsert({
           organization_id: organizationId,
           platform: 'github',
-          source_type: 'github_comment',
+          source_type: 'github_commit',
           external_id: `${commit.sha}-kp-${index}`,
           external_url: `${commit.html_url}#kp-${index}`,
           title: knowledgePoint.title,
@@ -445,7 +758,7 @@ export class GitHubService {
       }
 
       // 2. Generate embedding from the detailed recap
-      const embedding = await this.generateEmbedding(knowledgePoint.recap);
+      const embedding = await this.embeddings.embed(knowledgePoint.recap);
 
       // 3. Store the processed knowledge point with title as summary
       const { error: pointError } = await this.supabase
@@ -455,6 +768,7 @@ export class GitHubService {
           summary: knowledgePoint.title, // Use short title for display
           keywords: this.extractSimpleKeywords(knowledgePoint.recap),
           embedding: embedding,
+          embedding_model: this.embeddings.model,
           quality_score: 0.8, // High quality since LLM-extracted
           relevance_score: 0.8
         }, {
@@ -536,16 +850,12 @@ Respond with JSON only:
   ]
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 1000,
-        temperature: 0.2,
-        response_format: { type: "json_object" }
-      });
-
-      const result = JSON.parse(response.choices[0]?.message?.content || '{"knowledgePoints": []}');
-      const knowledgePoints = result.knowledgePoints || [];
+      const result = await completeJson<{ knowledgePoints: Array<{ title: string; recap: string }> }>(
+        this.chat,
+        COMMIT_KNOWLEDGE_CALL,
+        prompt
+      );
+      const knowledgePoints = result.knowledgePoints;
 
       console.log(`🤖 [GITHUB SERVICE] LLM extracted ${knowledgePoints.length} knowledge points from commit ${commit.sha.substring(0, 8)}`);
       
@@ -557,25 +867,6 @@ Respond with JSON only:
     }
   }
 
-  /**
-   * Generate embedding for text (copied from knowledge engine)
-   */
-  private async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const response = await this.openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: text.substring(0, 8000), // Limit input size
-        encoding_format: 'float',
-      });
-
-      return response.data[0].embedding;
-    } catch (error) {
-      console.error('Failed to generate embedding:', error);
-      // Return a zero vector as fallback
-      return new Array(1536).fill(0);
-    }
-  }
-
   /**
    * Simple keyword extraction from text
    */
@@ -609,6 +900,7 @@ Respond with JSON only:
       const { data: existingIdentity } = await this.supabase
         .from('external_identities')
         .select('person_id, people(*)')
+        .eq('organization_id', organizationId)
         .eq('platform', 'github')
         .eq('external_id', authorExternalId)
         .single();
@@ -830,3 +1122,127 @@ Respond with JSON only:
     return matrix[str2.length][str1.length];
   }
 }
+
+/**
+ * A pushed commit in the shape of a REST API commit, which is what processCommit reads
+ */
+function toRestCommit(commit: GitHubPushCommit): GitHubCommit {
+  return {
+    sha: commit.id,
+    html_url: commit.url,
+    commit: {
+      message: commit.message,
+      author: { name: commit.author.name, email: commit.author.email, date: commit.timestamp },
+      committer: { name: commit.committer.name, email: commit.committer.email, date: commit.timestamp },
+    },
+    author: commit.author.username ? { login: commit.author.username } : null,
+  } as unknown as GitHubCommit;
+}
+
+/**
+ * The source a "deleted" webhook delivery removes
+ */
+function deletedSource(event: GitHubWebhookEvent, payload: GitHubWebhookPayload): Pick<KnowledgeSource, "sourceType" | "externalId"> | null {
+  if (payload.action !== "deleted") return null;
+
+  if (event === "issues" && payload.issue) {
+    return {
+      sourceType: payload.issue.pull_request ? 'github_pr' : 'github_issue',
+      externalId: payload.issue.id.toString(),
+    };
+  }
+  if (event === "issue_comment" && payload.comment) {
+    return { sourceType: 'github_comment', externalId: `issue_comment-${payload.comment.id}` };
+  }
+  if (event === "pull_request_review_comment" && payload.comment) {
+    return { sourceType: 'github_comment', externalId: `review_comment-${payload.comment.id}` };
+  }
+  return null;
+}
+
+/**
+ * Issue or pull request number of a GitHub URL
+ */
+function githubNumberOf(url?: string): number | undefined {
+  const match = url?.match(/\/(?:issues|pull)\/(\d+)/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * The knowledge source of a comment resource, with whether a bot wrote it
+ */
+function toCommentSource(resource: GitHubResource): {
+  source: KnowledgeSource & GitHubCommentContext;
+  isBot: boolean;
+  state?: string;
+} {
+  const { parentTitle } = resource;
+
+  if (resource.type === "review") {
+    const review = resource.data as GitHubReview;
+    const number = githubNumberOf(review.html_url);
+    return {
+      source: {
+        platform: 'github',
+        sourceType: 'github_comment',
+        commentKind: "review",
+        externalId: `review-${review.id}`,
+        externalUrl: review.html_url,
+        title: `Review of #${number}${parentTitle ? `: ${parentTitle}` : ''}`,
+        content: review.body || '',
+        authorExternalId: review.user?.login || 'unknown',
+        platformCreatedAt: resource.timestamp,
+        parentTitle,
+      },
+      isBot: review.user?.type === "Bot",
+      state: review.state.toLowerCase(),
+    };
+  }
+
+  if (resource.type === "review_comment") {
+    const comment = resource.data as GitHubReviewComment;
+    const number = githubNumberOf(comment.html_url);
+    // Comments on code that changed since keep their original lines
+    const lineEnd = comment.line ?? comment.original_line ?? undefined;
+    const lineStart = comment.start_line ?? comment.original_start_line ?? lineEnd;
+    return {
+      source: {
+        platform: 'github',
+        sourceType: 'github_comment',
+        commentKind: "review_comment",
+        externalId: `review_comment-${comment.id}`,
+        externalUrl: comment.html_url,
+        title: `Review comment on ${comment.path} (#${number})`,
+        content: comment.body,
+        authorExternalId: comment.user?.login || 'unknown',
+        platformCreatedAt: comment.created_at,
+        platformUpdatedAt: comment.updated_at,
+        parentTitle,
+        filePath: comment.path,
+        lineStart,
+        lineEnd,
+        diffHunk: comment.diff_hunk,
+      },
+      isBot: comment.user?.type === "Bot",
+    };
+  }
+
+  const comment = resource.data as GitHubIssueComment;
+  const number = githubNumberOf(comment.html_url);
+  return {
+    source: {
+      platform: 'github',
+      sourceType: 'github_comment',
+      commentKind: "issue_comment",
+      externalId: `issue_comment-${comment.id}`,
+      externalUrl: comment.html_url,
+      title: `Comment on #${number}${parentTitle ? `: ${parentTitle}` : ''}`,
+      content: comment.body || '',
+      authorExternalId: comment.user?.login || 'unknown',
+      platformCreatedAt: comment.created_at,
+      platformUpdatedAt: comment.updated_at,
+      parentTitle,
+    },
+    isBot: comment.user?.type === "Bot",
+  };
+}
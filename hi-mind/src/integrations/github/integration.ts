@@ -1,7 +1,14 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { GitHubController } from "./github.controller";
 import { GitHubService } from "./github.service";
-import { LoggingEventRepository } from "@/integrations/github/github.repository";
+import { SupabaseEventRepository } from "@/integrations/github/github.repository";
+import { getOrganizationForGitHubAccount } from "@/lib/organization";
+import { enqueueJob } from "@/core/jobs";
+import {
+  addGitHubRepository,
+  getGitHubDiscoverySettings,
+  queueEnabledGitHubRepositorySyncs,
+} from "@/lib/github-repositories";
 
 let githubController: GitHubController | null = null;
 
@@ -15,7 +22,7 @@ export async function startGitHubIntegration(skipBackfill: boolean = false): Pro
     }
 
 		// Initialize the dependency chain
-		const eventRepository = new LoggingEventRepository();
+		const eventRepository = new SupabaseEventRepository();
 		const githubService = new GitHubService(eventRepository);
 		githubController = new GitHubController(
 			githubService,
@@ -26,25 +33,32 @@ export async function startGitHubIntegration(skipBackfill: boolean = false): Pro
 			"✅ [GITHUB] GitHub integration initialized with new architecture",
 		);
 
-    // Only auto-trigger backfill if not skipped and target repository is configured
+    // Only auto-trigger backfill if not skipped and a seed repository is configured.
+    // GITHUB_REPOSITORY is tracked like any other repository; more are added in Settings.
     if (!skipBackfill) {
       const targetRepo = process.env.GITHUB_REPOSITORY;
       if (targetRepo) {
-        console.log(`🚀 [GITHUB] Auto-triggering backfill for ${targetRepo}`);
+        console.log(`🚀 [GITHUB] Auto-triggering backfill of repositories tracked with ${targetRepo}`);
         
         const [owner, repo] = targetRepo.split("/");
         if (owner && repo) {
           const [backfillResult, backfillError] = await tryCatchWithLoggingAsync(
             async () => {
-              if (!githubController) {
-                throw new Error('GitHub controller not initialized');
+              const org = await getOrganizationForGitHubAccount(owner);
+              if (!org) {
+                throw new Error(`No organization is linked to GitHub account ${owner}`);
               }
-              const result = await githubController.triggerBackfill({
-                owner,
-                repo,
-              });
-              console.log(`✅ [GITHUB] Auto-backfill completed: ${result.totalProcessed} resources`);
-              return result;
+              await addGitHubRepository(org.id, targetRepo);
+              const runs = await queueEnabledGitHubRepositorySyncs(org.id);
+              console.log(`📥 [GITHUB] Auto-backfill queued for ${runs.length} repositories`);
+
+              const discovery = await getGitHubDiscoverySettings(org.id);
+              if (discovery.enabled) {
+                await enqueueJob("discover_github_repositories", org.id, {}, {
+                  dedupeKey: `${org.id}:discover_github_repositories`,
+                });
+              }
+              return runs;
             },
             "github_auto_backfill"
           );
@@ -84,10 +98,11 @@ export function getGitHubController(): GitHubController | null {
 export async function triggerGitHubBackfill(
 	owner: string,
 	repo: string,
+	organizationId: string,
 ): Promise<unknown> {
 	if (!githubController) {
 		throw new Error("GitHub integration not initialized");
 	}
 
-	return await githubController.triggerBackfill({ owner, repo });
+	return await githubController.triggerBackfill({ owner, repo, organizationId });
 }
@@ -0,0 +1,41 @@
+import { createHmac } from "crypto";
+import { describe, expect, it } from "vitest";
+import { verifyGitHubSignature } from "./webhook";
+
+const SECRET = "webhook-secret";
+const BODY = JSON.stringify({ action: "opened", number: 42 });
+
+const sign = (body: string, secret = SECRET) =>
+  `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+
+describe("verifyGitHubSignature", () => {
+  it("accepts a signature made with the secret", () => {
+    expect(verifyGitHubSignature(BODY, sign(BODY), SECRET)).toBe(true);
+  });
+
+  it("rejects a missing signature", () => {
+    expect(verifyGitHubSignature(BODY, null, SECRET)).toBe(false);
+    expect(verifyGitHubSignature(BODY, "", SECRET)).toBe(false);
+  });
+
+  it("rejects the legacy sha1 header format", () => {
+    const sha1 = `sha1=${createHmac("sha1", SECRET).update(BODY).digest("hex")}`;
+    expect(verifyGitHubSignature(BODY, sha1, SECRET)).toBe(false);
+  });
+
+  it("rejects a signature made with another secret", () => {
+    expect(
+      verifyGitHubSignature(BODY, sign(BODY, "other-secret"), SECRET),
+    ).toBe(false);
+  });
+
+  it("rejects a body changed after signing", () => {
+    expect(verifyGitHubSignature(`${BODY} `, sign(BODY), SECRET)).toBe(false);
+  });
+
+  it("rejects a truncated signature", () => {
+    expect(verifyGitHubSignature(BODY, sign(BODY).slice(0, -2), SECRET)).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { RestEndpointMethodTypes } from "@octokit/rest";
+
+type GitHubIssue = RestEndpointMethodTypes["issues"]["listForRepo"]["response"]["data"][0];
+type GitHubRelease = RestEndpointMethodTypes["repos"]["listReleases"]["response"]["data"][0];
+type GitHubIssueComment = RestEndpointMethodTypes["issues"]["listCommentsForRepo"]["response"]["data"][0];
+type GitHubReviewComment = RestEndpointMethodTypes["pulls"]["listReviewCommentsForRepo"]["response"]["data"][0];
+type GitHubReview = RestEndpointMethodTypes["pulls"]["listReviews"]["response"]["data"][0];
+
+/**
+ * Webhook events HiMind subscribes to. Anything else (including GitHub's "ping") is
+ * acknowledged and ignored.
+ */
+export const GITHUB_WEBHOOK_EVENTS = [
+  "issues",
+  "pull_request",
+  "issue_comment",
+  "pull_request_review",
+  "pull_request_review_comment",
+  "push",
+  "release",
+] as const;
+
+export type GitHubWebhookEvent = (typeof GITHUB_WEBHOOK_EVENTS)[number];
+
+/**
+ * The parts of a webhook payload HiMind reads. Issue, comment, review and release objects
+ * have the same shape as in the REST API; push commits have their own.
+ */
+export interface GitHubWebhookPayload {
+  action?: string;
+  repository?: {
+    full_name: string;
+    name: string;
+    owner: { login: string };
+    default_branch?: string;
+  };
+  issue?: GitHubIssue;
+  pull_request?: { id: number; number: number; title: string };
+  comment?: GitHubIssueComment | GitHubReviewComment;
+  review?: GitHubReview;
+  release?: GitHubRelease;
+  // push
+  ref?: string;
+  deleted?: boolean;
+  commits?: GitHubPushCommit[];
+}
+
+export interface GitHubPushCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  url: string;
+  distinct: boolean;
+  author: { name: string; email?: string; username?: string };
+  committer: { name: string; email?: string; username?: string };
+}
+
+export function isGitHubWebhookEvent(event: string): event is GitHubWebhookEvent {
+  return (GITHUB_WEBHOOK_EVENTS as readonly string[]).includes(event);
+}
+
+/**
+ * Check the X-Hub-Signature-256 header against the raw request body
+ */
+export function verifyGitHubSignature(
+  body: string,
+  signature: string | null,
+  secret: string,
+): boolean {
+  if (!signature?.startsWith("sha256=")) return false;
+
+  const expected = Buffer.from(
+    `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`,
+  );
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
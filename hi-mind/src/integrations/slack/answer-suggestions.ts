@@ -0,0 +1,125 @@
+/**
+ * Proactive Answer Suggestions
+ * Replies in the thread of a new question in a public channel when HiMind already knows
+ * the answer. Channels opt in through slack_channel_settings; a minimum confidence and a
+ * per-channel cooldown keep the replies from getting noisy. Only messages from public
+ * channels are suggested, since anyone in the workspace could already read them.
+ */
+
+import { WebClient } from "@slack/web-api";
+import type { KnowledgeMatch } from "@/core/knowledge-engine";
+import { getKnowledgeEngine } from "@/core/knowledge-engine-singleton";
+import type { JobPayloads } from "@/core/jobs";
+import {
+  claimSuggestionSlot,
+  getSlackChannelSettings,
+  isSuggestionCooldownOver,
+} from "@/lib/slack-channel-settings";
+import { buildAnswerSuggestionMessage } from "./blocks";
+import { parseSlackMessageUrl, resolveSlackPermalinks } from "./permalinks";
+
+// Matches posted in one suggestion, picked from a larger set since some are not shareable
+const SUGGESTION_LIMIT = 3;
+const SUGGESTION_CANDIDATE_LIMIT = 10;
+
+export type SuggestionOutcome =
+  | "posted"
+  | "disabled"
+  | "cooldown"
+  | "not_public"
+  | "not_question"
+  | "low_confidence"
+  | "no_public_match";
+
+export interface SuggestionResult {
+  outcome: SuggestionOutcome;
+  searchId?: string | null;
+  matches?: number;
+}
+
+export type SuggestionRequest = JobPayloads["suggest_slack_answer"];
+
+export class SlackAnswerSuggester {
+  private client: WebClient;
+
+  constructor(botToken: string) {
+    this.client = new WebClient(botToken);
+  }
+
+  /**
+   * Reply to the message if it asks something HiMind knows with enough confidence
+   */
+  async suggest(organizationId: string, message: SuggestionRequest): Promise<SuggestionResult> {
+    const settings = await getSlackChannelSettings(organizationId, message.channelId);
+    if (!settings.suggestionsEnabled) return this.skip(message, "disabled");
+    if (!isSuggestionCooldownOver(settings)) return this.skip(message, "cooldown");
+
+    // A reply in a private channel or DM would be unprompted noise in a conversation
+    // HiMind was not asked into, so only public channels get suggestions
+    if (!(await this.isPublicChannel(message.channelId))) return this.skip(message, "not_public");
+
+    const engine = getKnowledgeEngine();
+    const detection = await engine.detectQuestion(message.text);
+    if (!detection.isQuestion) return this.skip(message, "not_question");
+
+    const result = await engine.searchKnowledge(detection.searchQuery, organizationId, {
+      limit: SUGGESTION_CANDIDATE_LIMIT,
+      filters: { platform: "slack" },
+    });
+    const confident = result.knowledgeMatches.filter(match => (match.similarityScore ?? 0) >= settings.minConfidence);
+    if (confident.length === 0) return this.skip(message, "low_confidence");
+
+    // The reply is posted unprompted for the whole channel to read, so a match from a
+    // private channel or DM would leak it to people outside that conversation
+    const matches = (await this.publicMatches(confident)).slice(0, SUGGESTION_LIMIT);
+    if (matches.length === 0) return this.skip(message, "no_public_match");
+
+    // Detection and search take a while; another question may have taken the slot meanwhile
+    if (!(await claimSuggestionSlot(organizationId, settings))) return this.skip(message, "cooldown");
+
+    const permalinks = await resolveSlackPermalinks(this.client, matches);
+    await this.client.chat.postMessage({
+      channel: message.channelId,
+      thread_ts: message.messageTs,
+      unfurl_links: false,
+      ...buildAnswerSuggestionMessage(matches, result.searchId, permalinks),
+    });
+
+    console.log(`💡 [SLACK SUGGESTIONS] Suggested ${matches.length} answers for ${message.channelId}/${message.messageTs}`);
+    return { outcome: "posted", searchId: result.searchId, matches: matches.length };
+  }
+
+  /**
+   * The matches whose source message is in a public channel
+   */
+  private async publicMatches(matches: KnowledgeMatch[]): Promise<KnowledgeMatch[]> {
+    const channels = new Map<string, boolean>();
+    for (const match of matches) {
+      const channel = parseSlackMessageUrl(match.sourceUrl)?.channel;
+      if (channel && !channels.has(channel)) {
+        channels.set(channel, await this.isPublicChannel(channel));
+      }
+    }
+
+    return matches.filter(match => {
+      const channel = parseSlackMessageUrl(match.sourceUrl)?.channel;
+      return channel !== undefined && channels.get(channel) === true;
+    });
+  }
+
+  private async isPublicChannel(channelId: string): Promise<boolean> {
+    try {
+      const { channel } = await this.client.conversations.info({ channel: channelId });
+      return channel?.is_channel === true && !channel.is_private;
+    } catch (error) {
+      // Channels the bot cannot see are treated as private
+      console.error(`⚠️ [SLACK SUGGESTIONS] Failed to look up channel ${channelId}:`, error);
+      return false;
+    }
+  }
+
+  private skip(message: SuggestionRequest, outcome: SuggestionOutcome): SuggestionResult {
+    console.log(`⏭️ [SLACK SUGGESTIONS] No suggestion for ${message.channelId}/${message.messageTs}: ${outcome}`);
+    return { outcome };
+  }
+}
@@ -1,182 +1,438 @@
 /**
  * Slack Historical Message Backfill
- * Automatically syncs missed messages when the app starts
+ * Automatically syncs missed messages when the app starts. Progress is checkpointed per
+ * channel and per thread, so a stopped backfill resumes without gaps or repeated work.
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
 import { WebClient } from "@slack/web-api";
-import { getCurrentOrganization } from "@/lib/organization";
+import { getOrganizationForSlackTeam, type Organization } from "@/lib/organization";
 import { getSupabaseClient } from "@/lib/database";
-import { getKnowledgeEngine } from "@/core/knowledge-engine-singleton";
+import { enqueueJob, findDedupeKeys } from "@/core/jobs";
+import type { BackfillTracker } from "@/lib/backfill-runs";
+
+// Slack's maximum page size for history and replies
+const PAGE_SIZE = 100;
+
+// Replies posted between syncs to threads started before the last one are not in the
+// forward pass. Parents posted within this many days before it are read again for their
+// latest reply; older threads are asked for new replies if they had any this recently.
+const THREAD_RESCAN_DAYS = 30;
+const ACTIVE_THREAD_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type SlackMessage = Record<string, any>;
+
+/** Where a channel's sync stands; see the slack_channel_sync_state table */
+interface ChannelSyncState {
+  newest_ts: string;
+  oldest_ts: string;
+  history_complete: boolean;
+  forward_target_ts: string | null;
+  forward_cursor_ts: string | null;
+}
+
+export interface SlackBackfillResult {
+  channels: number;
+  /** Messages and thread replies queued for ingestion */
+  messagesQueued: number;
+}
 
 export class SlackBackfill {
   private client: WebClient;
+  /** Workspace name, known after resolveOrganization() */
+  workspaceName: string | null = null;
 
   constructor(botToken: string) {
     this.client = new WebClient(botToken);
   }
 
   /**
-   * Run backfill for all channels
+   * Resolve the organization linked to the workspace this bot token belongs to
+   */
+  async resolveOrganization(): Promise<Organization | null> {
+    const auth = await this.client.auth.test();
+    this.workspaceName = auth.team ?? null;
+    return getOrganizationForSlackTeam(auth.team_id);
+  }
+
+  /**
+   * Run backfill for all channels, reporting progress to the tracker. Channels the
+   * tracker already finished (on a retry) are skipped. Throws when the backfill or any
+   * channel failed so the backfill job is retried.
    */
-  async runBackfill(): Promise<void> {
+  async runBackfill(tracker: BackfillTracker): Promise<SlackBackfillResult> {
     console.log("🔄 [SLACK BACKFILL] Starting historical message sync...");
     
-    const org = await getCurrentOrganization();
+    const org = await this.resolveOrganization();
     if (!org) {
-      console.log("⏭️ [SLACK BACKFILL] No organization found, skipping backfill");
-      return;
+      console.log("⏭️ [SLACK BACKFILL] No organization linked to this Slack workspace, skipping backfill");
+      return { channels: 0, messagesQueued: 0 };
     }
 
     try {
       // Get all channels
       const channels = await this.getChannels();
       console.log(`📋 [SLACK BACKFILL] Found ${channels.length} channels to sync`);
+      tracker.planUnits(channels.map(channel => ({ key: channel.id, label: `#${channel.name}` })));
 
+      let messagesQueued = 0;
+      let failedChannels = 0;
       for (const channel of channels) {
-        await this.backfillChannel(channel.id, channel.name, org.id);
+        if (tracker.isUnitDone(channel.id)) {
+          console.log(`⏭️ [SLACK BACKFILL] Channel #${channel.name} already synced in this run`);
+          continue;
+        }
+
+        const queued = await this.backfillChannel(channel.id, channel.name, org.id, tracker);
+        if (queued === null) {
+          failedChannels++;
+        } else {
+          messagesQueued += queued;
+        }
+      }
+
+      if (failedChannels > 0) {
+        throw new Error(`${failedChannels} of ${channels.length} channels failed to sync`);
       }
 
       console.log("✅ [SLACK BACKFILL] Historical sync completed");
+      return { channels: channels.length, messagesQueued };
     } catch (error) {
       console.error("❌ [SLACK BACKFILL] Failed:", error);
+      throw error;
     }
   }
 
   /**
-   * Backfill messages for a specific channel
+   * Backfill a channel from its persisted sync state. Messages posted since the last sync
+   * are filled in first, with the new replies to older threads, then older history, each walked newest first with the cursor
+   * saved after every message, so an interrupted backfill resumes where it stopped.
+   * Returns the number of messages queued, or null when the channel failed.
    */
-  private async backfillChannel(channelId: string, channelName: string, organizationId: string): Promise<void> {
+  private async backfillChannel(channelId: string, channelName: string, organizationId: string, tracker: BackfillTracker): Promise<number | null> {
     try {
-      // Find the latest message timestamp we have for this channel
-      const latestTimestamp = await this.getLatestMessageTimestamp(channelId, organizationId);
-      
-      console.log(`📡 [SLACK BACKFILL] Syncing channel #${channelName} since ${latestTimestamp ? new Date(parseFloat(latestTimestamp) * 1000).toISOString() : 'beginning'}`);
-
-      // Fetch messages from Slack
-      const messages = await this.fetchMessagesAfter(channelId, latestTimestamp);
-      
-      if (messages.length === 0) {
-        console.log(`✅ [SLACK BACKFILL] Channel #${channelName} is up to date`);
-        return;
+      const now = toSlackTimestamp(Date.now());
+      let state = await this.loadChannelState(channelId, organizationId);
+      if (!state) {
+        // First sync: the synced range starts empty at the present and grows backwards
+        state = { newest_ts: now, oldest_ts: now, history_complete: false, forward_target_ts: null, forward_cursor_ts: null };
+        await this.saveChannelState(channelId, organizationId, state);
       }
+      const channelState = state;
+      const save = () => this.saveChannelState(channelId, organizationId, channelState);
 
-      console.log(`📥 [SLACK BACKFILL] Processing ${messages.length} messages from #${channelName}`);
+      tracker.startUnit(channelId, 0, channelState.newest_ts);
+      let queued = 0;
 
-      // Process each message
-      let processed = 0;
-      for (const message of messages) {
-        if (message.text && message.user && message.ts) {
-          await this.processMessage(message, channelId, organizationId);
-          processed++;
-          
-          // If this message has thread replies, fetch and process them
-          // Check both thread_ts condition AND reply_count for comprehensive thread detection
-          const hasThread = (message.thread_ts && message.thread_ts === message.ts) || 
-                           (message.reply_count && message.reply_count > 0);
-          
-          if (hasThread) {
-            console.log(`🧵 [SLACK BACKFILL] Found threaded message: ${message.ts}, reply_count: ${message.reply_count || 0}`);
-            const threadReplies = await this.fetchThreadReplies(channelId, message.ts);
-            for (const reply of threadReplies) {
-              if (reply.text && reply.user && reply.ts && reply.ts !== message.ts) {
-                console.log(`📝 [SLACK BACKFILL] Processing thread reply: ${reply.text?.substring(0, 50)}...`);
-                await this.processMessage(reply, channelId, organizationId);
-                processed++;
-              }
-            }
-          }
+      // Fill the gap between the last sync and now, resuming an interrupted pass
+      if (channelState.forward_target_ts || parseFloat(now) > parseFloat(channelState.newest_ts)) {
+        if (!channelState.forward_target_ts) {
+          channelState.forward_target_ts = now;
+          channelState.forward_cursor_ts = now;
+          await save();
         }
+
+        console.log(`📡 [SLACK BACKFILL] Syncing #${channelName} since ${formatSlackTimestamp(channelState.newest_ts)}`);
+        queued += await this.walkHistory(channelId, organizationId, tracker, channelState.forward_cursor_ts!, channelState.newest_ts, async ts => {
+          channelState.forward_cursor_ts = ts;
+          await save();
+        });
+        queued += await this.syncActiveThreads(channelId, organizationId, tracker, channelState.newest_ts);
+
+        channelState.newest_ts = channelState.forward_target_ts;
+        channelState.forward_target_ts = null;
+        channelState.forward_cursor_ts = null;
+        await save();
+      }
+
+      // Extend the synced range back to the start of the channel
+      if (!channelState.history_complete) {
+        console.log(`📡 [SLACK BACKFILL] Syncing #${channelName} history before ${formatSlackTimestamp(channelState.oldest_ts)}`);
+        queued += await this.walkHistory(channelId, organizationId, tracker, channelState.oldest_ts, undefined, async ts => {
+          channelState.oldest_ts = ts;
+          await save();
+        });
+
+        channelState.history_complete = true;
+        await save();
       }
 
-      console.log(`✅ [SLACK BACKFILL] Processed ${processed} messages from #${channelName}`);
+      await tracker.completeUnit(channelId);
+      console.log(`✅ [SLACK BACKFILL] Queued ${queued} messages from #${channelName}`);
+      return queued;
     } catch (error) {
       console.error(`❌ [SLACK BACKFILL] Failed to backfill channel #${channelName}:`, error);
+      await tracker.recordError(channelId, `#${channelName}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
     }
   }
 
   /**
-   * Fetch thread replies for a given thread
+   * Queue the messages of a channel between two timestamps (both exclusive), newest
+   * first, calling checkpoint once a message and its thread have been handled.
    */
-  private async fetchThreadReplies(channelId: string, threadTs: string): Promise<any[]> {
-    try {
-      console.log(`🧵 [SLACK BACKFILL] Fetching thread replies for ${threadTs}`);
-      
-      const result = await this.client.conversations.replies({
+  private async walkHistory(
+    channelId: string,
+    organizationId: string,
+    tracker: BackfillTracker,
+    latest: string,
+    oldest: string | undefined,
+    checkpoint: (ts: string) => Promise<void>
+  ): Promise<number> {
+    let queued = 0;
+    let hasMore = true;
+
+    while (hasMore) {
+      const result = await this.client.conversations.history({
         channel: channelId,
-        ts: threadTs,
-        limit: 100
+        latest,
+        oldest,
+        inclusive: false,
+        limit: PAGE_SIZE,
       });
-      
-      const replies = result.messages || [];
-      console.log(`📥 [SLACK BACKFILL] Found ${replies.length - 1} thread replies`); // -1 because first message is the parent
-      
-      return replies;
-    } catch (error) {
-      console.error(`❌ [SLACK BACKFILL] Failed to fetch thread replies for ${threadTs}:`, error);
-      return [];
+
+      const messages: SlackMessage[] = result.messages || [];
+      tracker.addItems(channelId, messages.length);
+      const known = await this.findKnownMessages(channelId, organizationId, messages);
+
+      for (const message of messages) {
+        queued += await this.queueMessage(message, channelId, organizationId, tracker, known);
+
+        if (message.reply_count > 0 && message.thread_ts === message.ts) {
+          queued += await this.syncThread(channelId, message.ts, message.latest_reply, organizationId, tracker);
+        }
+
+        await checkpoint(message.ts);
+      }
+
+      hasMore = Boolean(result.has_more) && messages.length > 0;
+      if (messages.length > 0) {
+        latest = messages[messages.length - 1].ts;
+      }
     }
+
+    return queued;
   }
 
   /**
-   * Get the timestamp of the latest message we have stored for a channel
+   * Queue the replies posted since the last sync to threads started before it: threads
+   * whose parent was posted in the rescan window before syncedUntil and now has a newer
+   * reply than its checkpoint, and older threads with replies in the active window.
    */
-  private async getLatestMessageTimestamp(channelId: string, organizationId: string): Promise<string | null> {
+  private async syncActiveThreads(channelId: string, organizationId: string, tracker: BackfillTracker, syncedUntil: string): Promise<number> {
+    const rescanFrom = toSlackTimestamp(parseFloat(syncedUntil) * 1000 - THREAD_RESCAN_DAYS * DAY_MS);
+    const rescanned = new Set<string>();
+    let queued = 0;
+
+    let cursor: string | undefined;
+    do {
+      const result = await this.client.conversations.history({
+        channel: channelId,
+        latest: syncedUntil,
+        oldest: rescanFrom,
+        inclusive: true,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+
+      const messages: SlackMessage[] = result.messages || [];
+      for (const message of messages) {
+        if (message.reply_count > 0 && message.thread_ts === message.ts) {
+          rescanned.add(message.ts);
+          queued += await this.syncThread(channelId, message.ts, message.latest_reply, organizationId, tracker);
+        }
+      }
+
+      cursor = result.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+
+    for (const threadTs of await this.findActiveThreads(channelId, organizationId)) {
+      if (rescanned.has(threadTs) || parseFloat(threadTs) >= parseFloat(rescanFrom)) continue;
+      queued += await this.syncThread(channelId, threadTs, undefined, organizationId, tracker);
+    }
+
+    return queued;
+  }
+
+  /**
+   * Threads of a channel with a reply in the active window, synced by a backfill or
+   * stored from live events
+   */
+  private async findActiveThreads(channelId: string, organizationId: string): Promise<Set<string>> {
     const supabase = getSupabaseClient(true);
-    
-    const { data } = await supabase
+    const activeSince = Date.now() - ACTIVE_THREAD_DAYS * DAY_MS;
+
+    const { data: synced, error: syncedError } = await supabase
+      .from('slack_thread_sync_state')
+      .select('thread_ts')
+      .eq('organization_id', organizationId)
+      .eq('channel_id', channelId)
+      .gte('latest_reply_ts', toSlackTimestamp(activeSince));
+
+    if (syncedError) throw syncedError;
+
+    const { data: stored, error: storedError } = await supabase
       .from('knowledge_sources')
-      .select('external_id')
+      .select('thread_ts')
       .eq('organization_id', organizationId)
       .eq('platform', 'slack')
-      .like('external_id', `${channelId}_%`)
-      .order('platform_created_at', { ascending: false })
-      .limit(1)
-      .single();
+      .eq('channel_id', channelId)
+      .not('thread_ts', 'is', null)
+      .gte('platform_created_at', new Date(activeSince).toISOString());
 
-    if (!data) return null;
+    if (storedError) throw storedError;
 
-    // Extract timestamp from external_id format: "C123456_1234567890.123456"
-    const timestamp = data.external_id.split('_')[1];
-    return timestamp;
+    return new Set([...(synced || []), ...(stored || [])].map((row: { thread_ts: string }) => row.thread_ts));
   }
 
   /**
-   * Fetch messages from Slack after a given timestamp
+   * Queue the replies of a thread posted after its checkpoint, oldest first. Threads whose
+   * latest reply is already synced are not fetched again.
    */
-  private async fetchMessagesAfter(channelId: string, afterTimestamp: string | null): Promise<Record<string, unknown>[]> {
-    const messages: Record<string, unknown>[] = [];
-    let cursor: string | undefined;
-    const limit = 100; // Slack's max per request
+  private async syncThread(channelId: string, threadTs: string, latestReply: string | undefined, organizationId: string, tracker: BackfillTracker): Promise<number> {
+    const syncedUntil = await this.loadThreadState(channelId, threadTs, organizationId);
+    if (syncedUntil && latestReply && parseFloat(latestReply) <= parseFloat(syncedUntil)) {
+      return 0;
+    }
+
+    console.log(`🧵 [SLACK BACKFILL] Fetching thread replies for ${threadTs}${syncedUntil ? ` after ${syncedUntil}` : ''}`);
 
+    let queued = 0;
+    let cursor: string | undefined;
     do {
-      const result = await this.client.conversations.history({
+      const result = await this.client.conversations.replies({
         channel: channelId,
-        limit,
+        ts: threadTs,
+        oldest: syncedUntil ?? threadTs,
+        inclusive: false,
+        limit: PAGE_SIZE,
         cursor,
-        oldest: afterTimestamp || '0', // If no timestamp, get all messages
-        inclusive: false, // Don't include the exact timestamp (we already have it)
       });
 
-      if (result.messages) {
-        // Filter out bot messages and system messages
-        const userMessages = result.messages.filter(msg => 
-          msg.type === 'message' && 
-          msg.user && 
-          !msg.bot_id &&
-          msg.text &&
-          msg.text.length > 10 // Only meaningful messages
-        );
-        
-        messages.push(...(userMessages as any));
+      // The parent message is always returned first
+      const replies: SlackMessage[] = (result.messages || []).filter(reply => reply.ts !== threadTs);
+      tracker.addItems(channelId, replies.length);
+      const known = await this.findKnownMessages(channelId, organizationId, replies);
+
+      for (const reply of replies) {
+        queued += await this.queueMessage(reply, channelId, organizationId, tracker, known);
+        await this.saveThreadState(channelId, threadTs, organizationId, reply.ts);
       }
 
-      cursor = result.response_metadata?.next_cursor;
+      cursor = result.response_metadata?.next_cursor || undefined;
     } while (cursor);
 
-    // Sort by timestamp (oldest first) for proper processing order
-    return messages.sort((a: any, b: any) => parseFloat(a.ts) - parseFloat(b.ts));
+    return queued;
+  }
+
+  /**
+   * Queue a message unless it is not worth indexing or was queued before. Returns 1 when
+   * the message was queued.
+   */
+  private async queueMessage(message: SlackMessage, channelId: string, organizationId: string, tracker: BackfillTracker, known: Set<string>): Promise<number> {
+    if (!isIndexable(message) || known.has(message.ts)) {
+      // Joins, bot messages, short messages and messages from an earlier sync
+      await tracker.record(channelId, 'skipped');
+      return 0;
+    }
+
+    await this.processMessage(message, channelId, organizationId, tracker.id);
+    await tracker.record(channelId, 'processed');
+    return 1;
+  }
+
+  /**
+   * Timestamps of messages that are already stored or have an ingestion job, so a resumed
+   * backfill never enriches a message twice
+   */
+  private async findKnownMessages(channelId: string, organizationId: string, messages: SlackMessage[]): Promise<Set<string>> {
+    const externalIds = messages.filter(isIndexable).map(message => messageExternalId(channelId, message.ts));
+    if (externalIds.length === 0) return new Set();
+
+    const supabase = getSupabaseClient(true);
+    const { data: stored, error } = await supabase
+      .from('knowledge_sources')
+      .select('external_id')
+      .eq('organization_id', organizationId)
+      .eq('platform', 'slack')
+      .in('external_id', externalIds);
+
+    if (error) throw error;
+
+    const queued = await findDedupeKeys(
+      'ingest_slack_message',
+      externalIds.map(externalId => ingestDedupeKey(organizationId, externalId)),
+      ['queued', 'running', 'succeeded']
+    );
+
+    const known = new Set((stored || []).map((source: { external_id: string }) => source.external_id));
+    return new Set(
+      externalIds
+        .filter(externalId => known.has(externalId) || queued.has(ingestDedupeKey(organizationId, externalId)))
+        .map(externalId => externalId.slice(channelId.length + 1))
+    );
+  }
+
+  private async loadChannelState(channelId: string, organizationId: string): Promise<ChannelSyncState | null> {
+    const supabase = getSupabaseClient(true);
+
+    const { data, error } = await supabase
+      .from('slack_channel_sync_state')
+      .select('newest_ts, oldest_ts, history_complete, forward_target_ts, forward_cursor_ts')
+      .eq('organization_id', organizationId)
+      .eq('channel_id', channelId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  }
+
+  private async saveChannelState(channelId: string, organizationId: string, state: ChannelSyncState): Promise<void> {
+    const supabase = getSupabaseClient(true);
+
+    const { error } = await supabase
+      .from('slack_channel_sync_state')
+      .upsert({
+        organization_id: organizationId,
+        channel_id: channelId,
+        ...state,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'organization_id,channel_id' });
+
+    if (error) throw error;
+  }
+
+  private async loadThreadState(channelId: string, threadTs: string, organizationId: string): Promise<string | null> {
+    const supabase = getSupabaseClient(true);
+
+    const { data, error } = await supabase
+      .from('slack_thread_sync_state')
+      .select('latest_reply_ts')
+      .eq('organization_id', organizationId)
+      .eq('channel_id', channelId)
+      .eq('thread_ts', threadTs)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.latest_reply_ts ?? null;
+  }
+
+  private async saveThreadState(channelId: string, threadTs: string, organizationId: string, latestReplyTs: string): Promise<void> {
+    const supabase = getSupabaseClient(true);
+
+    const { error } = await supabase
+      .from('slack_thread_sync_state')
+      .upsert({
+        organization_id: organizationId,
+        channel_id: channelId,
+        thread_ts: threadTs,
+        latest_reply_ts: latestReplyTs,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'organization_id,channel_id,thread_ts' });
+
+    if (error) throw error;
   }
 
   /**
@@ -211,41 +467,58 @@ export class SlackBackfill {
   }
 
   /**
-   * Process a single message through our enhanced contextual knowledge engine
+   * Queue a single message for contextual ingestion. Throws when it could not be queued,
+   * so the channel stops before its cursor moves past the message.
    */
-  private async processMessage(message: Record<string, unknown>, channelId: string, organizationId: string): Promise<void> {
-    try {
-      const msgAny = message as any;
-      
-      // Create message-specific Slack URL with timestamp
-      const messageUrl = `https://himindworkspace.slack.com/archives/${channelId}/p${msgAny.ts.replace('.', '')}`;
-      
-      // Check if this is a thread reply
-      const threadTs = msgAny.thread_ts;
-      const isThreadReply = threadTs && threadTs !== msgAny.ts;
-      
-      // Use contextual ingestion for better knowledge extraction
-      const knowledgePointId = await getKnowledgeEngine().ingestSlackMessageWithContext({
-        platform: 'slack',
-        sourceType: isThreadReply ? 'slack_thread' : 'slack_message',
-        externalId: `${channelId}_${msgAny.ts}_backfill`,
-        externalUrl: messageUrl,
-        content: msgAny.text,
-        authorExternalId: msgAny.user,
-        platformCreatedAt: new Date(parseFloat(msgAny.ts) * 1000).toISOString(),
-        channelId,
-        threadTs: threadTs || undefined
-      }, organizationId);
-      
-      if (knowledgePointId) {
-        console.log(`✅ [SLACK BACKFILL] Processed contextual message: ${msgAny.ts} → ${knowledgePointId}`);
-      } else {
-        console.log(`⏭️ [SLACK BACKFILL] Skipped non-substantial message: ${msgAny.ts}`);
-      }
-      
-    } catch (error) {
-      // Log but don't throw - continue processing other messages
-      console.error(`⚠️ [SLACK BACKFILL] Failed to process message ${(message as any).ts}:`, error);
-    }
+  private async processMessage(message: SlackMessage, channelId: string, organizationId: string, backfillRunId: string): Promise<void> {
+    // Create message-specific Slack URL with timestamp
+    const messageUrl = `https://himindworkspace.slack.com/archives/${channelId}/p${message.ts.replace('.', '')}`;
+
+    // Check if this is a thread reply
+    const threadTs = message.thread_ts;
+    const isThreadReply = threadTs && threadTs !== message.ts;
+
+    // Same ID as live events, so a message is stored once however it arrives
+    const externalId = messageExternalId(channelId, message.ts);
+
+    // Use contextual ingestion for better knowledge extraction
+    const job = await enqueueJob('ingest_slack_message', organizationId, { source: {
+      platform: 'slack',
+      sourceType: isThreadReply ? 'slack_thread' : 'slack_message',
+      externalId,
+      externalUrl: messageUrl,
+      content: message.text,
+      authorExternalId: message.user,
+      platformCreatedAt: new Date(parseFloat(message.ts) * 1000).toISOString(),
+      channelId,
+      threadTs: threadTs || undefined
+    }, backfillRunId }, { dedupeKey: ingestDedupeKey(organizationId, externalId) });
+
+    console.log(`📥 [SLACK BACKFILL] Queued contextual message: ${message.ts} → job ${job.id}`);
   }
-}
\ No newline at end of file
+}
+
+function messageExternalId(channelId: string, ts: string): string {
+  return `${channelId}_${ts}`;
+}
+
+function ingestDedupeKey(organizationId: string, externalId: string): string {
+  return `${organizationId}:slack:${externalId}`;
+}
+
+/** User messages with enough text to be worth indexing */
+function isIndexable(message: SlackMessage): boolean {
+  return message.type === 'message' &&
+    Boolean(message.user) &&
+    !message.bot_id &&
+    typeof message.text === 'string' &&
+    message.text.length > 10;
+}
+
+function toSlackTimestamp(ms: number): string {
+  return (ms / 1000).toFixed(6);
+}
+
+function formatSlackTimestamp(ts: string): string {
+  return new Date(parseFloat(ts) * 1000).toISOString();
+}
@@ -0,0 +1,516 @@
+/**
+ * Slack Block Kit messages
+ * Builders for the messages HiMind posts in Slack. They only format data; looking up
+ * permalinks and Slack user IDs is up to the caller.
+ */
+
+import type { HomeView, KnownBlock } from "@slack/types";
+import type { KnowledgeMatch, QueryResult } from "@/core/knowledge-engine";
+import type {
+  RoutedQuestion,
+  TopicExpertise,
+  TopicSummary,
+} from "./slack.repository";
+
+/** action_id of the buttons on search results, dispatched by SlackClient */
+export const SEARCH_ACTIONS = {
+  openResult: "himind_open_result",
+  askExpert: "himind_ask_expert",
+  helpful: "himind_search_helpful",
+  notHelpful: "himind_search_not_helpful",
+} as const;
+
+export interface SlackMessage {
+  /** Fallback for notifications and clients that cannot render blocks */
+  text: string;
+  blocks: KnownBlock[];
+  response_type?: "in_channel" | "ephemeral";
+}
+
+export interface SearchMessageContext {
+  /** Slack user who asked */
+  userId: string;
+  /** Permalinks by source URL, for matches whose stored URL is not a real permalink */
+  permalinks: Map<string, string>;
+  /** Slack user IDs by person ID, so experts can be @-mentioned */
+  expertSlackIds: Map<string, string>;
+  /** Slack user the question was routed to, when no match was confident enough */
+  routedToSlackId?: string;
+}
+
+// Section text is limited to 3000 characters; keep individual entries well below it
+const MAX_SUMMARY_LENGTH = 280;
+
+const PLATFORM_ICONS: Record<string, string> = {
+  slack: "💬",
+  github: "🐙",
+};
+
+/**
+ * Search results for /himind <question>: top matches, suggested experts and topics
+ */
+export function buildSearchResultsMessage(
+  result: QueryResult,
+  context: SearchMessageContext,
+): SlackMessage {
+  const blocks: KnownBlock[] = [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: `🔍 *${escapeMrkdwn(result.query)}*` },
+    },
+    {
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `Asked by <@${context.userId}>` }],
+    },
+    { type: "divider" },
+  ];
+
+  if (result.knowledgeMatches.length === 0) {
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: "No matching knowledge yet. The experts below may still know the answer.",
+      },
+    });
+  } else {
+    blocks.push({
+      type: "section",
+      text: { type: "mrkdwn", text: "*📚 Best matches*" },
+    });
+
+    for (const match of result.knowledgeMatches) {
+      blocks.push(...matchBlocks(match, result.searchId, context.permalinks));
+    }
+  }
+
+  if (result.suggestedExperts.length > 0) {
+    blocks.push(
+      { type: "divider" },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: "*👥 Suggested experts*" },
+      },
+    );
+
+    for (const expert of result.suggestedExperts) {
+      const slackId = context.expertSlackIds.get(expert.personId);
+      const name = slackId
+        ? `<@${slackId}>`
+        : `*${escapeMrkdwn(expert.displayName)}*`;
+
+      blocks.push({
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `${name}: ${escapeMrkdwn(truncate(expert.explanation.summary, MAX_SUMMARY_LENGTH))}`,
+        },
+        // Only experts on Slack can be asked
+        ...(result.searchId &&
+          slackId && {
+            accessory: {
+              type: "button",
+              text: { type: "plain_text", text: "Ask this expert" },
+              action_id: SEARCH_ACTIONS.askExpert,
+              value: actionValue(result.searchId, expert.personId),
+            },
+          }),
+      });
+    }
+  }
+
+  if (result.topicMatches.length > 0) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `🏷️ Topics: ${result.topicMatches.map(escapeMrkdwn).join(" · ")}`,
+        },
+      ],
+    });
+  }
+
+  if (context.routedToSlackId) {
+    blocks.push({
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: `📨 No confident match yet, so HiMind asked <@${context.routedToSlackId}> for you.`,
+        },
+      ],
+    });
+  }
+
+  if (result.searchId) {
+    blocks.push(feedbackBlock(result.searchId));
+  }
+
+  return {
+    text: `HiMind results for "${result.query}": ${result.knowledgeMatches.length} matches, ${result.suggestedExperts.length} experts`,
+    blocks,
+    // Matches can come from private channels and DMs the rest of the channel cannot read
+    response_type: "ephemeral",
+  };
+}
+
+/**
+ * Unprompted reply in the thread of a channel question, with the knowledge HiMind is
+ * confident answers it
+ */
+export function buildAnswerSuggestionMessage(
+  matches: KnowledgeMatch[],
+  searchId: string | null,
+  permalinks: Map<string, string>,
+): SlackMessage {
+  const blocks: KnownBlock[] = [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: "💡 *This might answer your question*" },
+    },
+  ];
+
+  for (const match of matches) {
+    blocks.push(...matchBlocks(match, searchId, permalinks));
+  }
+
+  blocks.push({
+    type: "context",
+    elements: [
+      {
+        type: "mrkdwn",
+        text: "Suggested by HiMind because this looks like a question it has seen answered. Ask more with `/himind <question>`.",
+      },
+    ],
+  });
+  if (searchId) {
+    blocks.push(feedbackBlock(searchId));
+  }
+
+  return {
+    text: `HiMind found ${matches.length} ${matches.length === 1 ? "answer" : "answers"} that might help`,
+    blocks,
+  };
+}
+
+/**
+ * /himind who <topic>: experts of the topics matching the request
+ */
+export function buildExpertsMessage(
+  request: string,
+  topics: TopicSummary[],
+  experts: TopicExpertise[],
+  slackIds: Map<string, string>,
+): SlackMessage {
+  const lines = experts.map((expert) => {
+    const slackId = slackIds.get(expert.personId);
+    const name = slackId
+      ? `<@${slackId}>`
+      : `*${escapeMrkdwn(expert.displayName)}*`;
+    return `• ${name} · ${escapeMrkdwn(expert.topicName)} · ${formatScore(expert.expertiseScore)} · ${expert.contributionCount} contributions`;
+  });
+
+  return {
+    text: `Experts on "${request}": ${experts.length}`,
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*👥 Experts on ${escapeMrkdwn(request)}*\n${lines.join("\n")}`,
+        },
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `🏷️ Matched topics: ${topics.map((topic) => escapeMrkdwn(topic.name)).join(" · ")}`,
+          },
+        ],
+      },
+    ],
+    response_type: "ephemeral",
+  };
+}
+
+/**
+ * /himind topics: the organization's discovered topics
+ */
+export function buildTopicsMessage(topics: TopicSummary[]): SlackMessage {
+  const lines = topics.map((topic) => {
+    const description = topic.description
+      ? ` · ${escapeMrkdwn(truncate(topic.description, 120))}`
+      : "";
+    return `• *${escapeMrkdwn(topic.name)}* (${topic.knowledgePointCount})${description}`;
+  });
+
+  return {
+    text: `${topics.length} topics`,
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `*🏷️ Topics*\n${lines.join("\n")}`,
+        },
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: "Use `/himind who <topic>` to find the experts on one of them",
+          },
+        ],
+      },
+    ],
+    response_type: "ephemeral",
+  };
+}
+
+/**
+ * /himind me: the caller's expertise profile
+ */
+export function buildProfileMessage(
+  userId: string,
+  expertise: TopicExpertise[],
+): SlackMessage {
+  const lines = expertise.map(
+    (topic) =>
+      `• *${escapeMrkdwn(topic.topicName)}* · ${formatScore(topic.expertiseScore)} · ${topic.contributionCount} contributions${topic.lastContributionAt ? ` · last ${formatDate(topic.lastContributionAt)}` : ""}`,
+  );
+
+  return {
+    text: `Your expertise: ${expertise.length} topics`,
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            lines.length > 0
+              ? `*🧠 Expertise of <@${userId}>*\n${lines.join("\n")}`
+              : `*🧠 Expertise of <@${userId}>*\nNo topic expertise yet. It grows as your messages and contributions are indexed.`,
+        },
+      },
+    ],
+    response_type: "ephemeral",
+  };
+}
+
+/**
+ * DM to an expert with a question: routed by HiMind or asked directly by the searcher
+ */
+export function buildExpertQuestionMessage(
+  question: string,
+  askerId: string,
+  options: { channelId?: string; routed: boolean },
+): SlackMessage {
+  const where = options.channelId ? ` in <#${options.channelId}>` : "";
+  const why = options.routed
+    ? "HiMind found no confident answer and thinks you can help."
+    : "They picked you from HiMind's suggested experts.";
+
+  return {
+    text: `<@${askerId}> has a question for you: ${question}`,
+    blocks: [
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text: `👋 <@${askerId}> asked${where}:\n>${escapeMrkdwn(truncate(question, 2000))}`,
+        },
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `${why} Reply to <@${askerId}> directly. Use \`/himind routing off\` to stop receiving questions.`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * The App Home tab: the user's expertise and the questions recently routed to them
+ */
+export function buildAppHomeView(
+  userId: string,
+  expertise: TopicExpertise[],
+  routes: RoutedQuestion[],
+): HomeView {
+  const expertiseLines = expertise.map(
+    (topic) =>
+      `• *${escapeMrkdwn(topic.topicName)}* · ${formatScore(topic.expertiseScore)} · ${topic.contributionCount} contributions`,
+  );
+  const routeLines = routes.map((route) => {
+    const asked = route.askedAt ? " · 🙋 asked you directly" : "";
+    return `• ${escapeMrkdwn(truncate(route.queryText, 120))}\n   _${formatDate(route.createdAt)} · ${formatScore(route.expertiseScore)}${asked}_`;
+  });
+
+  return {
+    type: "home",
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: "🧠 HiMind" },
+      },
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `Hi <@${userId}>! Ask anything with \`/himind <question>\`.`,
+          },
+        ],
+      },
+      { type: "divider" },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            expertiseLines.length > 0
+              ? `*Your expertise*\n${expertiseLines.join("\n")}`
+              : "*Your expertise*\nNo topic expertise yet. It grows as your messages and contributions are indexed.",
+        },
+      },
+      { type: "divider" },
+      {
+        type: "section",
+        text: {
+          type: "mrkdwn",
+          text:
+            routeLines.length > 0
+              ? `*Questions routed to you*\n${routeLines.join("\n")}`
+              : "*Questions routed to you*\nNobody's searches have pointed to you yet.",
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * A short ephemeral notice, e.g. usage help or an error
+ */
+export function buildNoticeMessage(text: string): SlackMessage {
+  return {
+    text,
+    blocks: [{ type: "section", text: { type: "mrkdwn", text } }],
+    response_type: "ephemeral",
+  };
+}
+
+/** Escape the characters Slack treats as control sequences in mrkdwn */
+export function escapeMrkdwn(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/** A match: title linking to the source, summary, and where it comes from */
+function matchBlocks(
+  match: KnowledgeMatch,
+  searchId: string | null,
+  permalinks: Map<string, string>,
+): KnownBlock[] {
+  const url = match.sourceUrl
+    ? (permalinks.get(match.sourceUrl) ?? match.sourceUrl)
+    : null;
+  const title = escapeMrkdwn(truncate(match.sourceTitle || match.summary, 80));
+
+  return [
+    {
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*${url ? `<${url}|${title}>` : title}*\n${escapeMrkdwn(truncate(match.summary, MAX_SUMMARY_LENGTH))}`,
+      },
+      // A link button instead of a plain link, so the click reaches us
+      ...(searchId &&
+        url && {
+          accessory: {
+            type: "button",
+            text: { type: "plain_text", text: "Open" },
+            url,
+            action_id: SEARCH_ACTIONS.openResult,
+            value: actionValue(searchId, match.knowledgePointId),
+          },
+        }),
+    },
+    {
+      type: "context",
+      elements: [
+        {
+          type: "mrkdwn",
+          text: [
+            `${PLATFORM_ICONS[match.platform] ?? "📄"} ${match.platform}`,
+            match.authorName ? `by ${escapeMrkdwn(match.authorName)}` : null,
+            match.similarityScore != null
+              ? `${Math.round(match.similarityScore * 100)}% match`
+              : "keyword match",
+          ]
+            .filter(Boolean)
+            .join(" · "),
+        },
+      ],
+    },
+  ];
+}
+
+function feedbackBlock(searchId: string): KnownBlock {
+  return {
+    type: "actions",
+    elements: [
+      {
+        type: "button",
+        text: { type: "plain_text", text: "👍 Helpful" },
+        action_id: SEARCH_ACTIONS.helpful,
+        value: searchId,
+      },
+      {
+        type: "button",
+        text: { type: "plain_text", text: "👎 Not helpful" },
+        action_id: SEARCH_ACTIONS.notHelpful,
+        value: searchId,
+      },
+    ],
+  };
+}
+
+/** Split the value of a search result button back into its search and item IDs */
+export function parseActionValue(
+  value: string,
+): { searchId: string; itemId: string } | null {
+  const [searchId, itemId] = value.split("|");
+  return searchId && itemId ? { searchId, itemId } : null;
+}
+
+function actionValue(searchId: string, itemId: string): string {
+  return `${searchId}|${itemId}`;
+}
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function formatScore(score: number): string {
+  return `${Math.round(score * 100)}% expertise`;
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > length
+    ? `${singleLine.slice(0, length - 1)}…`
+    : singleLine;
+}
@@ -3,6 +3,7 @@ export interface SlackConfig {
   appToken: string;
   signingSecret: string;
   rateLimitDelay: number; // milliseconds
+  answerReactions: string[]; // Emoji names that accept a thread reply as the answer
 }
 
 export function getSlackConfig(): SlackConfig {
@@ -11,6 +12,10 @@ export function getSlackConfig(): SlackConfig {
     appToken: process.env.SLACK_APP_TOKEN!,
     signingSecret: process.env.SLACK_SIGNING_SECRET!,
     rateLimitDelay: 1000, // Fixed 1 second rate limit
+    answerReactions: (process.env.SLACK_ANSWER_REACTIONS || 'white_check_mark,heavy_check_mark')
+      .split(',')
+      .map(name => name.trim().replace(/^:|:$/g, ''))
+      .filter(Boolean),
   };
 }
 
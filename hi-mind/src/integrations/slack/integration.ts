@@ -1,8 +1,10 @@
+import { WebClient } from "@slack/web-api";
 import { getSlackConfig } from "./config";
 import { SlackClient } from "./slack.client";
 import { SlackServiceImpl } from "./slack.service";
 import { SlackRepositoryImpl } from "./slack.repository";
 import { SlackBackfill } from "./backfill";
+import { queueSlackBackfill } from "@/lib/backfill-runs";
 
 let slackClient: SlackClient | null = null;
 
@@ -18,7 +20,7 @@ export async function startSlackIntegration(skipBackfill: boolean = false): Prom
     
     // Create repository and service
     const repository = new SlackRepositoryImpl();
-    const service = new SlackServiceImpl(repository);
+    const service = new SlackServiceImpl(repository, new WebClient(config.botToken), config.answerReactions);
     
     // Create client with service
     slackClient = new SlackClient(config, service);
@@ -29,10 +31,12 @@ export async function startSlackIntegration(skipBackfill: boolean = false): Prom
     // Only run historical message backfill if not skipped
     if (!skipBackfill) {
       const backfill = new SlackBackfill(config.botToken);
-      // Run backfill in background, don't block startup
-      backfill.runBackfill().catch(error => 
-        console.error("⚠️ Backfill failed but continuing with real-time messages:", error)
-      );
+      // Queue the backfill, don't block startup
+      backfill.resolveOrganization()
+        .then(org => org && queueSlackBackfill(org.id, backfill.workspaceName ?? "Slack workspace"))
+        .catch(error => 
+          console.error("⚠️ Backfill failed but continuing with real-time messages:", error)
+        );
       console.log("✅ Slack integration started successfully with backfill");
     } else {
       console.log("✅ Slack integration started successfully - backfill skipped, use UI button to trigger manually");
@@ -0,0 +1,37 @@
+import type { WebClient } from "@slack/web-api";
+import type { KnowledgeMatch } from "@/core/knowledge-engine";
+
+/**
+ * Channel and message timestamp of a stored Slack source URL
+ */
+export function parseSlackMessageUrl(sourceUrl: string | null): { channel: string; ts: string } | null {
+  const message = sourceUrl?.match(/\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})/);
+  return message ? { channel: message[1], ts: `${message[2]}.${message[3]}` } : null;
+}
+
+/**
+ * Real permalinks for Slack matches, keyed by stored source URL. Stored URLs do not know
+ * the workspace domain or whether the message is a thread reply.
+ */
+export async function resolveSlackPermalinks(client: WebClient, matches: KnowledgeMatch[]): Promise<Map<string, string>> {
+  const permalinks = new Map<string, string>();
+
+  await Promise.all(matches.map(async match => {
+    const sourceUrl = match.sourceUrl;
+    const message = parseSlackMessageUrl(sourceUrl);
+    if (match.platform !== 'slack' || !sourceUrl || !message) return;
+
+    try {
+      const { permalink } = await client.chat.getPermalink({
+        channel: message.channel,
+        message_ts: message.ts,
+      });
+      if (permalink) permalinks.set(sourceUrl, permalink);
+    } catch (error) {
+      // Deleted or inaccessible messages keep their stored URL
+      console.error(`⚠️ [SLACK] Failed to resolve permalink for ${sourceUrl}:`, error);
+    }
+  }));
+
+  return permalinks;
+}
@@ -5,7 +5,7 @@ import type {
 } from "@slack/types";
 import { tryCatchWithLoggingAsync } from "@/utils/try-catch";
 import type { SlackConfig } from "./config";
-import type { SlackService } from "./slack.service";
+import { parseSlashCommand, type SlackService } from "./slack.service";
 
 // Define proper types for Slack Socket Mode events
 interface SlackSlashCommandEvent {
@@ -14,6 +14,7 @@ interface SlackSlashCommandEvent {
   body: {
     command: string;
     text?: string;
+    team_id?: string;
     response_url?: string;
     channel_id?: string;
     user_id?: string;
@@ -27,6 +28,7 @@ interface SlackEventsApiEvent {
   envelope_id: string;
   body: {
     event: SlackEvent;
+    team_id?: string;
   };
   event: SlackEvent;
   retry_num?: number;
@@ -34,6 +36,18 @@ interface SlackEventsApiEvent {
   accepts_response_payload?: boolean;
 }
 
+interface SlackInteractiveEvent {
+  ack: (response?: unknown) => Promise<void>;
+  envelope_id: string;
+  body: {
+    type: string;
+    team?: { id: string };
+    user?: { id: string };
+    response_url?: string;
+    actions?: { action_id: string; value?: string }[];
+  };
+}
+
 interface SlackGenericEvent {
   ack: (response?: unknown) => Promise<void>;
   envelope_id: string;
@@ -108,9 +122,9 @@ export class SlackClient {
   }
 
   /**
-   * Run backfill for all accessible channels
+   * Run backfill for all accessible channels of a workspace
    */
-  public async runBackfill(): Promise<void> {
+  public async runBackfill(teamId: string): Promise<void> {
     if (!this.isRunning) {
       console.log("⚠️ [SLACK] Integration not running");
       return;
@@ -119,7 +133,7 @@ export class SlackClient {
     console.log("📥 [SLACK] Starting backfill process...");
 
     try {
-      const result = await this.backfillAllChannels();
+      const result = await this.backfillAllChannels(teamId);
       if (result.success) {
         console.log(
           `✅ [SLACK] Backfill completed: ${result.count} resources processed`,
@@ -139,7 +153,7 @@ export class SlackClient {
   /**
    * Backfill all accessible channels
    */
-  private async backfillAllChannels(): Promise<{
+  private async backfillAllChannels(teamId: string): Promise<{
     success: boolean;
     resources: SlackResource[];
     count: number;
@@ -194,7 +208,7 @@ export class SlackClient {
 
       // Backfill each channel
       for (const channelId of channelIds) {
-        const channelResources = await this.backfillChannel(channelId);
+        const channelResources = await this.backfillChannel(channelId, teamId);
         resources.push(...channelResources);
       }
 
@@ -220,7 +234,7 @@ export class SlackClient {
   /**
    * Backfill a single channel
    */
-  private async backfillChannel(channelId: string): Promise<SlackResource[]> {
+  private async backfillChannel(channelId: string, teamId: string): Promise<SlackResource[]> {
     const resources: SlackResource[] = [];
     let historyCursor: string | undefined = undefined;
 
@@ -262,6 +276,7 @@ export class SlackClient {
         if (message.text && message.user && message.ts) {
           const threadTs = message.thread_ts !== message.ts ? message.thread_ts : undefined;
           await this.service.handleBackfillMessage(
+            teamId,
             channelId, 
             message.user, 
             message.text, 
@@ -272,7 +287,7 @@ export class SlackClient {
 
         // If message has a thread, fetch and log replies
         if (message.thread_ts) {
-          const threadResources = await this.backfillThread(channelId, message.thread_ts);
+          const threadResources = await this.backfillThread(channelId, message.thread_ts, teamId);
           resources.push(...threadResources);
         }
       }
@@ -289,7 +304,7 @@ export class SlackClient {
   /**
    * Backfill thread replies
    */
-  private async backfillThread(channelId: string, threadTs: string): Promise<SlackResource[]> {
+  private async backfillThread(channelId: string, threadTs: string, teamId: string): Promise<SlackResource[]> {
     const resources: SlackResource[] = [];
     let repliesCursor: string | undefined = undefined;
 
@@ -332,6 +347,7 @@ export class SlackClient {
         // Process the thread reply through our service with context
         if (reply.text && reply.user && reply.ts) {
           await this.service.handleBackfillThreadReply(
+            teamId,
             channelId, 
             reply.user, 
             reply.text, 
@@ -356,6 +372,9 @@ export class SlackClient {
   private setupEventHandlers() {
     // Handle slash commands - SocketModeClient emits the command type as the event name
     this.socketModeClient.on("slash_commands", async (event: SlackSlashCommandEvent) => {
+      // Slack expects an ack within 3 seconds; replies go through the response_url
+      await event.ack();
+
       const [result, error] = await tryCatchWithLoggingAsync(async () => {
         return await this.handleSlashCommand(event);
       }, "slack_slash_command_handler");
@@ -367,12 +386,35 @@ export class SlackClient {
       }
     });
 
+    // Button clicks on HiMind messages
+    this.socketModeClient.on("interactive", async (event: SlackInteractiveEvent) => {
+      await event.ack();
+
+      const [result, error] = await tryCatchWithLoggingAsync(async () => {
+        return await this.handleInteraction(event);
+      }, "slack_interactive_handler");
+
+      if (error) {
+        console.error("❌ [SLACK] Interaction handler error:", error);
+      } else {
+        console.log("✅ [SLACK] Interaction processed:", result);
+      }
+    });
+
     // Catch all events via the generic 'slack_event' that SocketModeClient always emits
     // This prevents duplicate event processing
     this.socketModeClient.on("slack_event", async (event: SlackGenericEvent) => {
       if (event.type === "events_api") {
+        // Slack redelivers events that are not acked within 3 seconds; a retry is a
+        // delivery that was already handled, or is still being handled
+        await event.ack();
+        if (event.retry_num && event.retry_num > 0) {
+          console.log(`⏭️ [SLACK] Skipping redelivered event ${event.envelope_id} (${event.retry_reason})`);
+          return;
+        }
+
         // For events_api, the body contains the event data
-        const eventData = event.body as { event: SlackEvent };
+        const eventData = event.body as { event: SlackEvent; team_id?: string };
         await tryCatchWithLoggingAsync(async () => {
           // Create a compatible event structure for handleEvent
           const compatibleEvent: SlackEventsApiEvent = {
@@ -438,6 +480,7 @@ export class SlackClient {
     const channelId = payload.channel_id;
     const userId = payload.user_id;
     const userName = payload.user_name;
+    const teamId = payload.team_id ?? "";
 
     console.log("🔧 [SLACK] Command:", command, "Text:", text);
 
@@ -454,80 +497,30 @@ export class SlackClient {
       }
 
       const query = text?.trim() || "";
-
-      // /himind sync → trigger backfill
-      if (query.toLowerCase().startsWith("sync")) {
-        const startMessage = `🔄 Starting Slack backfill...\n_Requested by <@${userId}>_`;
-
-        // Send immediate acknowledgment
-        await tryCatchWithLoggingAsync(async () => {
-          await fetch(responseUrl, {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              text: startMessage,
-              response_type: "in_channel",
-              unfurl_links: false,
-              unfurl_media: false,
-            }),
-          });
-        }, "send_slash_command_sync_ack");
-
-        // Kick off backfill async
-        void (async () => {
-          await this.runBackfill();
-          const doneMessage = "✅ Slack backfill completed.";
-          await tryCatchWithLoggingAsync(async () => {
-            await fetch(responseUrl, {
-              method: "POST",
-              headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({
-                text: doneMessage,
-                response_type: "in_channel",
-                unfurl_links: false,
-                unfurl_media: false,
-              }),
-            });
-          }, "send_slash_command_sync_done");
-        })();
-
-        return {
-          success: true,
-          type: "slash_command",
-          command,
-          text: query,
-          channelId,
-          userId,
-          userName,
-          action: "backfill_started",
-        };
+      const { subcommand, argument } = parseSlashCommand(query);
+
+      // Searching takes a few seconds: acknowledge first, post the results when ready
+      if (subcommand === "search" && argument) {
+        await this.postToResponseUrl(responseUrl, {
+          text: `🔍 Searching HiMind for "${argument}"...`,
+          response_type: "ephemeral",
+        }, "send_slash_command_search_ack");
       }
 
-      // Default response for other queries
-      const responseMessage = `🎯 **Query received:** "${query || "no query provided"}"\n\n_Requested by <@${userId}>_`;
-
-      await tryCatchWithLoggingAsync(async () => {
-        await fetch(responseUrl, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            text: responseMessage,
-            response_type: "in_channel",
-            unfurl_links: false,
-            unfurl_media: false,
-          }),
-        });
-      }, "send_slash_command_response");
+      const result = await this.service.handleSlashCommand(teamId, command, query, channelId ?? "", userId ?? "", userName ?? "", responseUrl);
+      if (result.response) {
+        await this.postToResponseUrl(responseUrl, result.response, "send_slash_command_response");
+      }
 
       return {
-        success: true,
+        success: result.success,
         type: "slash_command",
         command,
         text: query,
         channelId,
         userId,
         userName,
-        action: "query_processed",
+        action: result.action,
       };
     }
 
@@ -542,6 +535,64 @@ export class SlackClient {
     };
   }
 
+  /**
+   * Handle block_actions payloads: the buttons on search results
+   */
+  private async handleInteraction(event: SlackInteractiveEvent): Promise<{
+    success: boolean;
+    type: string;
+    actions?: string[];
+    reason?: string;
+  }> {
+    const payload = event.body;
+    if (payload?.type !== "block_actions") {
+      return { success: true, type: "interactive", reason: "unsupported_payload" };
+    }
+
+    const teamId = payload.team?.id ?? "";
+    const userId = payload.user?.id ?? "";
+    const actions = payload.actions ?? [];
+
+    for (const action of actions) {
+      const result = await this.service.handleBlockAction(teamId, userId, action.action_id, action.value ?? "");
+
+      // Replies go to the clicking user only and leave the results message as it is
+      if (result.response && payload.response_url) {
+        await this.postToResponseUrl(payload.response_url, {
+          ...result.response,
+          response_type: "ephemeral",
+          replace_original: false,
+        }, "send_block_action_response");
+      }
+    }
+
+    return {
+      success: true,
+      type: "interactive",
+      actions: actions.map(action => action.action_id),
+    };
+  }
+
+  /**
+   * Reply to a slash command or interaction through its response_url
+   */
+  private async postToResponseUrl(responseUrl: string, message: object, label: string): Promise<void> {
+    await tryCatchWithLoggingAsync(async () => {
+      const response = await fetch(responseUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...message,
+          unfurl_links: false,
+          unfurl_media: false,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Slack rejected the response: ${response.status} ${await response.text()}`);
+      }
+    }, label);
+  }
+
   /**
    * Handle all other events (messages, reactions, etc.)
    */
@@ -565,6 +616,7 @@ export class SlackClient {
     }
 
     const eventType = slackEvent.type;
+    const teamId = event.body.team_id ?? "";
     let channelId: string | undefined;
     let userId: string | undefined;
     let timestamp: string | undefined;
@@ -572,8 +624,29 @@ export class SlackClient {
     // Extract common properties based on event type
     switch (eventType) {
       case "message":
-        // Check if this is a generic message event (not a special subtype)
-        if ('subtype' in slackEvent && slackEvent.subtype) {
+        if ('subtype' in slackEvent && slackEvent.subtype === 'message_changed') {
+          const edited = slackEvent.message as { user?: string; text?: string; ts: string; thread_ts?: string; subtype?: string; edited?: { ts: string } };
+          const previous = slackEvent.previous_message as { text?: string } | undefined;
+          channelId = slackEvent.channel;
+          timestamp = edited.ts;
+          const threadTs = edited.thread_ts !== edited.ts ? edited.thread_ts : undefined;
+
+          if (edited.subtype === 'tombstone') {
+            // A deleted thread parent is replaced by a tombstone while it still has replies
+            await this.service.handleMessageDeleted(teamId, channelId, timestamp, threadTs);
+          } else if (edited.edited && edited.user && edited.text !== previous?.text) {
+            // Link unfurls and other attachment updates also arrive as message_changed
+            userId = edited.user;
+            await this.service.handleMessageChanged(teamId, channelId, userId, edited.text || '', timestamp, edited.edited.ts, threadTs);
+          }
+        } else if ('subtype' in slackEvent && slackEvent.subtype === 'message_deleted') {
+          const previous = slackEvent.previous_message as { thread_ts?: string } | undefined;
+          channelId = slackEvent.channel;
+          timestamp = slackEvent.deleted_ts;
+          const threadTs = previous?.thread_ts !== timestamp ? previous?.thread_ts : undefined;
+
+          await this.service.handleMessageDeleted(teamId, channelId, timestamp, threadTs);
+        } else if ('subtype' in slackEvent && slackEvent.subtype) {
           // Handle special message subtypes (bot_message, channel_join, etc.)
           const channel = 'channel' in slackEvent ? String(slackEvent.channel || '') : 'unknown';
           const user = 'user' in slackEvent ? String(slackEvent.user || '') : 'unknown';
@@ -590,7 +663,7 @@ export class SlackClient {
             // Extract thread_ts if this is a thread reply
             const threadTs = 'thread_ts' in slackEvent ? slackEvent.thread_ts : undefined;
             
-            await this.service.handleMessage(channelId, userId, slackEvent.text || '', timestamp, threadTs);
+            await this.service.handleMessage(teamId, channelId, userId, slackEvent.text || '', timestamp, threadTs);
           }
         }
         break;
@@ -601,7 +674,9 @@ export class SlackClient {
           userId = slackEvent.user;
           timestamp = slackEvent.event_ts;
           
-          await this.service.handleReaction(channelId, userId, slackEvent.reaction, timestamp);
+          // Only reactions on messages count towards the message's knowledge source
+          const messageTs = 'ts' in slackEvent.item ? slackEvent.item.ts : undefined;
+          await this.service.handleReaction(teamId, channelId, userId, slackEvent.reaction, timestamp, messageTs);
         }
         break;
       
@@ -611,7 +686,18 @@ export class SlackClient {
           userId = slackEvent.user;
           timestamp = slackEvent.event_ts;
           
-          await this.service.handleReaction(channelId, userId, slackEvent.reaction, timestamp);
+          const messageTs = 'ts' in slackEvent.item ? slackEvent.item.ts : undefined;
+          await this.service.handleReactionRemoved(teamId, channelId, userId, slackEvent.reaction, timestamp, messageTs);
+        }
+        break;
+      
+      case "app_home_opened":
+        // The Messages tab also sends app_home_opened; only the Home tab needs a view
+        if (slackEvent.type === "app_home_opened" && slackEvent.tab === "home") {
+          userId = slackEvent.user;
+          timestamp = slackEvent.event_ts;
+
+          await this.service.handleAppHomeOpened(teamId, userId);
         }
         break;
       
@@ -1,3 +1,42 @@
+import { getSupabaseClient } from "@/lib/database";
+
+export interface TopicSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  knowledgePointCount: number;
+}
+
+export interface TopicExpertise {
+  personId: string;
+  displayName: string;
+  topicId: string;
+  topicName: string;
+  expertiseScore: number;
+  contributionCount: number;
+  lastContributionAt: string | null;
+}
+
+export interface StoredSlackSource {
+  id: string;
+  sourceType: "slack_message" | "slack_thread";
+  authorExternalId: string | null;
+  channelId: string | null;
+  threadTs: string | null;
+}
+
+export interface RoutedQuestion {
+  searchQueryId: string;
+  queryText: string;
+  expertiseScore: number;
+  askedAt: string | null;
+  createdAt: string;
+}
+
+export type RoutingOutcome = "routed" | "asked" | "not_needed" | "no_expert" | "unavailable" | "failed";
+
+export type RoutingUnavailability = "opted_out" | "rate_limited";
+
 export interface SlackRepository {
   logMessage(channelId: string, userId: string, text: string, timestamp: string): Promise<void>;
   logReaction(channelId: string, userId: string, reaction: string, timestamp: string): Promise<void>;
@@ -7,8 +46,44 @@ export interface SlackRepository {
   logBackfillMessage(channelId: string, userId: string, text: string, timestamp: string): Promise<void>;
   logBackfillThreadReply(channelId: string, userId: string, text: string, timestamp: string): Promise<void>;
   logEvent(eventType: string, channelId: string, userId: string, timestamp: string, data?: unknown): Promise<void>;
+  getSlackUserIds(organizationId: string, personIds: string[]): Promise<Map<string, string>>;
+  getPersonIdForSlackUser(organizationId: string, slackUserId: string): Promise<string | null>;
+  listTopics(organizationId: string, limit: number): Promise<TopicSummary[]>;
+  findTopicsByName(organizationId: string, name: string, limit: number): Promise<TopicSummary[]>;
+  listTopicExperts(topicIds: string[], limit: number): Promise<TopicExpertise[]>;
+  listPersonExpertise(personId: string, limit: number): Promise<TopicExpertise[]>;
+  findSlackSource(organizationId: string, externalId: string): Promise<StoredSlackSource | null>;
+  getMemberRole(organizationId: string, email: string): Promise<string | null>;
+  getSearchQueryText(organizationId: string, searchId: string): Promise<string | null>;
+  recordSearchFeedback(organizationId: string, searchId: string, helpful: boolean): Promise<void>;
+  recordResultClick(organizationId: string, searchId: string, knowledgePointId: string): Promise<void>;
+  markRouteAsked(organizationId: string, searchId: string, personId: string, askedBy: string): Promise<number | null>;
+  markRouteSent(organizationId: string, searchId: string, personId: string): Promise<void>;
+  recordRoutingOutcome(organizationId: string, searchId: string, outcome: RoutingOutcome, personId?: string, confidence?: number | null): Promise<void>;
+  listRoutedQuestions(personId: string, limit: number): Promise<RoutedQuestion[]>;
+  setRoutingOptOut(personId: string, optedOut: boolean): Promise<void>;
+  isRoutingOptedOut(personId: string): Promise<boolean>;
+  findUnavailableExperts(personIds: string[], maxRoutesPerDay: number): Promise<Map<string, RoutingUnavailability>>;
 }
 
+type RoutedQuestionRow = {
+  search_query_id: string;
+  expertise_score: number;
+  asked_at: string | null;
+  created_at: string;
+  search_queries: { query_text: string } | null;
+};
+
+type TopicExpertRow = {
+  person_id: string;
+  topic_id: string;
+  expertise_score: number;
+  contribution_count: number | null;
+  last_contribution_at: string | null;
+  people: { display_name: string } | null;
+  discovered_topics: { name: string } | null;
+};
+
 export class SlackRepositoryImpl implements SlackRepository {
   async logMessage(channelId: string, userId: string, text: string, timestamp: string): Promise<void> {
     console.log("💬 [SLACK] Message event:", {
@@ -75,4 +150,328 @@ export class SlackRepositoryImpl implements SlackRepository {
     });
     // TODO: Store in database
   }
+
+  /**
+   * Slack user IDs of people, keyed by person ID; people without a Slack identity are left out
+   */
+  async getSlackUserIds(organizationId: string, personIds: string[]): Promise<Map<string, string>> {
+    if (personIds.length === 0) return new Map();
+
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("external_identities")
+      .select("person_id, external_id")
+      .eq("organization_id", organizationId)
+      .eq("platform", "slack")
+      .in("person_id", personIds);
+
+    if (error) throw error;
+    return new Map((data || []).map((identity: { person_id: string; external_id: string }) => [identity.person_id, identity.external_id]));
+  }
+
+  async getPersonIdForSlackUser(organizationId: string, slackUserId: string): Promise<string | null> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("external_identities")
+      .select("person_id")
+      .eq("organization_id", organizationId)
+      .eq("platform", "slack")
+      .eq("external_id", slackUserId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.person_id ?? null;
+  }
+
+  async listTopics(organizationId: string, limit: number): Promise<TopicSummary[]> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("discovered_topics")
+      .select("id, name, description, knowledge_point_count")
+      .eq("organization_id", organizationId)
+      .order("knowledge_point_count", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toTopicSummary);
+  }
+
+  async findTopicsByName(organizationId: string, name: string, limit: number): Promise<TopicSummary[]> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("discovered_topics")
+      .select("id, name, description, knowledge_point_count")
+      .eq("organization_id", organizationId)
+      .ilike("name", `%${name.replace(/[%_\\]/g, "\\$&")}%`)
+      .order("knowledge_point_count", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(toTopicSummary);
+  }
+
+  /**
+   * Active experts of the given topics, strongest first
+   */
+  async listTopicExperts(topicIds: string[], limit: number): Promise<TopicExpertise[]> {
+    if (topicIds.length === 0) return [];
+
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("topic_experts")
+      .select("person_id, topic_id, expertise_score, contribution_count, last_contribution_at, people (display_name), discovered_topics (name)")
+      .in("topic_id", topicIds)
+      .eq("is_active", true)
+      .gt("expertise_score", 0)
+      .order("expertise_score", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return ((data || []) as unknown as TopicExpertRow[]).map(toTopicExpertise);
+  }
+
+  /**
+   * Topics a person is an expert in, strongest first
+   */
+  async listPersonExpertise(personId: string, limit: number): Promise<TopicExpertise[]> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("topic_experts")
+      .select("person_id, topic_id, expertise_score, contribution_count, last_contribution_at, people (display_name), discovered_topics (name)")
+      .eq("person_id", personId)
+      .gt("expertise_score", 0)
+      .order("expertise_score", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return ((data || []) as unknown as TopicExpertRow[]).map(toTopicExpertise);
+  }
+
+  /**
+   * A Slack message in the index; deleted messages are not returned
+   */
+  async findSlackSource(organizationId: string, externalId: string): Promise<StoredSlackSource | null> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("knowledge_sources")
+      .select("id, source_type, author_external_id, channel_id, thread_ts")
+      .eq("organization_id", organizationId)
+      .eq("platform", "slack")
+      .eq("external_id", externalId)
+      .is("deleted_at", null)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      sourceType: data.source_type,
+      authorExternalId: data.author_external_id,
+      channelId: data.channel_id,
+      threadTs: data.thread_ts,
+    };
+  }
+
+  async getMemberRole(organizationId: string, email: string): Promise<string | null> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("organization_members")
+      .select("role")
+      .eq("organization_id", organizationId)
+      .eq("email", email.toLowerCase().trim())
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.role ?? null;
+  }
+
+  async getSearchQueryText(organizationId: string, searchId: string): Promise<string | null> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("search_queries")
+      .select("query_text")
+      .eq("organization_id", organizationId)
+      .eq("id", searchId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.query_text ?? null;
+  }
+
+  /**
+   * The latest Helpful / Not helpful click wins
+   */
+  async recordSearchFeedback(organizationId: string, searchId: string, helpful: boolean): Promise<void> {
+    const supabase = getSupabaseClient(true);
+    const { error } = await supabase
+      .from("search_queries")
+      .update({ was_helpful: helpful })
+      .eq("organization_id", organizationId)
+      .eq("id", searchId);
+
+    if (error) throw error;
+  }
+
+  async recordResultClick(organizationId: string, searchId: string, knowledgePointId: string): Promise<void> {
+    const supabase = getSupabaseClient(true);
+    const { error } = await supabase.rpc("record_search_click", {
+      org_id: organizationId,
+      search_id: searchId,
+      knowledge_point_id: knowledgePointId,
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * The searcher asked the expert directly. Returns the expertise the suggestion was based on.
+   */
+  async markRouteAsked(organizationId: string, searchId: string, personId: string, askedBy: string): Promise<number | null> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("expert_routes")
+      .update({ asked_at: new Date().toISOString(), asked_by_external_id: askedBy })
+      .eq("organization_id", organizationId)
+      .eq("search_query_id", searchId)
+      .eq("person_id", personId)
+      .select("expertise_score")
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.expertise_score ?? null;
+  }
+
+  async markRouteSent(organizationId: string, searchId: string, personId: string): Promise<void> {
+    const supabase = getSupabaseClient(true);
+    const { error } = await supabase
+      .from("expert_routes")
+      .update({ routed_at: new Date().toISOString() })
+      .eq("organization_id", organizationId)
+      .eq("search_query_id", searchId)
+      .eq("person_id", personId);
+
+    if (error) throw error;
+  }
+
+  async recordRoutingOutcome(organizationId: string, searchId: string, outcome: RoutingOutcome, personId?: string, confidence?: number | null): Promise<void> {
+    const supabase = getSupabaseClient(true);
+    const { error } = await supabase
+      .from("search_queries")
+      .update({
+        routing_outcome: outcome,
+        routed_to_expert_id: personId ?? null,
+        routing_confidence: confidence ?? null,
+      })
+      .eq("organization_id", organizationId)
+      .eq("id", searchId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Searches that suggested a person as expert, newest first
+   */
+  async listRoutedQuestions(personId: string, limit: number): Promise<RoutedQuestion[]> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("expert_routes")
+      .select("search_query_id, expertise_score, asked_at, created_at, search_queries (query_text)")
+      .eq("person_id", personId)
+      // Every suggestion is recorded; only questions that actually reached the expert count
+      .or("routed_at.not.is.null,asked_at.not.is.null")
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return ((data || []) as unknown as RoutedQuestionRow[]).map((row) => ({
+      searchQueryId: row.search_query_id,
+      queryText: row.search_queries?.query_text ?? "",
+      expertiseScore: row.expertise_score,
+      askedAt: row.asked_at,
+      createdAt: row.created_at,
+    }));
+  }
+
+  async setRoutingOptOut(personId: string, optedOut: boolean): Promise<void> {
+    const supabase = getSupabaseClient(true);
+    const { error } = await supabase
+      .from("people")
+      .update({ routing_opted_out_at: optedOut ? new Date().toISOString() : null })
+      .eq("id", personId);
+
+    if (error) throw error;
+  }
+
+  async isRoutingOptedOut(personId: string): Promise<boolean> {
+    const supabase = getSupabaseClient(true);
+    const { data, error } = await supabase
+      .from("people")
+      .select("routing_opted_out_at")
+      .eq("id", personId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return Boolean(data?.routing_opted_out_at);
+  }
+
+  /**
+   * People who must not receive a question now: opted out, or already sent
+   * maxRoutesPerDay questions in the last 24 hours
+   */
+  async findUnavailableExperts(personIds: string[], maxRoutesPerDay: number): Promise<Map<string, RoutingUnavailability>> {
+    const unavailable = new Map<string, RoutingUnavailability>();
+    if (personIds.length === 0) return unavailable;
+
+    const supabase = getSupabaseClient(true);
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const [{ data: optedOut, error }, { data: recent, error: routesError }] = await Promise.all([
+      supabase
+        .from("people")
+        .select("id")
+        .in("id", personIds)
+        .not("routing_opted_out_at", "is", null),
+      supabase
+        .from("expert_routes")
+        .select("person_id")
+        .in("person_id", personIds)
+        .or(`routed_at.gte.${since},asked_at.gte.${since}`),
+    ]);
+
+    if (error) throw error;
+    if (routesError) throw routesError;
+
+    const counts = new Map<string, number>();
+    for (const route of recent || []) {
+      counts.set(route.person_id, (counts.get(route.person_id) ?? 0) + 1);
+    }
+    for (const [personId, count] of counts) {
+      if (count >= maxRoutesPerDay) unavailable.set(personId, "rate_limited");
+    }
+    for (const person of optedOut || []) {
+      unavailable.set(person.id, "opted_out");
+    }
+    return unavailable;
+  }
+}
+
+function toTopicSummary(topic: { id: string; name: string; description: string | null; knowledge_point_count: number | null }): TopicSummary {
+  return {
+    id: topic.id,
+    name: topic.name,
+    description: topic.description,
+    knowledgePointCount: topic.knowledge_point_count ?? 0,
+  };
+}
+
+function toTopicExpertise(row: TopicExpertRow): TopicExpertise {
+  return {
+    personId: row.person_id,
+    displayName: row.people?.display_name ?? "Unknown",
+    topicId: row.topic_id,
+    topicName: row.discovered_topics?.name ?? "Unknown topic",
+    expertiseScore: row.expertise_score,
+    contributionCount: row.contribution_count ?? 0,
+    lastContributionAt: row.last_contribution_at,
+  };
 }
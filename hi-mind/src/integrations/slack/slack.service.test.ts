@@ -0,0 +1,43 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseSlashCommand } from "./slack.service";
+
+// Both create a Supabase client when imported
+vi.mock("@/core/knowledge-engine-singleton", () => ({ getKnowledgeEngine: vi.fn() }));
+vi.mock("@/lib/organization", () => ({ getOrganizationForSlackTeam: vi.fn() }));
+
+describe("parseSlashCommand", () => {
+  it("shows help for empty text", () => {
+    expect(parseSlashCommand("")).toEqual({ subcommand: "help", argument: "" });
+    expect(parseSlashCommand("   ")).toEqual({ subcommand: "help", argument: "" });
+  });
+
+  it("splits a subcommand from its argument", () => {
+    expect(parseSlashCommand("who  payments   retries ")).toEqual({
+      subcommand: "who",
+      argument: "payments retries",
+    });
+  });
+
+  it("reads subcommands without an argument", () => {
+    expect(parseSlashCommand("sync")).toEqual({ subcommand: "sync", argument: "" });
+    expect(parseSlashCommand("suggestions")).toEqual({ subcommand: "suggestions", argument: "" });
+  });
+
+  it("ignores the case of the subcommand", () => {
+    expect(parseSlashCommand("Topics")).toEqual({ subcommand: "topics", argument: "" });
+  });
+
+  it("searches for text that does not start with a subcommand", () => {
+    expect(parseSlashCommand("  how do we deploy? ")).toEqual({
+      subcommand: "search",
+      argument: "how do we deploy?",
+    });
+  });
+
+  it("only matches whole words", () => {
+    expect(parseSlashCommand("whoever owns billing")).toEqual({
+      subcommand: "search",
+      argument: "whoever owns billing",
+    });
+  });
+});
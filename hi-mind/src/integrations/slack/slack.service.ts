@@ -1,27 +1,99 @@
-import type { SlackRepository } from "./slack.repository";
-import { type KnowledgeSource } from "@/core/knowledge-engine";
+import type { WebClient } from "@slack/web-api";
+import type { RoutingOutcome, SlackRepository } from "./slack.repository";
+import { resolveSlackPermalinks } from "./permalinks";
+import {
+  SEARCH_ACTIONS,
+  buildAppHomeView,
+  buildExpertQuestionMessage,
+  buildExpertsMessage,
+  buildNoticeMessage,
+  buildProfileMessage,
+  buildSearchResultsMessage,
+  buildTopicsMessage,
+  parseActionValue,
+  type SlackMessage,
+} from "./blocks";
+import { type KnowledgeSource, type QueryResult } from "@/core/knowledge-engine";
 import { getKnowledgeEngine } from "@/core/knowledge-engine-singleton";
-import { getCurrentOrganization } from "@/lib/organization";
+import { enqueueJob } from "@/core/jobs";
+import { getOrganizationForSlackTeam, type Organization } from "@/lib/organization";
+import { getExpertRoutingSettings } from "@/lib/expert-routing";
+import { queueSlackBackfill } from "@/lib/backfill-runs";
+import {
+  getSlackChannelSettings,
+  isSuggestionCooldownOver,
+  updateSlackChannelSettings,
+} from "@/lib/slack-channel-settings";
+
+// Matches shown for /himind <question>
+const SLACK_SEARCH_LIMIT = 5;
+const SLACK_LIST_LIMIT = 15;
+// Routed questions shown in the App Home tab
+const APP_HOME_ROUTES_LIMIT = 10;
+
+const SLASH_COMMAND_HELP = [
+  "*HiMind commands*",
+  "• `/himind <question>`: search the knowledge base and suggest experts",
+  "• `/himind who <topic>`: list the experts on a topic",
+  "• `/himind topics`: list the discovered topics",
+  "• `/himind me`: show your expertise profile",
+  "• `/himind forget <message link>`: remove one of your messages from the index",
+  "• `/himind routing on|off`: receive questions HiMind routes to you, or stop them",
+  "• `/himind suggestions on|off`: let HiMind answer questions in this channel (admins)",
+  "• `/himind sync`: import channel history (admins)",
+].join("\n");
+
+export type SlashSubcommand = "sync" | "help" | "who" | "topics" | "me" | "forget" | "routing" | "suggestions" | "search";
+
+const SUBCOMMANDS: SlashSubcommand[] = ["sync", "help", "who", "topics", "me", "forget", "routing", "suggestions", "search"];
+
+/**
+ * Split /himind text into a subcommand and its argument. Text that does not start with a
+ * subcommand is a question to search for.
+ */
+export function parseSlashCommand(text: string): { subcommand: SlashSubcommand; argument: string } {
+  const trimmed = text.trim();
+  if (!trimmed) return { subcommand: "help", argument: "" };
+
+  const [first, ...rest] = trimmed.split(/\s+/);
+  const subcommand = SUBCOMMANDS.find(name => name === first.toLowerCase());
+  return subcommand
+    ? { subcommand, argument: rest.join(" ") }
+    : { subcommand: "search", argument: trimmed };
+}
 
 export interface SlackService {
-  handleMessage(channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void>;
-  handleReaction(channelId: string, userId: string, reaction: string, timestamp: string): Promise<void>;
+  handleMessage(teamId: string, channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void>;
+  handleMessageChanged(teamId: string, channelId: string, userId: string, text: string, timestamp: string, editedTs: string, threadTs?: string): Promise<void>;
+  handleMessageDeleted(teamId: string, channelId: string, timestamp: string, threadTs?: string): Promise<void>;
+  handleReaction(teamId: string, channelId: string, userId: string, reaction: string, timestamp: string, messageTs?: string): Promise<void>;
+  handleReactionRemoved(teamId: string, channelId: string, userId: string, reaction: string, timestamp: string, messageTs?: string): Promise<void>;
   handleMemberJoined(channelId: string, userId: string, timestamp: string): Promise<void>;
   handleMemberLeft(channelId: string, userId: string, timestamp: string): Promise<void>;
-  handleSlashCommand(command: string, text: string, channelId: string, userId: string, userName: string): Promise<{
-    success: boolean;
-    action?: string;
-    responseMessage?: string;
-  }>;
-  handleBackfillMessage(channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void>;
-  handleBackfillThreadReply(channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void>;
+  handleSlashCommand(teamId: string, command: string, text: string, channelId: string, userId: string, userName: string, responseUrl?: string): Promise<SlashCommandResult>;
+  handleBlockAction(teamId: string, userId: string, actionId: string, value: string): Promise<SlashCommandResult>;
+  handleAppHomeOpened(teamId: string, userId: string): Promise<void>;
+  handleBackfillMessage(teamId: string, channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void>;
+  handleBackfillThreadReply(teamId: string, channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void>;
   handleGenericEvent(eventType: string, channelId: string, userId: string, timestamp: string, data?: unknown): Promise<void>;
 }
 
+export interface SlashCommandResult {
+  success: boolean;
+  action?: string;
+  responseMessage?: string;
+  /** Block Kit reply to post to the command's response_url */
+  response?: SlackMessage;
+}
+
 export class SlackServiceImpl implements SlackService {
-  constructor(private readonly repository: SlackRepository) {}
+  constructor(
+    private readonly repository: SlackRepository,
+    private readonly webClient?: WebClient,
+    private readonly answerReactions: string[] = []
+  ) {}
 
-  async handleMessage(channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void> {
+  async handleMessage(teamId: string, channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void> {
     // Log the message
     await this.repository.logMessage(channelId, userId, text, timestamp);
     
@@ -39,15 +111,138 @@ export class SlackServiceImpl implements SlackService {
       platformCreatedAt: new Date(parseFloat(timestamp) * 1000).toISOString(),
       channelId,
       threadTs
-    });
+    }, teamId);
+
+    // Questions that start a conversation may get an answer suggested in their thread
+    if (!threadTs) {
+      await this.queueAnswerSuggestion(teamId, channelId, userId, text, timestamp);
+    }
+  }
+
+  private async queueAnswerSuggestion(teamId: string, channelId: string, userId: string, text: string, timestamp: string): Promise<void> {
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) return;
+
+      // Checked again by the job; this only avoids queueing jobs that would do nothing
+      const settings = await getSlackChannelSettings(org.id, channelId);
+      if (!settings.suggestionsEnabled || !isSuggestionCooldownOver(settings)) return;
+
+      const job = await enqueueJob("suggest_slack_answer", org.id, {
+        channelId,
+        messageTs: timestamp,
+        text,
+        authorExternalId: userId,
+      }, { dedupeKey: `${org.id}:suggest:${channelId}_${timestamp}` });
+      console.log(`💡 [SLACK SERVICE] Queued answer suggestion for ${channelId}_${timestamp} → job ${job.id}`);
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] Failed to queue answer suggestion for ${channelId}_${timestamp}:`, error);
+    }
+  }
+
+  async handleMessageChanged(teamId: string, channelId: string, userId: string, text: string, timestamp: string, editedTs: string, threadTs?: string): Promise<void> {
+    // Re-run contextual enrichment on the new text; the stored point is replaced
+    await this.processSlackContentWithContext({
+      platform: 'slack',
+      sourceType: threadTs ? 'slack_thread' : 'slack_message',
+      externalId: `${channelId}_${timestamp}`,
+      externalUrl: `https://himindworkspace.slack.com/archives/${channelId}/p${timestamp.replace('.', '')}`,
+      content: text,
+      authorExternalId: userId,
+      platformCreatedAt: new Date(parseFloat(timestamp) * 1000).toISOString(),
+      platformUpdatedAt: new Date(parseFloat(editedTs) * 1000).toISOString(),
+      channelId,
+      threadTs
+    }, teamId);
   }
 
-  async handleReaction(channelId: string, userId: string, reaction: string, timestamp: string): Promise<void> {
+  async handleMessageDeleted(teamId: string, channelId: string, timestamp: string, threadTs?: string): Promise<void> {
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) {
+        console.error(`❌ [SLACK SERVICE] No organization linked to Slack team ${teamId}`);
+        return;
+      }
+
+      // Removed right away rather than queued, so deleted content stops being served at once
+      await getKnowledgeEngine().removeKnowledgeSource(org.id, {
+        platform: 'slack',
+        sourceType: threadTs ? 'slack_thread' : 'slack_message',
+        externalId: `${channelId}_${timestamp}`,
+        channelId,
+        threadTs
+      });
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] Failed to remove deleted message ${channelId}/${timestamp}:`, error);
+    }
+  }
+
+  async handleReaction(teamId: string, channelId: string, userId: string, reaction: string, timestamp: string, messageTs?: string): Promise<void> {
     // Log the reaction
     await this.repository.logReaction(channelId, userId, reaction, timestamp);
-    
-    // TODO: Add business logic here (e.g., analytics, notifications, etc.)
-    // For now, just logging
+
+    if (messageTs) {
+      await this.recordReaction(teamId, channelId, userId, reaction, timestamp, messageTs, true);
+      if (this.isAnswerReaction(reaction)) {
+        await this.setAcceptedAnswer(teamId, channelId, userId, messageTs, true);
+      }
+    }
+  }
+
+  async handleReactionRemoved(teamId: string, channelId: string, userId: string, reaction: string, timestamp: string, messageTs?: string): Promise<void> {
+    // Log the reaction
+    await this.repository.logReaction(channelId, userId, reaction, timestamp);
+
+    if (messageTs) {
+      await this.recordReaction(teamId, channelId, userId, reaction, timestamp, messageTs, false);
+      if (this.isAnswerReaction(reaction)) {
+        await this.setAcceptedAnswer(teamId, channelId, userId, messageTs, false);
+      }
+    }
+  }
+
+  private async recordReaction(teamId: string, channelId: string, userId: string, reaction: string, eventTs: string, messageTs: string, added: boolean): Promise<void> {
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) {
+        console.error(`❌ [SLACK SERVICE] No organization linked to Slack team ${teamId}`);
+        return;
+      }
+
+      await getKnowledgeEngine().recordReaction(org.id, 'slack', `${channelId}_${messageTs}`, {
+        reactorExternalId: userId,
+        name: reaction,
+        added,
+        reactedAt: new Date(parseFloat(eventTs) * 1000).toISOString(),
+      });
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] Failed to record reaction on ${channelId}/${messageTs}:`, error);
+    }
+  }
+
+  private isAnswerReaction(reaction: string): boolean {
+    // Skin tones arrive as "thumbsup::skin-tone-2"
+    return this.answerReactions.includes(reaction.split('::')[0]);
+  }
+
+  /**
+   * An answer reaction from the thread's asker accepts the reply as its answer
+   */
+  private async setAcceptedAnswer(teamId: string, channelId: string, userId: string, messageTs: string, accepted: boolean): Promise<void> {
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) {
+        console.error(`❌ [SLACK SERVICE] No organization linked to Slack team ${teamId}`);
+        return;
+      }
+
+      const threadStarter = await this.getThreadStarter(channelId, messageTs);
+      if (!threadStarter) return;
+
+      await getKnowledgeEngine().setAcceptedAnswer(org.id, `${channelId}_${messageTs}`, threadStarter, userId, accepted);
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] Failed to ${accepted ? 'accept' : 'unaccept'} answer ${channelId}/${messageTs}:`, error);
+    }
   }
 
   async handleMemberJoined(channelId: string, userId: string, timestamp: string): Promise<void> {
@@ -66,37 +261,35 @@ export class SlackServiceImpl implements SlackService {
     // For now, just logging
   }
 
-  async handleSlashCommand(command: string, text: string, channelId: string, userId: string, userName: string): Promise<{
-    success: boolean;
-    action?: string;
-    responseMessage?: string;
-  }> {
+  async handleSlashCommand(teamId: string, command: string, text: string, channelId: string, userId: string, userName: string, responseUrl?: string): Promise<SlashCommandResult> {
     // Log the slash command
     await this.repository.logSlashCommand(command, text, channelId, userId, userName);
 
     // Handle /himind command
     if (command === "/himind") {
-      const query = text?.trim() || "";
-
-      // /himind sync → trigger backfill
-      if (query.toLowerCase().startsWith("sync")) {
-        const startMessage = `🔄 Starting Slack backfill...\n_Requested by <@${userId}>_`;
-        
-        return {
-          success: true,
-          action: "backfill_started",
-          responseMessage: startMessage,
-        };
-      }
+      const { subcommand, argument } = parseSlashCommand(text || "");
 
-      // Default response for other queries
-      const responseMessage = `🎯 **Query received:** "${query || "no query provided"}"\n\n_Requested by <@${userId}>_`;
-      
-      return {
-        success: true,
-        action: "query_processed",
-        responseMessage,
-      };
+      switch (subcommand) {
+        case "sync":
+          return this.withOrganization(teamId, userId, "sync", org => this.startBackfill(org, teamId, userId, responseUrl));
+        case "help":
+          return this.notice(true, "help", SLASH_COMMAND_HELP);
+        case "who":
+          return this.withOrganization(teamId, userId, "who", org => this.listExperts(org, argument));
+        case "topics":
+          return this.withOrganization(teamId, userId, "topics", org => this.listTopics(org));
+        case "me":
+          return this.withOrganization(teamId, userId, "me", org => this.showProfile(org, userId));
+        case "forget":
+          return this.withOrganization(teamId, userId, "forget", org => this.forgetMessage(org, userId, argument));
+        case "routing":
+          return this.withOrganization(teamId, userId, "routing", org => this.setRouting(org, userId, argument));
+        case "suggestions":
+          return this.withOrganization(teamId, userId, "suggestions", org => this.setSuggestions(org, userId, channelId, argument));
+        case "search":
+          if (!argument) return this.notice(true, "help", SLASH_COMMAND_HELP);
+          return this.searchFromSlack(teamId, argument, userId, channelId);
+      }
     }
 
     // Log other commands for debugging
@@ -106,7 +299,417 @@ export class SlackServiceImpl implements SlackService {
     };
   }
 
-  async handleBackfillMessage(channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void> {
+  /**
+   * Run a subcommand for the organization linked to the workspace. Guest accounts only
+   * see part of the workspace, so they cannot browse the organization's people and topics.
+   */
+  private async withOrganization(
+    teamId: string,
+    userId: string,
+    subcommand: SlashSubcommand,
+    run: (org: Organization) => Promise<SlashCommandResult>
+  ): Promise<SlashCommandResult> {
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) {
+        return this.notice(false, `${subcommand}_failed`, "This Slack workspace is not linked to a HiMind organization yet.");
+      }
+
+      const caller = await this.getSlackUser(userId);
+      if (caller?.isGuest) {
+        return this.notice(false, `${subcommand}_denied`, "🔒 Guest accounts cannot use this command.");
+      }
+
+      return await run(org);
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] /himind ${subcommand} failed:`, error);
+      return this.notice(false, `${subcommand}_failed`, "❌ HiMind could not complete this command. Please try again later.");
+    }
+  }
+
+  private async listExperts(org: Organization, request: string): Promise<SlashCommandResult> {
+    if (!request) {
+      return this.notice(false, "who_failed", "Which topic? Try `/himind who <topic>`.");
+    }
+
+    const topics = await this.repository.findTopicsByName(org.id, request, 5);
+    if (topics.length === 0) {
+      return this.notice(true, "who_no_topic", `No topic matches "${request}". Run \`/himind topics\` to see them all, or ask \`/himind ${request}\` to search.`);
+    }
+
+    const experts = await this.repository.listTopicExperts(topics.map(topic => topic.id), SLACK_LIST_LIMIT);
+    if (experts.length === 0) {
+      return this.notice(true, "who_no_experts", `Nobody has built up expertise on ${topics.map(topic => `*${topic.name}*`).join(", ")} yet.`);
+    }
+
+    const slackIds = await this.repository.getSlackUserIds(org.id, experts.map(expert => expert.personId));
+    return this.reply("who", buildExpertsMessage(request, topics, experts, slackIds));
+  }
+
+  private async listTopics(org: Organization): Promise<SlashCommandResult> {
+    const topics = await this.repository.listTopics(org.id, SLACK_LIST_LIMIT);
+    if (topics.length === 0) {
+      return this.notice(true, "topics_empty", "No topics have been discovered yet.");
+    }
+
+    return this.reply("topics", buildTopicsMessage(topics));
+  }
+
+  private async showProfile(org: Organization, userId: string): Promise<SlashCommandResult> {
+    const personId = await this.repository.getPersonIdForSlackUser(org.id, userId);
+    if (!personId) {
+      return this.notice(true, "me_unknown", "HiMind has not indexed any of your messages yet, so there is no profile to show.");
+    }
+
+    const expertise = await this.repository.listPersonExpertise(personId, SLACK_LIST_LIMIT);
+    return this.reply("me", buildProfileMessage(userId, expertise));
+  }
+
+  /**
+   * Remove a Slack message from the index. Only its author or an organization admin
+   * may do so.
+   */
+  private async forgetMessage(org: Organization, userId: string, link: string): Promise<SlashCommandResult> {
+    // Slack may wrap links as <url> or <url|label>
+    const url = link.replace(/^<([^|>]+)(\|[^>]*)?>$/, "$1").trim();
+    const message = url.match(/\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})/);
+    if (!message) {
+      return this.notice(false, "forget_failed", "Paste a Slack message link: `/himind forget <message link>` (use *Copy link* on the message).");
+    }
+
+    const externalId = `${message[1]}_${message[2]}.${message[3]}`;
+    const source = await this.repository.findSlackSource(org.id, externalId);
+    if (!source) {
+      return this.notice(true, "forget_not_indexed", "That message is not in the HiMind index.");
+    }
+
+    if (source.authorExternalId !== userId && !(await this.isOrganizationAdmin(org.id, userId))) {
+      return this.notice(false, "forget_denied", "🔒 Only the author of a message or an organization admin can remove it.");
+    }
+
+    await getKnowledgeEngine().removeKnowledgeSource(org.id, {
+      platform: 'slack',
+      sourceType: source.sourceType,
+      externalId,
+      channelId: source.channelId ?? undefined,
+      threadTs: source.threadTs ?? undefined
+    });
+
+    console.log(`🗑️ [SLACK SERVICE] ${userId} removed ${externalId} from the index`);
+    return this.notice(true, "forget", "🗑️ Done. HiMind has forgotten that message and will no longer return it.");
+  }
+
+  /**
+   * Opt out of (or back into) questions routed by HiMind and asked through "Ask this expert"
+   */
+  private async setRouting(org: Organization, userId: string, setting: string): Promise<SlashCommandResult> {
+    const personId = await this.repository.getPersonIdForSlackUser(org.id, userId);
+    if (!personId) {
+      return this.notice(true, "routing_unknown", "HiMind has not indexed any of your messages yet, so no questions are routed to you.");
+    }
+
+    const value = setting.trim().toLowerCase();
+    if (value !== "on" && value !== "off") {
+      const optedOut = await this.repository.isRoutingOptedOut(personId);
+      return this.notice(true, "routing_status", optedOut
+        ? "🔕 You do not receive questions from HiMind. Use `/himind routing on` to receive them again."
+        : "🔔 HiMind may send you questions it thinks you can answer. Use `/himind routing off` to stop them.");
+    }
+
+    await this.repository.setRoutingOptOut(personId, value === "off");
+    console.log(`🔔 [SLACK SERVICE] ${userId} turned routing ${value}`);
+    return this.notice(true, "routing", value === "off"
+      ? "🔕 Done. HiMind will no longer send you questions."
+      : "🔔 Done. HiMind may send you questions it thinks you can answer.");
+  }
+
+  /**
+   * Turn proactive answer suggestions in the current channel on or off. Organization
+   * admins only, since replies show up for everyone in the channel.
+   */
+  private async setSuggestions(org: Organization, userId: string, channelId: string, setting: string): Promise<SlashCommandResult> {
+    const value = setting.trim().toLowerCase();
+    if (value !== "on" && value !== "off") {
+      const settings = await getSlackChannelSettings(org.id, channelId);
+      return this.notice(true, "suggestions_status", settings.suggestionsEnabled
+        ? `💡 HiMind answers questions in this channel when it is at least ${Math.round(settings.minConfidence * 100)}% confident, at most once every ${settings.cooldownMinutes} minutes.`
+        : "HiMind does not answer questions in this channel. An admin can turn it on with `/himind suggestions on`.");
+    }
+
+    if (!(await this.isOrganizationAdmin(org.id, userId))) {
+      return this.notice(false, "suggestions_denied", "🔒 Only organization admins can change answer suggestions.");
+    }
+
+    await updateSlackChannelSettings(org.id, channelId, { suggestionsEnabled: value === "on" });
+    console.log(`💡 [SLACK SERVICE] ${userId} turned suggestions ${value} in ${channelId}`);
+    return this.notice(true, "suggestions", value === "on"
+      ? "💡 Done. HiMind will reply in the thread of questions here when it knows the answer."
+      : "Done. HiMind will no longer answer questions in this channel.");
+  }
+
+  /**
+   * Queue a backfill of the workspace, which reports back through the response_url when it
+   * completes. Organization admins only, like backfills started from the web app.
+   */
+  private async startBackfill(org: Organization, teamId: string, userId: string, responseUrl?: string): Promise<SlashCommandResult> {
+    if (!(await this.isOrganizationAdmin(org.id, userId))) {
+      return this.notice(false, "sync_denied", "🔒 Only organization admins can start a Slack backfill.");
+    }
+
+    await queueSlackBackfill(org.id, teamId, { teamId, responseUrl });
+    console.log(`🔄 [SLACK SERVICE] ${userId} started a Slack backfill for ${org.id}`);
+    return this.notice(true, "backfill_started", "🔄 Starting Slack backfill... You will get a message here when it completes.");
+  }
+
+  private async isOrganizationAdmin(organizationId: string, userId: string): Promise<boolean> {
+    const user = await this.getSlackUser(userId);
+    if (!user?.email) return false;
+    return (await this.repository.getMemberRole(organizationId, user.email)) === "admin";
+  }
+
+  /**
+   * Who started the thread a reply belongs to; null if the message is not a thread reply
+   */
+  private async getThreadStarter(channelId: string, messageTs: string): Promise<string | null> {
+    if (!this.webClient) return null;
+
+    // Given a reply's ts, conversations.replies still lists the thread from its parent
+    const { messages } = await this.webClient.conversations.replies({ channel: channelId, ts: messageTs, limit: 1 });
+    const parent = messages?.[0];
+    if (!parent?.user || parent.ts === messageTs) return null;
+    return parent.user;
+  }
+
+  private async getSlackUser(userId: string): Promise<{ email?: string; isGuest: boolean } | null> {
+    if (!this.webClient) return null;
+
+    const { user } = await this.webClient.users.info({ user: userId });
+    if (!user) return null;
+
+    return {
+      email: user.profile?.email,
+      isGuest: Boolean(user.is_restricted || user.is_ultra_restricted),
+    };
+  }
+
+  private reply(action: string, response: SlackMessage): SlashCommandResult {
+    return { success: true, action, responseMessage: response.text, response };
+  }
+
+  private notice(success: boolean, action: string, message: string): SlashCommandResult {
+    return { success, action, responseMessage: message, response: buildNoticeMessage(message) };
+  }
+
+  /**
+   * Search the knowledge base of the workspace's organization and format the results
+   */
+  private async searchFromSlack(teamId: string, query: string, userId: string, channelId: string): Promise<SlashCommandResult> {
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) {
+        return this.notice(false, "query_failed", "This Slack workspace is not linked to a HiMind organization yet.");
+      }
+
+      const result = await getKnowledgeEngine().searchKnowledge(query, org.id, { limit: SLACK_SEARCH_LIMIT });
+
+      const [expertSlackIds, permalinks] = await Promise.all([
+        this.repository.getSlackUserIds(org.id, result.suggestedExperts.map(expert => expert.personId)),
+        this.resolvePermalinks(result),
+      ]);
+
+      const routedToSlackId = await this.routeToExpert(org, result, expertSlackIds, userId, channelId);
+
+      return this.reply("query_processed", buildSearchResultsMessage(result, { userId, expertSlackIds, permalinks, routedToSlackId }));
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] Search failed for "${query}":`, error);
+      return this.notice(false, "query_failed", "❌ HiMind could not search right now. Please try again later.");
+    }
+  }
+
+  /**
+   * When routing is enabled and no match is confident enough, DM the question to the best
+   * suggested expert who is on Slack, has not opted out and is under the daily limit.
+   * Returns the Slack user the question went to.
+   */
+  private async routeToExpert(
+    org: Organization,
+    result: QueryResult,
+    expertSlackIds: Map<string, string>,
+    askerId: string,
+    channelId: string
+  ): Promise<string | undefined> {
+    if (!result.searchId || !this.webClient) return undefined;
+    const searchId = result.searchId;
+
+    try {
+      const settings = await getExpertRoutingSettings(org.id);
+      if (!settings.enabled) return undefined;
+
+      const record = (outcome: RoutingOutcome, personId?: string, confidence?: number) =>
+        this.repository.recordRoutingOutcome(org.id, searchId, outcome, personId, confidence);
+
+      // Reranking can put a keyword-only match, which has no similarity, ahead of a close one
+      const bestMatchScore = Math.max(0, ...result.knowledgeMatches.map(match => match.similarityScore ?? 0));
+      if (bestMatchScore >= settings.minMatchScore) {
+        await record("not_needed");
+        return undefined;
+      }
+
+      // Suggested experts come strongest first
+      const candidates = result.suggestedExperts.filter(expert => {
+        const slackId = expertSlackIds.get(expert.personId);
+        return slackId && slackId !== askerId && expert.expertiseScore >= settings.minExpertiseScore;
+      });
+      if (candidates.length === 0) {
+        await record("no_expert");
+        return undefined;
+      }
+
+      const unavailable = await this.repository.findUnavailableExperts(
+        candidates.map(expert => expert.personId),
+        settings.maxRoutesPerDay
+      );
+      const expert = candidates.find(candidate => !unavailable.has(candidate.personId));
+      if (!expert) {
+        await record("unavailable");
+        return undefined;
+      }
+
+      const expertSlackId = expertSlackIds.get(expert.personId)!;
+      try {
+        await this.webClient.chat.postMessage({
+          channel: expertSlackId,
+          ...buildExpertQuestionMessage(result.query, askerId, { channelId, routed: true }),
+        });
+      } catch (error) {
+        console.error(`❌ [SLACK SERVICE] Failed to DM ${expertSlackId} for search ${searchId}:`, error);
+        await record("failed", expert.personId, expert.expertiseScore);
+        return undefined;
+      }
+
+      await this.repository.markRouteSent(org.id, searchId, expert.personId);
+      await record("routed", expert.personId, expert.expertiseScore);
+      console.log(`📨 [SLACK SERVICE] Routed search ${searchId} to ${expertSlackId}`);
+      return expertSlackId;
+    } catch (error) {
+      // The search results are still worth posting
+      console.error(`❌ [SLACK SERVICE] Expert routing failed for search ${searchId}:`, error);
+      return undefined;
+    }
+  }
+
+  private async resolvePermalinks(result: QueryResult): Promise<Map<string, string>> {
+    if (!this.webClient) return new Map();
+    return resolveSlackPermalinks(this.webClient, result.knowledgeMatches);
+  }
+
+  /**
+   * Buttons on search results. Only the replies worth showing carry a response; it is
+   * posted ephemerally to the clicking user.
+   */
+  async handleBlockAction(teamId: string, userId: string, actionId: string, value: string): Promise<SlashCommandResult> {
+    const target = parseActionValue(value);
+
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) {
+        console.error(`❌ [SLACK SERVICE] No organization linked to Slack team ${teamId}`);
+        return { success: false, action: "ignored" };
+      }
+
+      switch (actionId) {
+        case SEARCH_ACTIONS.helpful:
+        case SEARCH_ACTIONS.notHelpful: {
+          const helpful = actionId === SEARCH_ACTIONS.helpful;
+          await this.repository.recordSearchFeedback(org.id, value, helpful);
+          return this.notice(true, "search_feedback", helpful
+            ? "🙏 Thanks! Glad that helped."
+            : "🙏 Thanks for the feedback. It helps HiMind rank results better.");
+        }
+        case SEARCH_ACTIONS.openResult:
+          if (target) await this.repository.recordResultClick(org.id, target.searchId, target.itemId);
+          // Slack opens the link itself
+          return { success: true, action: "result_clicked" };
+        case SEARCH_ACTIONS.askExpert:
+          if (!target) return { success: false, action: "ignored" };
+          return await this.askExpert(org, userId, target.searchId, target.itemId);
+        default:
+          return { success: true, action: "ignored" };
+      }
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] Block action ${actionId} failed:`, error);
+      return this.notice(false, "action_failed", "❌ HiMind could not handle that. Please try again later.");
+    }
+  }
+
+  /**
+   * DM the expert the question the user searched for
+   */
+  private async askExpert(org: Organization, userId: string, searchId: string, personId: string): Promise<SlashCommandResult> {
+    if (!this.webClient) {
+      return this.notice(false, "ask_expert_failed", "HiMind cannot send messages in this workspace.");
+    }
+
+    const [question, slackIds] = await Promise.all([
+      this.repository.getSearchQueryText(org.id, searchId),
+      this.repository.getSlackUserIds(org.id, [personId]),
+    ]);
+    const expertSlackId = slackIds.get(personId);
+    if (!question || !expertSlackId) {
+      return this.notice(false, "ask_expert_failed", "That search or expert is no longer available.");
+    }
+    if (expertSlackId === userId) {
+      return this.notice(true, "ask_expert_self", "That's you! HiMind thinks you know this one already.");
+    }
+
+    const settings = await getExpertRoutingSettings(org.id);
+    const unavailable = (await this.repository.findUnavailableExperts([personId], settings.maxRoutesPerDay)).get(personId);
+    if (unavailable === "opted_out") {
+      return this.notice(true, "ask_expert_opted_out", `<@${expertSlackId}> does not take questions through HiMind. Try asking in a channel instead.`);
+    }
+    if (unavailable === "rate_limited") {
+      return this.notice(true, "ask_expert_rate_limited", `<@${expertSlackId}> has already received several questions today. Try again tomorrow or ask in a channel.`);
+    }
+
+    await this.webClient.chat.postMessage({
+      channel: expertSlackId,
+      ...buildExpertQuestionMessage(question, userId, { routed: false }),
+    });
+    const confidence = await this.repository.markRouteAsked(org.id, searchId, personId, userId);
+    await this.repository.recordRoutingOutcome(org.id, searchId, "asked", personId, confidence);
+
+    console.log(`🙋 [SLACK SERVICE] ${userId} asked ${expertSlackId} about search ${searchId}`);
+    return this.notice(true, "ask_expert", `📨 Sent your question to <@${expertSlackId}>.`);
+  }
+
+  /**
+   * Publish the App Home tab: the user's expertise and the questions routed to them
+   */
+  async handleAppHomeOpened(teamId: string, userId: string): Promise<void> {
+    if (!this.webClient) return;
+
+    try {
+      const org = await getOrganizationForSlackTeam(teamId);
+      if (!org) {
+        console.error(`❌ [SLACK SERVICE] No organization linked to Slack team ${teamId}`);
+        return;
+      }
+
+      const personId = await this.repository.getPersonIdForSlackUser(org.id, userId);
+      const [expertise, routes] = personId
+        ? await Promise.all([
+          this.repository.listPersonExpertise(personId, SLACK_LIST_LIMIT),
+          this.repository.listRoutedQuestions(personId, APP_HOME_ROUTES_LIMIT),
+        ])
+        : [[], []];
+
+      await this.webClient.views.publish({ user_id: userId, view: buildAppHomeView(userId, expertise, routes) });
+    } catch (error) {
+      console.error(`❌ [SLACK SERVICE] Failed to publish App Home for ${userId}:`, error);
+    }
+  }
+
+  async handleBackfillMessage(teamId: string, channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void> {
     // Log the backfill message
     await this.repository.logBackfillMessage(channelId, userId, text, timestamp);
     
@@ -114,17 +717,17 @@ export class SlackServiceImpl implements SlackService {
     await this.processSlackContentWithContext({
       platform: 'slack',
       sourceType: threadTs ? 'slack_thread' : 'slack_message',
-      externalId: `${channelId}_${timestamp}_backfill`,
+      externalId: `${channelId}_${timestamp}`,
       externalUrl: `https://slack.com/channels/${channelId}`,
       content: text,
       authorExternalId: userId,
       platformCreatedAt: new Date(parseFloat(timestamp) * 1000).toISOString(),
       channelId,
       threadTs
-    });
+    }, teamId);
   }
 
-  async handleBackfillThreadReply(channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void> {
+  async handleBackfillThreadReply(teamId: string, channelId: string, userId: string, text: string, timestamp: string, threadTs?: string): Promise<void> {
     // Log the backfill thread reply
     await this.repository.logBackfillThreadReply(channelId, userId, text, timestamp);
     
@@ -132,14 +735,14 @@ export class SlackServiceImpl implements SlackService {
     await this.processSlackContentWithContext({
       platform: 'slack',
       sourceType: 'slack_thread',
-      externalId: `${channelId}_${timestamp}_thread`,
+      externalId: `${channelId}_${timestamp}`,
       externalUrl: `https://slack.com/channels/${channelId}`,
       content: text,
       authorExternalId: userId,
       platformCreatedAt: new Date(parseFloat(timestamp) * 1000).toISOString(),
       channelId,
       threadTs
-    });
+    }, teamId);
   }
 
   async handleGenericEvent(eventType: string, channelId: string, userId: string, timestamp: string, data?: unknown): Promise<void> {
@@ -153,31 +756,30 @@ export class SlackServiceImpl implements SlackService {
   private async processSlackContentWithContext(source: KnowledgeSource & {
     channelId?: string;
     threadTs?: string;
-  }): Promise<void> {
+  }, teamId: string): Promise<void> {
     try {
-      // Get current organization
-      const org = await getCurrentOrganization();
+      // Resolve the organization that installed HiMind into this workspace
+      const org = await getOrganizationForSlackTeam(teamId);
       if (!org) {
-        console.error('❌ [SLACK SERVICE] No organization found. Please create one first.');
+        console.error(`❌ [SLACK SERVICE] No organization linked to Slack team ${teamId}`);
         return;
       }
 
-      // Use enhanced contextual ingestion
-      const knowledgePointId = await getKnowledgeEngine().ingestSlackMessageWithContext(source, org.id);
-      
-      if (knowledgePointId) {
-        console.log(`✅ [SLACK SERVICE] Processed contextual ${source.sourceType}: ${source.externalId} → ${knowledgePointId}`);
-      } else {
-        console.log(`⏭️ [SLACK SERVICE] Skipped non-substantial message: ${source.externalId}`);
-      }
+      // Contextual ingestion runs on the job queue so it survives restarts and is retried
+      // Each edit gets its own job; one still waiting for the original must not absorb it
+      const dedupeKey = `${org.id}:slack:${source.externalId}`;
+      const job = await enqueueJob("ingest_slack_message", org.id, { source }, {
+        dedupeKey: source.platformUpdatedAt ? `${dedupeKey}:${source.platformUpdatedAt}` : dedupeKey,
+      });
+      console.log(`📥 [SLACK SERVICE] Queued contextual ${source.sourceType}: ${source.externalId} → job ${job.id}`);
       
     } catch (error) {
-      console.error(`❌ [SLACK SERVICE] Failed to process contextual content ${source.externalId}:`, error);
+      console.error(`❌ [SLACK SERVICE] Failed to queue contextual content ${source.externalId}:`, error);
       // Don't throw - we want Slack events to continue processing even if knowledge processing fails
     }
   }
 
-  private async processSlackContent(source: KnowledgeSource): Promise<void> {
+  private async processSlackContent(source: KnowledgeSource, teamId: string): Promise<void> {
     try {
       // Enhanced content quality filtering
       if (!this.isHighQualitySlackContent(source.content)) {
@@ -185,18 +787,20 @@ export class SlackServiceImpl implements SlackService {
         return;
       }
 
-      // Get current organization
-      const org = await getCurrentOrganization();
+      // Resolve the organization that installed HiMind into this workspace
+      const org = await getOrganizationForSlackTeam(teamId);
       if (!org) {
-        console.error('❌ [SLACK SERVICE] No organization found. Please create one first.');
+        console.error(`❌ [SLACK SERVICE] No organization linked to Slack team ${teamId}`);
         return;
       }
 
-      await getKnowledgeEngine().ingestKnowledgeSource(source, org.id);
-      console.log(`✅ [SLACK SERVICE] Processed ${source.sourceType}: ${source.externalId}`);
+      const job = await enqueueJob("ingest_source", org.id, { source }, {
+        dedupeKey: `${org.id}:slack:${source.externalId}`,
+      });
+      console.log(`📥 [SLACK SERVICE] Queued ${source.sourceType}: ${source.externalId} → job ${job.id}`);
       
     } catch (error) {
-      console.error(`❌ [SLACK SERVICE] Failed to process content ${source.externalId}:`, error);
+      console.error(`❌ [SLACK SERVICE] Failed to queue content ${source.externalId}:`, error);
       // Don't throw - we want Slack events to continue processing even if knowledge processing fails
     }
   }
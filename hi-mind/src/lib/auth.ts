@@ -0,0 +1,528 @@
+/**
+ * Authentication and Role-Based Access
+ * Every API route (except health and the sign-in endpoints) is wrapped in withAuth, which
+ * authenticates the caller, resolves their organization and enforces a minimum role.
+ *
+ * Callers authenticate with either:
+ *   1. A Supabase Auth session - the himind-access-token cookie set at sign-in
+ *      (email/password or any OIDC provider configured in Supabase), or an
+ *      "Authorization: Bearer <access token>" header
+ *   2. An organization API key - its organization and role are fixed when the key is issued
+ *
+ * Roles are ordered admin > member > read_only. Every denied request is written to
+ * access_audit_log.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import type { Session, User } from "@supabase/supabase-js";
+import { createServiceClient } from "@/utils/supabase/service";
+import {
+  getApiKeyAccess,
+  getOrganizationById,
+  getRequestApiKey,
+  getRequestedOrganization,
+  getSingleTenantOrganization,
+  type Organization,
+  type OrganizationRole,
+} from "@/lib/organization";
+
+export const ACCESS_TOKEN_COOKIE = "himind-access-token";
+export const REFRESH_TOKEN_COOKIE = "himind-refresh-token";
+
+const REFRESH_TOKEN_MAX_AGE = 60 * 60 * 24 * 30;
+
+const ROLE_RANK: Record<OrganizationRole, number> = {
+  read_only: 0,
+  member: 1,
+  admin: 2,
+};
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+}
+
+export interface AuthContext {
+  organization: Organization;
+  role: OrganizationRole;
+  method: "session" | "api_key";
+  user: AuthenticatedUser | null;
+  apiKeyId: string | null;
+}
+
+export interface OrganizationMember {
+  id: string;
+  organization_id: string;
+  user_id: string | null;
+  email: string;
+  role: OrganizationRole;
+  created_at: string;
+}
+
+export function hasRole(granted: OrganizationRole, required: OrganizationRole): boolean {
+  return ROLE_RANK[granted] >= ROLE_RANK[required];
+}
+
+// =========================
+// Route Wrappers
+// =========================
+
+type AuthorizedHandler<C> = (
+  request: NextRequest,
+  auth: AuthContext,
+  context: C,
+) => Promise<Response>;
+
+type UserHandler<C> = (
+  request: NextRequest,
+  user: AuthenticatedUser,
+  context: C,
+) => Promise<Response>;
+
+/**
+ * Require a caller with at least `requiredRole` in the request's organization
+ */
+export function withAuth<C = unknown>(
+  requiredRole: OrganizationRole,
+  handler: AuthorizedHandler<C>,
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const apiKey = getRequestApiKey(request);
+
+    if (apiKey) {
+      const access = await getApiKeyAccess(apiKey);
+      if (!access) {
+        return deny(request, 401, "Unknown or revoked API key", { requiredRole });
+      }
+      if (!hasRole(access.role, requiredRole)) {
+        return deny(request, 403, "API key role is insufficient", {
+          requiredRole,
+          grantedRole: access.role,
+          organizationId: access.organization.id,
+          apiKeyId: access.apiKeyId,
+        });
+      }
+
+      return handler(
+        request,
+        {
+          organization: access.organization,
+          role: access.role,
+          method: "api_key",
+          user: null,
+          apiKeyId: access.apiKeyId,
+        },
+        context,
+      );
+    }
+
+    const session = await authenticateSession(request);
+    if (!session.user) {
+      return deny(request, 401, "Not signed in", { requiredRole });
+    }
+
+    const user = session.user;
+    const membership = await resolveMembership(request, user);
+
+    if (!membership.organization) {
+      const response = await deny(request, 404, "No organization found", { requiredRole, user });
+      return applySessionCookies(response, session.refreshed);
+    }
+
+    if (!membership.role) {
+      return deny(request, 403, "Not a member of this organization", {
+        requiredRole,
+        organizationId: membership.organization.id,
+        user,
+      });
+    }
+
+    if (!hasRole(membership.role, requiredRole)) {
+      return deny(request, 403, "Role is insufficient", {
+        requiredRole,
+        grantedRole: membership.role,
+        organizationId: membership.organization.id,
+        user,
+      });
+    }
+
+    const response = await handler(
+      request,
+      {
+        organization: membership.organization,
+        role: membership.role,
+        method: "session",
+        user,
+        apiKeyId: null,
+      },
+      context,
+    );
+    return applySessionCookies(response, session.refreshed);
+  };
+}
+
+/**
+ * Require a signed-in user without resolving an organization (e.g. creating one)
+ */
+export function withUser<C = unknown>(handler: UserHandler<C>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const session = await authenticateSession(request);
+    if (!session.user) {
+      return deny(request, 401, "Not signed in", {});
+    }
+
+    const response = await handler(request, session.user, context);
+    return applySessionCookies(response, session.refreshed);
+  };
+}
+
+// =========================
+// Sessions
+// =========================
+
+/**
+ * Authenticate the Supabase session on a request, refreshing an expired access token
+ */
+export async function authenticateSession(
+  request: NextRequest,
+): Promise<{ user: AuthenticatedUser | null; refreshed: Session | null }> {
+  const supabase = createServiceClient();
+
+  const bearer = request.headers
+    .get("authorization")
+    ?.match(/^Bearer\s+(.+)$/i)?.[1]
+    ?.trim();
+  const accessToken = bearer || request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+
+  if (accessToken) {
+    const { data, error } = await supabase.auth.getUser(accessToken);
+    if (!error && data.user) {
+      return { user: toAuthenticatedUser(data.user), refreshed: null };
+    }
+  }
+
+  // Bearer tokens are managed by the caller; only cookie sessions are refreshed here
+  const refreshToken = bearer ? undefined : request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  if (!refreshToken) {
+    return { user: null, refreshed: null };
+  }
+
+  const { data, error } = await supabase.auth.refreshSession({
+    refresh_token: refreshToken,
+  });
+  if (error || !data.session || !data.user) {
+    return { user: null, refreshed: null };
+  }
+
+  return { user: toAuthenticatedUser(data.user), refreshed: data.session };
+}
+
+function toAuthenticatedUser(user: User): AuthenticatedUser {
+  return { id: user.id, email: user.email?.toLowerCase() ?? null };
+}
+
+export function setSessionCookies(response: NextResponse, session: Session): NextResponse {
+  const secure = process.env.NODE_ENV === "production";
+
+  response.cookies.set(ACCESS_TOKEN_COOKIE, session.access_token, {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    path: "/",
+    maxAge: session.expires_in,
+  });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, session.refresh_token, {
+    httpOnly: true,
+    secure,
+    sameSite: "lax",
+    path: "/",
+    maxAge: REFRESH_TOKEN_MAX_AGE,
+  });
+
+  return response;
+}
+
+export function clearSessionCookies(response: NextResponse): NextResponse {
+  response.cookies.delete(ACCESS_TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+  return response;
+}
+
+function applySessionCookies(response: Response, refreshed: Session | null): Response {
+  if (refreshed && response instanceof NextResponse) {
+    setSessionCookies(response, refreshed);
+  }
+  return response;
+}
+
+// =========================
+// Membership
+// =========================
+
+/**
+ * Bootstrap admins: users with these emails are made admin of any organization they open
+ */
+function getBootstrapAdminEmails(): string[] {
+  return (process.env.HIMIND_ADMIN_EMAILS || "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether a user may create an organization: bootstrap admins, or anyone setting up a
+ * deployment that has no organization yet
+ */
+export async function canCreateOrganization(user: AuthenticatedUser): Promise<boolean> {
+  if (user.email && getBootstrapAdminEmails().includes(user.email)) return true;
+
+  const supabase = createServiceClient();
+  const { count, error } = await supabase
+    .from('organizations')
+    .select('id', { count: 'exact', head: true });
+
+  if (error) throw error;
+  return count === 0;
+}
+
+/**
+ * Resolve the organization a signed-in user is acting in, and their role there.
+ * An explicitly requested organization (header or subdomain) wins; otherwise the user's
+ * only membership is used.
+ */
+async function resolveMembership(
+  request: NextRequest,
+  user: AuthenticatedUser,
+): Promise<{ organization: Organization | null; role: OrganizationRole | null }> {
+  const requested = await getRequestedOrganization(request);
+
+  if (requested.specified) {
+    if (!requested.organization) return { organization: null, role: null };
+    const member = await getMembership(requested.organization.id, user);
+    return { organization: requested.organization, role: member?.role ?? null };
+  }
+
+  const memberships = await listUserMemberships(user);
+  if (memberships.length === 1) {
+    const organization = await getOrganizationById(memberships[0].organization_id);
+    return { organization, role: organization ? memberships[0].role : null };
+  }
+
+  if (memberships.length > 1) {
+    console.log(`⚠️ [AUTH] ${user.email} belongs to several organizations and none was specified`);
+    return { organization: null, role: null };
+  }
+
+  // Not a member anywhere yet: single-organization deployments still resolve, so the
+  // request is denied against that organization (or a bootstrap admin is provisioned)
+  const organization = await getSingleTenantOrganization();
+  if (!organization) return { organization: null, role: null };
+  const member = await getMembership(organization.id, user);
+  return { organization, role: member?.role ?? null };
+}
+
+async function getMembership(
+  organizationId: string,
+  user: AuthenticatedUser,
+): Promise<OrganizationMember | null> {
+  const supabase = createServiceClient();
+
+  const { data: members } = await supabase
+    .from('organization_members')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .or(memberFilter(user))
+    .limit(1);
+
+  const member = (members?.[0] as OrganizationMember | undefined) ?? null;
+  if (member) {
+    if (!member.user_id) await linkMemberToUser(member.id, user.id);
+    return member;
+  }
+
+  if (user.email && getBootstrapAdminEmails().includes(user.email)) {
+    console.log(`🔑 [AUTH] Granting bootstrap admin ${user.email} access to ${organizationId}`);
+    return addOrganizationMember(organizationId, user.email, "admin", user.id);
+  }
+
+  return null;
+}
+
+async function listUserMemberships(user: AuthenticatedUser): Promise<OrganizationMember[]> {
+  const supabase = createServiceClient();
+
+  const { data: members, error } = await supabase
+    .from('organization_members')
+    .select('*')
+    .or(memberFilter(user));
+
+  if (error) {
+    console.error(`❌ [AUTH] Failed to load memberships:`, error);
+    return [];
+  }
+
+  for (const member of members || []) {
+    if (!member.user_id) await linkMemberToUser(member.id, user.id);
+  }
+  return members || [];
+}
+
+// Members invited by email match before their first sign-in links the user id
+function memberFilter(user: AuthenticatedUser): string {
+  return user.email
+    ? `user_id.eq.${user.id},email.eq."${user.email}"`
+    : `user_id.eq.${user.id}`;
+}
+
+async function linkMemberToUser(memberId: string, userId: string) {
+  const supabase = createServiceClient();
+  await supabase
+    .from('organization_members')
+    .update({ user_id: userId })
+    .eq('id', memberId);
+}
+
+/**
+ * Add (or change the role of) a member, identified by email
+ */
+export async function addOrganizationMember(
+  organizationId: string,
+  email: string,
+  role: OrganizationRole,
+  userId?: string,
+): Promise<OrganizationMember> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .upsert(
+      {
+        organization_id: organizationId,
+        email: email.trim().toLowerCase(),
+        role,
+        ...(userId ? { user_id: userId } : {}),
+      },
+      { onConflict: 'organization_id,email' },
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listOrganizationMembers(
+  organizationId: string,
+): Promise<OrganizationMember[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function updateOrganizationMemberRole(
+  organizationId: string,
+  memberId: string,
+  role: OrganizationRole,
+): Promise<OrganizationMember | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .update({ role })
+    .eq('id', memberId)
+    .eq('organization_id', organizationId)
+    .select()
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function removeOrganizationMember(
+  organizationId: string,
+  memberId: string,
+): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('id', memberId)
+    .eq('organization_id', organizationId)
+    .select('id');
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+// =========================
+// Denials
+// =========================
+
+const DENIAL_ERRORS = {
+  401: "Authentication required",
+  403: "Forbidden",
+  404: "Not found",
+} as const;
+
+interface DenialDetails {
+  requiredRole?: OrganizationRole;
+  grantedRole?: OrganizationRole;
+  organizationId?: string;
+  user?: AuthenticatedUser;
+  apiKeyId?: string;
+}
+
+async function deny(
+  request: NextRequest,
+  status: 401 | 403 | 404,
+  reason: string,
+  details: DenialDetails,
+): Promise<Response> {
+  await recordAccessDenied(request, status, reason, details);
+
+  return NextResponse.json(
+    { error: DENIAL_ERRORS[status], details: reason },
+    { status },
+  );
+}
+
+async function recordAccessDenied(
+  request: NextRequest,
+  status: number,
+  reason: string,
+  details: DenialDetails,
+) {
+  const path = request.nextUrl.pathname;
+  console.log(`🚫 [AUTH] ${status} ${request.method} ${path}: ${reason}`);
+
+  try {
+    const supabase = createServiceClient();
+    const { error } = await supabase.from('access_audit_log').insert({
+      organization_id: details.organizationId ?? null,
+      user_id: details.user?.id ?? null,
+      user_email: details.user?.email ?? null,
+      api_key_id: details.apiKeyId ?? null,
+      http_method: request.method,
+      path,
+      required_role: details.requiredRole ?? null,
+      granted_role: details.grantedRole ?? null,
+      status_code: status,
+      reason,
+      ip_address: request.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+      user_agent: request.headers.get("user-agent"),
+    });
+
+    if (error) console.error(`❌ [AUTH] Failed to record denied request:`, error);
+  } catch (error) {
+    // Never let audit logging turn a denial into a 500
+    console.error(`❌ [AUTH] Failed to record denied request:`, error);
+  }
+}
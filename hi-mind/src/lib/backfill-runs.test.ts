@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServiceClient } from "@/utils/supabase/service";
+import {
+  describeBackfillProgress,
+  type BackfillRun,
+  type BackfillUnit,
+} from "./backfill-runs";
+
+vi.mock("@/utils/supabase/service", () => ({ createServiceClient: vi.fn() }));
+vi.mock("@/core/jobs", () => ({ enqueueJob: vi.fn() }));
+
+const NOW = new Date("2025-06-01T12:00:00.000Z");
+
+function makeUnit(overrides: Partial<BackfillUnit> = {}): BackfillUnit {
+  return {
+    label: "#general",
+    itemsFound: 0,
+    processed: 0,
+    skipped: 0,
+    failed: 0,
+    done: false,
+    cursor: null,
+    ...overrides,
+  };
+}
+
+function makeRun(overrides: Partial<BackfillRun> = {}): BackfillRun {
+  return {
+    id: "run-1",
+    organization_id: "org-1",
+    platform: "slack",
+    target: "T1",
+    job_id: "job-1",
+    status: "running",
+    cursors: {},
+    processed_count: 0,
+    skipped_count: 0,
+    failed_count: 0,
+    errors: [],
+    started_at: null,
+    completed_at: null,
+    created_at: "2025-06-01T11:00:00.000Z",
+    updated_at: "2025-06-01T11:00:00.000Z",
+    ...overrides,
+  };
+}
+
+/** Answer the ingestion job counts: pending for queued/running, failed for dead */
+function mockJobCounts(pending: number, failed: number) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    in: (_column: string, statuses: string[]) =>
+      Promise.resolve({
+        count: statuses.includes("dead") ? failed : pending,
+        error: null,
+      }),
+  };
+  vi.mocked(createServiceClient).mockReturnValue({
+    from: () => query,
+  } as unknown as ReturnType<typeof createServiceClient>);
+}
+
+describe("describeBackfillProgress", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports nothing done for a queued run", async () => {
+    mockJobCounts(0, 0);
+
+    expect(
+      await describeBackfillProgress(makeRun({ status: "queued" })),
+    ).toEqual({
+      percent: 0,
+      unitsDone: 0,
+      unitsTotal: 0,
+      etaSeconds: null,
+      pendingIngestion: 0,
+      failedIngestion: 0,
+      finished: false,
+    });
+  });
+
+  it("counts finished units and the handled share of unfinished ones", async () => {
+    mockJobCounts(3, 1);
+    const run = makeRun({
+      cursors: {
+        C1: makeUnit({ done: true, itemsFound: 10, processed: 10 }),
+        C2: makeUnit({ itemsFound: 10, processed: 3, skipped: 1, failed: 1 }),
+        C3: makeUnit(),
+        C4: makeUnit({ itemsFound: 2, processed: 4 }),
+      },
+    });
+
+    const progress = await describeBackfillProgress(run);
+
+    // (1 + 0.5 + 0 + 1) / 4, with the over-counted unit capped at 1
+    expect(progress).toMatchObject({
+      percent: 63,
+      unitsDone: 1,
+      unitsTotal: 4,
+      pendingIngestion: 3,
+      failedIngestion: 1,
+      finished: false,
+    });
+  });
+
+  it("estimates the remaining time from the pace so far", async () => {
+    mockJobCounts(0, 0);
+    const run = makeRun({
+      started_at: "2025-06-01T11:50:00.000Z",
+      cursors: {
+        C1: makeUnit({ done: true }),
+        C2: makeUnit({ itemsFound: 4, processed: 2 }),
+        C3: makeUnit(),
+        C4: makeUnit(),
+      },
+    });
+
+    // Three eighths done in ten minutes leaves 1000s to go
+    expect((await describeBackfillProgress(run)).etaSeconds).toBe(1000);
+  });
+
+  it("waits for ingestion before a completed run is finished", async () => {
+    mockJobCounts(2, 0);
+    const run = makeRun({ status: "completed", cursors: { C1: makeUnit() } });
+
+    expect(await describeBackfillProgress(run)).toMatchObject({
+      percent: 100,
+      etaSeconds: 0,
+      pendingIngestion: 2,
+      finished: false,
+    });
+
+    mockJobCounts(0, 2);
+    expect(await describeBackfillProgress(run)).toMatchObject({
+      finished: true,
+      failedIngestion: 2,
+    });
+  });
+
+  it("passes on query errors", async () => {
+    const failure = new Error("connection refused");
+    const query = {
+      select: () => query,
+      eq: () => query,
+      in: () => Promise.resolve({ count: null, error: failure }),
+    };
+    vi.mocked(createServiceClient).mockReturnValue({
+      from: () => query,
+    } as unknown as ReturnType<typeof createServiceClient>);
+
+    await expect(describeBackfillProgress(makeRun())).rejects.toBe(failure);
+  });
+});
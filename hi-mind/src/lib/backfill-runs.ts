@@ -0,0 +1,409 @@
+/**
+ * Backfill Runs
+ * Persisted progress of Slack and GitHub backfills. A run is created when a backfill is
+ * queued; the backfill job reports into it through a BackfillTracker.
+ */
+
+import { enqueueJob, type Job } from "@/core/jobs";
+import { createServiceClient } from "@/utils/supabase/service";
+
+export type BackfillPlatform = "slack" | "github";
+export type BackfillStatus = "queued" | "running" | "completed" | "failed";
+export type BackfillItemOutcome = "processed" | "skipped" | "failed";
+
+/** Progress of one channel (Slack) or resource type (GitHub) */
+export interface BackfillUnit {
+  label: string;
+  itemsFound: number;
+  processed: number;
+  skipped: number;
+  failed: number;
+  done: boolean;
+  /** Where the unit started reading, e.g. the newest stored Slack timestamp */
+  cursor: string | null;
+}
+
+export interface BackfillError {
+  at: string;
+  unit: string | null;
+  message: string;
+}
+
+export interface BackfillRun {
+  id: string;
+  organization_id: string;
+  platform: BackfillPlatform;
+  target: string;
+  job_id: string | null;
+  status: BackfillStatus;
+  cursors: Record<string, BackfillUnit>;
+  processed_count: number;
+  skipped_count: number;
+  failed_count: number;
+  errors: BackfillError[];
+  started_at: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BackfillProgress {
+  /** 0-100, from finished units plus the share of items handled in unfinished ones */
+  percent: number;
+  unitsDone: number;
+  unitsTotal: number;
+  /** Seconds until the run finishes at its current pace; null until it can be estimated */
+  etaSeconds: number | null;
+  /** Ingestion jobs queued by this run that have not finished yet */
+  pendingIngestion: number;
+  /** Ingestion jobs queued by this run that were dead-lettered */
+  failedIngestion: number;
+  /** The run completed and every item it queued has been ingested or dead-lettered */
+  finished: boolean;
+}
+
+const MAX_STORED_ERRORS = 50;
+const FLUSH_INTERVAL_MS = 2000;
+
+/**
+ * Create a run and queue the Slack backfill job that fills it
+ */
+export async function queueSlackBackfill(
+  organizationId: string,
+  target: string,
+  options: { teamId?: string; responseUrl?: string } = {},
+): Promise<BackfillRun> {
+  return queueBackfill(organizationId, "slack", target, (backfillRunId) =>
+    enqueueJob(
+      "slack_backfill",
+      organizationId,
+      { ...options, backfillRunId },
+      { dedupeKey: organizationId },
+    ),
+  );
+}
+
+/**
+ * Create a run and queue the GitHub backfill job that fills it
+ */
+export async function queueGitHubBackfill(
+  organizationId: string,
+  owner: string,
+  repo: string,
+): Promise<BackfillRun> {
+  return queueBackfill(
+    organizationId,
+    "github",
+    `${owner}/${repo}`,
+    (backfillRunId) =>
+      enqueueJob(
+        "github_backfill",
+        organizationId,
+        { owner, repo, backfillRunId },
+        { dedupeKey: `${organizationId}:${owner}/${repo}`.toLowerCase() },
+      ),
+  );
+}
+
+async function queueBackfill(
+  organizationId: string,
+  platform: BackfillPlatform,
+  target: string,
+  enqueue: (backfillRunId: string) => Promise<Job>,
+): Promise<BackfillRun> {
+  const supabase = createServiceClient();
+
+  const { data: run, error } = await supabase
+    .from("backfill_runs")
+    .insert({ organization_id: organizationId, platform, target })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("❌ [BACKFILL] Failed to create backfill run:", error);
+    throw error;
+  }
+
+  const job = await enqueue(run.id);
+
+  // The same backfill was already queued or running: report that run instead
+  const existingRunId = (job.payload as { backfillRunId?: string })
+    .backfillRunId;
+  if (existingRunId && existingRunId !== run.id) {
+    await supabase.from("backfill_runs").delete().eq("id", run.id);
+    const existing = await getBackfillRun(existingRunId, organizationId);
+    if (existing) {
+      console.log(
+        `⏭️ [BACKFILL] ${platform} backfill of ${target} already in progress: ${existing.id}`,
+      );
+      return existing;
+    }
+  }
+
+  const { data: linked, error: linkError } = await supabase
+    .from("backfill_runs")
+    .update({ job_id: job.id, updated_at: new Date().toISOString() })
+    .eq("id", run.id)
+    .select()
+    .single();
+
+  if (linkError) throw linkError;
+
+  console.log(
+    `📥 [BACKFILL] Queued ${platform} backfill of ${target}: ${run.id}`,
+  );
+  return linked as BackfillRun;
+}
+
+export async function getBackfillRun(
+  runId: string,
+  organizationId: string,
+): Promise<BackfillRun | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("backfill_runs")
+    .select()
+    .eq("id", runId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as BackfillRun | null;
+}
+
+export async function listBackfillRuns(
+  organizationId: string,
+  limit: number = 20,
+): Promise<BackfillRun[]> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("backfill_runs")
+    .select()
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as BackfillRun[];
+}
+
+/**
+ * Summarize how far a run has come, including the ingestion jobs it queued
+ */
+export async function describeBackfillProgress(
+  run: BackfillRun,
+): Promise<BackfillProgress> {
+  const supabase = createServiceClient();
+
+  const countJobs = async (statuses: string[]) => {
+    const { count, error } = await supabase
+      .from("jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("payload->>backfillRunId", run.id)
+      .in("status", statuses);
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const [pendingIngestion, failedIngestion] = await Promise.all([
+    countJobs(["queued", "running"]),
+    countJobs(["dead"]),
+  ]);
+
+  const units = Object.values(run.cursors || {});
+  const unitsDone = units.filter((unit) => unit.done).length;
+  const fraction =
+    run.status === "completed"
+      ? 1
+      : units.length === 0
+        ? 0
+        : units.reduce(
+            (sum, unit) =>
+              sum +
+              (unit.done
+                ? 1
+                : unit.itemsFound > 0
+                  ? Math.min(
+                      (unit.processed + unit.skipped + unit.failed) /
+                        unit.itemsFound,
+                      1,
+                    )
+                  : 0),
+            0,
+          ) / units.length;
+
+  let etaSeconds: number | null = null;
+  if (run.status === "running" && run.started_at && fraction > 0) {
+    const elapsedSeconds = (Date.now() - Date.parse(run.started_at)) / 1000;
+    etaSeconds = Math.round((elapsedSeconds * (1 - fraction)) / fraction);
+  } else if (run.status === "completed") {
+    etaSeconds = 0;
+  }
+
+  return {
+    percent: Math.round(fraction * 100),
+    unitsDone,
+    unitsTotal: units.length,
+    etaSeconds,
+    pendingIngestion,
+    failedIngestion,
+    finished: run.status === "completed" && pendingIngestion === 0,
+  };
+}
+
+/**
+ * Progress reporter used by a backfill job. The job is the run's only writer, so state is
+ * kept in memory and written back at most every couple of seconds.
+ */
+export class BackfillTracker {
+  private lastFlush = 0;
+
+  private constructor(private run: BackfillRun) {}
+
+  /**
+   * Mark a run as running, resuming its cursors when the job is a retry
+   */
+  static async start(
+    runId: string,
+    organizationId: string,
+  ): Promise<BackfillTracker> {
+    const run = await getBackfillRun(runId, organizationId);
+    if (!run) {
+      throw new Error(`Backfill run ${runId} not found`);
+    }
+
+    const tracker = new BackfillTracker({
+      ...run,
+      status: "running",
+      started_at: run.started_at ?? new Date().toISOString(),
+      completed_at: null,
+    });
+    await tracker.flush(true);
+    return tracker;
+  }
+
+  get id(): string {
+    return this.run.id;
+  }
+
+  /** Register units (channels, resource types) so the run knows its total size */
+  planUnits(units: Array<{ key: string; label: string }>): void {
+    for (const { key, label } of units) {
+      this.run.cursors[key] ??= {
+        label,
+        itemsFound: 0,
+        processed: 0,
+        skipped: 0,
+        failed: 0,
+        done: false,
+        cursor: null,
+      };
+    }
+  }
+
+  isUnitDone(key: string): boolean {
+    return this.run.cursors[key]?.done ?? false;
+  }
+
+  /** Begin (or restart, on a retry) a unit once its items have been listed */
+  startUnit(
+    key: string,
+    itemsFound: number,
+    cursor: string | null = null,
+  ): void {
+    Object.assign(this.unit(key), {
+      itemsFound,
+      processed: 0,
+      skipped: 0,
+      failed: 0,
+      cursor,
+    });
+  }
+
+  /** Items discovered after a unit started, e.g. thread replies */
+  addItems(key: string, count: number): void {
+    this.unit(key).itemsFound += count;
+  }
+
+  async record(
+    key: string,
+    outcome: BackfillItemOutcome,
+    count: number = 1,
+  ): Promise<void> {
+    this.unit(key)[outcome] += count;
+    await this.flush();
+  }
+
+  async recordError(key: string | null, message: string): Promise<void> {
+    this.run.errors = [
+      ...this.run.errors,
+      { at: new Date().toISOString(), unit: key, message },
+    ].slice(-MAX_STORED_ERRORS);
+    await this.flush(true);
+  }
+
+  async completeUnit(key: string): Promise<void> {
+    this.unit(key).done = true;
+    await this.flush(true);
+  }
+
+  async complete(): Promise<BackfillRun> {
+    this.run.status = "completed";
+    this.run.completed_at = new Date().toISOString();
+    await this.flush(true);
+    return this.run;
+  }
+
+  /**
+   * Record a failed attempt. The run returns to queued while its job will be retried.
+   */
+  async fail(message: string, willRetry: boolean): Promise<void> {
+    this.run.status = willRetry ? "queued" : "failed";
+    if (!willRetry) this.run.completed_at = new Date().toISOString();
+    await this.recordError(null, message);
+  }
+
+  private unit(key: string): BackfillUnit {
+    this.planUnits([{ key, label: key }]);
+    return this.run.cursors[key];
+  }
+
+  private async flush(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - this.lastFlush < FLUSH_INTERVAL_MS) return;
+    this.lastFlush = Date.now();
+
+    // Run totals are derived from the units, so a restarted unit is not counted twice
+    const units = Object.values(this.run.cursors);
+    const total = (outcome: BackfillItemOutcome) =>
+      units.reduce((sum, unit) => sum + unit[outcome], 0);
+    this.run.processed_count = total("processed");
+    this.run.skipped_count = total("skipped");
+    this.run.failed_count = total("failed");
+
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from("backfill_runs")
+      .update({
+        status: this.run.status,
+        cursors: this.run.cursors,
+        processed_count: this.run.processed_count,
+        skipped_count: this.run.skipped_count,
+        failed_count: this.run.failed_count,
+        errors: this.run.errors,
+        started_at: this.run.started_at,
+        completed_at: this.run.completed_at,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", this.run.id);
+
+    if (error) {
+      // Progress is informational; a failed write must not abort the backfill
+      console.error(
+        `⚠️ [BACKFILL] Failed to save progress of ${this.run.id}:`,
+        error,
+      );
+    }
+  }
+}
@@ -120,13 +120,14 @@ export class PeopleService {
     return { data, error: error?.message || null, success: !error }
   }
 
-  async getPersonByExternalId(platform: string, externalId: string) {
+  async getPersonByExternalId(platform: string, externalId: string, organizationId: string) {
     const { data, error } = await this.supabase
       .from('external_identities')
       .select(`
         *,
         people (*)
       `)
+      .eq('organization_id', organizationId)
       .eq('platform', platform)
       .eq('external_id', externalId)
       .single()
@@ -200,7 +201,7 @@ export class KnowledgeService {
   async createKnowledgeSource(data: {
     organizationId: string
     platform: 'slack' | 'github'
-    sourceType: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment'
+    sourceType: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment' | 'github_commit'
     externalId: string
     externalUrl?: string
     title?: string
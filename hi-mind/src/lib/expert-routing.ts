@@ -0,0 +1,111 @@
+/**
+ * Expert Routing Settings
+ * Whether and when an organization's Slack searches are routed to an expert by DM.
+ * Routing is opt-in: organizations without a settings row never route on their own.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service";
+
+export interface ExpertRoutingSettings {
+  enabled: boolean;
+  /** Searches whose best match scores below this are routed to an expert */
+  minMatchScore: number;
+  /** Experts with a lower query-weighted expertise are not routed to */
+  minExpertiseScore: number;
+  /** Questions a person receives per 24 hours, routed or asked directly */
+  maxRoutesPerDay: number;
+}
+
+export const DEFAULT_EXPERT_ROUTING_SETTINGS: ExpertRoutingSettings = {
+  enabled: false,
+  minMatchScore: 0.5,
+  minExpertiseScore: 0.2,
+  maxRoutesPerDay: 3,
+};
+
+export class ExpertRoutingSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExpertRoutingSettingsError";
+  }
+}
+
+type SettingsRow = {
+  enabled: boolean;
+  min_match_score: number;
+  min_expertise_score: number;
+  max_routes_per_day: number;
+};
+
+export async function getExpertRoutingSettings(
+  organizationId: string,
+): Promise<ExpertRoutingSettings> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("expert_routing_settings")
+    .select("enabled, min_match_score, min_expertise_score, max_routes_per_day")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toSettings(data) : DEFAULT_EXPERT_ROUTING_SETTINGS;
+}
+
+/**
+ * Change some of the settings; the others keep their current value
+ */
+export async function updateExpertRoutingSettings(
+  organizationId: string,
+  changes: Partial<ExpertRoutingSettings>,
+): Promise<ExpertRoutingSettings> {
+  const settings = {
+    ...(await getExpertRoutingSettings(organizationId)),
+    ...changes,
+  };
+
+  if (typeof settings.enabled !== "boolean") {
+    throw new ExpertRoutingSettingsError("enabled must be a boolean");
+  }
+  for (const key of ["minMatchScore", "minExpertiseScore"] as const) {
+    const value = settings[key];
+    if (typeof value !== "number" || value < 0 || value > 1) {
+      throw new ExpertRoutingSettingsError(
+        `${key} must be a number between 0 and 1`,
+      );
+    }
+  }
+  if (
+    !Number.isInteger(settings.maxRoutesPerDay) ||
+    settings.maxRoutesPerDay < 1
+  ) {
+    throw new ExpertRoutingSettingsError(
+      "maxRoutesPerDay must be a positive integer",
+    );
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("expert_routing_settings")
+    .upsert({
+      organization_id: organizationId,
+      enabled: settings.enabled,
+      min_match_score: settings.minMatchScore,
+      min_expertise_score: settings.minExpertiseScore,
+      max_routes_per_day: settings.maxRoutesPerDay,
+      updated_at: new Date().toISOString(),
+    })
+    .select("enabled, min_match_score, min_expertise_score, max_routes_per_day")
+    .single();
+
+  if (error) throw error;
+  return toSettings(data);
+}
+
+function toSettings(row: SettingsRow): ExpertRoutingSettings {
+  return {
+    enabled: row.enabled,
+    minMatchScore: row.min_match_score,
+    minExpertiseScore: row.min_expertise_score,
+    maxRoutesPerDay: row.max_routes_per_day,
+  };
+}
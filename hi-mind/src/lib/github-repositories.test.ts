@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { matchesDiscoveryPatterns } from "./github-repositories";
+
+const patterns = (
+  includePatterns: string[],
+  excludePatterns: string[] = [],
+) => ({
+  includePatterns,
+  excludePatterns,
+});
+
+describe("matchesDiscoveryPatterns", () => {
+  it("matches every repository without include patterns", () => {
+    expect(matchesDiscoveryPatterns("api", patterns([]))).toBe(true);
+  });
+
+  it("matches the whole name", () => {
+    expect(matchesDiscoveryPatterns("api", patterns(["api"]))).toBe(true);
+    expect(matchesDiscoveryPatterns("api-gateway", patterns(["api"]))).toBe(
+      false,
+    );
+    expect(matchesDiscoveryPatterns("legacy-api", patterns(["api"]))).toBe(
+      false,
+    );
+  });
+
+  it("lets * match any run of characters", () => {
+    const settings = patterns(["service-*"]);
+    expect(matchesDiscoveryPatterns("service-billing", settings)).toBe(true);
+    expect(matchesDiscoveryPatterns("service-", settings)).toBe(true);
+    expect(matchesDiscoveryPatterns("services", settings)).toBe(false);
+  });
+
+  it("lets ? match exactly one character", () => {
+    const settings = patterns(["app-v?"]);
+    expect(matchesDiscoveryPatterns("app-v2", settings)).toBe(true);
+    expect(matchesDiscoveryPatterns("app-v", settings)).toBe(false);
+    expect(matchesDiscoveryPatterns("app-v10", settings)).toBe(false);
+  });
+
+  it("treats other characters literally", () => {
+    const settings = patterns(["docs.site"]);
+    expect(matchesDiscoveryPatterns("docs.site", settings)).toBe(true);
+    expect(matchesDiscoveryPatterns("docs-site", settings)).toBe(false);
+  });
+
+  it("ignores case and surrounding whitespace in patterns", () => {
+    expect(matchesDiscoveryPatterns("Web-App", patterns([" web-* "]))).toBe(
+      true,
+    );
+  });
+
+  it("lets exclude patterns win over include patterns", () => {
+    const settings = patterns(["service-*"], ["*-archive"]);
+    expect(matchesDiscoveryPatterns("service-billing", settings)).toBe(true);
+    expect(matchesDiscoveryPatterns("service-billing-archive", settings)).toBe(
+      false,
+    );
+    expect(
+      matchesDiscoveryPatterns("old-archive", patterns([], ["*-archive"])),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * GitHub Repositories
+ * The repositories an organization tracks and their sync state. Admins add repositories
+ * one by one, or turn on discovery to track every repository of a GitHub organization
+ * that matches include/exclude patterns. Disabled repositories are not synced.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service";
+import { queueGitHubBackfill, type BackfillRun } from "@/lib/backfill-runs";
+import type { GitHubAPIClient } from "@/integrations/github/github-api-client";
+
+export type GitHubSyncStatus =
+  "never_synced" | "queued" | "syncing" | "synced" | "failed";
+
+export interface GitHubRepository {
+  id: string;
+  owner: string;
+  name: string;
+  /** Lowercase "owner/repo", like knowledge_sources.repository */
+  fullName: string;
+  enabled: boolean;
+  /** Added by discovery rather than by an admin */
+  discovered: boolean;
+  syncStatus: GitHubSyncStatus;
+  /** When the last successful sync started; later changes are not synced yet */
+  syncCursor: string | null;
+  lastSyncedAt: string | null;
+  lastBackfillRunId: string | null;
+  lastError: string | null;
+}
+
+export interface GitHubDiscoverySettings {
+  enabled: boolean;
+  /** GitHub organization or user whose repositories are tracked */
+  accountLogin: string | null;
+  /** Globs on the repository name, e.g. "api-*"; empty includes every repository */
+  includePatterns: string[];
+  excludePatterns: string[];
+  includeForks: boolean;
+  includeArchived: boolean;
+  lastDiscoveredAt: string | null;
+}
+
+export type GitHubDiscoverySettingsChanges = Partial<
+  Omit<GitHubDiscoverySettings, "lastDiscoveredAt">
+>;
+
+export type GitHubSyncUpdate =
+  | { status: "syncing" }
+  | { status: "synced"; cursor: string }
+  | { status: "queued" | "failed"; error: string };
+
+const DEFAULT_DISCOVERY_SETTINGS: GitHubDiscoverySettings = {
+  enabled: false,
+  accountLogin: null,
+  includePatterns: [],
+  excludePatterns: [],
+  includeForks: false,
+  includeArchived: false,
+  lastDiscoveredAt: null,
+};
+
+const REPOSITORY_COLUMNS =
+  "id, owner, name, full_name, enabled, discovered, sync_status, sync_cursor, last_synced_at, last_backfill_run_id, last_error";
+
+const DISCOVERY_COLUMNS =
+  "enabled, account_login, include_patterns, exclude_patterns, include_forks, include_archived, last_discovered_at";
+
+export class GitHubRepositoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitHubRepositoryError";
+  }
+}
+
+type RepositoryRow = {
+  id: string;
+  owner: string;
+  name: string;
+  full_name: string;
+  enabled: boolean;
+  discovered: boolean;
+  sync_status: GitHubSyncStatus;
+  sync_cursor: string | null;
+  last_synced_at: string | null;
+  last_backfill_run_id: string | null;
+  last_error: string | null;
+};
+
+type DiscoveryRow = {
+  enabled: boolean;
+  account_login: string | null;
+  include_patterns: string[];
+  exclude_patterns: string[];
+  include_forks: boolean;
+  include_archived: boolean;
+  last_discovered_at: string | null;
+};
+
+/**
+ * Split "owner/repo", as typed by an admin or set in GITHUB_REPOSITORY
+ */
+export function parseRepositoryName(value: string): {
+  owner: string;
+  name: string;
+} {
+  const [owner, name, ...rest] = value.trim().split("/");
+  if (!owner || !name || rest.length > 0) {
+    throw new GitHubRepositoryError(
+      `Invalid repository "${value}". Expected: owner/repo`,
+    );
+  }
+  return { owner, name };
+}
+
+export async function listGitHubRepositories(
+  organizationId: string,
+  options: { enabledOnly?: boolean } = {},
+): Promise<GitHubRepository[]> {
+  const supabase = createServiceClient();
+  let query = supabase
+    .from("github_repositories")
+    .select(REPOSITORY_COLUMNS)
+    .eq("organization_id", organizationId);
+  if (options.enabledOnly) query = query.eq("enabled", true);
+
+  const { data, error } = await query.order("full_name");
+  if (error) throw error;
+  return (data || []).map(toRepository);
+}
+
+export async function getGitHubRepository(
+  organizationId: string,
+  repositoryId: string,
+): Promise<GitHubRepository | null> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("github_repositories")
+    .select(REPOSITORY_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("id", repositoryId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toRepository(data) : null;
+}
+
+/**
+ * Start tracking a repository; tracking one twice returns the existing row
+ */
+export async function addGitHubRepository(
+  organizationId: string,
+  fullName: string,
+  options: { discovered?: boolean } = {},
+): Promise<GitHubRepository> {
+  const { owner, name } = parseRepositoryName(fullName);
+  const supabase = createServiceClient();
+
+  const { data: existing, error: existingError } = await supabase
+    .from("github_repositories")
+    .select(REPOSITORY_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("full_name", `${owner}/${name}`.toLowerCase())
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing) return toRepository(existing);
+
+  const { data, error } = await supabase
+    .from("github_repositories")
+    .insert({
+      organization_id: organizationId,
+      owner,
+      name,
+      discovered: options.discovered ?? false,
+    })
+    .select(REPOSITORY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  console.log(`➕ [GITHUB REPOSITORIES] Tracking ${owner}/${name}`);
+  return toRepository(data);
+}
+
+export async function setGitHubRepositoryEnabled(
+  organizationId: string,
+  repositoryId: string,
+  enabled: boolean,
+): Promise<GitHubRepository | null> {
+  if (typeof enabled !== "boolean") {
+    throw new GitHubRepositoryError("enabled must be a boolean");
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("github_repositories")
+    .update({ enabled, updated_at: new Date().toISOString() })
+    .eq("organization_id", organizationId)
+    .eq("id", repositoryId)
+    .select(REPOSITORY_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toRepository(data) : null;
+}
+
+/**
+ * Stop tracking a repository and forget its sync cursors. Its knowledge stays; discovery
+ * may add it again unless an exclude pattern matches it, so disabling is usually what
+ * admins want.
+ */
+export async function removeGitHubRepository(
+  organizationId: string,
+  repositoryId: string,
+): Promise<boolean> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("github_repositories")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("id", repositoryId)
+    .select("full_name");
+
+  if (error) throw error;
+  const [removed] = data || [];
+  if (!removed) return false;
+
+  // Tracking it again starts over with a full sync
+  const { error: stateError } = await supabase
+    .from("github_sync_state")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("repository", removed.full_name);
+
+  if (stateError) throw stateError;
+  return true;
+}
+
+/**
+ * Whether webhook deliveries for the repository should be processed: it is tracked and
+ * enabled, or not tracked yet but discovery would add it
+ */
+export async function isGitHubRepositoryTracked(
+  organizationId: string,
+  fullName: string,
+): Promise<boolean> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("github_repositories")
+    .select("enabled")
+    .eq("organization_id", organizationId)
+    .eq("full_name", fullName.toLowerCase())
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return data.enabled;
+
+  const discovery = await getGitHubDiscoverySettings(organizationId);
+  const { owner, name } = parseRepositoryName(fullName);
+  return (
+    discovery.enabled &&
+    discovery.accountLogin?.toLowerCase() === owner.toLowerCase() &&
+    matchesDiscoveryPatterns(name, discovery)
+  );
+}
+
+/**
+ * Queue a backfill of one repository
+ */
+export async function queueGitHubRepositorySync(
+  organizationId: string,
+  repository: GitHubRepository,
+): Promise<BackfillRun> {
+  if (!repository.enabled) {
+    throw new GitHubRepositoryError(
+      `${repository.owner}/${repository.name} is disabled`,
+    );
+  }
+
+  const run = await queueGitHubBackfill(
+    organizationId,
+    repository.owner,
+    repository.name,
+  );
+
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from("github_repositories")
+    .update({
+      // A run that is already going keeps its status
+      ...(run.status === "queued" && { sync_status: "queued" }),
+      last_backfill_run_id: run.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", repository.id);
+
+  if (error) throw error;
+  return run;
+}
+
+/**
+ * Queue a backfill of every enabled repository
+ */
+export async function queueEnabledGitHubRepositorySyncs(
+  organizationId: string,
+): Promise<BackfillRun[]> {
+  const repositories = await listGitHubRepositories(organizationId, {
+    enabledOnly: true,
+  });
+
+  const runs: BackfillRun[] = [];
+  for (const repository of repositories) {
+    runs.push(await queueGitHubRepositorySync(organizationId, repository));
+  }
+  return runs;
+}
+
+/**
+ * Record how a backfill of a tracked repository is going. Untracked repositories are
+ * ignored, and failures are only logged: the backfill itself matters more.
+ */
+export async function recordGitHubRepositorySync(
+  organizationId: string,
+  owner: string,
+  name: string,
+  update: GitHubSyncUpdate,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from("github_repositories")
+    .update({
+      sync_status: update.status,
+      ...(update.status === "synced" && {
+        sync_cursor: update.cursor,
+        last_synced_at: now,
+        last_error: null,
+      }),
+      ...("error" in update && { last_error: update.error }),
+      updated_at: now,
+    })
+    .eq("organization_id", organizationId)
+    .eq("full_name", `${owner}/${name}`.toLowerCase());
+
+  if (error) {
+    console.error(
+      `❌ [GITHUB REPOSITORIES] Failed to record sync of ${owner}/${name}:`,
+      error,
+    );
+  }
+}
+
+export async function getGitHubDiscoverySettings(
+  organizationId: string,
+): Promise<GitHubDiscoverySettings> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("github_discovery_settings")
+    .select(DISCOVERY_COLUMNS)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toDiscoverySettings(data) : DEFAULT_DISCOVERY_SETTINGS;
+}
+
+/**
+ * Change some of the discovery settings; the others keep their current value
+ */
+export async function updateGitHubDiscoverySettings(
+  organizationId: string,
+  changes: GitHubDiscoverySettingsChanges,
+): Promise<GitHubDiscoverySettings> {
+  const settings = {
+    ...(await getGitHubDiscoverySettings(organizationId)),
+    ...changes,
+  };
+
+  for (const key of ["enabled", "includeForks", "includeArchived"] as const) {
+    if (typeof settings[key] !== "boolean") {
+      throw new GitHubRepositoryError(`${key} must be a boolean`);
+    }
+  }
+  for (const key of ["includePatterns", "excludePatterns"] as const) {
+    const patterns = settings[key];
+    if (
+      !Array.isArray(patterns) ||
+      patterns.some((pattern) => typeof pattern !== "string")
+    ) {
+      throw new GitHubRepositoryError(`${key} must be an array of strings`);
+    }
+  }
+  if (
+    settings.accountLogin !== null &&
+    typeof settings.accountLogin !== "string"
+  ) {
+    throw new GitHubRepositoryError("accountLogin must be a string");
+  }
+  const accountLogin = settings.accountLogin?.trim() || null;
+  if (settings.enabled && !accountLogin) {
+    throw new GitHubRepositoryError(
+      "accountLogin is required to enable discovery",
+    );
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("github_discovery_settings")
+    .upsert({
+      organization_id: organizationId,
+      enabled: settings.enabled,
+      account_login: accountLogin,
+      include_patterns: cleanPatterns(settings.includePatterns),
+      exclude_patterns: cleanPatterns(settings.excludePatterns),
+      include_forks: settings.includeForks,
+      include_archived: settings.includeArchived,
+      updated_at: new Date().toISOString(),
+    })
+    .select(DISCOVERY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toDiscoverySettings(data);
+}
+
+/**
+ * Whether a repository name passes the include and exclude patterns
+ */
+export function matchesDiscoveryPatterns(
+  name: string,
+  settings: Pick<
+    GitHubDiscoverySettings,
+    "includePatterns" | "excludePatterns"
+  >,
+): boolean {
+  const matches = (pattern: string) => globToRegExp(pattern).test(name);
+  return (
+    (settings.includePatterns.length === 0 ||
+      settings.includePatterns.some(matches)) &&
+    !settings.excludePatterns.some(matches)
+  );
+}
+
+/**
+ * Track the repositories of the discovery account that match the patterns and queue a
+ * sync of the new ones. Repositories already tracked keep their enabled toggle.
+ */
+export async function discoverGitHubRepositories(
+  organizationId: string,
+  client: GitHubAPIClient,
+): Promise<{ found: number; matched: number; added: string[] }> {
+  const settings = await getGitHubDiscoverySettings(organizationId);
+  if (!settings.enabled || !settings.accountLogin) {
+    console.log(
+      `⏭️ [GITHUB REPOSITORIES] Discovery is off for organization ${organizationId}`,
+    );
+    return { found: 0, matched: 0, added: [] };
+  }
+
+  const found = await client.fetchAccountRepositories(settings.accountLogin);
+  const matched = found.filter(
+    (repository) =>
+      (settings.includeForks || !repository.fork) &&
+      (settings.includeArchived || !repository.archived) &&
+      matchesDiscoveryPatterns(repository.name, settings),
+  );
+
+  const tracked = new Set(
+    (await listGitHubRepositories(organizationId)).map(
+      (repository) => repository.fullName,
+    ),
+  );
+
+  const added: string[] = [];
+  for (const { owner, name } of matched) {
+    const fullName = `${owner}/${name}`;
+    if (tracked.has(fullName.toLowerCase())) continue;
+
+    const repository = await addGitHubRepository(organizationId, fullName, {
+      discovered: true,
+    });
+    await queueGitHubRepositorySync(organizationId, repository);
+    added.push(fullName);
+  }
+
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from("github_discovery_settings")
+    .update({ last_discovered_at: new Date().toISOString() })
+    .eq("organization_id", organizationId);
+  if (error) throw error;
+
+  console.log(
+    `🔭 [GITHUB REPOSITORIES] Discovered ${found.length} repositories of ${settings.accountLogin}, ${matched.length} matching, ${added.length} new`,
+  );
+  return { found: found.length, matched: matched.length, added };
+}
+
+function cleanPatterns(patterns: string[]): string[] {
+  return patterns.map((pattern) => pattern.trim()).filter(Boolean);
+}
+
+/** "*" matches any run of characters and "?" one character, ignoring case */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .trim()
+    .split("*")
+    .map((part) =>
+      part
+        .split("?")
+        .map((text) => text.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+        .join("."),
+    )
+    .join(".*");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function toRepository(row: RepositoryRow): GitHubRepository {
+  return {
+    id: row.id,
+    owner: row.owner,
+    name: row.name,
+    fullName: row.full_name,
+    enabled: row.enabled,
+    discovered: row.discovered,
+    syncStatus: row.sync_status,
+    syncCursor: row.sync_cursor,
+    lastSyncedAt: row.last_synced_at,
+    lastBackfillRunId: row.last_backfill_run_id,
+    lastError: row.last_error,
+  };
+}
+
+function toDiscoverySettings(row: DiscoveryRow): GitHubDiscoverySettings {
+  return {
+    enabled: row.enabled,
+    accountLogin: row.account_login,
+    includePatterns: row.include_patterns,
+    excludePatterns: row.exclude_patterns,
+    includeForks: row.include_forks,
+    includeArchived: row.include_archived,
+    lastDiscoveredAt: row.last_discovered_at,
+  };
+}
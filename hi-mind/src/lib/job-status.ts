@@ -0,0 +1,37 @@
+/**
+ * Job Status
+ * Client helper for waiting on a background job started through the API.
+ */
+
+import type { Job } from "@/core/jobs";
+
+const POLL_INTERVAL_MS = 2000;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Poll /api/jobs/[id] until the job succeeds or is dead-lettered.
+ * Resolves with the finished job; rejects on timeout or when the job cannot be read.
+ */
+export async function waitForJob(
+  jobId: string,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<Job> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(`/api/jobs/${jobId}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to fetch job status");
+    }
+
+    const job = data.job as Job;
+    if (job.status === "succeeded" || job.status === "dead") {
+      return job;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error("Timed out waiting for the job to finish");
+}
@@ -1,8 +1,21 @@
 /**
- * Simple Organization Management
- * Provides clean organization context throughout the application
+ * Organization Resolution
+ * Every request and every integration event is scoped to exactly one organization.
+ *
+ * HTTP requests resolve their organization, in order, from:
+ *   1. An organization API key (x-himind-api-key header or "Authorization: Bearer himind_...")
+ *   2. The x-himind-organization header (organization slug or id)
+ *   3. The request subdomain, when HIMIND_BASE_DOMAIN is set (acme.himind.example → "acme")
+ *
+ * Integration events resolve from their install: the Slack team ID or the GitHub
+ * installation / account that the organization linked in organization_integrations.
+ *
+ * Deployments with a single organization keep working without any of the above:
+ * when exactly one organization exists it is used as the fallback. With two or more
+ * organizations nothing is ever guessed.
  */
 
+import { createHash, randomBytes } from "crypto";
 import { getSupabaseClient } from "@/lib/database";
 import { createServiceClient } from "@/utils/supabase/service";
 
@@ -13,71 +26,434 @@ export interface Organization {
   created_at: string;
 }
 
-/**
- * Get the current organization for the session
- * For MVP: Just use the first available organization
- * Future: Could be based on user auth, subdomain, etc.
- */
-export async function getCurrentOrganization(): Promise<Organization | null> {
-  // Use service client to avoid cookies dependency during startup
-  let supabase;
-  let clientType;
+export interface OrganizationIntegration {
+  id: string;
+  organization_id: string;
+  platform: "slack" | "github";
+  external_id: string;
+  account_login: string | null;
+  display_name: string | null;
+  created_at: string;
+}
+
+export type OrganizationRole = "admin" | "member" | "read_only";
+
+export const ORGANIZATION_ROLES: OrganizationRole[] = ["admin", "member", "read_only"];
+
+export interface OrganizationApiKey {
+  id: string;
+  organization_id: string;
+  name: string;
+  key_prefix: string;
+  role: OrganizationRole;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export const ORGANIZATION_HEADER = "x-himind-organization";
+export const API_KEY_HEADER = "x-himind-api-key";
+const API_KEY_PREFIX = "himind_";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getOrganizationClient() {
+  // Use service client to avoid cookies dependency during startup and in integrations
   try {
-    supabase = createServiceClient();
-    clientType = "service";
+    return createServiceClient();
   } catch (error) {
     // Fallback to regular client if service role key not available
-    supabase = getSupabaseClient(true);
-    clientType = "regular";
     console.log("⚠️ [ORG] Service client failed, using regular client:", error);
+    return getSupabaseClient(true);
   }
-  
-  console.log(`🔍 [ORG] Looking for organization using ${clientType} client...`);
-  
-  const { data: org, error } = await supabase
+}
+
+// =========================
+// Request Resolution
+// =========================
+
+/**
+ * Resolve the organization an API request belongs to
+ */
+export async function resolveRequestOrganization(
+  request: Request,
+): Promise<Organization | null> {
+  const apiKey = getRequestApiKey(request);
+  if (apiKey) {
+    // An invalid key never falls through to weaker resolution methods
+    const org = await getOrganizationByApiKey(apiKey);
+    if (!org) console.log("⚠️ [ORG] Request carried an unknown or revoked API key");
+    return org;
+  }
+
+  const requested = await getRequestedOrganization(request);
+  if (requested.specified) return requested.organization;
+
+  return getSingleTenantOrganization();
+}
+
+/**
+ * Resolve the organization a request names explicitly through the header or subdomain.
+ * `specified` is false when the request names none, so callers can pick their own fallback.
+ */
+export async function getRequestedOrganization(
+  request: Request,
+): Promise<{ specified: boolean; organization: Organization | null }> {
+  const headerValue = request.headers.get(ORGANIZATION_HEADER)?.trim();
+  if (headerValue) {
+    const org = UUID_PATTERN.test(headerValue)
+      ? await getOrganizationById(headerValue)
+      : await getOrganizationBySlug(headerValue);
+    if (!org) console.log(`⚠️ [ORG] No organization matches header "${headerValue}"`);
+    return { specified: true, organization: org };
+  }
+
+  const subdomain = getRequestSubdomain(request);
+  if (subdomain) {
+    const org = await getOrganizationBySlug(subdomain);
+    if (!org) console.log(`⚠️ [ORG] No organization matches subdomain "${subdomain}"`);
+    return { specified: true, organization: org };
+  }
+
+  return { specified: false, organization: null };
+}
+
+export function getRequestApiKey(request: Request): string | null {
+  const headerKey = request.headers.get(API_KEY_HEADER)?.trim();
+  if (headerKey) return headerKey;
+
+  const authorization = request.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  return bearer?.startsWith(API_KEY_PREFIX) ? bearer : null;
+}
+
+function getRequestSubdomain(request: Request): string | null {
+  const baseDomain = process.env.HIMIND_BASE_DOMAIN?.toLowerCase();
+  if (!baseDomain) return null;
+
+  const host = (
+    request.headers.get("x-forwarded-host") ||
+    request.headers.get("host") ||
+    ""
+  )
+    .split(",")[0]
+    .trim()
+    .toLowerCase()
+    .replace(/:\d+$/, "");
+
+  if (!host.endsWith(`.${baseDomain}`)) return null;
+
+  const subdomain = host.slice(0, -(baseDomain.length + 1));
+  // Only a single label identifies an organization (acme.himind.example, not a.b.himind.example)
+  return subdomain && !subdomain.includes(".") ? subdomain : null;
+}
+
+/**
+ * The only organization, if the deployment hosts exactly one
+ */
+export async function getSingleTenantOrganization(): Promise<Organization | null> {
+  const supabase = getOrganizationClient();
+
+  const { data: orgs, error } = await supabase
     .from('organizations')
     .select('*')
-    .limit(1)
-    .single();
-    
+    .order('created_at', { ascending: true })
+    .limit(2);
+
   if (error) {
     console.error(`❌ [ORG] Database error:`, error);
-  } else if (org) {
-    console.log(`✅ [ORG] Found organization:`, { id: org.id, name: org.name, slug: org.slug });
-  } else {
+    return null;
+  }
+
+  if (!orgs || orgs.length === 0) {
     console.log(`⚠️ [ORG] No organization found in database`);
+    return null;
   }
-    
-  return org;
+
+  if (orgs.length > 1) {
+    console.log(`⚠️ [ORG] Multiple organizations exist and none was specified`);
+    return null;
+  }
+
+  return orgs[0];
+}
+
+// =========================
+// Integration Resolution
+// =========================
+
+/**
+ * Resolve the organization that installed HiMind into a Slack workspace
+ */
+export async function getOrganizationForSlackTeam(
+  teamId: string | undefined,
+): Promise<Organization | null> {
+  if (teamId) {
+    const org = await getOrganizationForIntegration("slack", { externalId: teamId });
+    if (org) return org;
+  }
+
+  const fallback = await getSingleTenantOrganization();
+  if (fallback && teamId) {
+    // Remember the install so the workspace keeps resolving once more organizations exist
+    await linkOrganizationIntegration(fallback.id, "slack", teamId);
+  }
+  return fallback;
+}
+
+/**
+ * Resolve the organization for a GitHub App installation
+ */
+export async function getOrganizationForGitHubInstallation(
+  installationId: string | number,
+): Promise<Organization | null> {
+  const org = await getOrganizationForIntegration("github", {
+    externalId: String(installationId),
+  });
+  return org ?? getSingleTenantOrganization();
 }
 
+/**
+ * Resolve the organization for a GitHub user or organization login (token-based installs)
+ */
+export async function getOrganizationForGitHubAccount(
+  accountLogin: string,
+): Promise<Organization | null> {
+  const org = await getOrganizationForIntegration("github", { accountLogin });
+  if (org) return org;
+
+  const fallback = await getSingleTenantOrganization();
+  if (fallback) {
+    // Remember the account so its webhooks keep resolving once more organizations exist.
+    // Token-based installs have no installation ID; the login identifies the account.
+    await linkOrganizationIntegration(fallback.id, "github", accountLogin.toLowerCase(), {
+      accountLogin,
+    });
+  }
+  return fallback;
+}
+
+async function getOrganizationForIntegration(
+  platform: OrganizationIntegration["platform"],
+  match: { externalId?: string; accountLogin?: string },
+): Promise<Organization | null> {
+  const supabase = getOrganizationClient();
+
+  let query = supabase
+    .from('organization_integrations')
+    .select('organizations(*)')
+    .eq('platform', platform);
+
+  if (match.externalId) query = query.eq('external_id', match.externalId);
+  if (match.accountLogin) query = query.ilike('account_login', match.accountLogin);
+
+  const { data, error } = await query.limit(1).maybeSingle();
+
+  if (error) {
+    console.error(`❌ [ORG] Failed to resolve ${platform} integration:`, error);
+    return null;
+  }
+
+  return ((data as { organizations?: Organization } | null)?.organizations) ?? null;
+}
+
+/**
+ * Link a Slack workspace or GitHub installation to an organization
+ */
+export async function linkOrganizationIntegration(
+  organizationId: string,
+  platform: OrganizationIntegration["platform"],
+  externalId: string,
+  options: { accountLogin?: string; displayName?: string } = {},
+): Promise<OrganizationIntegration> {
+  const supabase = getOrganizationClient();
+
+  const { data, error } = await supabase
+    .from('organization_integrations')
+    .upsert(
+      {
+        organization_id: organizationId,
+        platform,
+        external_id: externalId,
+        account_login: options.accountLogin ?? null,
+        display_name: options.displayName ?? null,
+      },
+      { onConflict: 'platform,external_id' },
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  console.log(`🔗 [ORG] Linked ${platform}:${externalId} to organization ${organizationId}`);
+  return data;
+}
+
+export async function listOrganizationIntegrations(
+  organizationId: string,
+): Promise<OrganizationIntegration[]> {
+  const supabase = getOrganizationClient();
+
+  const { data, error } = await supabase
+    .from('organization_integrations')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// =========================
+// API Keys
+// =========================
+
+const API_KEY_COLUMNS =
+  'id, organization_id, name, key_prefix, role, created_at, last_used_at, revoked_at';
+
+function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Create an API key for an organization. The plaintext key is only returned here.
+ */
+export async function createOrganizationApiKey(
+  organizationId: string,
+  name: string,
+  role: OrganizationRole = "member",
+): Promise<{ apiKey: string; record: OrganizationApiKey }> {
+  const supabase = getOrganizationClient();
+  const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString("hex")}`;
+
+  const { data, error } = await supabase
+    .from('organization_api_keys')
+    .insert({
+      organization_id: organizationId,
+      name,
+      key_hash: hashApiKey(apiKey),
+      key_prefix: apiKey.substring(0, API_KEY_PREFIX.length + 6),
+      role,
+    })
+    .select(API_KEY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { apiKey, record: data };
+}
+
+export async function listOrganizationApiKeys(
+  organizationId: string,
+): Promise<OrganizationApiKey[]> {
+  const supabase = getOrganizationClient();
+
+  const { data, error } = await supabase
+    .from('organization_api_keys')
+    .select(API_KEY_COLUMNS)
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function revokeOrganizationApiKey(
+  organizationId: string,
+  apiKeyId: string,
+): Promise<boolean> {
+  const supabase = getOrganizationClient();
+
+  const { data, error } = await supabase
+    .from('organization_api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', apiKeyId)
+    .eq('organization_id', organizationId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
+
+export async function getOrganizationByApiKey(
+  apiKey: string,
+): Promise<Organization | null> {
+  const access = await getApiKeyAccess(apiKey);
+  return access?.organization ?? null;
+}
+
+/**
+ * Resolve an API key to its organization and the role it was issued with
+ */
+export async function getApiKeyAccess(
+  apiKey: string,
+): Promise<{ organization: Organization; apiKeyId: string; role: OrganizationRole } | null> {
+  const supabase = getOrganizationClient();
+
+  const { data: key } = await supabase
+    .from('organization_api_keys')
+    .select('id, role, organizations(*)')
+    .eq('key_hash', hashApiKey(apiKey))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  const organization = (key as { organizations?: Organization } | null)?.organizations;
+  if (!key || !organization) return null;
+
+  await supabase
+    .from('organization_api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', key.id);
+
+  return { organization, apiKeyId: key.id, role: key.role as OrganizationRole };
+}
+
+// =========================
+// Lookups
+// =========================
+
 /**
  * Create a new organization
  */
 export async function createOrganization(name: string, slug: string): Promise<Organization> {
   const supabase = getSupabaseClient(true);
-  
+
   const { data: org, error } = await supabase
     .from('organizations')
     .insert({ name, slug })
     .select()
     .single();
-    
+
   if (error) throw error;
   return org;
 }
 
+/**
+ * Get organization by id
+ */
+export async function getOrganizationById(id: string): Promise<Organization | null> {
+  const supabase = getOrganizationClient();
+
+  const { data: org } = await supabase
+    .from('organizations')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  return org;
+}
+
 /**
  * Get organization by slug
  */
 export async function getOrganizationBySlug(slug: string): Promise<Organization | null> {
-  const supabase = getSupabaseClient(true);
-  
+  const supabase = getOrganizationClient();
+
   const { data: org } = await supabase
     .from('organizations')
     .select('*')
     .eq('slug', slug)
-    .single();
-    
+    .maybeSingle();
+
   return org;
-}
\ No newline at end of file
+}
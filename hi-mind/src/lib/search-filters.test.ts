@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { parseSearchFilterParams, parseSearchFilters } from "./search-filters";
+
+const PERSON_ID = "7f9c2b1e-4d3a-4b8e-9c1f-2a6d5e8b0c47";
+
+describe("parseSearchFilters", () => {
+  it("treats missing filters as no filters", () => {
+    expect(parseSearchFilters(undefined)).toEqual({ filters: {}, error: null });
+    expect(parseSearchFilters(null)).toEqual({ filters: {}, error: null });
+  });
+
+  it("rejects filters that are not an object", () => {
+    expect(parseSearchFilters("slack").error).toBe("filters must be an object");
+    expect(parseSearchFilters(["slack"]).error).toBe(
+      "filters must be an object",
+    );
+  });
+
+  it("normalises valid filters", () => {
+    const { filters, error } = parseSearchFilters({
+      platform: "github",
+      sourceTypes: "github_pr",
+      authorPersonIds: [PERSON_ID],
+      channelIds: ["#C0123", " C0456 "],
+      repositories: ["acme/api"],
+      createdAfter: "2025-06-01",
+      createdBefore: "2025-07-01T12:00:00Z",
+    });
+
+    expect(error).toBeNull();
+    expect(filters).toEqual({
+      platform: "github",
+      sourceTypes: ["github_pr"],
+      authorPersonIds: [PERSON_ID],
+      channelIds: ["C0123", "C0456"],
+      repositories: ["acme/api"],
+      createdAfter: "2025-06-01T00:00:00.000Z",
+      createdBefore: "2025-07-01T12:00:00.000Z",
+    });
+  });
+
+  it("leaves out empty values", () => {
+    expect(
+      parseSearchFilters({
+        platform: "",
+        sourceTypes: [],
+        channelIds: [" "],
+        createdAfter: "",
+      }),
+    ).toEqual({ filters: {}, error: null });
+  });
+
+  it.each([
+    [{ platform: "jira" }, "filters.platform must be one of slack, github"],
+    [{ sourceTypes: [1] }, "filters.sourceTypes must be a list of strings"],
+    [
+      { authorPersonIds: ["alice"] },
+      "filters.authorPersonIds must be a list of person IDs",
+    ],
+    [
+      { channelIds: { id: "C0123" } },
+      "filters.channelIds must be a list of strings",
+    ],
+    [
+      { repositories: ["api"] },
+      'filters.repositories must be a list of "owner/repo" names',
+    ],
+    [
+      { createdBefore: "yesterday" },
+      "filters.createdBefore must be an ISO date",
+    ],
+    [
+      { createdAfter: "2025-07-01", createdBefore: "2025-06-01" },
+      "filters.createdAfter must be before filters.createdBefore",
+    ],
+  ])("rejects %j", (input, message) => {
+    expect(parseSearchFilters(input)).toEqual({
+      filters: null,
+      error: message,
+    });
+  });
+
+  it("names the unknown source type", () => {
+    expect(
+      parseSearchFilters({ sourceTypes: ["slack_message", "jira_ticket"] })
+        .error,
+    ).toMatch(/^Unknown source type "jira_ticket"/);
+  });
+});
+
+describe("parseSearchFilterParams", () => {
+  it("reads repeated and comma separated query parameters", () => {
+    const params = new URLSearchParams(
+      "platform=slack&sourceType=slack_message,slack_thread&channel=C1&channel=C2&after=2025-06-01",
+    );
+
+    expect(parseSearchFilterParams(params)).toEqual({
+      filters: {
+        platform: "slack",
+        sourceTypes: ["slack_message", "slack_thread"],
+        channelIds: ["C1", "C2"],
+        createdAfter: "2025-06-01T00:00:00.000Z",
+      },
+      error: null,
+    });
+  });
+
+  it("validates query parameters like a request body", () => {
+    const params = new URLSearchParams(`author=${PERSON_ID},not-a-uuid`);
+    expect(parseSearchFilterParams(params).error).toBe(
+      "filters.authorPersonIds must be a list of person IDs",
+    );
+  });
+});
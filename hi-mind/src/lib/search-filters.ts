@@ -0,0 +1,134 @@
+/**
+ * Search Filters
+ * Parses and validates the structured filters accepted by the search API routes.
+ */
+
+import type { KnowledgeSource, SearchFilters } from "@/core/knowledge-engine";
+
+export const SEARCH_PLATFORMS: KnowledgeSource["platform"][] = ["slack", "github"];
+
+export const SEARCH_SOURCE_TYPES: KnowledgeSource["sourceType"][] = [
+  "slack_message",
+  "slack_thread",
+  "github_pr",
+  "github_issue",
+  "github_comment",
+  "github_commit",
+];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const REPOSITORY_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+export type ParsedSearchFilters =
+  | { filters: SearchFilters; error: null }
+  | { filters: null; error: string };
+
+/**
+ * Validate the `filters` object of a search request body
+ */
+export function parseSearchFilters(input: unknown): ParsedSearchFilters {
+  if (input === undefined || input === null) {
+    return { filters: {}, error: null };
+  }
+  if (typeof input !== "object" || Array.isArray(input)) {
+    return { filters: null, error: "filters must be an object" };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  if (raw.platform !== undefined && raw.platform !== null && raw.platform !== "") {
+    if (!SEARCH_PLATFORMS.includes(raw.platform as KnowledgeSource["platform"])) {
+      return { filters: null, error: `filters.platform must be one of ${SEARCH_PLATFORMS.join(", ")}` };
+    }
+    filters.platform = raw.platform as KnowledgeSource["platform"];
+  }
+
+  const sourceTypes = toStringList(raw.sourceTypes);
+  if (sourceTypes === null) {
+    return { filters: null, error: "filters.sourceTypes must be a list of strings" };
+  }
+  const unknownType = sourceTypes.find(
+    (type) => !SEARCH_SOURCE_TYPES.includes(type as KnowledgeSource["sourceType"]),
+  );
+  if (unknownType) {
+    return { filters: null, error: `Unknown source type "${unknownType}" (expected ${SEARCH_SOURCE_TYPES.join(", ")})` };
+  }
+  if (sourceTypes.length > 0) {
+    filters.sourceTypes = sourceTypes as KnowledgeSource["sourceType"][];
+  }
+
+  const authorPersonIds = toStringList(raw.authorPersonIds);
+  if (authorPersonIds === null || authorPersonIds.some((id) => !UUID_PATTERN.test(id))) {
+    return { filters: null, error: "filters.authorPersonIds must be a list of person IDs" };
+  }
+  if (authorPersonIds.length > 0) {
+    filters.authorPersonIds = authorPersonIds;
+  }
+
+  const channelIds = toStringList(raw.channelIds);
+  if (channelIds === null) {
+    return { filters: null, error: "filters.channelIds must be a list of strings" };
+  }
+  if (channelIds.length > 0) {
+    // Accept "#C0123" as typed from Slack, the database stores the bare ID
+    filters.channelIds = channelIds.map((id) => id.replace(/^#/, ""));
+  }
+
+  const repositories = toStringList(raw.repositories);
+  if (repositories === null || repositories.some((repo) => !REPOSITORY_PATTERN.test(repo))) {
+    return { filters: null, error: 'filters.repositories must be a list of "owner/repo" names' };
+  }
+  if (repositories.length > 0) {
+    filters.repositories = repositories;
+  }
+
+  for (const key of ["createdAfter", "createdBefore"] as const) {
+    const value = raw[key];
+    if (value === undefined || value === null || value === "") continue;
+    if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+      return { filters: null, error: `filters.${key} must be an ISO date` };
+    }
+    filters[key] = new Date(value).toISOString();
+  }
+
+  if (
+    filters.createdAfter &&
+    filters.createdBefore &&
+    filters.createdAfter >= filters.createdBefore
+  ) {
+    return { filters: null, error: "filters.createdAfter must be before filters.createdBefore" };
+  }
+
+  return { filters, error: null };
+}
+
+/**
+ * Read filters from query parameters. List filters may repeat or be comma separated:
+ * ?platform=github&sourceType=github_pr&repository=acme/api&after=2025-06-01
+ */
+export function parseSearchFilterParams(searchParams: URLSearchParams): ParsedSearchFilters {
+  const list = (name: string) =>
+    searchParams
+      .getAll(name)
+      .flatMap((value) => value.split(","))
+      .filter(Boolean);
+
+  return parseSearchFilters({
+    platform: searchParams.get("platform") ?? undefined,
+    sourceTypes: list("sourceType"),
+    authorPersonIds: list("author"),
+    channelIds: list("channel"),
+    repositories: list("repository"),
+    createdAfter: searchParams.get("after") ?? undefined,
+    createdBefore: searchParams.get("before") ?? undefined,
+  });
+}
+
+/** Normalise a string or list of strings; null when the value has the wrong shape */
+function toStringList(value: unknown): string[] | null {
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  if (!values.every((item) => typeof item === "string")) return null;
+  return values.map((item: string) => item.trim()).filter(Boolean);
+}
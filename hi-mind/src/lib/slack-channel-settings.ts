@@ -0,0 +1,180 @@
+/**
+ * Slack Channel Settings
+ * Per-channel switches for HiMind in Slack. Proactive answer suggestions are off until
+ * a channel enables them; channels without a settings row use the defaults.
+ */
+
+import { createServiceClient } from "@/utils/supabase/service";
+
+export interface SlackChannelSettings {
+  channelId: string;
+  suggestionsEnabled: boolean;
+  /** Matches scoring below this are never suggested */
+  minConfidence: number;
+  /** At most one suggestion per channel in this many minutes */
+  cooldownMinutes: number;
+  lastSuggestedAt: string | null;
+}
+
+export type SlackChannelSettingsChanges = Partial<
+  Pick<
+    SlackChannelSettings,
+    "suggestionsEnabled" | "minConfidence" | "cooldownMinutes"
+  >
+>;
+
+const DEFAULT_SETTINGS: Omit<SlackChannelSettings, "channelId"> = {
+  suggestionsEnabled: false,
+  minConfidence: 0.75,
+  cooldownMinutes: 30,
+  lastSuggestedAt: null,
+};
+
+const SETTINGS_COLUMNS =
+  "channel_id, suggestions_enabled, min_confidence, cooldown_minutes, last_suggested_at";
+
+export class SlackChannelSettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlackChannelSettingsError";
+  }
+}
+
+type SettingsRow = {
+  channel_id: string;
+  suggestions_enabled: boolean;
+  min_confidence: number;
+  cooldown_minutes: number;
+  last_suggested_at: string | null;
+};
+
+export async function getSlackChannelSettings(
+  organizationId: string,
+  channelId: string,
+): Promise<SlackChannelSettings> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("slack_channel_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("channel_id", channelId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toSettings(data) : { channelId, ...DEFAULT_SETTINGS };
+}
+
+/**
+ * Channels with stored settings
+ */
+export async function listSlackChannelSettings(
+  organizationId: string,
+): Promise<SlackChannelSettings[]> {
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("slack_channel_settings")
+    .select(SETTINGS_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("channel_id");
+
+  if (error) throw error;
+  return (data || []).map(toSettings);
+}
+
+/**
+ * Change some of a channel's settings; the others keep their current value
+ */
+export async function updateSlackChannelSettings(
+  organizationId: string,
+  channelId: string,
+  changes: SlackChannelSettingsChanges,
+): Promise<SlackChannelSettings> {
+  const settings = {
+    ...(await getSlackChannelSettings(organizationId, channelId)),
+    ...changes,
+  };
+
+  if (typeof settings.suggestionsEnabled !== "boolean") {
+    throw new SlackChannelSettingsError("suggestionsEnabled must be a boolean");
+  }
+  if (
+    typeof settings.minConfidence !== "number" ||
+    settings.minConfidence < 0 ||
+    settings.minConfidence > 1
+  ) {
+    throw new SlackChannelSettingsError(
+      "minConfidence must be a number between 0 and 1",
+    );
+  }
+  if (
+    !Number.isInteger(settings.cooldownMinutes) ||
+    settings.cooldownMinutes < 0
+  ) {
+    throw new SlackChannelSettingsError(
+      "cooldownMinutes must be a non-negative integer",
+    );
+  }
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from("slack_channel_settings")
+    .upsert({
+      organization_id: organizationId,
+      channel_id: channelId,
+      suggestions_enabled: settings.suggestionsEnabled,
+      min_confidence: settings.minConfidence,
+      cooldown_minutes: settings.cooldownMinutes,
+      updated_at: new Date().toISOString(),
+    })
+    .select(SETTINGS_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toSettings(data);
+}
+
+/**
+ * Whether the channel's cooldown has passed since its last suggestion
+ */
+export function isSuggestionCooldownOver(
+  settings: SlackChannelSettings,
+  now = new Date(),
+): boolean {
+  if (!settings.lastSuggestedAt) return true;
+  const elapsedMs =
+    now.getTime() - new Date(settings.lastSuggestedAt).getTime();
+  return elapsedMs >= settings.cooldownMinutes * 60 * 1000;
+}
+
+/**
+ * Take the channel's suggestion slot. Returns false when another suggestion took it
+ * since the settings were read, so two questions at once do not both get a reply.
+ */
+export async function claimSuggestionSlot(
+  organizationId: string,
+  settings: SlackChannelSettings,
+): Promise<boolean> {
+  const supabase = createServiceClient();
+  let query = supabase
+    .from("slack_channel_settings")
+    .update({ last_suggested_at: new Date().toISOString() })
+    .eq("organization_id", organizationId)
+    .eq("channel_id", settings.channelId);
+  query = settings.lastSuggestedAt
+    ? query.eq("last_suggested_at", settings.lastSuggestedAt)
+    : query.is("last_suggested_at", null);
+
+  const { data, error } = await query.select("channel_id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+function toSettings(row: SettingsRow): SlackChannelSettings {
+  return {
+    channelId: row.channel_id,
+    suggestionsEnabled: row.suggestions_enabled,
+    minConfidence: row.min_confidence,
+    cooldownMinutes: row.cooldown_minutes,
+    lastSuggestedAt: row.last_suggested_at,
+  };
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+
+// Mirrors ACCESS_TOKEN_COOKIE / REFRESH_TOKEN_COOKIE in lib/auth, which is not edge-safe
+const SESSION_COOKIES = ["himind-access-token", "himind-refresh-token"];
+
+/**
+ * Send visitors without a session to the sign-in page. This only checks that a session
+ * cookie exists; API routes verify the session and role themselves through withAuth.
+ */
+export function middleware(request: NextRequest) {
+  const hasSession = SESSION_COOKIES.some((name) => request.cookies.has(name));
+  if (hasSession) return NextResponse.next();
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", request.nextUrl.pathname + request.nextUrl.search);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  // Pages only: API routes answer 401 themselves, and the sign-in page must stay reachable
+  matcher: ["/((?!api|login|_next/static|_next/image|favicon.ico).*)"],
+};
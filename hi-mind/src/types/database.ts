@@ -39,6 +39,7 @@ export type Database = {
           organization_id: string
           display_name: string
           email: string | null
+          routing_opted_out_at: string | null
           created_at: string
         }
         Insert: {
@@ -46,6 +47,7 @@ export type Database = {
           organization_id: string
           display_name: string
           email?: string | null
+          routing_opted_out_at?: string | null
           created_at?: string
         }
         Update: {
@@ -53,6 +55,7 @@ export type Database = {
           organization_id?: string
           display_name?: string
           email?: string | null
+          routing_opted_out_at?: string | null
           created_at?: string
         }
         Relationships: [
@@ -68,6 +71,7 @@ export type Database = {
       external_identities: {
         Row: {
           id: string
+          organization_id: string
           person_id: string
           platform: 'slack' | 'github'
           external_id: string
@@ -76,6 +80,7 @@ export type Database = {
         }
         Insert: {
           id?: string
+          organization_id?: string
           person_id: string
           platform: 'slack' | 'github'
           external_id: string
@@ -84,6 +89,7 @@ export type Database = {
         }
         Update: {
           id?: string
+          organization_id?: string
           person_id?: string
           platform?: 'slack' | 'github'
           external_id?: string
@@ -91,6 +97,13 @@ export type Database = {
           created_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: 'external_identities_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
           {
             foreignKeyName: 'external_identities_person_id_fkey'
             columns: ['person_id']
@@ -100,12 +113,188 @@ export type Database = {
           }
         ]
       }
+      organization_integrations: {
+        Row: {
+          id: string
+          organization_id: string
+          platform: 'slack' | 'github'
+          external_id: string
+          account_login: string | null
+          display_name: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          platform: 'slack' | 'github'
+          external_id: string
+          account_login?: string | null
+          display_name?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          platform?: 'slack' | 'github'
+          external_id?: string
+          account_login?: string | null
+          display_name?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'organization_integrations_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      organization_api_keys: {
+        Row: {
+          id: string
+          organization_id: string
+          name: string
+          key_hash: string
+          key_prefix: string
+          role: 'admin' | 'member' | 'read_only'
+          created_at: string
+          last_used_at: string | null
+          revoked_at: string | null
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          name: string
+          key_hash: string
+          key_prefix: string
+          role?: 'admin' | 'member' | 'read_only'
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          name?: string
+          key_hash?: string
+          key_prefix?: string
+          role?: 'admin' | 'member' | 'read_only'
+          created_at?: string
+          last_used_at?: string | null
+          revoked_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'organization_api_keys_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      organization_members: {
+        Row: {
+          id: string
+          organization_id: string
+          user_id: string | null
+          email: string
+          role: 'admin' | 'member' | 'read_only'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          user_id?: string | null
+          email: string
+          role?: 'admin' | 'member' | 'read_only'
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          user_id?: string | null
+          email?: string
+          role?: 'admin' | 'member' | 'read_only'
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'organization_members_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      access_audit_log: {
+        Row: {
+          id: string
+          organization_id: string | null
+          user_id: string | null
+          user_email: string | null
+          api_key_id: string | null
+          http_method: string
+          path: string
+          required_role: string | null
+          granted_role: string | null
+          status_code: number
+          reason: string
+          ip_address: string | null
+          user_agent: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id?: string | null
+          user_id?: string | null
+          user_email?: string | null
+          api_key_id?: string | null
+          http_method: string
+          path: string
+          required_role?: string | null
+          granted_role?: string | null
+          status_code: number
+          reason: string
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string | null
+          user_id?: string | null
+          user_email?: string | null
+          api_key_id?: string | null
+          http_method?: string
+          path?: string
+          required_role?: string | null
+          granted_role?: string | null
+          status_code?: number
+          reason?: string
+          ip_address?: string | null
+          user_agent?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'access_audit_log_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
       knowledge_sources: {
         Row: {
           id: string
           organization_id: string
           platform: 'slack' | 'github'
-          source_type: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment'
+          source_type: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment' | 'github_commit'
           external_id: string
           external_url: string | null
           title: string | null
@@ -113,13 +302,26 @@ export type Database = {
           author_person_id: string | null
           author_external_id: string | null
           platform_created_at: string | null
+          platform_updated_at: string | null
+          deleted_at: string | null
           created_at: string
+          search_vector: string | null // generated tsvector over title and content
+          repository: string | null // generated "owner/repo" for GitHub sources
+          github_number: number | null // generated issue/PR number; comments share their parent's
+          file_path: string | null // file an inline review comment is anchored to
+          line_start: number | null
+          line_end: number | null
+          reaction_count: number
+          is_accepted_answer: boolean
+          answers_source_id: string | null // the question an accepted answer answers
+          accepted_by_external_id: string | null
+          accepted_at: string | null
         }
         Insert: {
           id?: string
           organization_id: string
           platform: 'slack' | 'github'
-          source_type: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment'
+          source_type: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment' | 'github_commit'
           external_id: string
           external_url?: string | null
           title?: string | null
@@ -127,13 +329,23 @@ export type Database = {
           author_person_id?: string | null
           author_external_id?: string | null
           platform_created_at?: string | null
+          platform_updated_at?: string | null
+          deleted_at?: string | null
+          reaction_count?: number
+          is_accepted_answer?: boolean
+          answers_source_id?: string | null
+          accepted_by_external_id?: string | null
+          accepted_at?: string | null
+          file_path?: string | null
+          line_start?: number | null
+          line_end?: number | null
           created_at?: string
         }
         Update: {
           id?: string
           organization_id?: string
           platform?: 'slack' | 'github'
-          source_type?: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment'
+          source_type?: 'slack_message' | 'slack_thread' | 'github_pr' | 'github_issue' | 'github_comment' | 'github_commit'
           external_id?: string
           external_url?: string | null
           title?: string | null
@@ -141,6 +353,16 @@ export type Database = {
           author_person_id?: string | null
           author_external_id?: string | null
           platform_created_at?: string | null
+          platform_updated_at?: string | null
+          deleted_at?: string | null
+          reaction_count?: number
+          is_accepted_answer?: boolean
+          answers_source_id?: string | null
+          accepted_by_external_id?: string | null
+          accepted_at?: string | null
+          file_path?: string | null
+          line_start?: number | null
+          line_end?: number | null
           created_at?: string
         }
         Relationships: [
@@ -160,6 +382,45 @@ export type Database = {
           }
         ]
       }
+      // One row per person and emoji reacting to a source; reaction_count is counted from it
+      source_reactions: {
+        Row: {
+          organization_id: string
+          platform: 'slack' | 'github'
+          external_id: string
+          reactor_external_id: string
+          reaction: string
+          active: boolean
+          event_at: string
+        }
+        Insert: {
+          organization_id: string
+          platform: 'slack' | 'github'
+          external_id: string
+          reactor_external_id: string
+          reaction: string
+          active: boolean
+          event_at: string
+        }
+        Update: {
+          organization_id?: string
+          platform?: 'slack' | 'github'
+          external_id?: string
+          reactor_external_id?: string
+          reaction?: string
+          active?: boolean
+          event_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'source_reactions_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
       knowledge_points: {
         Row: {
           id: string
@@ -167,7 +428,11 @@ export type Database = {
           summary: string
           keywords: string[] | null
           embedding: string | null // vector representation
-          quality_score: number
+          embedding_model: string | null
+          embedding_dimensions: number | null // generated from the stored vector
+          search_vector: string | null // generated tsvector over the summary
+          quality_score: number // raised for accepted answers
+          base_quality_score: number | null // quality_score before any raise
           relevance_score: number
           processed_at: string
           processing_version: string
@@ -178,7 +443,9 @@ export type Database = {
           summary: string
           keywords?: string[] | null
           embedding?: string | null
+          embedding_model?: string | null
           quality_score?: number
+          base_quality_score?: number | null
           relevance_score?: number
           processed_at?: string
           processing_version?: string
@@ -189,7 +456,9 @@ export type Database = {
           summary?: string
           keywords?: string[] | null
           embedding?: string | null
+          embedding_model?: string | null
           quality_score?: number
+          base_quality_score?: number | null
           relevance_score?: number
           processed_at?: string
           processing_version?: string
@@ -211,6 +480,8 @@ export type Database = {
           name: string
           description: string | null
           cluster_centroid: string | null // vector representation
+          embedding_model: string | null
+          embedding_dimensions: number | null // generated from the stored vector
           knowledge_point_count: number
           confidence_score: number
           created_at: string
@@ -222,6 +493,7 @@ export type Database = {
           name: string
           description?: string | null
           cluster_centroid?: string | null
+          embedding_model?: string | null
           knowledge_point_count?: number
           confidence_score?: number
           created_at?: string
@@ -233,6 +505,7 @@ export type Database = {
           name?: string
           description?: string | null
           cluster_centroid?: string | null
+          embedding_model?: string | null
           knowledge_point_count?: number
           confidence_score?: number
           created_at?: string
@@ -344,12 +617,17 @@ export type Database = {
           organization_id: string
           query_text: string
           query_embedding: string | null // vector representation
+          embedding_model: string | null
+          embedding_dimensions: number | null // generated from the stored vector
           matched_knowledge_points: string[] | null
           routed_to_expert_id: string | null
           routing_confidence: number | null
+          routing_outcome: 'routed' | 'asked' | 'not_needed' | 'no_expert' | 'unavailable' | 'failed' | null
           searcher_person_id: string | null
           clicked_results: string[] | null
           was_helpful: boolean | null
+          ranked_results: Record<string, unknown>[] | null // ordered result rows later pages are read from
+          candidate_count: number | null
           created_at: string
         }
         Insert: {
@@ -357,12 +635,16 @@ export type Database = {
           organization_id: string
           query_text: string
           query_embedding?: string | null
+          embedding_model?: string | null
           matched_knowledge_points?: string[] | null
           routed_to_expert_id?: string | null
           routing_confidence?: number | null
+          routing_outcome?: 'routed' | 'asked' | 'not_needed' | 'no_expert' | 'unavailable' | 'failed' | null
           searcher_person_id?: string | null
           clicked_results?: string[] | null
           was_helpful?: boolean | null
+          ranked_results?: Record<string, unknown>[] | null
+          candidate_count?: number | null
           created_at?: string
         }
         Update: {
@@ -370,9 +652,11 @@ export type Database = {
           organization_id?: string
           query_text?: string
           query_embedding?: string | null
+          embedding_model?: string | null
           matched_knowledge_points?: string[] | null
           routed_to_expert_id?: string | null
           routing_confidence?: number | null
+          routing_outcome?: 'routed' | 'asked' | 'not_needed' | 'no_expert' | 'unavailable' | 'failed' | null
           searcher_person_id?: string | null
           clicked_results?: string[] | null
           was_helpful?: boolean | null
@@ -402,6 +686,574 @@ export type Database = {
           }
         ]
       }
+      // Background job queue, see src/core/jobs
+      jobs: {
+        Row: {
+          id: string
+          organization_id: string | null
+          type: string
+          payload: Record<string, unknown>
+          status: 'queued' | 'running' | 'succeeded' | 'dead'
+          attempts: number
+          max_attempts: number
+          run_at: string
+          locked_at: string | null
+          locked_by: string | null
+          last_error: string | null
+          result: unknown
+          dedupe_key: string | null
+          created_at: string
+          updated_at: string
+          completed_at: string | null
+        }
+        Insert: {
+          id?: string
+          organization_id?: string | null
+          type: string
+          payload?: Record<string, unknown>
+          status?: 'queued' | 'running' | 'succeeded' | 'dead'
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          last_error?: string | null
+          result?: unknown
+          dedupe_key?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Update: {
+          id?: string
+          organization_id?: string | null
+          type?: string
+          payload?: Record<string, unknown>
+          status?: 'queued' | 'running' | 'succeeded' | 'dead'
+          attempts?: number
+          max_attempts?: number
+          run_at?: string
+          locked_at?: string | null
+          locked_by?: string | null
+          last_error?: string | null
+          result?: unknown
+          dedupe_key?: string | null
+          created_at?: string
+          updated_at?: string
+          completed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'jobs_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      // Slack and GitHub backfill progress, see src/lib/backfill-runs.ts
+      backfill_runs: {
+        Row: {
+          id: string
+          organization_id: string
+          platform: 'slack' | 'github'
+          target: string
+          job_id: string | null
+          status: 'queued' | 'running' | 'completed' | 'failed'
+          cursors: Record<string, unknown>
+          processed_count: number
+          skipped_count: number
+          failed_count: number
+          errors: Record<string, unknown>[]
+          started_at: string | null
+          completed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          platform: 'slack' | 'github'
+          target: string
+          job_id?: string | null
+          status?: 'queued' | 'running' | 'completed' | 'failed'
+          cursors?: Record<string, unknown>
+          processed_count?: number
+          skipped_count?: number
+          failed_count?: number
+          errors?: Record<string, unknown>[]
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          platform?: 'slack' | 'github'
+          target?: string
+          job_id?: string | null
+          status?: 'queued' | 'running' | 'completed' | 'failed'
+          cursors?: Record<string, unknown>
+          processed_count?: number
+          skipped_count?: number
+          failed_count?: number
+          errors?: Record<string, unknown>[]
+          started_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'backfill_runs_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'backfill_runs_job_id_fkey'
+            columns: ['job_id']
+            isOneToOne: false
+            referencedRelation: 'jobs'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      slack_channel_sync_state: {
+        Row: {
+          organization_id: string
+          channel_id: string
+          newest_ts: string
+          oldest_ts: string
+          history_complete: boolean
+          forward_target_ts: string | null
+          forward_cursor_ts: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          organization_id: string
+          channel_id: string
+          newest_ts: string
+          oldest_ts: string
+          history_complete?: boolean
+          forward_target_ts?: string | null
+          forward_cursor_ts?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          organization_id?: string
+          channel_id?: string
+          newest_ts?: string
+          oldest_ts?: string
+          history_complete?: boolean
+          forward_target_ts?: string | null
+          forward_cursor_ts?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'slack_channel_sync_state_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      slack_thread_sync_state: {
+        Row: {
+          organization_id: string
+          channel_id: string
+          thread_ts: string
+          latest_reply_ts: string
+          updated_at: string
+        }
+        Insert: {
+          organization_id: string
+          channel_id: string
+          thread_ts: string
+          latest_reply_ts: string
+          updated_at?: string
+        }
+        Update: {
+          organization_id?: string
+          channel_id?: string
+          thread_ts?: string
+          latest_reply_ts?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'slack_thread_sync_state_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      slack_channel_settings: {
+        Row: {
+          organization_id: string
+          channel_id: string
+          suggestions_enabled: boolean
+          min_confidence: number
+          cooldown_minutes: number
+          last_suggested_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          organization_id: string
+          channel_id: string
+          suggestions_enabled?: boolean
+          min_confidence?: number
+          cooldown_minutes?: number
+          last_suggested_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          organization_id?: string
+          channel_id?: string
+          suggestions_enabled?: boolean
+          min_confidence?: number
+          cooldown_minutes?: number
+          last_suggested_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'slack_channel_settings_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      expert_routing_settings: {
+        Row: {
+          organization_id: string
+          enabled: boolean
+          min_match_score: number
+          min_expertise_score: number
+          max_routes_per_day: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          organization_id: string
+          enabled?: boolean
+          min_match_score?: number
+          min_expertise_score?: number
+          max_routes_per_day?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          organization_id?: string
+          enabled?: boolean
+          min_match_score?: number
+          min_expertise_score?: number
+          max_routes_per_day?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'expert_routing_settings_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: true
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      expert_routes: {
+        Row: {
+          id: string
+          organization_id: string
+          search_query_id: string
+          person_id: string
+          expertise_score: number
+          asked_at: string | null
+          asked_by_external_id: string | null
+          routed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          search_query_id: string
+          person_id: string
+          expertise_score: number
+          asked_at?: string | null
+          asked_by_external_id?: string | null
+          routed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          search_query_id?: string
+          person_id?: string
+          expertise_score?: number
+          asked_at?: string | null
+          asked_by_external_id?: string | null
+          routed_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'expert_routes_search_query_id_fkey'
+            columns: ['search_query_id']
+            isOneToOne: false
+            referencedRelation: 'search_queries'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'expert_routes_person_id_fkey'
+            columns: ['person_id']
+            isOneToOne: false
+            referencedRelation: 'people'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      github_repositories: {
+        Row: {
+          id: string
+          organization_id: string
+          owner: string
+          name: string
+          full_name: string // generated lowercase "owner/repo"
+          enabled: boolean
+          discovered: boolean
+          sync_status: 'never_synced' | 'queued' | 'syncing' | 'synced' | 'failed'
+          sync_cursor: string | null
+          last_synced_at: string | null
+          last_backfill_run_id: string | null
+          last_error: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          owner: string
+          name: string
+          enabled?: boolean
+          discovered?: boolean
+          sync_status?: 'never_synced' | 'queued' | 'syncing' | 'synced' | 'failed'
+          sync_cursor?: string | null
+          last_synced_at?: string | null
+          last_backfill_run_id?: string | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          owner?: string
+          name?: string
+          enabled?: boolean
+          discovered?: boolean
+          sync_status?: 'never_synced' | 'queued' | 'syncing' | 'synced' | 'failed'
+          sync_cursor?: string | null
+          last_synced_at?: string | null
+          last_backfill_run_id?: string | null
+          last_error?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'github_repositories_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'github_repositories_last_backfill_run_id_fkey'
+            columns: ['last_backfill_run_id']
+            isOneToOne: false
+            referencedRelation: 'backfill_runs'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      github_sync_state: {
+        Row: {
+          organization_id: string
+          repository: string
+          resource: string
+          since: string | null
+          etag: string | null
+          head_sha: string | null
+          updated_at: string
+        }
+        Insert: {
+          organization_id: string
+          repository: string
+          resource: string
+          since?: string | null
+          etag?: string | null
+          head_sha?: string | null
+          updated_at?: string
+        }
+        Update: {
+          organization_id?: string
+          repository?: string
+          resource?: string
+          since?: string | null
+          etag?: string | null
+          head_sha?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'github_sync_state_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      github_events: {
+        Row: {
+          id: string
+          organization_id: string
+          repository: string
+          event_type: 'issue' | 'pull_request' | 'commit' | 'release' | 'issue_comment' | 'review' | 'review_comment'
+          external_id: string
+          title: string | null
+          author: string | null
+          status: string | null
+          previous_status: string | null
+          labels: string[]
+          assignees: string[]
+          milestone: string | null
+          closed_at: string | null
+          merged_at: string | null
+          url: string | null
+          metadata: Json
+          payload: Json | null
+          platform_created_at: string
+          occurred_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          organization_id: string
+          repository: string
+          event_type: 'issue' | 'pull_request' | 'commit' | 'release' | 'issue_comment' | 'review' | 'review_comment'
+          external_id: string
+          title?: string | null
+          author?: string | null
+          status?: string | null
+          previous_status?: string | null
+          labels?: string[]
+          assignees?: string[]
+          milestone?: string | null
+          closed_at?: string | null
+          merged_at?: string | null
+          url?: string | null
+          metadata?: Json
+          payload?: Json | null
+          platform_created_at: string
+          occurred_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          organization_id?: string
+          repository?: string
+          event_type?: 'issue' | 'pull_request' | 'commit' | 'release' | 'issue_comment' | 'review' | 'review_comment'
+          external_id?: string
+          title?: string | null
+          author?: string | null
+          status?: string | null
+          previous_status?: string | null
+          labels?: string[]
+          assignees?: string[]
+          milestone?: string | null
+          closed_at?: string | null
+          merged_at?: string | null
+          url?: string | null
+          metadata?: Json
+          payload?: Json | null
+          platform_created_at?: string
+          occurred_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'github_events_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: false
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
+      github_discovery_settings: {
+        Row: {
+          organization_id: string
+          enabled: boolean
+          account_login: string | null
+          include_patterns: string[]
+          exclude_patterns: string[]
+          include_forks: boolean
+          include_archived: boolean
+          last_discovered_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          organization_id: string
+          enabled?: boolean
+          account_login?: string | null
+          include_patterns?: string[]
+          exclude_patterns?: string[]
+          include_forks?: boolean
+          include_archived?: boolean
+          last_discovered_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          organization_id?: string
+          enabled?: boolean
+          account_login?: string | null
+          include_patterns?: string[]
+          exclude_patterns?: string[]
+          include_forks?: boolean
+          include_archived?: boolean
+          last_discovered_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'github_discovery_settings_organization_id_fkey'
+            columns: ['organization_id']
+            isOneToOne: true
+            referencedRelation: 'organizations'
+            referencedColumns: ['id']
+          }
+        ]
+      }
     }
     Views: {
       // Simplified views for knowledge search
@@ -426,20 +1278,142 @@ export type Database = {
       // Vector similarity search function
       find_similar_knowledge: {
         Args: {
-          query_embedding: string
+          query_embedding: string | null
+          model_name?: string | null
           org_id: string
           similarity_threshold?: number
           result_limit?: number
+          query_text?: string | null
+          retrieval_mode?: 'vector' | 'lexical' | 'hybrid'
+          rrf_k?: number
+          filter_platform?: 'slack' | 'github' | null
+          filter_source_types?: string[] | null
+          filter_author_person_ids?: string[] | null
+          filter_channel_ids?: string[] | null
+          filter_repositories?: string[] | null
+          created_after?: string | null
+          created_before?: string | null
         }
         Returns: {
           knowledge_point_id: string
           source_id: string
           summary: string
-          similarity_score: number
+          similarity_score: number | null
           source_url: string | null
           source_title: string | null
           author_name: string | null
           platform: string
+          lexical_score: number | null
+          fused_score: number
+        }[]
+      }
+      // Claim due jobs of several types, each within its concurrency limit
+      claim_jobs: {
+        Args: {
+          worker_id: string
+          job_types: string[]
+          max_running: number[]
+          batch_sizes: number[]
+          lock_timeout_seconds: number[]
+        }
+        Returns: Database['public']['Tables']['jobs']['Row'][]
+      }
+      // Extend a worker's locks on its running jobs
+      heartbeat_jobs: {
+        Args: {
+          worker_id: string
+          job_ids: string[]
+        }
+        Returns: string[]
+      }
+      // Store a source's knowledge point unless the source was deleted or edited meanwhile
+      store_knowledge_point: {
+        Args: {
+          point: Json
+          source_version: string | null
+        }
+        Returns: string | null
+      }
+      // Reaction counting for expertise scoring
+      record_source_reaction: {
+        Args: {
+          org_id: string
+          source_platform: 'slack' | 'github'
+          source_external_id: string
+          reactor: string
+          reaction_name: string
+          reaction_added: boolean
+          reacted_at: string
+        }
+        Returns: number
+      }
+      // Accept a source as the answer to a question, or take it back
+      set_accepted_answer: {
+        Args: {
+          org_id: string
+          answer_source_id: string
+          question_source_id: string | null
+          reactor_external_id: string
+          accepted: boolean
+          accepted_quality?: number
+        }
+        Returns: boolean
+      }
+      // Search result clicks from Slack, recorded once per result
+      record_search_click: {
+        Args: {
+          org_id: string
+          search_id: string
+          knowledge_point_id: string
+        }
+        Returns: undefined
+      }
+      // Expertise scoring model, see src/core/expertise-scoring.ts
+      recompute_topic_experts: {
+        Args: {
+          org_id: string
+          type_weights: Record<string, number>
+          half_life_days?: number
+          active_window_days?: number
+          reaction_weight?: number
+          accepted_answer_bonus?: number
+          saturation?: number
+          default_type_weight?: number
+          person_ids?: string[] | null
+        }
+        Returns: {
+          scored: number
+          deactivated: number
+        }[]
+      }
+      // Experts aggregated across several topics, weighted by topic similarity
+      find_experts_for_topics: {
+        Args: {
+          topic_ids: string[]
+          topic_weights: number[]
+          limit_count?: number
+          contributions_per_expert?: number
+        }
+        Returns: {
+          person_id: string
+          display_name: string
+          weighted_score: number
+          contribution_count: number
+          last_contribution_at: string | null
+          topics: {
+            topic_id: string
+            topic_name: string
+            topic_similarity: number
+            expertise_score: number
+            contribution_count: number | null
+          }[]
+          contributions: {
+            knowledge_point_id: string
+            summary: string
+            source_url: string | null
+            platform: string
+            topic_name: string
+          }[]
         }[]
       }
       // Topic expert finder
@@ -509,6 +1483,23 @@ export type ExpertMatch = {
   expertiseScore: number
   contributionCount: number
   lastContributionAt: string
+  explanation: {
+    summary: string
+    topics: {
+      topicId: string
+      topicName: string
+      topicSimilarity: number
+      expertiseScore: number
+      contributionCount: number
+    }[]
+    contributions: {
+      knowledgePointId: string
+      summary: string
+      sourceUrl: string | null
+      platform: string
+      topicName: string
+    }[]
+  }
 }
 
 export type SearchResult = {
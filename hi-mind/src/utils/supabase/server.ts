@@ -56,4 +56,30 @@ export function createServerClient() {
       }
     }
   })
-}
\ No newline at end of file
+}
+
+// Client for the OAuth/OIDC sign-in flow: the PKCE code verifier is kept in a cookie
+// between the redirect to the identity provider and the callback
+export async function createAuthFlowClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  const cookiesStore = await cookies()
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      flowType: 'pkce',
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+      persistSession: true,
+      storage: {
+        getItem: (key: string) => cookiesStore.get(key)?.value || null,
+        setItem: (key: string, value: string) => {
+          cookiesStore.set(key, value, { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 600 })
+        },
+        removeItem: (key: string) => {
+          cookiesStore.delete(key)
+        }
+      }
+    }
+  })
+}
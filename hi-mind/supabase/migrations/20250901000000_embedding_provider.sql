@@ -0,0 +1,94 @@
+-- Pluggable embedding providers
+-- Vectors can now come from OpenAI or from a local sentence model, so every stored
+-- vector records the model that produced it and its dimension. Search, clustering and
+-- topic matching only ever compare vectors produced by the same model.
+
+-- =========================
+-- Vector columns
+-- =========================
+
+-- IVFFlat indexes require a fixed dimension; drop them before relaxing the column types.
+-- At current data volumes an exact scan is fast enough. Once a deployment settles on a
+-- model, a per-model index can be added on an expression such as (embedding::vector(384)).
+DROP INDEX IF EXISTS idx_knowledge_points_embedding;
+DROP INDEX IF EXISTS idx_discovered_topics_centroid;
+DROP INDEX IF EXISTS idx_search_queries_embedding;
+
+ALTER TABLE knowledge_points ALTER COLUMN embedding TYPE vector;
+ALTER TABLE discovered_topics ALTER COLUMN cluster_centroid TYPE vector;
+ALTER TABLE search_queries ALTER COLUMN query_embedding TYPE vector;
+
+-- =========================
+-- Model metadata
+-- =========================
+
+ALTER TABLE knowledge_points
+ADD COLUMN embedding_model TEXT, -- e.g. text-embedding-3-small, Xenova/all-MiniLM-L6-v2
+ADD COLUMN embedding_dimensions INTEGER GENERATED ALWAYS AS (vector_dims(embedding)) STORED;
+
+ALTER TABLE discovered_topics
+ADD COLUMN embedding_model TEXT,
+ADD COLUMN embedding_dimensions INTEGER GENERATED ALWAYS AS (vector_dims(cluster_centroid)) STORED;
+
+ALTER TABLE search_queries
+ADD COLUMN embedding_model TEXT,
+ADD COLUMN embedding_dimensions INTEGER GENERATED ALWAYS AS (vector_dims(query_embedding)) STORED;
+
+-- Everything stored so far came from the OpenAI default
+UPDATE knowledge_points SET embedding_model = 'text-embedding-3-small' WHERE embedding IS NOT NULL;
+UPDATE discovered_topics SET embedding_model = 'text-embedding-3-small' WHERE cluster_centroid IS NOT NULL;
+UPDATE search_queries SET embedding_model = 'text-embedding-3-small' WHERE query_embedding IS NOT NULL;
+
+CREATE INDEX idx_knowledge_points_embedding_model ON knowledge_points(embedding_model);
+CREATE INDEX idx_discovered_topics_embedding_model ON discovered_topics(organization_id, embedding_model);
+
+-- =========================
+-- Functions
+-- =========================
+
+-- The argument list changes, so drop the old signature rather than adding an overload
+DROP FUNCTION IF EXISTS find_similar_knowledge(vector, uuid, real, integer);
+
+-- Vector similarity search restricted to vectors from the query's model
+CREATE OR REPLACE FUNCTION find_similar_knowledge(
+  query_embedding vector,
+  org_id uuid,
+  model_name text DEFAULT NULL,
+  similarity_threshold real DEFAULT 0.8,
+  result_limit integer DEFAULT 10
+)
+RETURNS TABLE (
+  knowledge_point_id uuid,
+  source_id uuid,
+  summary text,
+  similarity_score real,
+  source_url text,
+  source_title text,
+  author_name text,
+  platform text
+) LANGUAGE plpgsql AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    kp.id,
+    ks.id,
+    kp.summary,
+    (1 - (kp.embedding <=> query_embedding))::real as similarity_score,
+    ks.external_url,
+    ks.title,
+    p.display_name,
+    ks.platform
+  FROM knowledge_points kp
+  JOIN knowledge_sources ks ON kp.source_id = ks.id
+  LEFT JOIN people p ON ks.author_person_id = p.id
+  WHERE ks.organization_id = org_id
+    AND (model_name IS NULL OR kp.embedding_model = model_name)
+    -- Comparing vectors of different lengths raises an error, and AND does not fix the
+    -- order its operands are evaluated in, so only compare once the dimensions match
+    AND CASE WHEN kp.embedding_dimensions = vector_dims(query_embedding)
+      THEN (1 - (kp.embedding <=> query_embedding)) > similarity_threshold
+      ELSE false
+    END
+  ORDER BY similarity_score DESC
+  LIMIT result_limit;
+END $$;
@@ -0,0 +1,71 @@
+-- Multi-tenant organization scoping
+-- Requests resolve their organization from an API key, header or subdomain, and
+-- integration events resolve it from the Slack workspace or GitHub install that
+-- the organization linked.
+
+-- =========================
+-- Integration installs
+-- =========================
+
+CREATE TABLE organization_integrations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('slack', 'github')),
+  external_id TEXT NOT NULL, -- Slack team ID, GitHub installation ID or account login
+  account_login TEXT, -- GitHub user/organization login for token-based installs
+  display_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- One workspace or installation can only feed one organization
+  UNIQUE (platform, external_id)
+);
+
+CREATE INDEX idx_organization_integrations_org ON organization_integrations(organization_id);
+CREATE INDEX idx_organization_integrations_account ON organization_integrations(platform, lower(account_login)) WHERE account_login IS NOT NULL;
+
+-- =========================
+-- API keys
+-- =========================
+
+CREATE TABLE organization_api_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the key, the plaintext is never stored
+  key_prefix TEXT NOT NULL, -- First characters of the key so admins can recognise it
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_organization_api_keys_org ON organization_api_keys(organization_id);
+
+-- =========================
+-- Per-organization identities
+-- =========================
+
+-- Platform IDs were globally unique, so a GitHub user contributing to two organizations
+-- could only ever belong to one of them. Scope identities to the person's organization.
+ALTER TABLE external_identities ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE external_identities ei
+SET organization_id = p.organization_id
+FROM people p
+WHERE ei.person_id = p.id;
+
+ALTER TABLE external_identities ALTER COLUMN organization_id SET NOT NULL;
+ALTER TABLE external_identities DROP CONSTRAINT IF EXISTS external_identities_platform_external_id_key;
+ALTER TABLE external_identities ADD CONSTRAINT external_identities_org_platform_external_id_key UNIQUE (organization_id, platform, external_id);
+
+-- Keep organization_id in sync with the owning person so callers only need to set person_id
+CREATE OR REPLACE FUNCTION set_external_identity_organization()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT organization_id INTO NEW.organization_id FROM people WHERE id = NEW.person_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_external_identities_organization
+BEFORE INSERT OR UPDATE OF person_id ON external_identities
+FOR EACH ROW EXECUTE FUNCTION set_external_identity_organization();
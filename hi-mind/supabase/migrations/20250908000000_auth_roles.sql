@@ -0,0 +1,53 @@
+-- Authentication and role-based access
+-- Users sign in through Supabase Auth (email/password or an OIDC provider configured in
+-- Supabase) and hold one role per organization. API keys carry a role of their own.
+-- Every request the API refuses is written to access_audit_log.
+
+-- =========================
+-- Organization members
+-- =========================
+
+CREATE TABLE organization_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE, -- Linked on first sign-in
+  email TEXT NOT NULL, -- Stored lowercased; members can be invited before they sign in
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'read_only')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (organization_id, email)
+);
+
+CREATE INDEX idx_organization_members_user ON organization_members(user_id) WHERE user_id IS NOT NULL;
+CREATE INDEX idx_organization_members_email ON organization_members(email);
+
+-- =========================
+-- API key roles
+-- =========================
+
+ALTER TABLE organization_api_keys
+ADD COLUMN role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member', 'read_only'));
+
+-- =========================
+-- Access audit log
+-- =========================
+
+CREATE TABLE access_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE, -- NULL when the org could not be resolved
+  user_id UUID,
+  user_email TEXT,
+  api_key_id UUID REFERENCES organization_api_keys(id) ON DELETE SET NULL,
+  http_method TEXT NOT NULL,
+  path TEXT NOT NULL,
+  required_role TEXT,
+  granted_role TEXT,
+  status_code INTEGER NOT NULL, -- 401, 403, or 404 when no organization resolves
+  reason TEXT NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_access_audit_log_org_created ON access_audit_log(organization_id, created_at DESC);
+CREATE INDEX idx_access_audit_log_created ON access_audit_log(created_at DESC);
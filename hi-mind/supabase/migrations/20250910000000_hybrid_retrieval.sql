@@ -0,0 +1,168 @@
+-- Hybrid lexical + vector retrieval
+-- Vector similarity alone misses exact error codes, file names and ticket IDs. Lexical
+-- matches (full-text over title, content and summary, trigram word similarity and exact
+-- keyword hits) are ranked separately and fused with the vector ranking using reciprocal
+-- rank fusion: score = sum over rankings of 1 / (rrf_k + rank).
+
+-- =========================
+-- Lexical search columns
+-- =========================
+
+-- Both configurations are indexed: 'english' stems prose, 'simple' keeps identifiers
+-- such as ERR_CONN_RESET, config.yaml or HM-1234 intact.
+ALTER TABLE knowledge_sources
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('simple', content), 'B') ||
+  setweight(to_tsvector('english', content), 'B')
+) STORED;
+
+ALTER TABLE knowledge_points
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', summary), 'A') ||
+  setweight(to_tsvector('english', summary), 'A')
+) STORED;
+
+-- Superseded by the search_vector indexes
+DROP INDEX IF EXISTS idx_knowledge_sources_content_fts;
+DROP INDEX IF EXISTS idx_knowledge_points_summary_fts;
+
+CREATE INDEX idx_knowledge_sources_search_vector ON knowledge_sources USING gin(search_vector);
+CREATE INDEX idx_knowledge_points_search_vector ON knowledge_points USING gin(search_vector);
+
+-- Trigram indexes for partial identifiers and typos
+CREATE INDEX idx_knowledge_sources_content_trgm ON knowledge_sources USING gin(content gin_trgm_ops);
+CREATE INDEX idx_knowledge_points_keywords ON knowledge_points USING gin(keywords);
+
+-- =========================
+-- Functions
+-- =========================
+
+-- The argument list and result columns change, so drop the old signature
+DROP FUNCTION IF EXISTS find_similar_knowledge(vector, uuid, text, real, integer);
+
+-- Knowledge retrieval by vector similarity, lexical match, or both fused with RRF.
+-- similarity_score is the vector similarity (NULL for lexical-only hits), lexical_score the
+-- lexical relevance (NULL for vector-only hits), and results are ordered by fused_score.
+CREATE OR REPLACE FUNCTION find_similar_knowledge(
+  query_embedding vector,
+  org_id uuid,
+  model_name text DEFAULT NULL,
+  similarity_threshold real DEFAULT 0.8,
+  result_limit integer DEFAULT 10,
+  query_text text DEFAULT NULL,
+  retrieval_mode text DEFAULT 'vector', -- 'vector' | 'lexical' | 'hybrid'
+  rrf_k integer DEFAULT 60
+)
+RETURNS TABLE (
+  knowledge_point_id uuid,
+  source_id uuid,
+  summary text,
+  similarity_score real,
+  source_url text,
+  source_title text,
+  author_name text,
+  platform text,
+  lexical_score real,
+  fused_score real
+) LANGUAGE plpgsql AS $$
+DECLARE
+  -- Each ranking contributes more candidates than are returned so fusion can reorder them
+  candidate_limit integer := GREATEST(result_limit * 4, 50);
+  text_query tsquery;
+  query_terms text[];
+BEGIN
+  IF retrieval_mode NOT IN ('vector', 'lexical', 'hybrid') THEN
+    RAISE EXCEPTION 'Unknown retrieval_mode "%" (expected vector, lexical or hybrid)', retrieval_mode;
+  END IF;
+  IF retrieval_mode <> 'vector' AND COALESCE(btrim(query_text), '') = '' THEN
+    RAISE EXCEPTION 'query_text is required for % retrieval', retrieval_mode;
+  END IF;
+  IF retrieval_mode <> 'lexical' AND query_embedding IS NULL THEN
+    RAISE EXCEPTION 'query_embedding is required for % retrieval', retrieval_mode;
+  END IF;
+
+  IF retrieval_mode <> 'vector' THEN
+    text_query := websearch_to_tsquery('english', query_text) || websearch_to_tsquery('simple', query_text);
+    query_terms := regexp_split_to_array(lower(btrim(query_text)), '\s+');
+  END IF;
+
+  RETURN QUERY
+  WITH vector_hits AS (
+    SELECT
+      kp.id,
+      (1 - (kp.embedding <=> query_embedding))::real AS score,
+      row_number() OVER (ORDER BY kp.embedding <=> query_embedding) AS rank
+    FROM knowledge_points kp
+    JOIN knowledge_sources ks ON kp.source_id = ks.id
+    WHERE retrieval_mode <> 'lexical'
+      AND ks.organization_id = org_id
+      AND (model_name IS NULL OR kp.embedding_model = model_name)
+      -- Comparing vectors of different lengths raises an error, and AND does not fix the
+      -- order its operands are evaluated in, so only compare once the dimensions match
+      AND CASE WHEN kp.embedding_dimensions = vector_dims(query_embedding)
+        THEN (1 - (kp.embedding <=> query_embedding)) > similarity_threshold
+        ELSE false
+      END
+    ORDER BY kp.embedding <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  lexical_candidates AS (
+    SELECT
+      kp.id,
+      (
+        ts_rank_cd(ks.search_vector || kp.search_vector, text_query)
+        + word_similarity(query_text, COALESCE(ks.title, '') || ' ' || kp.summary)
+        -- Exact keyword hits are the strongest lexical signal
+        + (SELECT COUNT(*) FROM unnest(kp.keywords) kw WHERE lower(kw) = ANY (query_terms))
+      )::real AS score
+    FROM knowledge_points kp
+    JOIN knowledge_sources ks ON kp.source_id = ks.id
+    WHERE retrieval_mode <> 'vector'
+      AND ks.organization_id = org_id
+      AND (
+        ks.search_vector @@ text_query
+        OR kp.search_vector @@ text_query
+        OR query_text <% ks.content
+        OR kp.keywords && query_terms
+      )
+  ),
+  lexical_hits AS (
+    SELECT
+      lc.id,
+      lc.score,
+      row_number() OVER (ORDER BY lc.score DESC) AS rank
+    FROM lexical_candidates lc
+    ORDER BY lc.score DESC
+    LIMIT candidate_limit
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vh.id, lh.id) AS id,
+      vh.score AS vector_score,
+      lh.score AS text_score,
+      (
+        COALESCE(1.0 / (rrf_k + vh.rank), 0) + COALESCE(1.0 / (rrf_k + lh.rank), 0)
+      )::real AS score
+    FROM vector_hits vh
+    FULL OUTER JOIN lexical_hits lh ON vh.id = lh.id
+  )
+  SELECT
+    kp.id,
+    ks.id,
+    kp.summary,
+    f.vector_score,
+    ks.external_url,
+    ks.title,
+    p.display_name,
+    ks.platform,
+    f.text_score,
+    f.score
+  FROM fused f
+  JOIN knowledge_points kp ON kp.id = f.id
+  JOIN knowledge_sources ks ON kp.source_id = ks.id
+  LEFT JOIN people p ON ks.author_person_id = p.id
+  ORDER BY f.score DESC, f.vector_score DESC NULLS LAST
+  LIMIT result_limit;
+END $$;
@@ -0,0 +1,177 @@
+-- Structured search filters
+-- Searches can be narrowed by platform, source type, author, Slack channel, GitHub
+-- repository and a platform_created_at range. Filters apply to both the vector and the
+-- lexical ranking so fusion only ever sees eligible candidates.
+
+-- =========================
+-- Repository column
+-- =========================
+
+-- GitHub sources only record their URL, so derive "owner/repo" from it
+ALTER TABLE knowledge_sources
+ADD COLUMN repository TEXT GENERATED ALWAYS AS (
+  CASE WHEN platform = 'github'
+    THEN lower(substring(external_url FROM 'github\.com/([^/]+/[^/?#]+)'))
+  END
+) STORED;
+
+CREATE INDEX idx_knowledge_sources_repository ON knowledge_sources(organization_id, repository) WHERE repository IS NOT NULL;
+CREATE INDEX idx_knowledge_sources_org_created ON knowledge_sources(organization_id, platform_created_at DESC);
+
+-- =========================
+-- Functions
+-- =========================
+
+DROP FUNCTION IF EXISTS find_similar_knowledge(vector, uuid, text, real, integer, text, text, integer);
+
+-- Knowledge retrieval by vector similarity, lexical match, or both fused with RRF.
+-- similarity_score is the vector similarity (NULL for lexical-only hits), lexical_score the
+-- lexical relevance (NULL for vector-only hits), and results are ordered by fused_score.
+CREATE OR REPLACE FUNCTION find_similar_knowledge(
+  query_embedding vector,
+  org_id uuid,
+  model_name text DEFAULT NULL,
+  similarity_threshold real DEFAULT 0.8,
+  result_limit integer DEFAULT 10,
+  query_text text DEFAULT NULL,
+  retrieval_mode text DEFAULT 'vector', -- 'vector' | 'lexical' | 'hybrid'
+  rrf_k integer DEFAULT 60,
+  -- NULL filters match everything
+  filter_platform text DEFAULT NULL,
+  filter_source_types text[] DEFAULT NULL,
+  filter_author_person_ids uuid[] DEFAULT NULL,
+  filter_channel_ids text[] DEFAULT NULL,
+  filter_repositories text[] DEFAULT NULL, -- "owner/repo", case-insensitive
+  created_after timestamptz DEFAULT NULL,
+  created_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  knowledge_point_id uuid,
+  source_id uuid,
+  summary text,
+  similarity_score real,
+  source_url text,
+  source_title text,
+  author_name text,
+  platform text,
+  lexical_score real,
+  fused_score real
+) LANGUAGE plpgsql AS $$
+DECLARE
+  -- Each ranking contributes more candidates than are returned so fusion can reorder them
+  candidate_limit integer := GREATEST(result_limit * 4, 50);
+  text_query tsquery;
+  query_terms text[];
+  repositories text[];
+BEGIN
+  IF retrieval_mode NOT IN ('vector', 'lexical', 'hybrid') THEN
+    RAISE EXCEPTION 'Unknown retrieval_mode "%" (expected vector, lexical or hybrid)', retrieval_mode;
+  END IF;
+  IF retrieval_mode <> 'vector' AND COALESCE(btrim(query_text), '') = '' THEN
+    RAISE EXCEPTION 'query_text is required for % retrieval', retrieval_mode;
+  END IF;
+  IF retrieval_mode <> 'lexical' AND query_embedding IS NULL THEN
+    RAISE EXCEPTION 'query_embedding is required for % retrieval', retrieval_mode;
+  END IF;
+
+  IF filter_repositories IS NOT NULL THEN
+    SELECT array_agg(lower(r)) INTO repositories FROM unnest(filter_repositories) r;
+  END IF;
+
+  IF retrieval_mode <> 'vector' THEN
+    text_query := websearch_to_tsquery('english', query_text) || websearch_to_tsquery('simple', query_text);
+    query_terms := regexp_split_to_array(lower(btrim(query_text)), '\s+');
+  END IF;
+
+  RETURN QUERY
+  WITH vector_hits AS (
+    SELECT
+      kp.id,
+      (1 - (kp.embedding <=> query_embedding))::real AS score,
+      row_number() OVER (ORDER BY kp.embedding <=> query_embedding) AS rank
+    FROM knowledge_points kp
+    JOIN knowledge_sources ks ON kp.source_id = ks.id
+    WHERE retrieval_mode <> 'lexical'
+      AND ks.organization_id = org_id
+      AND (model_name IS NULL OR kp.embedding_model = model_name)
+      -- Comparing vectors of different lengths raises an error, and AND does not fix the
+      -- order its operands are evaluated in, so only compare once the dimensions match
+      AND CASE WHEN kp.embedding_dimensions = vector_dims(query_embedding)
+        THEN (1 - (kp.embedding <=> query_embedding)) > similarity_threshold
+        ELSE false
+      END
+      AND (filter_platform IS NULL OR ks.platform = filter_platform)
+      AND (filter_source_types IS NULL OR ks.source_type = ANY (filter_source_types))
+      AND (filter_author_person_ids IS NULL OR ks.author_person_id = ANY (filter_author_person_ids))
+      AND (filter_channel_ids IS NULL OR ks.channel_id = ANY (filter_channel_ids))
+      AND (filter_repositories IS NULL OR ks.repository = ANY (repositories))
+      AND (created_after IS NULL OR ks.platform_created_at >= created_after)
+      AND (created_before IS NULL OR ks.platform_created_at < created_before)
+    ORDER BY kp.embedding <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  lexical_candidates AS (
+    SELECT
+      kp.id,
+      (
+        ts_rank_cd(ks.search_vector || kp.search_vector, text_query)
+        + word_similarity(query_text, COALESCE(ks.title, '') || ' ' || kp.summary)
+        -- Exact keyword hits are the strongest lexical signal
+        + (SELECT COUNT(*) FROM unnest(kp.keywords) kw WHERE lower(kw) = ANY (query_terms))
+      )::real AS score
+    FROM knowledge_points kp
+    JOIN knowledge_sources ks ON kp.source_id = ks.id
+    WHERE retrieval_mode <> 'vector'
+      AND ks.organization_id = org_id
+      AND (filter_platform IS NULL OR ks.platform = filter_platform)
+      AND (filter_source_types IS NULL OR ks.source_type = ANY (filter_source_types))
+      AND (filter_author_person_ids IS NULL OR ks.author_person_id = ANY (filter_author_person_ids))
+      AND (filter_channel_ids IS NULL OR ks.channel_id = ANY (filter_channel_ids))
+      AND (filter_repositories IS NULL OR ks.repository = ANY (repositories))
+      AND (created_after IS NULL OR ks.platform_created_at >= created_after)
+      AND (created_before IS NULL OR ks.platform_created_at < created_before)
+      AND (
+        ks.search_vector @@ text_query
+        OR kp.search_vector @@ text_query
+        OR query_text <% ks.content
+        OR kp.keywords && query_terms
+      )
+  ),
+  lexical_hits AS (
+    SELECT
+      lc.id,
+      lc.score,
+      row_number() OVER (ORDER BY lc.score DESC) AS rank
+    FROM lexical_candidates lc
+    ORDER BY lc.score DESC
+    LIMIT candidate_limit
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vh.id, lh.id) AS id,
+      vh.score AS vector_score,
+      lh.score AS text_score,
+      (
+        COALESCE(1.0 / (rrf_k + vh.rank), 0) + COALESCE(1.0 / (rrf_k + lh.rank), 0)
+      )::real AS score
+    FROM vector_hits vh
+    FULL OUTER JOIN lexical_hits lh ON vh.id = lh.id
+  )
+  SELECT
+    kp.id,
+    ks.id,
+    kp.summary,
+    f.vector_score,
+    ks.external_url,
+    ks.title,
+    p.display_name,
+    ks.platform,
+    f.text_score,
+    f.score
+  FROM fused f
+  JOIN knowledge_points kp ON kp.id = f.id
+  JOIN knowledge_sources ks ON kp.source_id = ks.id
+  LEFT JOIN people p ON ks.author_person_id = p.id
+  ORDER BY f.score DESC, f.vector_score DESC NULLS LAST
+  LIMIT result_limit;
+END $$;
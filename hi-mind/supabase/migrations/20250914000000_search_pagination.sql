@@ -0,0 +1,8 @@
+-- Search pagination
+-- The first page of a search stores its full ranked result list so later pages can be
+-- read back in the same order. LLM reranking is not deterministic, so re-running the
+-- search for every page would shuffle, repeat and skip results.
+
+ALTER TABLE search_queries
+ADD COLUMN ranked_results JSONB, -- Ordered search matches after reranking
+ADD COLUMN candidate_count INTEGER; -- Candidates retrieved before reranking pruned them
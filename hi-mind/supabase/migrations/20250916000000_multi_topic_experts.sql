@@ -0,0 +1,108 @@
+-- Expert suggestions across every matched topic
+-- find_topic_experts only looks at one topic. Searches match up to three, so experts are
+-- now aggregated across all of them: each person's topic expertise is weighted by how
+-- similar the topic is to the query and summed, so someone strong in two matched topics
+-- outranks someone equally strong in one. Each row carries the evidence behind it.
+
+CREATE OR REPLACE FUNCTION find_experts_for_topics(
+  topic_ids uuid[],
+  topic_weights real[], -- Query similarity of each topic, same order as topic_ids
+  limit_count integer DEFAULT 5,
+  contributions_per_expert integer DEFAULT 3
+)
+RETURNS TABLE (
+  person_id uuid,
+  display_name text,
+  weighted_score real,
+  contribution_count integer,
+  last_contribution_at timestamptz,
+  topics jsonb, -- [{topic_id, topic_name, topic_similarity, expertise_score, contribution_count}]
+  contributions jsonb -- [{knowledge_point_id, summary, source_url, platform, topic_name}]
+) LANGUAGE plpgsql AS $$
+BEGIN
+  IF array_length(topic_ids, 1) IS DISTINCT FROM array_length(topic_weights, 1) THEN
+    RAISE EXCEPTION 'topic_ids and topic_weights must have the same length';
+  END IF;
+
+  RETURN QUERY
+  WITH weights AS (
+    SELECT w.topic_id, w.weight
+    FROM unnest(topic_ids, topic_weights) AS w(topic_id, weight)
+  ),
+  topic_scores AS (
+    SELECT
+      te.person_id,
+      te.topic_id,
+      dt.name AS topic_name,
+      w.weight,
+      te.expertise_score,
+      te.contribution_count,
+      te.last_contribution_at,
+      (w.weight * te.expertise_score)::real AS weighted
+    FROM topic_experts te
+    JOIN weights w ON w.topic_id = te.topic_id
+    JOIN discovered_topics dt ON dt.id = te.topic_id
+    WHERE te.is_active = TRUE
+  ),
+  experts AS (
+    SELECT
+      ts.person_id,
+      SUM(ts.weighted)::real AS score,
+      SUM(COALESCE(ts.contribution_count, 0))::integer AS contributions,
+      MAX(ts.last_contribution_at) AS last_at,
+      jsonb_agg(
+        jsonb_build_object(
+          'topic_id', ts.topic_id,
+          'topic_name', ts.topic_name,
+          'topic_similarity', ts.weight,
+          'expertise_score', ts.expertise_score,
+          'contribution_count', ts.contribution_count
+        )
+        ORDER BY ts.weighted DESC
+      ) AS topic_evidence
+    FROM topic_scores ts
+    GROUP BY ts.person_id
+    ORDER BY score DESC, last_at DESC NULLS LAST
+    LIMIT limit_count
+  )
+  SELECT
+    e.person_id,
+    p.display_name,
+    e.score,
+    e.contributions,
+    e.last_at,
+    e.topic_evidence,
+    COALESCE(
+      (
+        SELECT jsonb_agg(top.contribution ORDER BY top.relevance DESC)
+        FROM (
+          SELECT per_point.contribution, per_point.relevance
+          FROM (
+            -- A knowledge point in several matched topics is only listed once
+            SELECT DISTINCT ON (kp.id)
+              jsonb_build_object(
+                'knowledge_point_id', kp.id,
+                'summary', kp.summary,
+                'source_url', ks.external_url,
+                'platform', ks.platform,
+                'topic_name', dt.name
+              ) AS contribution,
+              w.weight * ktm.similarity_score AS relevance
+            FROM knowledge_topic_memberships ktm
+            JOIN weights w ON w.topic_id = ktm.topic_id
+            JOIN discovered_topics dt ON dt.id = ktm.topic_id
+            JOIN knowledge_points kp ON kp.id = ktm.knowledge_point_id
+            JOIN knowledge_sources ks ON ks.id = kp.source_id
+            WHERE ks.author_person_id = e.person_id
+            ORDER BY kp.id, w.weight * ktm.similarity_score DESC
+          ) per_point
+          ORDER BY per_point.relevance DESC
+          LIMIT contributions_per_expert
+        ) top
+      ),
+      '[]'::jsonb
+    )
+  FROM experts e
+  JOIN people p ON p.id = e.person_id
+  ORDER BY e.score DESC, e.last_at DESC NULLS LAST;
+END $$;
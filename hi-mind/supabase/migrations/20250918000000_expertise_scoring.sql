@@ -0,0 +1,168 @@
+-- Expertise scoring model
+-- topic_experts used to hold the similarity of a person's latest contribution with a
+-- contribution_count of 1. Scores are now recomputed from every contribution a person
+-- made to a topic. Each contribution is weighted by its type, its fit to the topic, its
+-- age (exponential decay), its reactions and whether it was accepted as an answer.
+-- The weighted sum saturates towards 1 so volume helps with diminishing returns.
+
+-- =========================
+-- Contribution signals
+-- =========================
+
+-- Commits were stored as github_comment; give them their own type so they can be weighted
+ALTER TABLE knowledge_sources DROP CONSTRAINT IF EXISTS knowledge_sources_source_type_check;
+ALTER TABLE knowledge_sources ADD CONSTRAINT knowledge_sources_source_type_check
+  CHECK (source_type IN ('slack_message', 'slack_thread', 'github_pr', 'github_issue', 'github_comment', 'github_commit'));
+
+UPDATE knowledge_sources
+SET source_type = 'github_commit'
+WHERE platform = 'github' AND source_type = 'github_comment' AND external_url LIKE '%/commit/%';
+
+ALTER TABLE knowledge_sources
+ADD COLUMN reaction_count INTEGER NOT NULL DEFAULT 0, -- Reactions from people other than the author
+ADD COLUMN is_accepted_answer BOOLEAN NOT NULL DEFAULT FALSE; -- Marked as the answer by the asker
+
+-- The reactions reaction_count is counted from, one row per person and emoji. Keyed by the
+-- source's external ID, since a reaction can arrive before its message is stored.
+CREATE TABLE source_reactions (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL,
+  external_id TEXT NOT NULL, -- knowledge_sources.external_id of the message reacted to
+  reactor_external_id TEXT NOT NULL,
+  reaction TEXT NOT NULL,
+  active BOOLEAN NOT NULL, -- False once the reaction was removed
+  event_at TIMESTAMPTZ NOT NULL, -- When it was last added or removed on the platform
+  CONSTRAINT source_reactions_pkey PRIMARY KEY (organization_id, platform, external_id, reactor_external_id, reaction)
+);
+
+-- =========================
+-- Functions
+-- =========================
+
+-- Record a reaction being added or removed, then recount the reactions of the source from
+-- people other than its author. A reaction is one row per person and emoji holding its
+-- latest state, and an event older than the one stored is ignored, so a redelivered or
+-- out-of-order event cannot move the count. Returns how many sources were recounted.
+CREATE OR REPLACE FUNCTION record_source_reaction(
+  org_id uuid,
+  source_platform text,
+  source_external_id text,
+  reactor text,
+  reaction_name text,
+  reaction_added boolean,
+  reacted_at timestamptz
+)
+RETURNS integer LANGUAGE plpgsql AS $$
+DECLARE
+  updated integer;
+BEGIN
+  INSERT INTO source_reactions AS sr (
+    organization_id, platform, external_id, reactor_external_id, reaction, active, event_at
+  ) VALUES (
+    org_id, source_platform, source_external_id, reactor, reaction_name, reaction_added, reacted_at
+  )
+  ON CONFLICT ON CONSTRAINT source_reactions_pkey DO UPDATE
+  SET active = EXCLUDED.active, event_at = EXCLUDED.event_at
+  WHERE sr.event_at < EXCLUDED.event_at;
+
+  UPDATE knowledge_sources ks
+  SET reaction_count = (
+    SELECT COUNT(*)
+    FROM source_reactions sr
+    WHERE sr.organization_id = ks.organization_id
+      AND sr.platform = ks.platform
+      AND sr.external_id = ks.external_id
+      AND sr.active
+      AND sr.reactor_external_id IS DISTINCT FROM ks.author_external_id
+  )
+  WHERE ks.organization_id = org_id
+    AND ks.platform = source_platform
+    AND ks.external_id = source_external_id;
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  RETURN updated;
+END $$;
+
+-- Recompute topic_experts for an organization, or for some of its people.
+-- Per contribution: topic similarity * type weight * 0.5 ^ (age_days / half_life_days)
+--   * (1 + reaction_weight * ln(1 + reactions)) * (accepted_answer_bonus if accepted)
+-- Per person and topic: 1 - exp(-sum / saturation). People are active in a topic while
+-- their latest contribution to it is within active_window_days. Experts with no
+-- remaining contributions to a topic are zeroed and deactivated.
+CREATE OR REPLACE FUNCTION recompute_topic_experts(
+  org_id uuid,
+  type_weights jsonb, -- {"github_pr": 1.0, ...}; unlisted types weigh default_type_weight
+  half_life_days real DEFAULT 180,
+  active_window_days integer DEFAULT 180,
+  reaction_weight real DEFAULT 0.25,
+  accepted_answer_bonus real DEFAULT 2.0,
+  saturation real DEFAULT 3.0,
+  default_type_weight real DEFAULT 0.5,
+  person_ids uuid[] DEFAULT NULL -- NULL recomputes everyone
+)
+RETURNS TABLE (scored integer, deactivated integer) LANGUAGE plpgsql AS $$
+DECLARE
+  scored_count integer;
+  deactivated_count integer;
+BEGIN
+  WITH contributions AS (
+    SELECT
+      ks.author_person_id AS person_id,
+      ktm.topic_id,
+      COALESCE(ks.platform_created_at, ks.created_at) AS contributed_at,
+      (
+        ktm.similarity_score
+        * COALESCE((type_weights ->> ks.source_type)::real, default_type_weight)
+        * power(
+            0.5,
+            GREATEST(EXTRACT(EPOCH FROM (NOW() - COALESCE(ks.platform_created_at, ks.created_at))) / 86400, 0)
+            / half_life_days
+          )
+        * (1 + reaction_weight * ln(1 + ks.reaction_count))
+        * CASE WHEN ks.is_accepted_answer THEN accepted_answer_bonus ELSE 1 END
+      ) AS weight
+    FROM knowledge_topic_memberships ktm
+    JOIN discovered_topics dt ON dt.id = ktm.topic_id
+    JOIN knowledge_points kp ON kp.id = ktm.knowledge_point_id
+    JOIN knowledge_sources ks ON ks.id = kp.source_id
+    WHERE dt.organization_id = org_id
+      AND ks.organization_id = org_id
+      AND ks.author_person_id IS NOT NULL
+      AND (person_ids IS NULL OR ks.author_person_id = ANY (person_ids))
+  )
+  INSERT INTO topic_experts (
+    person_id, topic_id, expertise_score, contribution_count, last_contribution_at, is_active, updated_at
+  )
+  SELECT
+    c.person_id,
+    c.topic_id,
+    (1 - exp(-SUM(c.weight) / saturation))::real,
+    COUNT(*)::integer,
+    MAX(c.contributed_at),
+    MAX(c.contributed_at) >= NOW() - make_interval(days => active_window_days),
+    NOW()
+  FROM contributions c
+  GROUP BY c.person_id, c.topic_id
+  ON CONFLICT (person_id, topic_id) DO UPDATE SET
+    expertise_score = EXCLUDED.expertise_score,
+    contribution_count = EXCLUDED.contribution_count,
+    last_contribution_at = EXCLUDED.last_contribution_at,
+    is_active = EXCLUDED.is_active,
+    updated_at = EXCLUDED.updated_at;
+
+  GET DIAGNOSTICS scored_count = ROW_COUNT;
+
+  -- Everything scored above carries this transaction's NOW(); older rows lost their contributions
+  UPDATE topic_experts te
+  SET expertise_score = 0, contribution_count = 0, is_active = FALSE, updated_at = NOW()
+  FROM discovered_topics dt
+  WHERE te.topic_id = dt.id
+    AND dt.organization_id = org_id
+    AND (person_ids IS NULL OR te.person_id = ANY (person_ids))
+    AND te.updated_at < NOW()
+    AND (te.is_active OR te.expertise_score > 0);
+
+  GET DIAGNOSTICS deactivated_count = ROW_COUNT;
+
+  RETURN QUERY SELECT scored_count, deactivated_count;
+END $$;
@@ -0,0 +1,88 @@
+-- Durable background jobs
+-- Ingestion, topic assignment, expertise recomputes, topic discovery and backfills used
+-- to run as timers and floating promises inside the web process, so a restart lost them
+-- and nothing retried failures. They are now rows in a queue that workers claim with
+-- FOR UPDATE SKIP LOCKED. Failed jobs are retried with backoff until max_attempts and
+-- then dead-lettered; jobs whose worker vanished are released after a lock timeout.
+
+CREATE TABLE jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- Earliest time the job may run; pushed back on retry
+  locked_at TIMESTAMPTZ,
+  locked_by TEXT, -- Worker ID holding the job
+  last_error TEXT,
+  result JSONB,
+  dedupe_key TEXT, -- At most one queued or running job per (type, dedupe_key)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_jobs_claimable ON jobs(type, run_at) WHERE status = 'queued';
+CREATE INDEX idx_jobs_running ON jobs(type, locked_at) WHERE status = 'running';
+CREATE INDEX idx_jobs_org_created ON jobs(organization_id, created_at DESC);
+CREATE UNIQUE INDEX idx_jobs_dedupe ON jobs(type, dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status IN ('queued', 'running');
+
+-- Claim up to batch_size due jobs of one type for a worker, keeping the number of running
+-- jobs of that type across all workers at or below max_running. Jobs locked longer than
+-- lock_timeout_seconds are released first (or dead-lettered if out of attempts).
+CREATE OR REPLACE FUNCTION claim_jobs(
+  worker_id text,
+  job_type text,
+  max_running integer,
+  batch_size integer DEFAULT 1,
+  lock_timeout_seconds integer DEFAULT 900
+)
+RETURNS SETOF jobs LANGUAGE plpgsql AS $$
+DECLARE
+  running_count integer;
+  available integer;
+BEGIN
+  -- Serialize claims per type so concurrent workers cannot both see a free slot
+  PERFORM pg_advisory_xact_lock(hashtext('claim_jobs:' || job_type));
+
+  UPDATE jobs j
+  SET
+    status = CASE WHEN j.attempts >= j.max_attempts THEN 'dead' ELSE 'queued' END,
+    last_error = 'Worker ' || COALESCE(j.locked_by, 'unknown') || ' timed out',
+    locked_at = NULL,
+    locked_by = NULL,
+    completed_at = CASE WHEN j.attempts >= j.max_attempts THEN NOW() END,
+    updated_at = NOW()
+  WHERE j.type = job_type
+    AND j.status = 'running'
+    AND j.locked_at < NOW() - make_interval(secs => lock_timeout_seconds);
+
+  SELECT COUNT(*) INTO running_count FROM jobs j WHERE j.type = job_type AND j.status = 'running';
+  available := LEAST(batch_size, max_running - running_count);
+  IF available <= 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE jobs j
+  SET
+    status = 'running',
+    attempts = j.attempts + 1,
+    locked_at = NOW(),
+    locked_by = worker_id,
+    updated_at = NOW()
+  WHERE j.id IN (
+    SELECT q.id
+    FROM jobs q
+    WHERE q.type = job_type
+      AND q.status = 'queued'
+      AND q.run_at <= NOW()
+    ORDER BY q.run_at
+    LIMIT available
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END $$;
@@ -0,0 +1,33 @@
+-- Backfill runs
+-- A Slack or GitHub backfill used to report progress only through console logs. Each run
+-- is now a row holding its per-channel (Slack) or per-resource-type (GitHub) cursors, item
+-- counts and errors, written by the backfill job and read by GET /api/backfills/:id.
+-- A retried backfill job continues the same run and skips the units it already finished.
+
+CREATE TABLE backfill_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('slack', 'github')),
+  target TEXT NOT NULL, -- Slack workspace or GitHub "owner/repo"
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  -- { "<unit key>": { "label", "itemsFound", "processed", "skipped", "failed", "done", "cursor" } }
+  -- per channel or resource type
+  cursors JSONB NOT NULL DEFAULT '{}',
+  processed_count INTEGER NOT NULL DEFAULT 0, -- Items handed to ingestion
+  skipped_count INTEGER NOT NULL DEFAULT 0, -- Items without content worth ingesting
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]', -- Most recent errors: [{ "at", "unit", "message" }]
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_backfill_runs_org_created ON backfill_runs(organization_id, created_at DESC);
+
+-- Ingestion jobs queued by a backfill carry its run ID, so the run can report how much
+-- of the import is still waiting to be processed. The predicate is on the indexed
+-- expression itself so lookups by payload->>'backfillRunId' can use the partial index.
+CREATE INDEX idx_jobs_backfill_run ON jobs((payload->>'backfillRunId'))
+  WHERE (payload->>'backfillRunId') IS NOT NULL;
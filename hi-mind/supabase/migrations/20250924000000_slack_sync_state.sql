@@ -0,0 +1,66 @@
+-- Resumable Slack backfill
+-- The backfill used to resume from the newest stored message of a channel, so an
+-- interrupted first backfill never went back for the older history, and thread replies
+-- had no checkpoint at all. Each channel now keeps the contiguous range of history that
+-- has been synced, plus the bounds of an unfinished forward pass; each thread keeps the
+-- newest reply synced. Cursors are saved after every message.
+--
+-- Live, backfilled and thread-reply messages were stored under three different external
+-- IDs ("<channel>_<ts>", "..._backfill", "..._thread"), so the same message could be
+-- enriched more than once. All Slack sources now use "<channel>_<ts>".
+
+CREATE TABLE slack_channel_sync_state (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL,
+  -- Every message in (oldest_ts, newest_ts] has been synced; both are Slack timestamps
+  newest_ts TEXT NOT NULL,
+  oldest_ts TEXT NOT NULL,
+  history_complete BOOLEAN NOT NULL DEFAULT false, -- oldest_ts reached the start of the channel
+  -- Unfinished forward pass filling (newest_ts, forward_target_ts], walked newest first
+  forward_target_ts TEXT,
+  forward_cursor_ts TEXT, -- Oldest message the forward pass has synced
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (organization_id, channel_id)
+);
+
+CREATE TABLE slack_thread_sync_state (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL,
+  thread_ts TEXT NOT NULL,
+  latest_reply_ts TEXT NOT NULL, -- Newest reply synced; replies are walked oldest first
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (organization_id, channel_id, thread_ts)
+);
+
+-- The backfill skips messages that already have an ingestion job in any state
+CREATE INDEX idx_jobs_dedupe_key ON jobs(dedupe_key) WHERE dedupe_key IS NOT NULL;
+
+-- Fold suffixed Slack IDs into the canonical one, keeping the newest copy of a message
+WITH suffixed AS (
+  SELECT
+    id,
+    organization_id,
+    regexp_replace(external_id, '_(backfill|thread)$', '') AS canonical_id,
+    row_number() OVER (
+      PARTITION BY organization_id, regexp_replace(external_id, '_(backfill|thread)$', '')
+      ORDER BY created_at DESC
+    ) AS copy_rank
+  FROM knowledge_sources
+  WHERE platform = 'slack' AND external_id ~ '_(backfill|thread)$'
+)
+UPDATE knowledge_sources ks
+SET external_id = suffixed.canonical_id
+FROM suffixed
+WHERE ks.id = suffixed.id
+  AND suffixed.copy_rank = 1
+  AND NOT EXISTS (
+    SELECT 1 FROM knowledge_sources canonical
+    WHERE canonical.organization_id = suffixed.organization_id
+      AND canonical.platform = 'slack'
+      AND canonical.external_id = suffixed.canonical_id
+  );
+
+-- What is left are duplicates of a message that already has a canonical row
+DELETE FROM knowledge_sources
+WHERE platform = 'slack' AND external_id ~ '_(backfill|thread)$';
@@ -0,0 +1,269 @@
+-- Edited and deleted sources
+-- Slack edits and deletions were ignored, so corrected answers kept their old content and
+-- deleted messages stayed searchable. An edit now re-ingests the source, and older
+-- versions still queued are skipped by comparing platform_updated_at. A deletion leaves a
+-- tombstone: the content is cleared, the knowledge point removed and deleted_at set, so
+-- an ingestion job queued before the deletion cannot bring the message back.
+--
+-- Ingestion checks this once more when it writes: the source is only updated while it is
+-- not deleted and not newer than the version being ingested, and its knowledge point is
+-- only stored through store_knowledge_point, so a deletion or edit that lands while a job
+-- is enriching an older version wins.
+
+ALTER TABLE knowledge_sources
+ADD COLUMN platform_updated_at TIMESTAMPTZ, -- Last edit on the platform
+ADD COLUMN deleted_at TIMESTAMPTZ; -- Deleted on the platform; content has been cleared
+
+-- Deleted messages no longer serve as conversation context
+CREATE OR REPLACE FUNCTION get_channel_context(
+  channel_id_param TEXT,
+  before_timestamp TIMESTAMPTZ,
+  message_limit INTEGER DEFAULT 10
+) RETURNS TABLE (
+  content TEXT,
+  author_external_id TEXT,
+  platform_created_at TIMESTAMPTZ,
+  external_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ks.content,
+    ks.author_external_id,
+    ks.platform_created_at,
+    ks.external_id
+  FROM knowledge_sources ks
+  WHERE ks.channel_id = channel_id_param
+    AND ks.platform_created_at < before_timestamp
+    AND ks.platform = 'slack'
+    AND ks.deleted_at IS NULL
+  ORDER BY ks.platform_created_at DESC
+  LIMIT message_limit;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_thread_context(
+  thread_ts_param TEXT,
+  channel_id_param TEXT
+) RETURNS TABLE (
+  content TEXT,
+  author_external_id TEXT,
+  platform_created_at TIMESTAMPTZ,
+  external_id TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    ks.content,
+    ks.author_external_id,
+    ks.platform_created_at,
+    ks.external_id
+  FROM knowledge_sources ks
+  WHERE ks.thread_ts = thread_ts_param
+    AND ks.channel_id = channel_id_param
+    AND ks.platform = 'slack'
+    AND ks.deleted_at IS NULL
+  ORDER BY ks.platform_created_at ASC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Knowledge retrieval as in 20250912000000_search_filters.sql, leaving out deleted sources.
+-- Their knowledge points are removed with them, but a point left behind must not be found.
+CREATE OR REPLACE FUNCTION find_similar_knowledge(
+  query_embedding vector,
+  org_id uuid,
+  model_name text DEFAULT NULL,
+  similarity_threshold real DEFAULT 0.8,
+  result_limit integer DEFAULT 10,
+  query_text text DEFAULT NULL,
+  retrieval_mode text DEFAULT 'vector', -- 'vector' | 'lexical' | 'hybrid'
+  rrf_k integer DEFAULT 60,
+  -- NULL filters match everything
+  filter_platform text DEFAULT NULL,
+  filter_source_types text[] DEFAULT NULL,
+  filter_author_person_ids uuid[] DEFAULT NULL,
+  filter_channel_ids text[] DEFAULT NULL,
+  filter_repositories text[] DEFAULT NULL, -- "owner/repo", case-insensitive
+  created_after timestamptz DEFAULT NULL,
+  created_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  knowledge_point_id uuid,
+  source_id uuid,
+  summary text,
+  similarity_score real,
+  source_url text,
+  source_title text,
+  author_name text,
+  platform text,
+  lexical_score real,
+  fused_score real
+) LANGUAGE plpgsql AS $$
+DECLARE
+  -- Each ranking contributes more candidates than are returned so fusion can reorder them
+  candidate_limit integer := GREATEST(result_limit * 4, 50);
+  text_query tsquery;
+  query_terms text[];
+  repositories text[];
+BEGIN
+  IF retrieval_mode NOT IN ('vector', 'lexical', 'hybrid') THEN
+    RAISE EXCEPTION 'Unknown retrieval_mode "%" (expected vector, lexical or hybrid)', retrieval_mode;
+  END IF;
+  IF retrieval_mode <> 'vector' AND COALESCE(btrim(query_text), '') = '' THEN
+    RAISE EXCEPTION 'query_text is required for % retrieval', retrieval_mode;
+  END IF;
+  IF retrieval_mode <> 'lexical' AND query_embedding IS NULL THEN
+    RAISE EXCEPTION 'query_embedding is required for % retrieval', retrieval_mode;
+  END IF;
+
+  IF filter_repositories IS NOT NULL THEN
+    SELECT array_agg(lower(r)) INTO repositories FROM unnest(filter_repositories) r;
+  END IF;
+
+  IF retrieval_mode <> 'vector' THEN
+    text_query := websearch_to_tsquery('english', query_text) || websearch_to_tsquery('simple', query_text);
+    query_terms := regexp_split_to_array(lower(btrim(query_text)), '\s+');
+  END IF;
+
+  RETURN QUERY
+  WITH vector_hits AS (
+    SELECT
+      kp.id,
+      (1 - (kp.embedding <=> query_embedding))::real AS score,
+      row_number() OVER (ORDER BY kp.embedding <=> query_embedding) AS rank
+    FROM knowledge_points kp
+    JOIN knowledge_sources ks ON kp.source_id = ks.id
+    WHERE retrieval_mode <> 'lexical'
+      AND ks.organization_id = org_id
+      AND ks.deleted_at IS NULL
+      AND (model_name IS NULL OR kp.embedding_model = model_name)
+      -- Comparing vectors of different lengths raises an error, and AND does not fix the
+      -- order its operands are evaluated in, so only compare once the dimensions match
+      AND CASE WHEN kp.embedding_dimensions = vector_dims(query_embedding)
+        THEN (1 - (kp.embedding <=> query_embedding)) > similarity_threshold
+        ELSE false
+      END
+      AND (filter_platform IS NULL OR ks.platform = filter_platform)
+      AND (filter_source_types IS NULL OR ks.source_type = ANY (filter_source_types))
+      AND (filter_author_person_ids IS NULL OR ks.author_person_id = ANY (filter_author_person_ids))
+      AND (filter_channel_ids IS NULL OR ks.channel_id = ANY (filter_channel_ids))
+      AND (filter_repositories IS NULL OR ks.repository = ANY (repositories))
+      AND (created_after IS NULL OR ks.platform_created_at >= created_after)
+      AND (created_before IS NULL OR ks.platform_created_at < created_before)
+    ORDER BY kp.embedding <=> query_embedding
+    LIMIT candidate_limit
+  ),
+  lexical_candidates AS (
+    SELECT
+      kp.id,
+      (
+        ts_rank_cd(ks.search_vector || kp.search_vector, text_query)
+        + word_similarity(query_text, COALESCE(ks.title, '') || ' ' || kp.summary)
+        -- Exact keyword hits are the strongest lexical signal
+        + (SELECT COUNT(*) FROM unnest(kp.keywords) kw WHERE lower(kw) = ANY (query_terms))
+      )::real AS score
+    FROM knowledge_points kp
+    JOIN knowledge_sources ks ON kp.source_id = ks.id
+    WHERE retrieval_mode <> 'vector'
+      AND ks.organization_id = org_id
+      AND ks.deleted_at IS NULL
+      AND (filter_platform IS NULL OR ks.platform = filter_platform)
+      AND (filter_source_types IS NULL OR ks.source_type = ANY (filter_source_types))
+      AND (filter_author_person_ids IS NULL OR ks.author_person_id = ANY (filter_author_person_ids))
+      AND (filter_channel_ids IS NULL OR ks.channel_id = ANY (filter_channel_ids))
+      AND (filter_repositories IS NULL OR ks.repository = ANY (repositories))
+      AND (created_after IS NULL OR ks.platform_created_at >= created_after)
+      AND (created_before IS NULL OR ks.platform_created_at < created_before)
+      AND (
+        ks.search_vector @@ text_query
+        OR kp.search_vector @@ text_query
+        OR query_text <% ks.content
+        OR kp.keywords && query_terms
+      )
+  ),
+  lexical_hits AS (
+    SELECT
+      lc.id,
+      lc.score,
+      row_number() OVER (ORDER BY lc.score DESC) AS rank
+    FROM lexical_candidates lc
+    ORDER BY lc.score DESC
+    LIMIT candidate_limit
+  ),
+  fused AS (
+    SELECT
+      COALESCE(vh.id, lh.id) AS id,
+      vh.score AS vector_score,
+      lh.score AS text_score,
+      (
+        COALESCE(1.0 / (rrf_k + vh.rank), 0) + COALESCE(1.0 / (rrf_k + lh.rank), 0)
+      )::real AS score
+    FROM vector_hits vh
+    FULL OUTER JOIN lexical_hits lh ON vh.id = lh.id
+  )
+  SELECT
+    kp.id,
+    ks.id,
+    kp.summary,
+    f.vector_score,
+    ks.external_url,
+    ks.title,
+    p.display_name,
+    ks.platform,
+    f.text_score,
+    f.score
+  FROM fused f
+  JOIN knowledge_points kp ON kp.id = f.id
+  JOIN knowledge_sources ks ON kp.source_id = ks.id
+  LEFT JOIN people p ON ks.author_person_id = p.id
+  ORDER BY f.score DESC, f.vector_score DESC NULLS LAST
+  LIMIT result_limit;
+END $$;
+
+-- Store the knowledge point of a source, as long as the source is not deleted and still
+-- at the version the point was made from. The source row is locked while the point is
+-- written, so a deletion waits for it and then removes the point. Returns the point's id,
+-- or NULL when the source moved on.
+CREATE OR REPLACE FUNCTION store_knowledge_point(
+  point jsonb,
+  source_version timestamptz
+)
+RETURNS uuid LANGUAGE plpgsql AS $$
+DECLARE
+  new_point knowledge_points := jsonb_populate_record(NULL::knowledge_points, point);
+  point_id uuid;
+BEGIN
+  PERFORM 1
+  FROM knowledge_sources ks
+  WHERE ks.id = new_point.source_id
+    AND ks.deleted_at IS NULL
+    AND ks.platform_updated_at IS NOT DISTINCT FROM source_version
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO knowledge_points (
+    source_id, summary, contextual_summary, context_sources, keywords, embedding,
+    embedding_model, base_quality_score, quality_score, relevance_score
+  ) VALUES (
+    new_point.source_id, new_point.summary, new_point.contextual_summary,
+    new_point.context_sources, new_point.keywords, new_point.embedding,
+    new_point.embedding_model, new_point.base_quality_score, new_point.quality_score,
+    new_point.relevance_score
+  )
+  ON CONFLICT (source_id) DO UPDATE SET
+    summary = EXCLUDED.summary,
+    contextual_summary = EXCLUDED.contextual_summary,
+    context_sources = EXCLUDED.context_sources,
+    keywords = EXCLUDED.keywords,
+    embedding = EXCLUDED.embedding,
+    embedding_model = EXCLUDED.embedding_model,
+    base_quality_score = EXCLUDED.base_quality_score,
+    quality_score = EXCLUDED.quality_score,
+    relevance_score = EXCLUDED.relevance_score
+  RETURNING id INTO point_id;
+
+  RETURN point_id;
+END $$;
@@ -0,0 +1,35 @@
+-- Search feedback and expert routing
+-- Slack search results carry "Helpful / Not helpful" buttons, a link button per result and
+-- an "Ask this expert" button per suggested expert. Their clicks fill was_helpful,
+-- clicked_results and routed_to_expert_id of search_queries, which nothing wrote before.
+-- Every expert a search suggests is recorded in expert_routes, so the Slack App Home can
+-- show people the questions that were routed to them.
+
+CREATE TABLE expert_routes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  search_query_id UUID NOT NULL REFERENCES search_queries(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES people(id) ON DELETE CASCADE,
+  expertise_score REAL NOT NULL, -- Query-weighted expertise the suggestion was based on
+  asked_at TIMESTAMPTZ, -- When the searcher pressed "Ask this expert"
+  asked_by_external_id TEXT, -- Slack user who asked
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (search_query_id, person_id)
+);
+
+CREATE INDEX idx_expert_routes_person_created ON expert_routes(person_id, created_at DESC);
+
+-- Record a click on a search result once, however often it is clicked
+CREATE OR REPLACE FUNCTION record_search_click(
+  org_id uuid,
+  search_id uuid,
+  knowledge_point_id uuid
+)
+RETURNS void LANGUAGE sql AS $$
+  UPDATE search_queries
+  SET clicked_results = array_append(coalesce(clicked_results, '{}'), knowledge_point_id)
+  WHERE id = search_id
+    AND organization_id = org_id
+    AND NOT (knowledge_point_id = ANY (coalesce(clicked_results, '{}')));
+$$;
@@ -0,0 +1,37 @@
+-- Expert routing
+-- When no match of a Slack search is confident enough, HiMind DMs the best available
+-- expert the question. Organizations opt in through expert_routing_settings; people can
+-- opt out themselves, and each person receives at most max_routes_per_day questions,
+-- counting both automatic routes and "Ask this expert" clicks. The outcome of every
+-- routing decision is written to search_queries.
+
+CREATE TABLE expert_routing_settings (
+  organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  min_match_score REAL NOT NULL DEFAULT 0.5, -- Route when the best match scores below this
+  min_expertise_score REAL NOT NULL DEFAULT 0.2, -- Experts below this are not routed to
+  max_routes_per_day INTEGER NOT NULL DEFAULT 3 CHECK (max_routes_per_day > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE people
+ADD COLUMN routing_opted_out_at TIMESTAMPTZ; -- Set while the person receives no routed questions
+
+ALTER TABLE expert_routes
+ADD COLUMN routed_at TIMESTAMPTZ; -- When HiMind DMed the expert on its own
+
+ALTER TABLE search_queries
+ADD COLUMN routing_outcome TEXT CHECK (routing_outcome IN (
+  'routed', -- DMed routed_to_expert_id
+  'asked', -- The searcher pressed "Ask this expert"
+  'not_needed', -- A match was confident enough
+  'no_expert', -- Nobody suggested, or nobody reachable on Slack
+  'unavailable', -- Every candidate opted out or hit the rate limit
+  'failed' -- The DM could not be sent
+));
+
+CREATE INDEX idx_expert_routes_person_routed ON expert_routes(person_id, routed_at)
+  WHERE routed_at IS NOT NULL;
+CREATE INDEX idx_expert_routes_person_asked ON expert_routes(person_id, asked_at)
+  WHERE asked_at IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Proactive answer suggestions
+-- HiMind can reply in the thread of a new question in a public channel with knowledge it
+-- is confident answers it. Suggestions are off until enabled per channel, only matches
+-- scoring at least min_confidence are posted, and a channel gets at most one suggestion
+-- per cooldown_minutes.
+
+CREATE TABLE slack_channel_settings (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL,
+  suggestions_enabled BOOLEAN NOT NULL DEFAULT false,
+  min_confidence REAL NOT NULL DEFAULT 0.75 CHECK (min_confidence BETWEEN 0 AND 1),
+  cooldown_minutes INTEGER NOT NULL DEFAULT 30 CHECK (cooldown_minutes >= 0),
+  last_suggested_at TIMESTAMPTZ, -- Last suggestion posted, for the cooldown
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (organization_id, channel_id)
+);
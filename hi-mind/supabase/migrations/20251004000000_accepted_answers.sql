@@ -0,0 +1,74 @@
+-- Accepted answers
+-- knowledge_sources.is_accepted_answer fed the expertise model but nothing ever set it.
+-- When the person who started a Slack thread reacts to a reply with an answer emoji (✅ by
+-- default), the reply becomes the thread's accepted answer: it is linked to the question
+-- if the question is stored (most are not), its knowledge point's quality is raised and
+-- its author's expertise gets the accepted answer bonus on the next recompute. Removing
+-- the reaction reverses all of it.
+
+ALTER TABLE knowledge_sources
+ADD COLUMN answers_source_id UUID REFERENCES knowledge_sources(id) ON DELETE SET NULL, -- The question it answers, when stored
+ADD COLUMN accepted_by_external_id TEXT, -- Who accepted it; only they can take it back
+ADD COLUMN accepted_at TIMESTAMPTZ;
+
+CREATE INDEX idx_knowledge_sources_answers ON knowledge_sources(answers_source_id)
+  WHERE answers_source_id IS NOT NULL;
+
+-- quality_score is raised for accepted answers; base_quality_score keeps the computed
+-- score so the raise can be undone
+ALTER TABLE knowledge_points
+ADD COLUMN base_quality_score REAL CHECK (base_quality_score >= 0 AND base_quality_score <= 1);
+
+UPDATE knowledge_points SET base_quality_score = quality_score;
+
+-- Accept a source as the answer to a question, or take the acceptance back. Only the
+-- person who accepted an answer can take it back. question_source_id is NULL when the
+-- question is not stored. Returns whether anything changed.
+CREATE OR REPLACE FUNCTION set_accepted_answer(
+  org_id uuid,
+  answer_source_id uuid,
+  question_source_id uuid,
+  reactor_external_id text,
+  accepted boolean,
+  accepted_quality real DEFAULT 0.95
+)
+RETURNS boolean LANGUAGE plpgsql AS $$
+DECLARE
+  updated integer;
+BEGIN
+  IF accepted THEN
+    UPDATE knowledge_sources ks
+    SET is_accepted_answer = TRUE,
+        answers_source_id = question_source_id,
+        accepted_by_external_id = reactor_external_id,
+        accepted_at = NOW()
+    WHERE ks.id = answer_source_id
+      AND ks.organization_id = org_id
+      AND NOT ks.is_accepted_answer;
+  ELSE
+    UPDATE knowledge_sources ks
+    SET is_accepted_answer = FALSE,
+        answers_source_id = NULL,
+        accepted_by_external_id = NULL,
+        accepted_at = NULL
+    WHERE ks.id = answer_source_id
+      AND ks.organization_id = org_id
+      AND ks.is_accepted_answer
+      AND ks.accepted_by_external_id = reactor_external_id;
+  END IF;
+
+  GET DIAGNOSTICS updated = ROW_COUNT;
+  IF updated = 0 THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE knowledge_points kp
+  SET base_quality_score = COALESCE(kp.base_quality_score, kp.quality_score),
+      quality_score = CASE
+        WHEN accepted THEN GREATEST(COALESCE(kp.base_quality_score, kp.quality_score), accepted_quality)
+        ELSE COALESCE(kp.base_quality_score, kp.quality_score)
+      END
+  WHERE kp.source_id = answer_source_id;
+
+  RETURN TRUE;
+END $$;
@@ -0,0 +1,20 @@
+-- GitHub discussions
+-- Issue comments, pull request reviews and inline review comments are ingested as
+-- github_comment sources. Each belongs to an issue or pull request by repository and
+-- number, which is read from its URL like the repository is, so comments, their parent
+-- and the other comments on it can be found together for context enrichment. Inline
+-- review comments keep the file and lines they are anchored to.
+
+ALTER TABLE knowledge_sources
+ADD COLUMN github_number INTEGER GENERATED ALWAYS AS (
+  CASE WHEN platform = 'github'
+    THEN substring(external_url FROM 'github\.com/[^/]+/[^/]+/(?:issues|pull)/([0-9]+)')::integer
+  END
+) STORED, -- Issue or pull request number; comments share their parent's
+ADD COLUMN file_path TEXT, -- File an inline review comment is anchored to
+ADD COLUMN line_start INTEGER, -- First line of a multi-line review comment
+ADD COLUMN line_end INTEGER; -- Line the review comment is on
+
+CREATE INDEX idx_knowledge_sources_github_thread
+  ON knowledge_sources(organization_id, repository, github_number, platform_created_at)
+  WHERE github_number IS NOT NULL;
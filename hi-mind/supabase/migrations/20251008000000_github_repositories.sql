@@ -0,0 +1,41 @@
+-- Tracked GitHub repositories
+-- Organizations track any number of repositories instead of the single GITHUB_REPOSITORY.
+-- Admins add repositories one by one, or let discovery add every repository of a GitHub
+-- organization that matches include/exclude patterns. Each repository has its own sync
+-- status and cursor and can be disabled; backfills and webhooks skip disabled ones.
+
+CREATE TABLE github_repositories (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  owner TEXT NOT NULL,
+  name TEXT NOT NULL,
+  full_name TEXT GENERATED ALWAYS AS (lower(owner || '/' || name)) STORED, -- Matches knowledge_sources.repository
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  discovered BOOLEAN NOT NULL DEFAULT false, -- Added by discovery rather than by an admin
+  sync_status TEXT NOT NULL DEFAULT 'never_synced' CHECK (sync_status IN (
+    'never_synced', 'queued', 'syncing', 'synced', 'failed'
+  )),
+  sync_cursor TIMESTAMPTZ, -- When the last successful sync started; later changes are not synced yet
+  last_synced_at TIMESTAMPTZ, -- When the last successful sync finished
+  last_backfill_run_id UUID REFERENCES backfill_runs(id) ON DELETE SET NULL,
+  last_error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (organization_id, full_name)
+);
+
+CREATE INDEX idx_github_repositories_org_enabled ON github_repositories(organization_id) WHERE enabled;
+
+CREATE TABLE github_discovery_settings (
+  organization_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  account_login TEXT, -- GitHub organization or user whose repositories are tracked
+  include_patterns TEXT[] NOT NULL DEFAULT '{}', -- Globs on the repository name; empty includes all
+  exclude_patterns TEXT[] NOT NULL DEFAULT '{}',
+  include_forks BOOLEAN NOT NULL DEFAULT false,
+  include_archived BOOLEAN NOT NULL DEFAULT false,
+  last_discovered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,20 @@
+-- Incremental GitHub sync
+-- Backfills listed the whole history of a repository on every sync. Each listing
+-- (issues, commits, releases, issue comments, review comments, reviews) of a repository
+-- now keeps the time its last sync with changes started, so the next sync only asks for
+-- what changed since, and the ETag of a listing that found nothing new, so the next
+-- sync can ask with If-None-Match and get a 304 that costs no rate limit. Commits are
+-- filtered by commit date, so a branch merged after a sync would bring commits dated
+-- before it: the commits listing also keeps the default branch HEAD it reached, and the
+-- next sync compares against it instead.
+
+CREATE TABLE github_sync_state (
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  repository TEXT NOT NULL, -- Lowercase "owner/repo", like github_repositories.full_name
+  resource TEXT NOT NULL, -- Which listing: issues, commits, releases, issue_comments, review_comments, reviews
+  since TIMESTAMPTZ, -- Everything changed before this has been synced
+  etag TEXT, -- ETag of the listing's first page when last listed with this since
+  head_sha TEXT, -- Commits only: the default branch HEAD the last sync reached
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (organization_id, repository, resource)
+);
@@ -0,0 +1,39 @@
+-- GitHub events
+-- The event repository only logged what backfills and webhooks saw. Every issue, pull
+-- request, commit, release, comment and review they process is now stored as an event:
+-- one row per version of the resource, keyed by when GitHub last changed it, so syncing
+-- an unchanged resource again adds nothing and closing or merging it adds a row whose
+-- previous_status shows the transition. The GitHub API object is kept so events can be
+-- replayed into the knowledge engine.
+
+CREATE TABLE github_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  repository TEXT NOT NULL, -- Lowercase "owner/repo", like knowledge_sources.repository
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'issue', 'pull_request', 'commit', 'release', 'issue_comment', 'review', 'review_comment'
+  )),
+  external_id TEXT NOT NULL, -- GitHub id (sha for commits)
+  title TEXT,
+  author TEXT, -- GitHub login or commit author name
+  status TEXT, -- open, closed, merged, committed, published, draft, approved, ...
+  previous_status TEXT, -- Status of the resource's previous event; differs on a transition
+  labels TEXT[] NOT NULL DEFAULT '{}',
+  assignees TEXT[] NOT NULL DEFAULT '{}',
+  milestone TEXT,
+  closed_at TIMESTAMPTZ,
+  merged_at TIMESTAMPTZ,
+  url TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  payload JSONB, -- The GitHub API object, for replay
+  platform_created_at TIMESTAMPTZ NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL, -- When GitHub last changed the resource
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE (organization_id, event_type, external_id, occurred_at)
+);
+
+-- Pages are read newest first by (occurred_at, id), since events can occur at once
+CREATE INDEX idx_github_events_org_occurred ON github_events(organization_id, occurred_at DESC, id DESC);
+CREATE INDEX idx_github_events_org_repository ON github_events(organization_id, repository, occurred_at DESC, id DESC);
+CREATE INDEX idx_github_events_org_type ON github_events(organization_id, event_type, occurred_at DESC, id DESC);
@@ -0,0 +1,90 @@
+-- Batched job claims and lock heartbeats
+-- Workers claimed each job type with its own claim_jobs call, so every poll made one
+-- round trip per type. claim_jobs now takes every type with its limits and claims them
+-- in one call. Long handlers also outlived their lock timeout and were released to a
+-- second worker while still running; workers now extend the locks of the jobs they run
+-- with heartbeat_jobs, so the timeout only releases jobs whose worker is gone.
+
+DROP FUNCTION IF EXISTS claim_jobs(text, text, integer, integer, integer);
+
+-- Claim due jobs of several types for a worker. For each type, at most batch_sizes[i]
+-- jobs are claimed, keeping the number of running jobs of that type across all workers
+-- at or below max_running[i]. Jobs locked longer than lock_timeout_seconds[i] are
+-- released first (or dead-lettered if out of attempts).
+CREATE OR REPLACE FUNCTION claim_jobs(
+  worker_id text,
+  job_types text[],
+  max_running integer[],
+  batch_sizes integer[],
+  lock_timeout_seconds integer[]
+)
+RETURNS SETOF jobs LANGUAGE plpgsql AS $$
+DECLARE
+  claim record;
+  running_count integer;
+  available integer;
+BEGIN
+  -- Types are locked in a fixed order so concurrent workers cannot deadlock
+  FOR claim IN
+    SELECT *
+    FROM unnest(job_types, max_running, batch_sizes, lock_timeout_seconds)
+      AS c(job_type, running_limit, batch_size, lock_timeout)
+    ORDER BY c.job_type
+  LOOP
+    CONTINUE WHEN claim.batch_size <= 0;
+
+    -- Serialize claims per type so concurrent workers cannot both see a free slot
+    PERFORM pg_advisory_xact_lock(hashtext('claim_jobs:' || claim.job_type));
+
+    UPDATE jobs j
+    SET
+      status = CASE WHEN j.attempts >= j.max_attempts THEN 'dead' ELSE 'queued' END,
+      last_error = 'Worker ' || COALESCE(j.locked_by, 'unknown') || ' timed out',
+      locked_at = NULL,
+      locked_by = NULL,
+      completed_at = CASE WHEN j.attempts >= j.max_attempts THEN NOW() END,
+      updated_at = NOW()
+    WHERE j.type = claim.job_type
+      AND j.status = 'running'
+      AND j.locked_at < NOW() - make_interval(secs => claim.lock_timeout);
+
+    SELECT COUNT(*) INTO running_count FROM jobs j WHERE j.type = claim.job_type AND j.status = 'running';
+    available := LEAST(claim.batch_size, claim.running_limit - running_count);
+    CONTINUE WHEN available <= 0;
+
+    RETURN QUERY
+    UPDATE jobs j
+    SET
+      status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = NOW(),
+      locked_by = worker_id,
+      updated_at = NOW()
+    WHERE j.id IN (
+      SELECT q.id
+      FROM jobs q
+      WHERE q.type = claim.job_type
+        AND q.status = 'queued'
+        AND q.run_at <= NOW()
+      ORDER BY q.run_at
+      LIMIT available
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+  END LOOP;
+END $$;
+
+-- Extend the locks a worker holds on its running jobs. Returns the IDs it still holds;
+-- a job missing from the result was released after a timeout and may run elsewhere.
+CREATE OR REPLACE FUNCTION heartbeat_jobs(
+  worker_id text,
+  job_ids uuid[]
+)
+RETURNS SETOF uuid LANGUAGE sql AS $$
+  UPDATE jobs j
+  SET locked_at = NOW(), updated_at = NOW()
+  WHERE j.id = ANY (job_ids)
+    AND j.status = 'running'
+    AND j.locked_by = worker_id
+  RETURNING j.id;
+$$;